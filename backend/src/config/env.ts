@@ -28,10 +28,42 @@ interface Config {
   cors: {
     origin: string;
   };
+  images: {
+    maxSizeBytes: number;
+    thumbnailSize: number;
+  };
+  maps: {
+    legacyOwnerId: string | null;
+  };
+  locks: {
+    ttlMs: number;
+  };
+  imports: {
+    maxSizeBytes: number;
+    maxUncompressedBytes: number;
+    maxFeatures: number;
+  };
+  cluster: {
+    enabled: boolean;
+    heartbeatIntervalMs: number;
+    nodeTtlMs: number;
+  };
+  auth: {
+    mode: 'jwt' | 'dev';
+    jwt: {
+      secret: string | null;
+      publicKeyPath: string | null;
+      algorithms: string[];
+      issuer: string | null;
+      audience: string | null;
+    };
+  };
 }
 
+const nodeEnv = process.env.NODE_ENV || 'development';
+
 const config: Config = {
-  nodeEnv: process.env.NODE_ENV || 'development',
+  nodeEnv,
   port: parseInt(process.env.PORT || '5000', 10),
   database: {
     host: process.env.DB_HOST || 'localhost',
@@ -48,6 +80,45 @@ const config: Config = {
   cors: {
     origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
   },
+  images: {
+    maxSizeBytes: parseInt(process.env.IMAGE_MAX_SIZE_BYTES || String(10 * 1024 * 1024), 10),
+    thumbnailSize: parseInt(process.env.IMAGE_THUMBNAIL_SIZE || '256', 10),
+  },
+  maps: {
+    // Owner given to maps created before roles existed, which nobody can manage otherwise
+    legacyOwnerId: process.env.LEGACY_MAP_OWNER_ID || null,
+  },
+  locks: {
+    // Feature locks expire unless renewed by a heartbeat within this time
+    ttlMs: parseInt(process.env.LOCK_TTL_MS || '30000', 10),
+  },
+  imports: {
+    maxSizeBytes: parseInt(process.env.IMPORT_MAX_SIZE_BYTES || String(50 * 1024 * 1024), 10),
+    // Everything read from a zipped import once inflated (KMZ, zipped shapefiles)
+    maxUncompressedBytes: parseInt(process.env.IMPORT_MAX_UNCOMPRESSED_BYTES || String(200 * 1024 * 1024), 10),
+    // Features created by a single import (all of them are broadcast in one event)
+    maxFeatures: parseInt(process.env.IMPORT_MAX_FEATURES || '10000', 10),
+  },
+  cluster: {
+    // Several instances behind a load balancer - broadcasts are relayed between them through Postgres
+    enabled: process.env.SOCKET_CLUSTER === 'true',
+    heartbeatIntervalMs: parseInt(process.env.CLUSTER_HEARTBEAT_INTERVAL_MS || '10000', 10),
+    // Presence and selections of an instance without a heartbeat for this long are dropped
+    nodeTtlMs: parseInt(process.env.CLUSTER_NODE_TTL_MS || '30000', 10),
+  },
+  auth: {
+    // The dev stub trusts whatever identity the client claims - never use it in production
+    mode: (process.env.AUTH_MODE || (nodeEnv === 'development' ? 'dev' : 'jwt')) as 'jwt' | 'dev',
+    jwt: {
+      secret: process.env.JWT_SECRET || null,
+      publicKeyPath: process.env.JWT_PUBLIC_KEY_PATH || null,
+      algorithms: (process.env.JWT_ALGORITHMS || (process.env.JWT_PUBLIC_KEY_PATH ? 'RS256' : 'HS256'))
+        .split(',')
+        .map(algorithm => algorithm.trim()),
+      issuer: process.env.JWT_ISSUER || null,
+      audience: process.env.JWT_AUDIENCE || null,
+    },
+  },
 };
 
 export default config;
\ No newline at end of file
@@ -6,6 +6,13 @@ import { FeatureHistoryRepository } from '../db/repos/feature-history.repo.js';
 import { MapsRepository } from '../db/repos/maps.repo.js';
 import { CommentsRepository } from '../db/repos/comments.repo.js';
 import { RepliesRepository } from '../db/repos/replies.repo.js';
+import { FeatureImagesRepository } from '../db/repos/feature-images.repo.js';
+import { MapMembersRepository } from '../db/repos/map-members.repo.js';
+import { PresenceRepository } from '../db/repos/presence.repo.js';
+import { SocketNodesRepository } from '../db/repos/socket-nodes.repo.js';
+import { FeatureLocksRepository } from '../db/repos/feature-locks.repo.js';
+import { PresenceHolder, FeatureLockMode } from '../types/socket.js';
+import { CommentStatus } from '../types/index.js';
 
 /**
  * Initialize repositories and attach them to the database object
@@ -19,34 +26,59 @@ export const initRepositories = (): void => {
   const featureHistoryRepo = new FeatureHistoryRepository(db);
   const commentsRepo = new CommentsRepository(db);
   const repliesRepo = new RepliesRepository(db);
+  const featureImagesRepo = new FeatureImagesRepository(db);
+  const mapMembersRepo = new MapMembersRepository(db);
+  const presenceRepo = new PresenceRepository(db);
+  const socketNodesRepo = new SocketNodesRepository(db);
+  const featureLocksRepo = new FeatureLocksRepository(db);
   
   // Extend db object with repository methods
   Object.assign(db, {
     // Maps methods
     getMaps: () => mapsRepo.getMaps(),
+    getMapsForUser: (userId: string) => mapsRepo.getMapsForUser(userId),
     getMap: (id: number) => mapsRepo.getMap(id),
     createMap: (name: string, description: string | null) => mapsRepo.createMap(name, description),
     updateMap: (id: number, name: string, description: string | null) => mapsRepo.updateMap(id, name, description),
     deleteMap: (id: number) => mapsRepo.deleteMap(id),
     
+    // Map membership methods
+    getMapMembers: (mapId: number) => mapMembersRepo.getMapMembers(mapId),
+    getMapMember: (mapId: number, userId: string) => mapMembersRepo.getMapMember(mapId, userId),
+    hasMapMembers: (mapId: number) => mapMembersRepo.hasMapMembers(mapId),
+    setMapMember: (mapId: number, userId: string, userName: string | null, role: any, addedBy: string | null) => 
+      mapMembersRepo.setMapMember(mapId, userId, userName, role, addedBy),
+    removeMapMember: (mapId: number, userId: string) => mapMembersRepo.removeMapMember(mapId, userId),
+    countMapOwners: (mapId: number) => mapMembersRepo.countMapOwners(mapId),
+    
     // Feature methods
     getMapFeatures: (mapId: number) => featuresRepo.getMapFeatures(mapId),
+    forEachMapFeatureBatch: (mapId: number, batchSize: number, onBatch: (features: any[]) => Promise<void>) =>
+      featuresRepo.forEachMapFeatureBatch(mapId, batchSize, onBatch),
     getMapFeaturesByType: (mapId: number, featureType: string) => featuresRepo.getMapFeaturesByType(mapId, featureType),
     getFeature: (id: string) => featuresRepo.getFeature(id),
+    getFeaturesByIds: (mapId: number, ids: string[], tolerance?: number) =>
+      featuresRepo.getFeaturesByIds(mapId, ids, tolerance),
+    getMapFeatureIds: (mapId: number, ids: string[]) => featuresRepo.getMapFeatureIds(mapId, ids),
     getFeatureByClientId: (clientId: string, mapId: number) => featuresRepo.getFeatureByClientId(clientId, mapId),
     createFeature: (data: any) => featuresRepo.createFeature(data),
     updateFeature: (id: string, data: any, userId: string, userName: string) => 
       featuresRepo.updateFeature(id, data, userId, userName),
+    restoreFeature: (feature: any, userId: string, userName: string) => 
+      featuresRepo.restoreFeature(feature, userId, userName),
     deleteFeature: (id: string) => featuresRepo.deleteFeature(id),
     bulkDeleteFeatures: (ids: string[]) => featuresRepo.bulkDeleteFeatures(ids),
-    getFeaturesInBounds: (mapId: number, minLng: number, minLat: number, maxLng: number, maxLat: number) => 
-      featuresRepo.getFeaturesInBounds(mapId, minLng, minLat, maxLng, maxLat),
+    getFeaturesInBounds: (mapId: number, minLng: number, minLat: number, maxLng: number, maxLat: number, tolerance?: number) => 
+      featuresRepo.getFeaturesInBounds(mapId, minLng, minLat, maxLng, maxLat, tolerance),
+    getMapTile: (mapId: number, z: number, x: number, y: number) =>
+      featuresRepo.getMapTile(mapId, z, x, y),
+    getMapFeaturesVersion: (mapId: number) => featuresRepo.getMapFeaturesVersion(mapId),
     
     // Sync methods for features
-    getUpdatedFeatures: (mapId: number, since: number, page: number, limit: number) => 
-      featuresRepo.getUpdatedFeatures(mapId, since, page, limit),
-    getFeaturesInViewportSince: (mapId: number, minLng: number, minLat: number, maxLng: number, maxLat: number, since: number, page: number, limit: number) => 
-      featuresRepo.getFeaturesInViewportSince(mapId, minLng, minLat, maxLng, maxLat, since, page, limit),
+    getUpdatedFeatures: (mapId: number, since: number, page: number, limit: number, tolerance?: number) => 
+      featuresRepo.getUpdatedFeatures(mapId, since, page, limit, undefined, tolerance),
+    getFeaturesInViewportSince: (mapId: number, minLng: number, minLat: number, maxLng: number, maxLat: number, since: number, page: number, limit: number, tolerance?: number) => 
+      featuresRepo.getFeaturesInViewportSince(mapId, minLng, minLat, maxLng, maxLat, since, page, limit, undefined, tolerance),
     getUpdatedFeaturesCount: (mapId: number, since: number) => 
       featuresRepo.getUpdatedFeaturesCount(mapId, since),
     isFeatureDeleted: (featureId: string) => 
@@ -63,6 +95,13 @@ export const initRepositories = (): void => {
     getMapHistory: (mapId: number, limit?: number) => featureHistoryRepo.getMapHistory(mapId, limit),
     getOperationByClientId: (clientOperationId: string) => featureHistoryRepo.getOperationByClientId(clientOperationId),
     
+    // Undo/redo methods
+    recordUndoRedo: (data: any) => featureHistoryRepo.recordUndoRedo(data),
+    getLastUndoableOperation: (mapId: number, userId: string) => 
+      featureHistoryRepo.getLastUndoableOperation(mapId, userId),
+    getLastRedoableOperation: (mapId: number, userId: string) => 
+      featureHistoryRepo.getLastRedoableOperation(mapId, userId),
+    
     // Sync methods for history
     getMapHistorySince: (mapId: number, since: number, page: number, limit: number) => 
       featureHistoryRepo.getMapHistorySince(mapId, since, page, limit),
@@ -70,13 +109,19 @@ export const initRepositories = (): void => {
       featureHistoryRepo.getDeletedFeaturesSince(mapId, since),
     
     // Comments methods
-    getMapComments: (mapId: number) => commentsRepo.getMapComments(mapId),
+    getMapComments: (mapId: number, statuses?: CommentStatus[]) => commentsRepo.getMapComments(mapId, statuses),
+    forEachMapCommentBatch: (mapId: number, batchSize: number, onBatch: (comments: any[]) => Promise<void>) =>
+      commentsRepo.forEachMapCommentBatch(mapId, batchSize, onBatch),
+    getFeatureComments: (featureId: string, statuses?: CommentStatus[]) =>
+      commentsRepo.getFeatureComments(featureId, statuses),
     getCommentReplies: (commentId: string) => commentsRepo.getCommentReplies(commentId),
     getCommentByClientId: (clientId: string, mapId: number) => commentsRepo.getCommentByClientId(clientId, mapId),
     createComment: (data: any) => commentsRepo.createComment(data),
     getComment: (id: string) => commentsRepo.getComment(id),
     updateComment: (id: string, content: string) => commentsRepo.updateComment(id, content),
     updateCommentPosition: (id: string, lng: number, lat: number) => commentsRepo.updateCommentPosition(id, lng, lat),
+    setCommentStatus: (id: string, status: CommentStatus, userId: string, userName: string) =>
+      commentsRepo.setCommentStatus(id, status, userId, userName),
     deleteComment: (id: string) => commentsRepo.deleteComment(id),
     
     // Sync methods for comments
@@ -92,6 +137,59 @@ export const initRepositories = (): void => {
     updateReply: (id: string, content: string) => repliesRepo.updateReply(id, content),
     deleteReply: (id: string) => repliesRepo.deleteReply(id),
     getCommentMapId: (commentId: string) => repliesRepo.getCommentMapId(commentId),
+    
+    // Feature image methods
+    saveFeatureImage: (data: any) => featureImagesRepo.saveImage(data),
+    getFeatureImage: (featureId: string) => featureImagesRepo.getImage(featureId),
+    getFeatureImageThumbnail: (featureId: string) => featureImagesRepo.getImageThumbnail(featureId),
+    getFeatureImageMetadata: (featureId: string) => featureImagesRepo.getImageMetadata(featureId),
+    deleteFeatureImage: (featureId: string) => featureImagesRepo.deleteImage(featureId),
+    
+    // Presence and selection methods (shared by all socket servers)
+    getMapPresence: (mapId: number) => presenceRepo.getMapPresence(mapId),
+    joinMapPresence: (mapId: number, userId: string, userName: string, nodeId: string, socketId: string) =>
+      presenceRepo.joinMap(mapId, userId, userName, nodeId, socketId),
+    leaveMapPresence: (mapId: number, userId: string, holder?: PresenceHolder) => presenceRepo.leaveMap(mapId, userId, holder),
+    setPresenceStatus: (mapId: number, userId: string, socketId: string, status: 'active' | 'away') =>
+      presenceRepo.setPresenceStatus(mapId, userId, socketId, status),
+    updatePresencePosition: (mapId: number, userId: string, lng: number, lat: number) =>
+      presenceRepo.updatePresencePosition(mapId, userId, lng, lat),
+    removeOrphanedPresence: (ttlMs: number) => presenceRepo.removeOrphanedPresence(ttlMs),
+    getMapSelections: (mapId: number) => presenceRepo.getMapSelections(mapId),
+    setUserSelection: (mapId: number, userId: string, userName: string, holder: Required<PresenceHolder>, featureIds: string[]) =>
+      presenceRepo.setUserSelection(mapId, userId, userName, holder, featureIds),
+    clearUserSelection: (userId: string, mapId: number, holder?: PresenceHolder) =>
+      presenceRepo.clearUserSelection(userId, mapId, holder),
+    removeOrphanedSelections: (ttlMs: number) => presenceRepo.removeOrphanedSelections(ttlMs),
+    
+    // Feature lock methods (shared by all socket servers)
+    getBlockingFeatureLocks: (featureIds: string[], userId: string) => featureLocksRepo.getBlockingLocks(featureIds, userId),
+    getMapFeatureLocks: (mapId: number) => featureLocksRepo.getMapLocks(mapId),
+    acquireFeatureLocks: (
+      mapId: number,
+      userId: string,
+      userName: string,
+      socketId: string,
+      featureIds: string[],
+      mode: FeatureLockMode,
+      takeOver: boolean,
+      ttlMs: number
+    ) => featureLocksRepo.acquireLocks(mapId, userId, userName, socketId, featureIds, mode, takeOver, ttlMs),
+    renewFeatureLocks: (userId: string, featureIds: string[] | null, ttlMs: number) =>
+      featureLocksRepo.renewLocks(userId, featureIds, ttlMs),
+    releaseUserFeatureLocks: (userId: string, mapId: number, keepFeatureIds?: string[]) =>
+      featureLocksRepo.releaseUserLocks(userId, mapId, keepFeatureIds),
+    releaseSocketFeatureLocks: (socketId: string) => featureLocksRepo.releaseSocketLocks(socketId),
+    releaseFeatureLocks: (featureIds: string[]) => featureLocksRepo.releaseFeatureLocks(featureIds),
+    releaseExpiredFeatureLocks: () => featureLocksRepo.releaseExpiredLocks(),
+    
+    // Socket server node methods
+    nodeHeartbeat: (nodeId: string) => socketNodesRepo.nodeHeartbeat(nodeId),
+    removeDeadNodes: (ttlMs: number) => socketNodesRepo.removeDeadNodes(ttlMs),
+    countLiveNodes: (ttlMs: number) => socketNodesRepo.countLiveNodes(ttlMs),
+    storeSocketPayload: (payload: string) => socketNodesRepo.storeSocketPayload(payload),
+    getSocketPayload: (id: string) => socketNodesRepo.getSocketPayload(id),
+    removeOldSocketPayloads: (maxAgeMs: number) => socketNodesRepo.removeOldSocketPayloads(maxAgeMs),
   });
   
   console.log('[DB] Repositories initialized');
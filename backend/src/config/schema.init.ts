@@ -1,6 +1,7 @@
 // Path: config\schema.init.ts
 
 import { db } from './database.js';
+import config from './env.js';
 
 /**
  * Initialize database schema with required tables and extensions
@@ -16,6 +17,9 @@ export const initDatabaseSchema = async (): Promise<void> => {
     // Initialize feature-related tables
     await initFeatureDb();
     
+    // Initialize tables shared by the Socket.IO servers
+    await initSocketDb();
+    
     console.log('[DB] Database schema initialization completed successfully');
   } catch (error) {
     console.error('[DB] Database schema initialization error:', error);
@@ -42,6 +46,30 @@ const initBaseDb = async (): Promise<void> => {
       )
     `);
 
+    console.log('[DB] Creating map_members table...');
+    await t.none(`
+      CREATE TABLE IF NOT EXISTS map_members (
+        map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+        user_id VARCHAR(255) NOT NULL,
+        user_name VARCHAR(255),
+        role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'editor', 'commenter', 'viewer')),
+        added_by VARCHAR(255),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (map_id, user_id)
+      )
+    `);
+
+    // Maps that predate roles get the configured owner
+    if (config.maps.legacyOwnerId) {
+      console.log('[DB] Assigning owner to maps without members...');
+      await t.none(`
+        INSERT INTO map_members (map_id, user_id, role, added_by)
+        SELECT m.id, $1, 'owner', $1 FROM maps m
+        WHERE NOT EXISTS (SELECT 1 FROM map_members mm WHERE mm.map_id = m.id)
+      `, config.maps.legacyOwnerId);
+    }
+
     console.log('[DB] Creating comments table...');
     await t.none(`
       CREATE TABLE IF NOT EXISTS comments (
@@ -55,9 +83,22 @@ const initBaseDb = async (): Promise<void> => {
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         client_id VARCHAR(255),
-        offline_created BOOLEAN DEFAULT FALSE
+        offline_created BOOLEAN DEFAULT FALSE,
+        status VARCHAR(10) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'wont-fix')),
+        resolved_by VARCHAR(255) NULL,
+        resolved_by_name VARCHAR(255) NULL,
+        resolved_at TIMESTAMP NULL
       )
     `);
+    
+    // Status columns for databases created before they existed
+    await t.none(`
+      ALTER TABLE comments ADD COLUMN IF NOT EXISTS status VARCHAR(10) NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'resolved', 'wont-fix'));
+      ALTER TABLE comments ADD COLUMN IF NOT EXISTS resolved_by VARCHAR(255) NULL;
+      ALTER TABLE comments ADD COLUMN IF NOT EXISTS resolved_by_name VARCHAR(255) NULL;
+      ALTER TABLE comments ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP NULL;
+    `);
 
     console.log('[DB] Creating replies table...');
     await t.none(`
@@ -77,6 +118,8 @@ const initBaseDb = async (): Promise<void> => {
     console.log('[DB] Creating base indexes...');
     await t.none(`
       CREATE INDEX IF NOT EXISTS comments_map_id_idx ON comments(map_id);
+      CREATE INDEX IF NOT EXISTS comments_map_status_idx ON comments(map_id, status);
+      CREATE INDEX IF NOT EXISTS map_members_user_id_idx ON map_members(user_id);
       CREATE INDEX IF NOT EXISTS replies_comment_id_idx ON replies(comment_id);
       CREATE INDEX IF NOT EXISTS comments_client_id_idx ON comments(client_id) WHERE client_id IS NOT NULL;
       CREATE INDEX IF NOT EXISTS replies_client_id_idx ON replies(client_id) WHERE client_id IS NOT NULL;
@@ -127,20 +170,69 @@ const initFeatureDb = async (): Promise<void> => {
         user_id VARCHAR(255) NOT NULL,
         user_name VARCHAR(255) NOT NULL,
         timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        client_operation_id VARCHAR(255)
+        client_operation_id VARCHAR(255),
+        undone BOOLEAN NOT NULL DEFAULT FALSE,
+        undo_action VARCHAR(4) NULL CHECK (undo_action IN ('undo', 'redo')),
+        source_history_id INTEGER NULL
       )
     `);
     
+    // Undo/redo columns for databases created before they existed
+    await t.none(`
+      ALTER TABLE feature_history ADD COLUMN IF NOT EXISTS undone BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE feature_history ADD COLUMN IF NOT EXISTS undo_action VARCHAR(4) NULL 
+        CHECK (undo_action IN ('undo', 'redo'));
+      ALTER TABLE feature_history ADD COLUMN IF NOT EXISTS source_history_id INTEGER NULL;
+    `);
+    
+    // Create feature images table (binary content for image features)
+    // Rows outlive their feature, so undoing its deletion or restoring the map brings the image back
+    console.log('[DB] Creating feature_images table...');
+    await t.none(`
+      CREATE TABLE IF NOT EXISTS feature_images (
+        feature_id UUID PRIMARY KEY,
+        map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+        mime_type VARCHAR(50) NOT NULL,
+        data BYTEA NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        width INTEGER,
+        height INTEGER,
+        thumbnail BYTEA,
+        checksum VARCHAR(64) NOT NULL,
+        user_id VARCHAR(255) NOT NULL,
+        user_name VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      ALTER TABLE feature_images DROP CONSTRAINT IF EXISTS feature_images_feature_id_fkey;
+    `);
+    
     // Create indexes
     console.log('[DB] Creating feature indexes...');
     await t.none(`
       CREATE INDEX IF NOT EXISTS features_map_id_idx ON features(map_id);
       CREATE INDEX IF NOT EXISTS features_feature_type_idx ON features(feature_type);
       CREATE INDEX IF NOT EXISTS feature_history_feature_id_idx ON feature_history(feature_id);
+      CREATE INDEX IF NOT EXISTS feature_history_state_id_idx ON feature_history((new_state->>'id'));
       CREATE INDEX IF NOT EXISTS feature_history_map_id_idx ON feature_history(map_id);
       CREATE INDEX IF NOT EXISTS features_client_id_idx ON features(client_id) WHERE client_id IS NOT NULL;
       CREATE INDEX IF NOT EXISTS feature_history_client_operation_id_idx ON feature_history(client_operation_id) 
         WHERE client_operation_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS feature_images_map_id_idx ON feature_images(map_id);
+      CREATE INDEX IF NOT EXISTS feature_history_map_user_idx ON feature_history(map_id, user_id);
+      CREATE INDEX IF NOT EXISTS feature_history_map_entry_idx ON feature_history(map_id, id);
+    `);
+    
+    // Feature a comment is anchored to (comments are created before features, so it is added here)
+    // Deleting the feature keeps the thread where it was, as a plain comment, until the feature comes back
+    console.log('[DB] Adding comment anchors...');
+    await t.none(`
+      ALTER TABLE comments ADD COLUMN IF NOT EXISTS feature_id UUID NULL 
+        REFERENCES features(id) ON DELETE SET NULL;
+      ALTER TABLE comments ADD COLUMN IF NOT EXISTS detached_feature_id UUID NULL;
+      CREATE INDEX IF NOT EXISTS comments_feature_id_idx ON comments(feature_id) WHERE feature_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS comments_detached_feature_id_idx ON comments(detached_feature_id)
+        WHERE detached_feature_id IS NOT NULL;
     `);
     
     // Create spatial index for geometry
@@ -151,4 +243,88 @@ const initFeatureDb = async (): Promise<void> => {
     
     return null;
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Initialize the tables the Socket.IO servers share: live nodes, presence, selections and
+ * feature locks in each map, and broadcasts too large for a NOTIFY payload
+ */
+const initSocketDb = async (): Promise<void> => {
+  await db.tx('init-socket-db', async t => {
+    console.log('[DB] Creating socket_nodes table...');
+    await t.none(`
+      CREATE TABLE IF NOT EXISTS socket_nodes (
+        node_id UUID PRIMARY KEY,
+        started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_heartbeat TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    console.log('[DB] Creating map_presence table...');
+    await t.none(`
+      CREATE TABLE IF NOT EXISTS map_presence (
+        map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+        user_id VARCHAR(255) NOT NULL,
+        user_name VARCHAR(255) NOT NULL,
+        node_id UUID NOT NULL,
+        socket_id VARCHAR(64) NOT NULL,
+        status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'away')),
+        lng DOUBLE PRECISION NOT NULL DEFAULT 0,
+        lat DOUBLE PRECISION NOT NULL DEFAULT 0,
+        joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (map_id, user_id)
+      )
+    `);
+    
+    console.log('[DB] Creating feature_selections table...');
+    await t.none(`
+      CREATE TABLE IF NOT EXISTS feature_selections (
+        map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+        feature_id VARCHAR(255) NOT NULL,
+        user_id VARCHAR(255) NOT NULL,
+        user_name VARCHAR(255) NOT NULL,
+        node_id UUID NOT NULL,
+        socket_id VARCHAR(64),
+        selected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (map_id, feature_id)
+      )
+    `);
+    
+    console.log('[DB] Creating feature_locks table...');
+    await t.none(`
+      CREATE TABLE IF NOT EXISTS feature_locks (
+        feature_id VARCHAR(255) PRIMARY KEY,
+        map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+        user_id VARCHAR(255) NOT NULL,
+        user_name VARCHAR(255) NOT NULL,
+        socket_id VARCHAR(64) NOT NULL,
+        mode VARCHAR(4) NOT NULL CHECK (mode IN ('soft', 'hard')),
+        acquired_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMPTZ NOT NULL
+      )
+    `);
+    
+    console.log('[DB] Creating socket_payloads table...');
+    await t.none(`
+      CREATE TABLE IF NOT EXISTS socket_payloads (
+        id BIGSERIAL PRIMARY KEY,
+        payload TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    console.log('[DB] Creating socket indexes...');
+    await t.none(`
+      CREATE INDEX IF NOT EXISTS map_presence_node_id_idx ON map_presence(node_id);
+      CREATE INDEX IF NOT EXISTS feature_selections_user_id_idx ON feature_selections(user_id);
+      CREATE INDEX IF NOT EXISTS feature_selections_node_id_idx ON feature_selections(node_id);
+      CREATE INDEX IF NOT EXISTS feature_locks_map_id_idx ON feature_locks(map_id);
+      CREATE INDEX IF NOT EXISTS feature_locks_user_id_idx ON feature_locks(user_id);
+      CREATE INDEX IF NOT EXISTS feature_locks_socket_id_idx ON feature_locks(socket_id);
+      CREATE INDEX IF NOT EXISTS feature_locks_expires_at_idx ON feature_locks(expires_at);
+    `);
+    
+    return null;
+  });
+};
@@ -2,6 +2,10 @@
 
 import { Request, Response } from 'express';
 import { db } from '../config/database.js';
+import { requireMapPermission } from '../services/auth/permissions.js';
+import { getBlockingLock } from '../services/socket/feature-locks.js';
+import { getIO } from '../services/socket/index.js';
+import { broadcastMovedComments } from '../services/socket/comment-anchors.js';
 
 /**
  * Process a batch of operations for offline clients that have reconnected
@@ -12,14 +16,10 @@ export const processBatchOperations = async (req: Request, res: Response): Promi
     const mapId = parseInt(req.params.mapId, 10);
     const { operations } = req.body;
     
-    // Extract user info from request headers or body
-    const userId = req.headers['user-id'] as string || req.body.userId;
-    const userName = req.headers['user-name'] as string || req.body.userName;
+    // Identity verified by the authentication middleware
+    const { id: userId, name: userName } = req.user!;
     
-    if (!userId || !userName) {
-      res.status(400).json({ error: 'User ID and name are required' });
-      return;
-    }
+    if (!await requireMapPermission(req, res, mapId, 'edit')) return;
     
     if (!Array.isArray(operations) || operations.length === 0) {
       res.status(400).json({ error: 'No operations to process' });
@@ -117,6 +117,13 @@ export const processBatchOperations = async (req: Request, res: Response): Promi
     
     console.log(`[API] Batch processing complete: ${successCount} succeeded, ${failCount} failed`);
     
+    // Comments anchored to updated features moved with them (only once the batch is committed)
+    for (const result of results) {
+      if ('movedComments' in result) {
+        broadcastMovedComments(getIO(), `map-${mapId}`, result.movedComments);
+      }
+    }
+    
     res.json({
       results,
       timestamp: Date.now(),
@@ -133,6 +140,26 @@ export const processBatchOperations = async (req: Request, res: Response): Promi
   }
 };
 
+/**
+ * Result for an operation on a feature someone else has locked, if it is locked
+ */
+async function lockedFeatureResult(op: any, userId: string) {
+  const lock = await getBlockingLock(op.data.id, userId);
+  if (!lock) return null;
+
+  return {
+    id: op.id,
+    success: false,
+    error: `Feature is locked by ${lock.userName}`,
+    locked: true,
+    lockedBy: {
+      id: lock.userId,
+      name: lock.userName
+    },
+    lockExpiresAt: lock.expiresAt
+  };
+}
+
 /**
  * Process a feature creation operation
  */
@@ -171,6 +198,9 @@ async function processCreateFeature(t: any, op: any, userId: string, userName: s
  * Process a feature update operation
  */
 async function processUpdateFeature(t: any, op: any, userId: string, userName: string, mapId: number) {
+  const locked = await lockedFeatureResult(op, userId);
+  if (locked) return locked;
+  
   // Get current feature state
   const currentFeature = await t.getFeature(op.data.id);
   
@@ -197,7 +227,8 @@ async function processUpdateFeature(t: any, op: any, userId: string, userName: s
     {
       geometry: op.data.geometry,
       properties: op.data.properties,
-      version: op.data.version
+      version: op.data.version,
+      merge: op.data.merge === true
     },
     userId,
     userName
@@ -209,14 +240,19 @@ async function processUpdateFeature(t: any, op: any, userId: string, userName: s
       success: false,
       error: 'Feature update failed',
       currentVersion: updateResult.currentVersion,
+      conflict: updateResult.conflict,
       operation: 'update'
     };
   }
   
+  // Record in history with the operation ID for idempotency, as the socket path does
+  await t.recordFeatureUpdate(updateResult.previousFeature || currentFeature, updateResult.feature, userId, userName, op.id);
+  
   return {
     id: op.id,
     success: true,
     feature: updateResult.feature,
+    movedComments: updateResult.movedComments,
     operation: 'update'
   };
 }
@@ -225,6 +261,9 @@ async function processUpdateFeature(t: any, op: any, userId: string, userName: s
  * Process a feature deletion operation
  */
 async function processDeleteFeature(t: any, op: any, userId: string, userName: string, mapId: number) {
+  const locked = await lockedFeatureResult(op, userId);
+  if (locked) return locked;
+  
   // Get feature before deletion for history
   const featureToDelete = await t.getFeature(op.data.id);
   
@@ -0,0 +1,451 @@
+// Path: controllers\comments.controller.ts
+
+import { Request, Response } from 'express';
+import { db } from '../config/database.js';
+import { getIO } from '../services/socket/index.js';
+import { requireMapPermission, MapAction } from '../services/auth/permissions.js';
+import { validateCommentData, validateReplyData } from '../utils/commentValidation.js';
+import { isFeatureId } from '../utils/featureValidation.js';
+import { Comment, CommentCreateData, Reply, ReplyCreateData } from '../types/index.js';
+
+/**
+ * Same events as the comment socket handlers, so connected clients see REST changes too
+ */
+const notifyMap = (mapId: number, event: string, data: any): void => {
+  getIO().to(`map-${mapId}`).emit(event, data);
+};
+
+/**
+ * Load the comment in the route and check the user can perform the action in its map
+ */
+const getCommentForAction = async (req: Request, res: Response, action: MapAction): Promise<Comment | null> => {
+  const comment = await db.getComment(req.params.id as string);
+  if (!comment) {
+    res.status(404).json({ error: 'Comment not found' });
+    return null;
+  }
+
+  if (!await requireMapPermission(req, res, comment.map_id, action)) return null;
+
+  return comment;
+};
+
+/**
+ * Load the reply in the route and check the user can perform the action in the map of its comment
+ */
+const getReplyForAction = async (
+  req: Request,
+  res: Response,
+  action: MapAction
+): Promise<{ reply: Reply; mapId: number } | null> => {
+  const reply = await db.getReply(req.params.id as string);
+  if (!reply) {
+    res.status(404).json({ error: 'Reply not found' });
+    return null;
+  }
+
+  const mapId = await db.getCommentMapId(reply.comment_id);
+  if (!await requireMapPermission(req, res, mapId, action)) return null;
+
+  return { reply, mapId };
+};
+
+/**
+ * Validate the content of a comment or reply update
+ */
+const validateContent = (content: unknown, kind: 'Comment' | 'Reply', maxLength: number): string | null => {
+  if (!content || typeof content !== 'string' || content.trim() === '') {
+    return `${kind} content cannot be empty`;
+  }
+
+  if (content.length > maxLength) {
+    return `${kind} content exceeds maximum length (${maxLength} characters)`;
+  }
+
+  return null;
+};
+
+/**
+ * List the comments of a map with their replies
+ */
+export const getMapComments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const mapId = parseInt(req.params.mapId as string, 10);
+
+    if (isNaN(mapId)) {
+      res.status(400).json({ error: 'Invalid map ID' });
+      return;
+    }
+
+    const map = await db.getMap(mapId);
+    if (!map) {
+      res.status(404).json({ error: 'Map not found' });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, mapId, 'view')) return;
+
+    const comments = await db.getMapComments(mapId);
+    for (const comment of comments) {
+      comment.replies = await db.getCommentReplies(comment.id);
+    }
+
+    console.log(`[API] Found ${comments.length} comments for map ${mapId}`);
+    res.json(comments);
+  } catch (error) {
+    console.error('[API] Error fetching comments:', error);
+    res.status(500).json({ error: 'Failed to fetch comments' });
+  }
+};
+
+/**
+ * List the comments anchored to a feature with their replies
+ */
+export const getFeatureComments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const featureId = req.params.id as string;
+
+    if (!isFeatureId(featureId)) {
+      res.status(400).json({ error: 'Invalid feature ID' });
+      return;
+    }
+
+    const feature = await db.getFeature(featureId);
+    if (!feature) {
+      res.status(404).json({ error: 'Feature not found' });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, feature.map_id, 'view')) return;
+
+    const comments = await db.getFeatureComments(featureId);
+
+    console.log(`[API] Found ${comments.length} comments for feature ${featureId}`);
+    res.json(comments);
+  } catch (error) {
+    console.error('[API] Error fetching feature comments:', error);
+    res.status(500).json({ error: 'Failed to fetch comments' });
+  }
+};
+
+/**
+ * Get a comment with its replies
+ */
+export const getComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const comment = await getCommentForAction(req, res, 'view');
+    if (!comment) return;
+
+    comment.replies = await db.getCommentReplies(comment.id);
+    res.json(comment);
+  } catch (error) {
+    console.error('[API] Error fetching comment:', error);
+    res.status(500).json({ error: 'Failed to fetch comment' });
+  }
+};
+
+/**
+ * Create a comment - the author is the authenticated user
+ */
+export const createComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateCommentData(req.body);
+    if (!validation.valid) {
+      res.status(400).json({ error: validation.message });
+      return;
+    }
+
+    const { map_id, content, lng, lat, feature_id, client_id } = req.body;
+
+    const map = await db.getMap(map_id);
+    if (!map) {
+      res.status(404).json({ error: 'Map not found' });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, map_id, 'comment')) return;
+
+    // Anchor feature must be in the same map
+    if (feature_id) {
+      const feature = await db.getFeature(feature_id);
+      if (!feature || feature.map_id !== map_id) {
+        res.status(404).json({ error: 'Feature not found' });
+        return;
+      }
+    }
+
+    const user = req.user!;
+    console.log(`[API] User ${user.id} creating new comment for map ${map_id}`);
+
+    const commentData: CommentCreateData = {
+      map_id,
+      content: content.trim(),
+      lng,
+      lat,
+      feature_id: feature_id || null,
+      user_id: user.id,
+      user_name: user.name,
+      client_id: typeof client_id === 'string' ? client_id : undefined
+    };
+
+    const newComment = await db.createComment(commentData);
+    newComment.replies = [];
+
+    console.log(`[API] Comment created successfully with ID ${newComment.id}`);
+    notifyMap(map_id, 'comment-created', newComment);
+
+    res.status(201).json(newComment);
+  } catch (error) {
+    console.error('[API] Error creating comment:', error);
+    res.status(500).json({ error: 'Failed to create comment' });
+  }
+};
+
+/**
+ * Update the content of a comment (author only)
+ */
+export const updateComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { content } = req.body || {};
+    const invalid = validateContent(content, 'Comment', 5000);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const comment = await getCommentForAction(req, res, 'comment');
+    if (!comment) return;
+
+    if (comment.user_id !== req.user!.id) {
+      res.status(403).json({ error: 'Only the author can update this comment' });
+      return;
+    }
+
+    const updatedComment = await db.updateComment(comment.id, content.trim());
+    if (!updatedComment) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    updatedComment.replies = await db.getCommentReplies(comment.id);
+
+    console.log(`[API] Comment ${comment.id} updated by user ${req.user!.id}`);
+    notifyMap(comment.map_id, 'comment-updated', updatedComment);
+
+    res.json(updatedComment);
+  } catch (error) {
+    console.error('[API] Error updating comment:', error);
+    res.status(500).json({ error: 'Failed to update comment' });
+  }
+};
+
+/**
+ * Move a comment (author only)
+ */
+export const updateCommentPosition = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { lng, lat } = req.body || {};
+
+    if (typeof lng !== 'number' || typeof lat !== 'number') {
+      res.status(400).json({ error: 'Valid longitude and latitude are required' });
+      return;
+    }
+
+    if (lng < -180 || lng > 180) {
+      res.status(400).json({ error: 'Longitude must be between -180 and 180' });
+      return;
+    }
+
+    if (lat < -90 || lat > 90) {
+      res.status(400).json({ error: 'Latitude must be between -90 and 90' });
+      return;
+    }
+
+    const comment = await getCommentForAction(req, res, 'comment');
+    if (!comment) return;
+
+    if (comment.user_id !== req.user!.id) {
+      res.status(403).json({ error: 'Only the author can move this comment' });
+      return;
+    }
+
+    const movedComment = await db.updateCommentPosition(comment.id, lng, lat);
+    if (!movedComment) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    movedComment.replies = await db.getCommentReplies(comment.id);
+
+    console.log(`[API] Comment ${comment.id} moved by user ${req.user!.id}`);
+    notifyMap(comment.map_id, 'comment-moved', movedComment);
+
+    res.json(movedComment);
+  } catch (error) {
+    console.error('[API] Error moving comment:', error);
+    res.status(500).json({ error: 'Failed to update comment position' });
+  }
+};
+
+/**
+ * Delete a comment and its replies (author only)
+ */
+export const deleteComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const comment = await getCommentForAction(req, res, 'comment');
+    if (!comment) return;
+
+    if (comment.user_id !== req.user!.id) {
+      res.status(403).json({ error: 'Only the author can delete this comment' });
+      return;
+    }
+
+    if (!await db.deleteComment(comment.id)) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
+    }
+
+    console.log(`[API] Comment ${comment.id} deleted by user ${req.user!.id}`);
+    notifyMap(comment.map_id, 'comment-deleted', comment.id);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('[API] Error deleting comment:', error);
+    res.status(500).json({ error: 'Failed to delete comment' });
+  }
+};
+
+/**
+ * List the replies of a comment
+ */
+export const getCommentReplies = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const comment = await getCommentForAction(req, res, 'view');
+    if (!comment) return;
+
+    const replies = await db.getCommentReplies(comment.id);
+    res.json(replies);
+  } catch (error) {
+    console.error('[API] Error fetching replies:', error);
+    res.status(500).json({ error: 'Failed to fetch replies' });
+  }
+};
+
+/**
+ * Reply to a comment - the author is the authenticated user
+ */
+export const createReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = validateReplyData(req.body);
+    if (!validation.valid) {
+      res.status(400).json({ error: validation.message });
+      return;
+    }
+
+    const { comment_id, content, client_id } = req.body;
+
+    const parentComment = await db.getComment(comment_id);
+    if (!parentComment) {
+      res.status(404).json({ error: 'Parent comment not found' });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, parentComment.map_id, 'comment')) return;
+
+    const user = req.user!;
+    console.log(`[API] User ${user.id} creating new reply for comment ${comment_id}`);
+
+    const replyData: ReplyCreateData = {
+      comment_id,
+      content: content.trim(),
+      user_id: user.id,
+      user_name: user.name,
+      client_id: typeof client_id === 'string' ? client_id : undefined
+    };
+
+    const newReply = await db.createReply(replyData);
+
+    console.log(`[API] Reply created successfully with ID ${newReply.id}`);
+    notifyMap(parentComment.map_id, 'reply-created', {
+      reply: newReply,
+      commentId: comment_id
+    });
+
+    res.status(201).json(newReply);
+  } catch (error) {
+    console.error('[API] Error creating reply:', error);
+    res.status(500).json({ error: 'Failed to create reply' });
+  }
+};
+
+/**
+ * Update the content of a reply (author only)
+ */
+export const updateReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { content } = req.body || {};
+    const invalid = validateContent(content, 'Reply', 2000);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    const found = await getReplyForAction(req, res, 'comment');
+    if (!found) return;
+
+    const { reply, mapId } = found;
+    if (reply.user_id !== req.user!.id) {
+      res.status(403).json({ error: 'Only the author can update this reply' });
+      return;
+    }
+
+    const updatedReply = await db.updateReply(reply.id, content.trim());
+    if (!updatedReply) {
+      res.status(404).json({ error: 'Reply not found' });
+      return;
+    }
+
+    console.log(`[API] Reply ${reply.id} updated by user ${req.user!.id}`);
+    notifyMap(mapId, 'reply-updated', {
+      reply: updatedReply,
+      commentId: reply.comment_id
+    });
+
+    res.json(updatedReply);
+  } catch (error) {
+    console.error('[API] Error updating reply:', error);
+    res.status(500).json({ error: 'Failed to update reply' });
+  }
+};
+
+/**
+ * Delete a reply (author only)
+ */
+export const deleteReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const found = await getReplyForAction(req, res, 'comment');
+    if (!found) return;
+
+    const { reply, mapId } = found;
+    if (reply.user_id !== req.user!.id) {
+      res.status(403).json({ error: 'Only the author can delete this reply' });
+      return;
+    }
+
+    if (!await db.deleteReply(reply.id)) {
+      res.status(404).json({ error: 'Reply not found' });
+      return;
+    }
+
+    console.log(`[API] Reply ${reply.id} deleted by user ${req.user!.id}`);
+    notifyMap(mapId, 'reply-deleted', {
+      replyId: reply.id,
+      commentId: reply.comment_id
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('[API] Error deleting reply:', error);
+    res.status(500).json({ error: 'Failed to delete reply' });
+  }
+};
@@ -0,0 +1,56 @@
+// Path: controllers\export.controller.ts
+
+import { Request, Response } from 'express';
+import { db } from '../config/database.js';
+import { requireMapPermission } from '../services/auth/permissions.js';
+import { exportMap, EXPORT_WRITERS } from '../services/export/index.js';
+
+/**
+ * Export all features of a map as a file
+ * ?format=geojson|csv|kml|kmz (default geojson), ?comments=true to include comments as point features
+ */
+export const exportMapFeatures = async (req: Request, res: Response): Promise<void> => {
+  const mapId = parseInt(req.params.mapId as string, 10);
+  const format = typeof req.query.format === 'string' ? req.query.format.toLowerCase() : 'geojson';
+  const includeComments = req.query.comments === 'true';
+
+  try {
+    if (isNaN(mapId)) {
+      res.status(400).json({ error: 'Invalid map ID' });
+      return;
+    }
+
+    const writer = EXPORT_WRITERS[format];
+    if (!writer) {
+      res.status(400).json({ error: `Unsupported format. Use one of: ${Object.keys(EXPORT_WRITERS).join(', ')}` });
+      return;
+    }
+
+    const map = await db.getMap(mapId);
+    if (!map) {
+      res.status(404).json({ error: 'Map not found' });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, mapId, 'view')) return;
+
+    console.log(`[API] Exporting map ${mapId} as ${format}${includeComments ? ' with comments' : ''}`);
+
+    res.setHeader('Content-Type', writer.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="map-${mapId}.${writer.extension}"`);
+
+    const count = await exportMap(map, writer, includeComments, res);
+
+    console.log(`[API] Exported ${count} feature(s) of map ${mapId} as ${format}`);
+  } catch (error) {
+    // Once streaming started the status can't change - cut the response so the file is seen as incomplete
+    if (res.headersSent) {
+      console.error(`[API] Export of map ${mapId} aborted:`, error instanceof Error ? error.message : error);
+      res.destroy();
+      return;
+    }
+
+    console.error('[API] Error exporting map:', error);
+    res.status(500).json({ error: 'Failed to export map' });
+  }
+};
@@ -2,6 +2,12 @@
 
 import { Request, Response } from 'express';
 import { db } from '../config/database.js';
+import { getIO } from '../services/socket/index.js';
+import { broadcastMovedComments, broadcastReanchoredComments } from '../services/socket/comment-anchors.js';
+import { restoreMapToTime } from '../services/history/restore.js';
+import { getFeatureStatesAt } from '../services/history/snapshot.js';
+import { compressFeatures } from '../utils/geometryCompression.js';
+import { requireMapPermission } from '../services/auth/permissions.js';
 
 /**
  * Get history for a specific feature
@@ -16,6 +22,10 @@ export const getFeatureHistory = async (
     console.log(`[API] Fetching history for feature ${featureId}`);
     
     const history = await db.getFeatureHistory(featureId);
+    
+    // The history tells which map the feature (even a deleted one) belongs to
+    if (history.length > 0 && !await requireMapPermission(req, res, history[0].map_id, 'view')) return;
+    
     console.log(`[API] Found ${history.length} history entries for feature ${featureId}`);
     
     res.json(history);
@@ -36,6 +46,8 @@ export const getMapHistory = async (
     const mapId = parseInt(req.params.mapId, 10);
     const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
     
+    if (!await requireMapPermission(req, res, mapId, 'view')) return;
+    
     console.log(`[API] Fetching history for map ${mapId}${limit ? ` (limit: ${limit})` : ''}`);
     
     const history = await db.getMapHistory(mapId, limit);
@@ -46,4 +58,131 @@ export const getMapHistory = async (
     console.error('[API] Error fetching map history:', error);
     res.status(500).json({ error: 'Failed to fetch map history' });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Parse a point in time given as milliseconds since epoch or as an ISO date
+ */
+const parseTimestamp = (value: unknown): number | null => {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  const timestamp = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  return isNaN(timestamp) ? null : timestamp;
+};
+
+/**
+ * Restore a map to its state at a point in time
+ * With dryRun=true only the diff is returned, which anyone who can view the map may ask for
+ * Restoring rewrites every feature of the map, so it is left to those who manage it
+ */
+export const restoreMap = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const mapId = parseInt(req.params.mapId as string, 10);
+    const at = parseTimestamp(req.query.at);
+    const dryRun = req.query.dryRun === 'true';
+
+    // Identity verified by the authentication middleware
+    const { id: userId, name: userName } = req.user!;
+
+    if (isNaN(mapId)) {
+      res.status(400).json({ error: 'Invalid map ID' });
+      return;
+    }
+
+    if (at === null) {
+      res.status(400).json({ error: 'A valid "at" timestamp is required' });
+      return;
+    }
+
+    if (at > Date.now()) {
+      res.status(400).json({ error: 'Cannot restore to a time in the future' });
+      return;
+    }
+
+    const map = await db.getMap(mapId);
+    if (!map) {
+      res.status(404).json({ error: 'Map not found' });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, mapId, dryRun ? 'view' : 'manage')) return;
+
+    console.log(`[API] ${dryRun ? 'Dry run of restoring' : 'Restoring'} map ${mapId} to ${new Date(at).toISOString()}`);
+
+    const { movedComments, reanchoredComments, ...result } = await restoreMapToTime(mapId, at, userId, userName, dryRun);
+
+    const summary = {
+      created: result.created.length,
+      updated: result.updated.length,
+      deleted: result.deleted.length
+    };
+
+    console.log(`[API] Map ${mapId} restore diff: ${summary.created} created, ${summary.updated} updated, ${summary.deleted} deleted`);
+
+    // Clients can't apply such a change incrementally, so they reload the map
+    if (!dryRun && (summary.created + summary.updated + summary.deleted) > 0) {
+      getIO().to(`map-${mapId}`).emit('map-restored', {
+        mapId,
+        at,
+        summary,
+        restoredBy: {
+          id: userId,
+          name: userName
+        },
+        timestamp: Date.now()
+      });
+      
+      broadcastMovedComments(getIO(), `map-${mapId}`, movedComments);
+      broadcastReanchoredComments(getIO(), `map-${mapId}`, reanchoredComments);
+    }
+
+    res.json({ ...result, summary });
+  } catch (error) {
+    console.error('[API] Error restoring map:', error);
+    res.status(500).json({ error: 'Failed to restore map' });
+  }
+};
+
+/**
+ * Get the features of a map as they were at a point in time
+ * Read-only reconstruction from feature history, the live map is not affected
+ */
+export const getMapSnapshot = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const mapId = parseInt(req.params.mapId as string, 10);
+    const at = parseTimestamp(req.query.at);
+
+    if (isNaN(mapId)) {
+      res.status(400).json({ error: 'Invalid map ID' });
+      return;
+    }
+
+    if (at === null) {
+      res.status(400).json({ error: 'A valid "at" timestamp is required' });
+      return;
+    }
+
+    const map = await db.getMap(mapId);
+    if (!map) {
+      res.status(404).json({ error: 'Map not found' });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, mapId, 'view')) return;
+
+    console.log(`[API] Building snapshot of map ${mapId} at ${new Date(at).toISOString()}`);
+
+    const states = await getFeatureStatesAt(db, mapId, at);
+    const features = Array.from(states.values());
+
+    console.log(`[API] Snapshot of map ${mapId} has ${features.length} features`);
+
+    res.json({
+      at,
+      features: compressFeatures(features)
+    });
+  } catch (error) {
+    console.error('[API] Error building map snapshot:', error);
+    res.status(500).json({ error: 'Failed to build map snapshot' });
+  }
+};
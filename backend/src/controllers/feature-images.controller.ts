@@ -0,0 +1,200 @@
+// Path: controllers\feature-images.controller.ts
+
+import { Request, Response } from 'express';
+import { db } from '../config/database.js';
+import config from '../config/env.js';
+import { getIO } from '../services/socket/index.js';
+import { detectImageMimeType, processImage } from '../utils/imageProcessing.js';
+import { FeatureImageMetadata } from '../types/feature.types.js';
+import { requireMapPermission, MapAction } from '../services/auth/permissions.js';
+
+// Images are immutable per checksum, but can be replaced at any time, so clients must revalidate
+const CACHE_CONTROL = 'private, max-age=0, must-revalidate';
+
+/**
+ * Load an image feature and make sure it belongs to the requested map
+ */
+const getImageFeature = async (req: Request, res: Response, action: MapAction) => {
+  const mapId = parseInt(req.params.mapId as string, 10);
+  const featureId = req.params.id as string;
+
+  if (isNaN(mapId)) {
+    res.status(400).json({ error: 'Invalid map ID' });
+    return null;
+  }
+
+  if (!await requireMapPermission(req, res, mapId, action)) return null;
+
+  const feature = await db.getFeature(featureId);
+  if (!feature || feature.map_id !== mapId || feature.feature_type !== 'image') {
+    res.status(404).json({ error: 'Image feature not found' });
+    return null;
+  }
+
+  return feature;
+};
+
+/**
+ * Set the caching headers for an image response
+ * Returns true when the client copy is still valid and a 304 was sent
+ */
+const sendCacheHeaders = (
+  req: Request,
+  res: Response,
+  image: FeatureImageMetadata,
+  variant: string
+): boolean => {
+  const etag = `"${image.checksum}${variant}"`;
+
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', new Date(image.updated_at).toUTCString());
+  res.setHeader('Cache-Control', CACHE_CONTROL);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+
+  if (req.headers['if-none-match'] === etag) {
+    res.status(304).end();
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Upload (or replace) the binary content of an image feature
+ * The request body is the raw image, its Content-Type must match the feature imageType
+ */
+export const uploadFeatureImage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Identity verified by the authentication middleware
+    const { id: userId, name: userName } = req.user!;
+
+    const feature = await getImageFeature(req, res, 'edit');
+    if (!feature) return;
+
+    const imageType = feature.properties.imageType;
+    const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+
+    // The declared type must match the one stored on the feature
+    if (contentType !== imageType) {
+      res.status(415).json({
+        error: `Content-Type ${contentType || '(none)'} does not match feature imageType ${imageType}`
+      });
+      return;
+    }
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ error: 'Image data is required' });
+      return;
+    }
+
+    const data: Buffer = req.body;
+
+    if (data.length > config.images.maxSizeBytes) {
+      res.status(413).json({ error: `Image exceeds maximum size (${config.images.maxSizeBytes} bytes)` });
+      return;
+    }
+
+    // Do not trust the header alone - check the actual content as well
+    const detectedType = detectImageMimeType(data);
+    if (detectedType !== imageType) {
+      res.status(415).json({ error: `Image content does not match imageType ${imageType}` });
+      return;
+    }
+
+    console.log(`[API] Storing image for feature ${feature.id} on map ${feature.map_id} (${data.length} bytes)`);
+
+    const processed = await processImage(data, config.images.thumbnailSize);
+
+    const image = await db.saveFeatureImage({
+      feature_id: feature.id,
+      map_id: feature.map_id,
+      mime_type: imageType,
+      data,
+      width: processed.width,
+      height: processed.height,
+      thumbnail: processed.thumbnail,
+      checksum: processed.checksum,
+      user_id: userId,
+      user_name: userName
+    });
+
+    // Let everyone on the map know the image content changed
+    getIO()?.to(`map-${feature.map_id}`).emit('feature-image-updated', {
+      featureId: feature.id,
+      checksum: image.checksum,
+      width: image.width,
+      height: image.height,
+      updater: {
+        id: userId,
+        name: userName
+      }
+    });
+
+    res.status(201).json(image);
+  } catch (error) {
+    console.error('[API] Error uploading feature image:', error);
+    res.status(500).json({ error: 'Failed to upload image' });
+  }
+};
+
+/**
+ * Get the binary content of an image feature
+ */
+export const getFeatureImage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const feature = await getImageFeature(req, res, 'view');
+    if (!feature) return;
+
+    const image = await db.getFeatureImage(feature.id);
+    if (!image) {
+      res.status(404).json({ error: 'No image uploaded for this feature' });
+      return;
+    }
+
+    if (sendCacheHeaders(req, res, image, '')) return;
+
+    res.setHeader('Content-Type', image.mime_type);
+    res.setHeader('Content-Length', image.data.length);
+
+    // SVG can carry scripts, never let it run in our origin
+    if (image.mime_type === 'image/svg+xml') {
+      res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+    }
+
+    res.end(image.data);
+  } catch (error) {
+    console.error('[API] Error getting feature image:', error);
+    res.status(500).json({ error: 'Failed to get image' });
+  }
+};
+
+/**
+ * Get the thumbnail of an image feature
+ * Falls back to the original image when no thumbnail could be generated
+ */
+export const getFeatureImageThumbnail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const feature = await getImageFeature(req, res, 'view');
+    if (!feature) return;
+
+    const image = await db.getFeatureImageThumbnail(feature.id);
+    if (!image) {
+      res.status(404).json({ error: 'No image uploaded for this feature' });
+      return;
+    }
+
+    if (!image.thumbnail) {
+      await getFeatureImage(req, res);
+      return;
+    }
+
+    if (sendCacheHeaders(req, res, image, '-thumb')) return;
+
+    res.setHeader('Content-Type', 'image/webp');
+    res.setHeader('Content-Length', image.thumbnail.length);
+    res.end(image.thumbnail);
+  } catch (error) {
+    console.error('[API] Error getting feature image thumbnail:', error);
+    res.status(500).json({ error: 'Failed to get image thumbnail' });
+  }
+};
@@ -0,0 +1,96 @@
+// Path: controllers\import.controller.ts
+
+import { Request, Response } from 'express';
+import { db } from '../config/database.js';
+import { getIO } from '../services/socket/index.js';
+import { requireMapPermission } from '../services/auth/permissions.js';
+import { importFeatures, broadcastImport, IMPORT_READERS } from '../services/import/index.js';
+import { ImportError } from '../services/import/errors.js';
+import { ImportOptions } from '../types/import.types.js';
+
+/**
+ * Read the attribute mapping of a request (?attributes={"SOURCE_FIELD":"property"})
+ */
+function parseAttributeMapping(value: unknown): ImportOptions['attributeMapping'] {
+  if (value === undefined || value === '') return undefined;
+
+  let mapping: unknown;
+  try {
+    mapping = typeof value === 'string' ? JSON.parse(value) : value;
+  } catch {
+    throw new ImportError('Attribute mapping must be a JSON object');
+  }
+
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping) ||
+    !Object.values(mapping).every(name => typeof name === 'string' && name.length > 0)) {
+    throw new ImportError('Attribute mapping must map field names to property names');
+  }
+
+  return mapping as Record<string, string>;
+}
+
+/**
+ * Import a file into a map
+ * The file is the raw request body, in the format named by the route (geojson, kml, kmz, gpx, shapefile)
+ * Shapefiles are zipped; their DBF fields can be renamed with the 'attributes' query parameter
+ */
+export const importFile = async (req: Request, res: Response): Promise<void> => {
+  const format = (req.params.format as string).toLowerCase();
+
+  try {
+    const mapId = parseInt(req.params.mapId as string, 10);
+
+    if (isNaN(mapId)) {
+      res.status(400).json({ error: 'Invalid map ID' });
+      return;
+    }
+
+    const read = IMPORT_READERS[format];
+    if (!read) {
+      res.status(400).json({ error: `Unsupported format. Use one of: ${Object.keys(IMPORT_READERS).join(', ')}` });
+      return;
+    }
+
+    const map = await db.getMap(mapId);
+    if (!map) {
+      res.status(404).json({ error: 'Map not found' });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, mapId, 'edit')) return;
+
+    const body = Buffer.isBuffer(req.body) ? req.body : null;
+
+    if (!body || body.length === 0) {
+      res.status(400).json({ error: 'No file provided' });
+      return;
+    }
+
+    console.log(`[API] Importing ${format} (${body.length} bytes) into map ${mapId}`);
+
+    const options: ImportOptions = { attributeMapping: parseAttributeMapping(req.query.attributes) };
+    const parsed = await read(body, options);
+    const result = await importFeatures(mapId, format, parsed, req.user!);
+
+    broadcastImport(getIO(), mapId, result, req.user!);
+
+    // Nothing could be imported from a file that had records
+    const status = result.features.length > 0 ? 201 : result.failures.length > 0 ? 422 : 200;
+
+    res.status(status).json({
+      format,
+      imported: result.features.length,
+      featureIds: result.features.map(feature => feature.id),
+      failed: result.failures.length,
+      failures: result.failures
+    });
+  } catch (error) {
+    if (error instanceof ImportError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error(`[API] Error importing ${format}:`, error);
+    res.status(500).json({ error: `Failed to import ${format}` });
+  }
+};
@@ -0,0 +1,129 @@
+// Path: controllers\map-members.controller.ts
+
+import { Request, Response } from 'express';
+import { db } from '../config/database.js';
+import { refreshMapRoles } from '../services/socket/index.js';
+import { requireMapPermission, isMapRole, MAP_ROLES } from '../services/auth/permissions.js';
+
+/**
+ * Parse the map ID and make sure the map exists
+ */
+const getMapId = async (req: Request, res: Response): Promise<number | null> => {
+  const mapId = parseInt(req.params.mapId as string, 10);
+
+  if (isNaN(mapId)) {
+    res.status(400).json({ error: 'Invalid map ID' });
+    return null;
+  }
+
+  const map = await db.getMap(mapId);
+  if (!map) {
+    res.status(404).json({ error: 'Map not found' });
+    return null;
+  }
+
+  return mapId;
+};
+
+/**
+ * List the members of a map
+ */
+export const getMapMembers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const mapId = await getMapId(req, res);
+    if (mapId === null) return;
+
+    if (!await requireMapPermission(req, res, mapId, 'view')) return;
+
+    const members = await db.getMapMembers(mapId);
+    console.log(`[API] Found ${members.length} members for map ${mapId}`);
+
+    res.json(members);
+  } catch (error) {
+    console.error('[API] Error fetching map members:', error);
+    res.status(500).json({ error: 'Failed to fetch map members' });
+  }
+};
+
+/**
+ * Add a member to a map or change their role
+ */
+export const setMapMember = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const mapId = await getMapId(req, res);
+    if (mapId === null) return;
+
+    const memberId = req.params.userId as string;
+    const { role, userName } = req.body || {};
+
+    if (!isMapRole(role)) {
+      res.status(400).json({ error: `Role must be one of: ${MAP_ROLES.join(', ')}` });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, mapId, 'manage')) return;
+
+    const user = req.user!;
+    const current = await db.getMapMember(mapId, memberId);
+
+    // A map can't be left without an owner
+    if (current?.role === 'owner' && role !== 'owner' && await db.countMapOwners(mapId) <= 1) {
+      res.status(409).json({ error: 'A map must keep at least one owner' });
+      return;
+    }
+
+    console.log(`[API] User ${user.id} setting role of ${memberId} in map ${mapId} to ${role}`);
+
+    const member = await db.setMapMember(
+      mapId,
+      memberId,
+      typeof userName === 'string' && userName.trim() ? userName.trim() : null,
+      role,
+      user.id
+    );
+
+    await refreshMapRoles(mapId);
+
+    res.status(current ? 200 : 201).json(member);
+  } catch (error) {
+    console.error('[API] Error setting map member:', error);
+    res.status(500).json({ error: 'Failed to set map member' });
+  }
+};
+
+/**
+ * Remove a member from a map
+ * Members can always remove themselves
+ */
+export const removeMapMember = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const mapId = await getMapId(req, res);
+    if (mapId === null) return;
+
+    const memberId = req.params.userId as string;
+    const user = req.user!;
+
+    if (memberId !== user.id && !await requireMapPermission(req, res, mapId, 'manage')) return;
+
+    const current = await db.getMapMember(mapId, memberId);
+    if (!current) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+
+    if (current.role === 'owner' && await db.countMapOwners(mapId) <= 1) {
+      res.status(409).json({ error: 'A map must keep at least one owner' });
+      return;
+    }
+
+    console.log(`[API] User ${user.id} removing ${memberId} from map ${mapId}`);
+
+    await db.removeMapMember(mapId, memberId);
+    await refreshMapRoles(mapId);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('[API] Error removing map member:', error);
+    res.status(500).json({ error: 'Failed to remove map member' });
+  }
+};
@@ -1,11 +1,15 @@
 // Path: controllers\maps.controller.ts
 import { Request, Response } from 'express';
 import { db } from '../config/database.js';
+import { MapsRepository } from '../db/repos/maps.repo.js';
+import { MapMembersRepository } from '../db/repos/map-members.repo.js';
+import { requireMapPermission } from '../services/auth/permissions.js';
 
-export const getMaps = async (_req: Request, res: Response): Promise<void> => {
+// Only the maps the user can view are listed
+export const getMaps = async (req: Request, res: Response): Promise<void> => {
   try {
-    console.log('[API] Fetching all maps');
-    const maps = await db.getMaps();
+    console.log(`[API] Fetching maps for user ${req.user!.id}`);
+    const maps = await db.getMapsForUser(req.user!.id);
     console.log(`[API] Found ${maps.length} maps`);
     res.json(maps);
   } catch (error) {
@@ -27,6 +31,8 @@ export const getMap = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    if (!await requireMapPermission(req, res, mapId, 'view')) return;
+
     console.log(`[API] Map ${mapId} found: ${map.name}`);
     res.json(map);
   } catch (error) {
@@ -46,7 +52,12 @@ export const createMap = async (req: Request, res: Response): Promise<void> => {
   }
 
   try {
-    const newMap = await db.createMap(name, description || null);
+    // The creator becomes the owner of the new map
+    const newMap = await db.tx('create-map', async t => {
+      const map = await new MapsRepository(t).createMap(name, description || null);
+      await new MapMembersRepository(t).setMapMember(map.id, req.user!.id, req.user!.name, 'owner', req.user!.id);
+      return map;
+    });
     console.log(`[API] Map created successfully with ID ${newMap.id}`);
     res.status(201).json(newMap);
   } catch (error) {
@@ -67,6 +78,8 @@ export const updateMap = async (req: Request, res: Response): Promise<void> => {
   }
 
   try {
+    if (!await requireMapPermission(req, res, mapId, 'manage')) return;
+
     const updatedMap = await db.updateMap(mapId, name, description || null);
 
     if (!updatedMap) {
@@ -88,6 +101,8 @@ export const deleteMap = async (req: Request, res: Response): Promise<void> => {
   console.log(`[API] Deleting map ${mapId}`);
 
   try {
+    if (!await requireMapPermission(req, res, mapId, 'manage')) return;
+
     const deleted = await db.deleteMap(mapId);
 
     if (!deleted) {
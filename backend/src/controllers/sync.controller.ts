@@ -2,8 +2,9 @@
 
 import { Request, Response } from 'express';
 import { db } from '../config/database.js';
-import { compressFeatures, compressFeature } from '../utils/geometryCompression.js';
+import { compressFeatures, compressFeature, simplificationTolerance } from '../utils/geometryCompression.js';
 import { FeatureHistory } from '../types/history.types.js';
+import { requireMapPermission } from '../services/auth/permissions.js';
 
 // Constants for pagination limits
 const MAX_PAGE_SIZE = 500; // Maximum number of items per page
@@ -18,6 +19,8 @@ export const getMapUpdates = async (req: Request, res: Response): Promise<void>
   try {
     const mapId = parseInt(req.params.mapId, 10);
     
+    if (!await requireMapPermission(req, res, mapId, 'view')) return;
+    
     // Parse query parameters with defaults and enforce limits
     const since = req.query.since ? parseInt(req.query.since as string, 10) : 0;
     
@@ -33,6 +36,9 @@ export const getMapUpdates = async (req: Request, res: Response): Promise<void>
     
     const includeHistory = req.query.history === 'true';
     
+    // Geometries can be simplified for the zoom level they will be shown at (?zoom=) or by ?tolerance= (degrees)
+    const tolerance = simplificationTolerance(req.query.zoom, req.query.tolerance);
+    
     // Optional viewport filtering
     let viewport = null;
     if (req.query.viewport) {
@@ -63,7 +69,7 @@ export const getMapUpdates = async (req: Request, res: Response): Promise<void>
     }
     
     console.log(`[API] Map ${mapId} sync requested since ${new Date(since).toISOString()}`);
-    console.log(`[API] Options: page=${page}, limit=${limit}, viewport=${!!viewport}, history=${includeHistory}`);
+    console.log(`[API] Options: page=${page}, limit=${limit}, viewport=${!!viewport}, history=${includeHistory}, tolerance=${tolerance}`);
     
     // Prepare response structure
     const response: any = {
@@ -95,12 +101,12 @@ export const getMapUpdates = async (req: Request, res: Response): Promise<void>
       
       // Get features in viewport updated since timestamp
       response.data.features = await db.getFeaturesInViewportSince(
-        mapId, minLng, minLat, maxLng, maxLat, since, page, limit
+        mapId, minLng, minLat, maxLng, maxLat, since, page, limit, tolerance
       );
     } else {
       // Get all features updated since timestamp
       response.data.features = await db.getUpdatedFeatures(
-        mapId, since, page, limit
+        mapId, since, page, limit, tolerance
       );
     }
     
@@ -160,6 +166,8 @@ export const getFeatureUpdates = async (req: Request, res: Response): Promise<vo
       return;
     }
     
+    if (!await requireMapPermission(req, res, feature.map_id, 'view')) return;
+    
     // Check if feature was deleted and exists only in history
     const isDeleted = await db.isFeatureDeleted(featureId);
     
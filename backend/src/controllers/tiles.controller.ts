@@ -0,0 +1,63 @@
+// Path: controllers\tiles.controller.ts
+
+import { Request, Response } from 'express';
+import { db } from '../config/database.js';
+import { requireMapPermission } from '../services/auth/permissions.js';
+
+// Deepest zoom level tiles are served for
+const MAX_TILE_ZOOM = 22;
+
+// Tiles change with any feature of the map, so clients must revalidate (cheap with the ETag)
+const CACHE_CONTROL = 'private, max-age=0, must-revalidate';
+
+/**
+ * Get a Mapbox Vector Tile with the features of a map
+ * The tile has a single 'features' layer with the feature type and style properties as attributes.
+ * Its ETag is the version of the map's features, so unchanged tiles are answered with a 304
+ */
+export const getMapTile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const mapId = parseInt(req.params.mapId as string, 10);
+    const z = parseInt(req.params.z as string, 10);
+    const x = parseInt(req.params.x as string, 10);
+    const y = parseInt(req.params.y as string, 10);
+
+    if (isNaN(mapId)) {
+      res.status(400).json({ error: 'Invalid map ID' });
+      return;
+    }
+
+    const tileCount = 2 ** z;
+    if (isNaN(z) || isNaN(x) || isNaN(y) || z < 0 || z > MAX_TILE_ZOOM ||
+      x < 0 || x >= tileCount || y < 0 || y >= tileCount) {
+      res.status(400).json({ error: 'Invalid tile coordinates' });
+      return;
+    }
+
+    const map = await db.getMap(mapId);
+    if (!map) {
+      res.status(404).json({ error: 'Map not found' });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, mapId, 'view')) return;
+
+    const etag = `"${await db.getMapFeaturesVersion(mapId)}"`;
+
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', CACHE_CONTROL);
+
+    if (req.headers['if-none-match'] === etag) {
+      res.status(304).end();
+      return;
+    }
+
+    const tile = await db.getMapTile(mapId, z, x, y);
+
+    res.setHeader('Content-Type', 'application/vnd.mapbox-vector-tile');
+    res.send(tile);
+  } catch (error) {
+    console.error('[API] Error getting map tile:', error);
+    res.status(500).json({ error: 'Failed to get map tile' });
+  }
+};
@@ -0,0 +1,67 @@
+// Path: controllers\undo.controller.ts
+
+import { Request, Response } from 'express';
+import { getIO } from '../services/socket/index.js';
+import {
+  undoLastOperation,
+  redoLastOperation,
+  broadcastUndoRedo,
+  UndoRedoResult
+} from '../services/history/undo-redo.js';
+import { requireMapPermission } from '../services/auth/permissions.js';
+
+/**
+ * Shared handling of the undo and redo routes
+ */
+const handleUndoRedo = async (
+  action: 'undo' | 'redo',
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const mapId = parseInt(req.params.mapId as string, 10);
+    // Identity verified by the authentication middleware
+    const { id: userId, name: userName } = req.user!;
+
+    if (isNaN(mapId)) {
+      res.status(400).json({ error: 'Invalid map ID' });
+      return;
+    }
+
+    if (!await requireMapPermission(req, res, mapId, 'edit')) return;
+
+    console.log(`[API] User ${userName} (${userId}) requesting ${action} on map ${mapId}`);
+
+    const result: UndoRedoResult = action === 'undo' ?
+      await undoLastOperation(mapId, userId, userName) :
+      await redoLastOperation(mapId, userId, userName);
+
+    if (!result.success) {
+      const status = result.reason === 'empty' ? 404 : result.reason === 'locked' ? 423 : 409;
+      res.status(status).json({ error: result.message, reason: result.reason });
+      return;
+    }
+
+    broadcastUndoRedo(getIO(), mapId, result, { id: userId, name: userName });
+
+    res.json({
+      operation: result.operation,
+      feature: result.feature || null,
+      deletedFeatureId: result.deletedFeature?.id || null,
+      merged: result.merged || false
+    });
+  } catch (error) {
+    console.error(`[API] Error processing ${action}:`, error);
+    res.status(500).json({ error: `Failed to ${action}` });
+  }
+};
+
+/**
+ * Undo the user's last operation on a map
+ */
+export const undo = (req: Request, res: Response): Promise<void> => handleUndoRedo('undo', req, res);
+
+/**
+ * Redo the user's last undone operation on a map
+ */
+export const redo = (req: Request, res: Response): Promise<void> => handleUndoRedo('redo', req, res);
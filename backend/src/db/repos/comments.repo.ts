@@ -1,21 +1,67 @@
 // Path: db\repos\comments.repo.ts
-import { IDatabase } from 'pg-promise';
-import { Comment, Reply } from '../../types/index.js';
+import { IBaseProtocol } from 'pg-promise';
+import { Comment, CommentStatus, Reply } from '../../types/index.js';
 
 export class CommentsRepository {
-  private db: IDatabase<any>;
+  private db: IBaseProtocol<any>;
 
-  constructor(db: IDatabase<any>) {
+  constructor(db: IBaseProtocol<any>) {
     this.db = db;
   }
 
-  async getMapComments(mapId: number): Promise<Comment[]> {
+  // With statuses, only the comments in one of them
+  async getMapComments(mapId: number, statuses?: CommentStatus[]): Promise<Comment[]> {
     return this.db.any(
-      'SELECT * FROM comments WHERE map_id = $1 ORDER BY created_at DESC',
-      mapId,
+      `SELECT * FROM comments WHERE map_id = $1 ${statuses ? 'AND status IN ($2:csv)' : ''} ORDER BY created_at DESC`,
+      [mapId, statuses],
     );
   }
 
+  // Comments anchored to a feature, with their replies
+  async getFeatureComments(featureId: string, statuses?: CommentStatus[]): Promise<Comment[]> {
+    return this.db.any(
+      `SELECT c.*, COALESCE(
+         (SELECT json_agg(r ORDER BY r.created_at ASC) FROM replies r WHERE r.comment_id = c.id),
+         '[]'::json
+       ) as replies
+       FROM comments c
+       WHERE c.feature_id = $1 ${statuses ? 'AND c.status IN ($2:csv)' : ''}
+       ORDER BY c.created_at DESC`,
+      [featureId, statuses],
+    );
+  }
+
+  // Read all comments of a map (with their replies) in batches through a cursor
+  async forEachMapCommentBatch(
+    mapId: number,
+    batchSize: number,
+    onBatch: (comments: Comment[]) => Promise<void>
+  ): Promise<void> {
+    await this.db.tx('stream-map-comments', async t => {
+      await t.none(
+        `DECLARE map_comments_cursor NO SCROLL CURSOR FOR
+         SELECT c.*, COALESCE(
+           (SELECT json_agg(r ORDER BY r.created_at ASC) FROM replies r WHERE r.comment_id = c.id),
+           '[]'::json
+         ) as replies
+         FROM comments c
+         WHERE c.map_id = $1
+         ORDER BY c.created_at ASC, c.id ASC`,
+        mapId
+      );
+
+      let rows: Comment[];
+      do {
+        rows = await t.any('FETCH $1 FROM map_comments_cursor', batchSize);
+        if (rows.length > 0) {
+          await onBatch(rows);
+        }
+      } while (rows.length === batchSize);
+
+      await t.none('CLOSE map_comments_cursor');
+    });
+  }
+
   async getCommentReplies(commentId: string): Promise<Reply[]> {
     return this.db.any(
       'SELECT * FROM replies WHERE comment_id = $1 ORDER BY created_at ASC',
@@ -30,13 +76,14 @@ export class CommentsRepository {
     content: string;
     lng: number;
     lat: number;
+    feature_id?: string | null;
     client_id?: string;
     offline_created?: boolean;
   }): Promise<Comment> {
     return this.db.one(
       `INSERT INTO comments 
-       (map_id, user_id, user_name, content, lng, lat, client_id, offline_created) 
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) 
+       (map_id, user_id, user_name, content, lng, lat, client_id, offline_created, feature_id) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
        RETURNING *`,
       [
         data.map_id,
@@ -46,7 +93,8 @@ export class CommentsRepository {
         data.lng,
         data.lat,
         data.client_id || null,
-        data.offline_created || false
+        data.offline_created || false,
+        data.feature_id || null
       ],
     );
   }
@@ -86,6 +134,24 @@ export class CommentsRepository {
     );
   }
 
+  // Close (resolved/wont-fix) or reopen a thread - who closed it is only kept while closed
+  async setCommentStatus(
+    id: string,
+    status: CommentStatus,
+    userId: string,
+    userName: string,
+  ): Promise<Comment | null> {
+    const closed = status !== 'open';
+    return this.db.oneOrNone(
+      `UPDATE comments 
+       SET status = $1, resolved_by = $2, resolved_by_name = $3,
+       resolved_at = ${closed ? 'CURRENT_TIMESTAMP' : 'NULL'}, updated_at = CURRENT_TIMESTAMP 
+       WHERE id = $4 
+       RETURNING *`,
+      [status, closed ? userId : null, closed ? userName : null, id],
+    );
+  }
+
   async deleteComment(id: string): Promise<boolean> {
     const result = await this.db.result(
       'DELETE FROM comments WHERE id = $1',
@@ -1,13 +1,13 @@
 // Path: db\repos\feature-history.repo.ts
 
-import { IDatabase } from 'pg-promise';
+import { IBaseProtocol } from 'pg-promise';
 import { Feature } from '@/types/feature.types.js';
-import { FeatureHistory } from '@/types/history.types.js';
+import { FeatureHistory, UndoRedoHistoryDTO } from '@/types/history.types.js';
 
 export class FeatureHistoryRepository {
-  private db: IDatabase<any>;
+  private db: IBaseProtocol<any>;
 
-  constructor(db: IDatabase<any>) {
+  constructor(db: IBaseProtocol<any>) {
     this.db = db;
   }
 
@@ -50,6 +50,68 @@ export class FeatureHistoryRepository {
     );
   }
 
+  // Record an operation produced by undo/redo and mark the entry it reverts as undone
+  async recordUndoRedo(data: UndoRedoHistoryDTO): Promise<FeatureHistory> {
+    const state = data.new_state || data.previous_state;
+
+    return this.db.tx('record-undo-redo', async (t) => {
+      await t.none(
+        'UPDATE feature_history SET undone = TRUE WHERE id = $1',
+        data.source_history_id
+      );
+
+      return t.one(
+        `INSERT INTO feature_history 
+         (feature_id, map_id, operation, previous_state, new_state, user_id, user_name, undo_action, source_history_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          // Deleted features no longer exist, so the reference must stay empty
+          data.operation === 'delete' ? null : state!.id,
+          state!.map_id,
+          data.operation,
+          data.previous_state,
+          data.new_state,
+          data.user_id,
+          data.user_name,
+          data.undo_action,
+          data.source_history_id
+        ]
+      );
+    });
+  }
+
+  // Get the most recent operation of a user on a map that can be undone
+  // (original operations and redos that haven't been undone yet)
+  async getLastUndoableOperation(mapId: number, userId: string): Promise<FeatureHistory | null> {
+    return this.db.oneOrNone(
+      `SELECT * FROM feature_history
+       WHERE map_id = $1 AND user_id = $2 AND undone = FALSE
+       AND (undo_action IS NULL OR undo_action = 'redo')
+       ORDER BY id DESC
+       LIMIT 1`,
+      [mapId, userId]
+    );
+  }
+
+  // Get the most recent undo of a user on a map that can be redone
+  // A new original operation after an undo discards it from the redo stack
+  async getLastRedoableOperation(mapId: number, userId: string): Promise<FeatureHistory | null> {
+    return this.db.oneOrNone(
+      `SELECT * FROM feature_history h
+       WHERE h.map_id = $1 AND h.user_id = $2 AND h.undone = FALSE
+       AND h.undo_action = 'undo'
+       AND NOT EXISTS (
+         SELECT 1 FROM feature_history later
+         WHERE later.map_id = $1 AND later.user_id = $2
+         AND later.undo_action IS NULL AND later.id > h.id
+       )
+       ORDER BY h.id DESC
+       LIMIT 1`,
+      [mapId, userId]
+    );
+  }
+
   // Get feature history
   async getFeatureHistory(featureId: string): Promise<FeatureHistory[]> {
     return this.db.any(
@@ -88,7 +150,7 @@ export class FeatureHistoryRepository {
     return this.db.any(
       `SELECT * FROM feature_history
        WHERE map_id = $1 AND timestamp > to_timestamp($2/1000.0)
-       ORDER BY timestamp ASC
+       ORDER BY timestamp ASC, id ASC
        LIMIT $3 OFFSET $4`,
       [mapId, since, limit, offset]
     );
@@ -119,4 +181,18 @@ export class FeatureHistoryRepository {
       clientOperationId
     );
   }
+
+  // Undo/redo of a user on a map, held by the connection this repository runs on
+  // (a task) until unlocked or until that connection closes, so it can't outlive a crashed server
+  async tryLockUndoRedo(mapId: number, userId: string): Promise<boolean> {
+    const result = await this.db.one(
+      'SELECT pg_try_advisory_lock($1, hashtext($2)) AS locked',
+      [mapId, userId]
+    );
+    return result.locked;
+  }
+
+  async unlockUndoRedo(mapId: number, userId: string): Promise<void> {
+    await this.db.one('SELECT pg_advisory_unlock($1, hashtext($2))', [mapId, userId]);
+  }
 }
\ No newline at end of file
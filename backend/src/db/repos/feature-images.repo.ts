@@ -0,0 +1,89 @@
+// Path: db\repos\feature-images.repo.ts
+
+import { IBaseProtocol } from 'pg-promise';
+import { FeatureImage, FeatureImageMetadata, SaveFeatureImageDTO } from '@/types/feature.types.js';
+
+// Columns returned when the image bytes are not needed
+const METADATA_COLUMNS = `feature_id, map_id, mime_type, size_bytes, width, height, checksum,
+  user_id, user_name, created_at, updated_at`;
+
+export class FeatureImagesRepository {
+  private db: IBaseProtocol<any>;
+
+  constructor(db: IBaseProtocol<any>) {
+    this.db = db;
+  }
+
+  // Store (or replace) the image of a feature
+  async saveImage(data: SaveFeatureImageDTO): Promise<FeatureImageMetadata> {
+    return this.db.one(
+      `INSERT INTO feature_images 
+       (feature_id, map_id, mime_type, data, size_bytes, width, height, thumbnail, checksum, user_id, user_name)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (feature_id) DO UPDATE SET
+         mime_type = EXCLUDED.mime_type,
+         data = EXCLUDED.data,
+         size_bytes = EXCLUDED.size_bytes,
+         width = EXCLUDED.width,
+         height = EXCLUDED.height,
+         thumbnail = EXCLUDED.thumbnail,
+         checksum = EXCLUDED.checksum,
+         user_id = EXCLUDED.user_id,
+         user_name = EXCLUDED.user_name,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING ${METADATA_COLUMNS}`,
+      [
+        data.feature_id,
+        data.map_id,
+        data.mime_type,
+        data.data,
+        data.data.length,
+        data.width,
+        data.height,
+        data.thumbnail,
+        data.checksum,
+        data.user_id,
+        data.user_name
+      ]
+    );
+  }
+
+  // Get the full image of a feature
+  async getImage(featureId: string): Promise<FeatureImage | null> {
+    return this.db.oneOrNone(
+      `SELECT ${METADATA_COLUMNS}, data
+       FROM feature_images
+       WHERE feature_id = $1`,
+      featureId
+    );
+  }
+
+  // Get the thumbnail of a feature image (falls back to null if none was generated)
+  async getImageThumbnail(featureId: string): Promise<(FeatureImageMetadata & { thumbnail: Buffer | null }) | null> {
+    return this.db.oneOrNone(
+      `SELECT ${METADATA_COLUMNS}, thumbnail
+       FROM feature_images
+       WHERE feature_id = $1`,
+      featureId
+    );
+  }
+
+  // Get image metadata without loading the bytes
+  async getImageMetadata(featureId: string): Promise<FeatureImageMetadata | null> {
+    return this.db.oneOrNone(
+      `SELECT ${METADATA_COLUMNS}
+       FROM feature_images
+       WHERE feature_id = $1`,
+      featureId
+    );
+  }
+
+  // Delete the image of a feature
+  async deleteImage(featureId: string): Promise<boolean> {
+    const result = await this.db.result(
+      'DELETE FROM feature_images WHERE feature_id = $1',
+      featureId
+    );
+    return result.rowCount > 0;
+  }
+}
@@ -0,0 +1,145 @@
+// Path: db\repos\feature-locks.repo.ts
+
+import { IBaseProtocol } from 'pg-promise';
+import { FeatureLock, FeatureLockMode, LockAcquireResult } from '@/types/socket.js';
+
+// Lock row in the shape used by the socket handlers (timestamps in ms)
+const LOCK_COLUMNS = `
+  feature_id AS "featureId",
+  map_id AS "mapId",
+  user_id AS "userId",
+  user_name AS "userName",
+  socket_id AS "socketId",
+  mode,
+  (EXTRACT(EPOCH FROM acquired_at) * 1000)::float8 AS "acquiredAt",
+  (EXTRACT(EPOCH FROM expires_at) * 1000)::float8 AS "expiresAt"
+`;
+
+// Expiry of a lock taken or renewed now, with the TTL (ms) in the given parameter
+const expiresIn = (param: string) => `CURRENT_TIMESTAMP + (${param} * INTERVAL '1 millisecond')`;
+
+export class FeatureLocksRepository {
+  private db: IBaseProtocol<any>;
+
+  constructor(db: IBaseProtocol<any>) {
+    this.db = db;
+  }
+
+  // Active locks on the given features held by someone other than the user
+  async getBlockingLocks(featureIds: string[], userId: string): Promise<FeatureLock[]> {
+    if (!featureIds.length) return [];
+
+    return this.db.any(
+      `SELECT ${LOCK_COLUMNS} FROM feature_locks
+       WHERE feature_id IN ($1:csv) AND user_id <> $2 AND expires_at > CURRENT_TIMESTAMP`,
+      [featureIds, userId]
+    );
+  }
+
+  async getMapLocks(mapId: number): Promise<FeatureLock[]> {
+    return this.db.any(
+      `SELECT ${LOCK_COLUMNS} FROM feature_locks
+       WHERE map_id = $1 AND expires_at > CURRENT_TIMESTAMP`,
+      mapId
+    );
+  }
+
+  // Soft locks of others are only taken with takeOver, hard locks never
+  async acquireLocks(
+    mapId: number,
+    userId: string,
+    userName: string,
+    socketId: string,
+    featureIds: string[],
+    mode: FeatureLockMode,
+    takeOver: boolean,
+    ttlMs: number
+  ): Promise<LockAcquireResult> {
+    return this.db.tx(async t => {
+      const result: LockAcquireResult = { acquired: [], denied: [], takenOver: [] };
+
+      // Always in the same order, so two users locking the same features can't deadlock
+      for (const featureId of [...featureIds].sort()) {
+        // Serializes everyone locking this feature, including while it has no lock row yet
+        await t.none('SELECT pg_advisory_xact_lock(hashtext($1))', featureId);
+
+        const existing = await t.oneOrNone(
+          `SELECT ${LOCK_COLUMNS}, expires_at > CURRENT_TIMESTAMP AS active
+           FROM feature_locks WHERE feature_id = $1`,
+          featureId
+        );
+        const { active, ...current } = existing || { active: false };
+
+        if (active && current.userId !== userId) {
+          if (current.mode === 'hard' || !takeOver) {
+            result.denied.push(current as FeatureLock);
+            continue;
+          }
+          result.takenOver.push(current as FeatureLock);
+        }
+
+        const lock = await t.one(
+          `INSERT INTO feature_locks (feature_id, map_id, user_id, user_name, socket_id, mode, expires_at)
+           VALUES ($1, $2, $3, $4, $5, $6, ${expiresIn('$7')})
+           ON CONFLICT (feature_id) DO UPDATE SET
+             map_id = EXCLUDED.map_id,
+             user_id = EXCLUDED.user_id,
+             user_name = EXCLUDED.user_name,
+             socket_id = EXCLUDED.socket_id,
+             mode = EXCLUDED.mode,
+             acquired_at = CASE WHEN $8 THEN feature_locks.acquired_at ELSE EXCLUDED.acquired_at END,
+             expires_at = EXCLUDED.expires_at
+           RETURNING ${LOCK_COLUMNS}`,
+          [featureId, mapId, userId, userName, socketId, mode, ttlMs, active && current.userId === userId]
+        );
+        result.acquired.push(lock);
+      }
+
+      return result;
+    });
+  }
+
+  // Extend the active locks of a user (all of them, or only the given features)
+  async renewLocks(userId: string, featureIds: string[] | null, ttlMs: number): Promise<FeatureLock[]> {
+    return this.db.any(
+      `UPDATE feature_locks SET expires_at = ${expiresIn('$3')}
+       WHERE user_id = $1 AND expires_at > CURRENT_TIMESTAMP
+         AND ($2::varchar[] IS NULL OR feature_id = ANY($2::varchar[]))
+       RETURNING ${LOCK_COLUMNS}`,
+      [userId, featureIds, ttlMs]
+    );
+  }
+
+  // Locks of a user in a map, except those on the features to keep
+  async releaseUserLocks(userId: string, mapId: number, keepFeatureIds: string[] = []): Promise<FeatureLock[]> {
+    return this.db.any(
+      `DELETE FROM feature_locks
+       WHERE user_id = $1 AND map_id = $2 AND NOT (feature_id = ANY($3::varchar[]))
+       RETURNING ${LOCK_COLUMNS}`,
+      [userId, mapId, keepFeatureIds]
+    );
+  }
+
+  async releaseSocketLocks(socketId: string): Promise<FeatureLock[]> {
+    return this.db.any(
+      `DELETE FROM feature_locks WHERE socket_id = $1 RETURNING ${LOCK_COLUMNS}`,
+      socketId
+    );
+  }
+
+  async releaseFeatureLocks(featureIds: string[]): Promise<FeatureLock[]> {
+    if (!featureIds.length) return [];
+
+    return this.db.any(
+      `DELETE FROM feature_locks WHERE feature_id IN ($1:csv) RETURNING ${LOCK_COLUMNS}`,
+      [featureIds]
+    );
+  }
+
+  // Each expired lock is returned to a single server, even when several sweep at once
+  async releaseExpiredLocks(): Promise<FeatureLock[]> {
+    return this.db.any(
+      `DELETE FROM feature_locks WHERE expires_at <= CURRENT_TIMESTAMP RETURNING ${LOCK_COLUMNS}`
+    );
+  }
+}
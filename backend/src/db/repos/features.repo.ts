@@ -1,16 +1,60 @@
 // Path: db\repos\features.repo.ts
 
-import { IDatabase } from 'pg-promise';
-import { Feature, CreateFeatureDTO, UpdateFeatureDTO } from '@/types/feature.types.js';
+import { IBaseProtocol } from 'pg-promise';
+import { Feature, CreateFeatureDTO, UpdateFeatureDTO, UpdateFeatureResult, RestoreFeatureResult } from '@/types/feature.types.js';
+import { mergeFeatureChanges } from '../../utils/featureMerge.js';
 
 // Default precision to use in SQL queries for geometry coordinates
 // 5 decimal places ≈ 1.1 meter precision at the equator
 const DEFAULT_GEOMETRY_PRECISION = 5;
 
+// Geometry of each row simplified with the tolerance in the given parameter (0 keeps it in full)
+// Used as "FROM features, ${simplifiedGeometry('$n')}", exposing the shape and whether it was simplified
+const simplifiedGeometry = (tolerance: string) =>
+  `LATERAL (
+     SELECT shape, ST_NPoints(shape) < ST_NPoints(geometry) AS simplified
+     FROM (SELECT CASE WHEN ${tolerance}::float8 > 0
+       THEN ST_SimplifyPreserveTopology(geometry, ${tolerance}::float8)
+       ELSE geometry END AS shape) shapes
+   ) simplification`;
+
+// Style properties written as vector tile attributes, with the type they are read as
+const TILE_STYLE_PROPERTIES: Record<string, 'text' | 'float8' | 'boolean'> = {
+  color: 'text',
+  size: 'float8',
+  opacity: 'float8',
+  fillColor: 'text',
+  fillOpacity: 'float8',
+  borderColor: 'text',
+  borderSize: 'float8',
+  borderOpacity: 'float8',
+  text: 'text',
+  bufferColor: 'text',
+  justification: 'text',
+  rotation: 'float8',
+  imageType: 'text',
+  showLength: 'boolean',
+  showArea: 'boolean'
+};
+
+// Pattern a value must match to be read as the type, values that don't are left out of the tile
+// (numbers as jsonb prints them, with few enough digits to fit a float8)
+const TILE_STYLE_PATTERNS: Record<'float8' | 'boolean', string> = {
+  float8: '^-?([0-9]{1,300}(\\.[0-9]*)?|\\.[0-9]+)$',
+  boolean: '^(true|false)$'
+};
+
+const TILE_STYLE_COLUMNS = Object.entries(TILE_STYLE_PROPERTIES)
+  .map(([key, type]) => type === 'text' ?
+    `properties->>'${key}' AS "${key}"` :
+    `CASE WHEN properties->>'${key}' ~ '${TILE_STYLE_PATTERNS[type]}'
+           THEN (properties->>'${key}')::${type} END AS "${key}"`)
+  .join(',\n         ');
+
 export class FeaturesRepository {
-  private db: IDatabase<any>;
+  private db: IBaseProtocol<any>;
 
-  constructor(db: IDatabase<any>) {
+  constructor(db: IBaseProtocol<any>) {
     this.db = db;
   }
 
@@ -28,6 +72,38 @@ export class FeaturesRepository {
     );
   }
 
+  // Read all features of a map in batches through a cursor, so large maps are never fully in memory
+  // Each batch is handled (e.g. written to a response) before the next one is fetched
+  async forEachMapFeatureBatch(
+    mapId: number,
+    batchSize: number,
+    onBatch: (features: Feature[]) => Promise<void>
+  ): Promise<void> {
+    await this.db.tx('stream-map-features', async t => {
+      await t.none(
+        `DECLARE map_features_cursor NO SCROLL CURSOR FOR
+         SELECT id, map_id, feature_type, 
+         ST_AsGeoJSON(geometry, ${DEFAULT_GEOMETRY_PRECISION})::json as geometry, 
+         properties, user_id, user_name, created_at, updated_at, version,
+         client_id, offline_created
+         FROM features 
+         WHERE map_id = $1
+         ORDER BY created_at ASC, id ASC`,
+        mapId
+      );
+
+      let rows: Feature[];
+      do {
+        rows = await t.any('FETCH $1 FROM map_features_cursor', batchSize);
+        if (rows.length > 0) {
+          await onBatch(rows);
+        }
+      } while (rows.length === batchSize);
+
+      await t.none('CLOSE map_features_cursor');
+    });
+  }
+
   // Get features by type
   async getMapFeaturesByType(mapId: number, featureType: string): Promise<Feature[]> {
     return this.db.any(
@@ -55,6 +131,33 @@ export class FeaturesRepository {
     );
   }
 
+  // Get features of a map by id, simplified with the given tolerance (e.g. updates a client missed out of its viewport)
+  async getFeaturesByIds(mapId: number, ids: string[], tolerance: number = 0): Promise<Feature[]> {
+    if (!ids.length) return [];
+    
+    return this.db.any(
+      `SELECT id, map_id, feature_type, 
+       ST_AsGeoJSON(shape, ${DEFAULT_GEOMETRY_PRECISION})::json as geometry, 
+       properties, user_id, user_name, created_at, updated_at, version,
+       client_id, offline_created, simplified
+       FROM features, ${simplifiedGeometry('$3')}
+       WHERE map_id = $1 AND id IN ($2:csv)
+       ORDER BY updated_at ASC`,
+      [mapId, ids, tolerance]
+    );
+  }
+
+  // Which of the given IDs are features of the map
+  async getMapFeatureIds(mapId: number, ids: string[]): Promise<string[]> {
+    if (!ids.length) return [];
+    
+    const rows = await this.db.any(
+      'SELECT id FROM features WHERE map_id = $1 AND id IN ($2:csv)',
+      [mapId, ids]
+    );
+    return rows.map(row => row.id);
+  }
+
   // Get feature by client_id (for offline reconciliation)
   async getFeatureByClientId(clientId: string, mapId: number): Promise<Feature | null> {
     return this.db.oneOrNone(
@@ -92,13 +195,52 @@ export class FeaturesRepository {
     );
   }
 
+  // Recreate a previously deleted feature with its original id
+  // The version continues from the deleted state so clients see it as newer
+  // Comments detached by the deletion are anchored to it again
+  async restoreFeature(feature: Feature, userId: string, userName: string): Promise<RestoreFeatureResult> {
+    return this.db.tx('restore-feature', async t => {
+      const restored: Feature = await t.one(
+        `INSERT INTO features 
+         (id, map_id, feature_type, geometry, properties, user_id, user_name, version, client_id, offline_created)
+         VALUES ($1, $2, $3, ST_GeomFromGeoJSON($4), $5, $6, $7, $8, $9, $10)
+         RETURNING id, map_id, feature_type, 
+         ST_AsGeoJSON(geometry, ${DEFAULT_GEOMETRY_PRECISION})::json as geometry,
+         properties, user_id, user_name, created_at, updated_at, version,
+         client_id, offline_created`,
+        [
+          feature.id,
+          feature.map_id,
+          feature.feature_type,
+          JSON.stringify(feature.geometry),
+          feature.properties,
+          userId,
+          userName,
+          (feature.version || 0) + 1,
+          feature.client_id || null,
+          feature.offline_created || false
+        ]
+      );
+
+      const reanchoredComments = await t.any(
+        `UPDATE comments SET feature_id = detached_feature_id, detached_feature_id = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE detached_feature_id = $1
+         RETURNING *`,
+        restored.id
+      );
+
+      return { feature: restored, reanchoredComments };
+    });
+  }
+
   // Update feature with version check for optimistic concurrency
+  // With data.merge, a stale update is merged with the changes made since its base version
   async updateFeature(
     id: string, 
     data: UpdateFeatureDTO, 
     userId: string,
     userName: string
-  ): Promise<{ success: boolean; feature?: Feature; currentVersion?: number }> {
+  ): Promise<UpdateFeatureResult> {
     // Start a transaction for atomic operations
     return this.db.tx('update-feature', async (t) => {
       // First get current feature and check version
@@ -115,12 +257,54 @@ export class FeaturesRepository {
         return { success: false }; // Feature not found
       }
 
+      let geometry = data.geometry;
+      let properties = data.properties;
+      let merged = false;
+
       // Check if versions match for optimistic concurrency
       if (currentFeature.version !== data.version) {
-        return { 
-          success: false,
-          currentVersion: currentFeature.version
-        }; // Version mismatch
+        if (!data.merge) {
+          return { 
+            success: false,
+            currentVersion: currentFeature.version
+          }; // Version mismatch
+        }
+
+        // The base version is the state recorded in history when it was written
+        // (matched on the recorded state, as feature_id is cleared when a feature is deleted)
+        const baseEntry = await t.oneOrNone(
+          `SELECT new_state FROM feature_history
+           WHERE new_state->>'id' = $1 AND (new_state->>'version')::int = $2
+           ORDER BY timestamp DESC
+           LIMIT 1`,
+          [id, data.version]
+        );
+        const base: Feature | null = baseEntry ? baseEntry.new_state : null;
+        const mine = { geometry: data.geometry, properties: data.properties };
+
+        const result = base ? mergeFeatureChanges(base, currentFeature, mine) : null;
+
+        if (!result || result.conflictingFields.length > 0) {
+          return {
+            success: false,
+            currentVersion: currentFeature.version,
+            conflict: {
+              base,
+              theirs: currentFeature,
+              mine,
+              conflictingFields: result ? result.conflictingFields : ['geometry', 'properties']
+            }
+          };
+        }
+
+        geometry = result.merged.geometry;
+        properties = result.merged.properties;
+        merged = true;
+
+        // Others already made the same changes - nothing left to write
+        if (!geometry && !properties) {
+          return { success: true, feature: currentFeature, merged };
+        }
       }
 
       // Build the update query
@@ -129,16 +313,16 @@ export class FeaturesRepository {
       let paramCounter = 1;
 
       // If updating geometry
-      if (data.geometry) {
+      if (geometry) {
         updates.push(`geometry = ST_GeomFromGeoJSON($${paramCounter})`);
-        values.push(JSON.stringify(data.geometry));
+        values.push(JSON.stringify(geometry));
         paramCounter++;
       }
 
       // If updating properties
-      if (data.properties) {
+      if (properties) {
         updates.push(`properties = $${paramCounter}`);
-        values.push(data.properties);
+        values.push(properties);
         paramCounter++;
       }
 
@@ -162,6 +346,14 @@ export class FeaturesRepository {
       // Add feature ID to values
       values.push(id);
 
+      // Where anchored comments are positioned from, if the feature has any and its geometry changes
+      const anchor = geometry ? await t.oneOrNone(
+        `SELECT ST_X(centroid) as lng, ST_Y(centroid) as lat
+         FROM (SELECT ST_Centroid(geometry) as centroid FROM features WHERE id = $1) anchors
+         WHERE EXISTS (SELECT 1 FROM comments WHERE feature_id = $1)`,
+        id
+      ) : null;
+
       // Execute the update
       const updatedFeature = await t.one(
         `UPDATE features
@@ -174,29 +366,51 @@ export class FeaturesRepository {
         values
       );
 
+      // Anchored comments keep their offset from the centroid of the feature
+      const movedComments = anchor ? await t.any(
+        `UPDATE comments
+         SET lng = lng + ST_X(centroid) - $2, lat = lat + ST_Y(centroid) - $3, updated_at = CURRENT_TIMESTAMP
+         FROM (SELECT ST_Centroid(geometry) as centroid FROM features WHERE id = $1) anchors
+         WHERE feature_id = $1 AND (ST_X(centroid) <> $2 OR ST_Y(centroid) <> $3)
+         RETURNING comments.*`,
+        [id, anchor.lng, anchor.lat]
+      ) : [];
+
       // Return success with updated feature
-      return { success: true, feature: updatedFeature };
+      return { success: true, feature: updatedFeature, previousFeature: currentFeature, merged, movedComments };
     });
   }
 
   // Delete feature
+  // Anchored comments stay where they are as plain comments, updated so offline clients sync it
   async deleteFeature(id: string): Promise<boolean> {
-    const result = await this.db.result(
-      'DELETE FROM features WHERE id = $1',
-      id
-    );
-    return result.rowCount > 0;
+    // Stored image content (feature_images) is kept, for when the feature is restored
+    return this.db.tx('delete-feature', async t => {
+      await t.none(
+        `UPDATE comments SET detached_feature_id = feature_id, feature_id = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE feature_id = $1`,
+        id
+      );
+      const result = await t.result('DELETE FROM features WHERE id = $1', id);
+      return result.rowCount > 0;
+    });
   }
 
   // Bulk delete features
+  // Stored image content (feature_images) is kept as in deleteFeature
   async bulkDeleteFeatures(ids: string[]): Promise<number> {
     if (!ids.length) return 0;
     
-    const result = await this.db.result(
-      'DELETE FROM features WHERE id IN ($1:csv)',
-      [ids]
-    );
-    return result.rowCount;
+    // Anchored comments are detached as in deleteFeature
+    return this.db.tx('bulk-delete-features', async t => {
+      await t.none(
+        `UPDATE comments SET detached_feature_id = feature_id, feature_id = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE feature_id IN ($1:csv)`,
+        [ids]
+      );
+      const result = await t.result('DELETE FROM features WHERE id IN ($1:csv)', [ids]);
+      return result.rowCount;
+    });
   }
 
   // Get features within a bounding box
@@ -206,44 +420,77 @@ export class FeaturesRepository {
     minLng: number,
     minLat: number,
     maxLng: number,
-    maxLat: number
+    maxLat: number,
+    tolerance: number = 0
   ): Promise<Feature[]> {
     return this.db.any(
       `SELECT id, map_id, feature_type, 
-       ST_AsGeoJSON(geometry, ${DEFAULT_GEOMETRY_PRECISION})::json as geometry, 
+       ST_AsGeoJSON(shape, ${DEFAULT_GEOMETRY_PRECISION})::json as geometry, 
        properties, user_id, user_name, created_at, updated_at, version,
-       client_id, offline_created
-       FROM features 
+       client_id, offline_created, simplified
+       FROM features, ${simplifiedGeometry('$6')}
        WHERE map_id = $1 AND 
        ST_Intersects(
          geometry, 
          ST_MakeEnvelope($2, $3, $4, $5, 4326)
        )
        ORDER BY created_at ASC`,
-      [mapId, minLng, minLat, maxLng, maxLat]
+      [mapId, minLng, minLat, maxLng, maxLat, tolerance]
     );
   }
 
+  // Render the features of a map within a web mercator tile as a Mapbox Vector Tile (layer 'features')
+  async getMapTile(mapId: number, z: number, x: number, y: number): Promise<Buffer> {
+    const result = await this.db.one(
+      `WITH bounds AS (
+         SELECT ST_TileEnvelope($2, $3, $4) AS tile, ST_Transform(ST_TileEnvelope($2, $3, $4), 4326) AS area
+       ),
+       tile_features AS (
+         SELECT id::text AS id, feature_type, version,
+         ${TILE_STYLE_COLUMNS},
+         ST_AsMVTGeom(ST_Transform(geometry, 3857), bounds.tile, 4096, 64, true) AS geom
+         FROM features, bounds
+         WHERE map_id = $1 AND geometry && bounds.area
+       )
+       SELECT ST_AsMVT(tile_features, 'features', 4096, 'geom') AS tile
+       FROM tile_features
+       WHERE geom IS NOT NULL`,
+      [mapId, z, x, y]
+    );
+    return result.tile || Buffer.alloc(0);
+  }
+
+  // Version of the features of a map: its latest history entry, as every create, update or delete
+  // is recorded (counts and update times can repeat when features are deleted and restored)
+  async getMapFeaturesVersion(mapId: number): Promise<number> {
+    const result = await this.db.one(
+      'SELECT COALESCE(MAX(id), 0)::int AS version FROM feature_history WHERE map_id = $1',
+      mapId
+    );
+    return result.version;
+  }
+
   // Get features updated since a timestamp with adaptive precision
   async getUpdatedFeatures(
     mapId: number,
     since: number,
     page: number = 1,
     limit: number = 100,
-    precision: number = DEFAULT_GEOMETRY_PRECISION
+    precision: number = DEFAULT_GEOMETRY_PRECISION,
+    tolerance: number = 0
   ): Promise<Feature[]> {
     const offset = (page - 1) * limit;
     
     return this.db.any(
       `SELECT id, map_id, feature_type, 
-       ST_AsGeoJSON(geometry, $5)::json as geometry, 
+       ST_AsGeoJSON(shape, $5)::json as geometry, 
        properties, user_id, user_name, created_at, updated_at, version,
-       client_id, offline_created
-       FROM features 
+       client_id, offline_created, simplified
+       FROM features, ${simplifiedGeometry('$6')}
        WHERE map_id = $1 AND updated_at > to_timestamp($2/1000.0)
        ORDER BY updated_at ASC
        LIMIT $3 OFFSET $4`,
-      [mapId, since, limit, offset, precision]
+      [mapId, since, limit, offset, precision, tolerance]
     );
   }
 
@@ -257,16 +504,17 @@ export class FeaturesRepository {
     since: number,
     page: number = 1,
     limit: number = 100,
-    precision: number = DEFAULT_GEOMETRY_PRECISION
+    precision: number = DEFAULT_GEOMETRY_PRECISION,
+    tolerance: number = 0
   ): Promise<Feature[]> {
     const offset = (page - 1) * limit;
     
     return this.db.any(
       `SELECT id, map_id, feature_type, 
-       ST_AsGeoJSON(geometry, $9)::json as geometry, 
+       ST_AsGeoJSON(shape, $9)::json as geometry, 
        properties, user_id, user_name, created_at, updated_at, version,
-       client_id, offline_created
-       FROM features 
+       client_id, offline_created, simplified
+       FROM features, ${simplifiedGeometry('$10')}
        WHERE map_id = $1 
        AND updated_at > to_timestamp($2/1000.0)
        AND ST_Intersects(
@@ -275,7 +523,7 @@ export class FeaturesRepository {
        )
        ORDER BY updated_at ASC
        LIMIT $7 OFFSET $8`,
-      [mapId, since, minLng, minLat, maxLng, maxLat, limit, offset, precision]
+      [mapId, since, minLng, minLat, maxLng, maxLat, limit, offset, precision, tolerance]
     );
   }
 
@@ -0,0 +1,71 @@
+// Path: db\repos\map-members.repo.ts
+import { IBaseProtocol } from 'pg-promise';
+import { MapMember, MapRole } from '../../types/index.js';
+
+export class MapMembersRepository {
+  private db: IBaseProtocol<any>;
+
+  constructor(db: IBaseProtocol<any>) {
+    this.db = db;
+  }
+
+  async getMapMembers(mapId: number): Promise<MapMember[]> {
+    return this.db.any(
+      `SELECT * FROM map_members WHERE map_id = $1
+       ORDER BY CASE role WHEN 'owner' THEN 0 WHEN 'editor' THEN 1 WHEN 'commenter' THEN 2 ELSE 3 END, created_at`,
+      mapId,
+    );
+  }
+
+  async getMapMember(mapId: number, userId: string): Promise<MapMember | null> {
+    return this.db.oneOrNone(
+      'SELECT * FROM map_members WHERE map_id = $1 AND user_id = $2',
+      [mapId, userId],
+    );
+  }
+
+  // Maps without members predate roles
+  async hasMapMembers(mapId: number): Promise<boolean> {
+    const result = await this.db.one(
+      'SELECT EXISTS (SELECT 1 FROM map_members WHERE map_id = $1) AS exists',
+      mapId,
+    );
+    return result.exists;
+  }
+
+  // Add a member or change the role of an existing one
+  async setMapMember(
+    mapId: number,
+    userId: string,
+    userName: string | null,
+    role: MapRole,
+    addedBy: string | null,
+  ): Promise<MapMember> {
+    return this.db.one(
+      `INSERT INTO map_members (map_id, user_id, user_name, role, added_by)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (map_id, user_id) DO UPDATE SET
+         role = EXCLUDED.role,
+         user_name = COALESCE(EXCLUDED.user_name, map_members.user_name),
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [mapId, userId, userName, role, addedBy],
+    );
+  }
+
+  async removeMapMember(mapId: number, userId: string): Promise<boolean> {
+    const result = await this.db.result(
+      'DELETE FROM map_members WHERE map_id = $1 AND user_id = $2',
+      [mapId, userId],
+    );
+    return result.rowCount > 0;
+  }
+
+  async countMapOwners(mapId: number): Promise<number> {
+    const result = await this.db.one(
+      `SELECT COUNT(*)::int AS count FROM map_members WHERE map_id = $1 AND role = 'owner'`,
+      mapId,
+    );
+    return result.count;
+  }
+}
@@ -1,11 +1,11 @@
 // Path: db\repos\maps.repo.ts
-import { IDatabase } from 'pg-promise';
+import { IBaseProtocol } from 'pg-promise';
 import { Map } from '../../types/index.js';
 
 export class MapsRepository {
-  private db: IDatabase<any>;
+  private db: IBaseProtocol<any>;
 
-  constructor(db: IDatabase<any>) {
+  constructor(db: IBaseProtocol<any>) {
     this.db = db;
   }
 
@@ -13,6 +13,17 @@ export class MapsRepository {
     return this.db.any('SELECT * FROM maps ORDER BY created_at DESC');
   }
 
+  // Maps the user is a member of, plus maps without members (open to everyone)
+  async getMapsForUser(userId: string): Promise<Map[]> {
+    return this.db.any(
+      `SELECT m.* FROM maps m
+       WHERE NOT EXISTS (SELECT 1 FROM map_members mm WHERE mm.map_id = m.id)
+          OR EXISTS (SELECT 1 FROM map_members mm WHERE mm.map_id = m.id AND mm.user_id = $1)
+       ORDER BY m.created_at DESC`,
+      userId,
+    );
+  }
+
   async getMap(id: number): Promise<Map | null> {
     return this.db.oneOrNone('SELECT * FROM maps WHERE id = $1', id);
   }
@@ -0,0 +1,144 @@
+// Path: db\repos\presence.repo.ts
+
+import { IBaseProtocol } from 'pg-promise';
+import { RoomUser, FeatureSelection, PresenceHolder } from '@/types/socket.js';
+
+// Presence row in the shape sent to clients
+const ROOM_USER_COLUMNS = `
+  user_id AS id,
+  user_name AS name,
+  json_build_object('lng', lng, 'lat', lat) AS position,
+  status,
+  (EXTRACT(EPOCH FROM joined_at) * 1000)::float8 AS "joinedAt"
+`;
+
+export class PresenceRepository {
+  private db: IBaseProtocol<any>;
+
+  constructor(db: IBaseProtocol<any>) {
+    this.db = db;
+  }
+
+  // Users in a map, whichever server they are connected to
+  async getMapPresence(mapId: number): Promise<RoomUser[]> {
+    return this.db.any(
+      `SELECT ${ROOM_USER_COLUMNS} FROM map_presence WHERE map_id = $1 ORDER BY joined_at`,
+      mapId
+    );
+  }
+
+  // A user joining again (another tab, or after a reconnect) takes over the presence
+  async joinMap(mapId: number, userId: string, userName: string, nodeId: string, socketId: string): Promise<RoomUser> {
+    return this.db.one(
+      `INSERT INTO map_presence (map_id, user_id, user_name, node_id, socket_id)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (map_id, user_id) DO UPDATE SET
+         user_name = EXCLUDED.user_name,
+         node_id = EXCLUDED.node_id,
+         socket_id = EXCLUDED.socket_id,
+         status = 'active',
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING ${ROOM_USER_COLUMNS}`,
+      [mapId, userId, userName, nodeId, socketId]
+    );
+  }
+
+  // Only removed while held by the given socket/server, when set (the user may have joined again since)
+  async leaveMap(mapId: number, userId: string, holder: PresenceHolder = {}): Promise<boolean> {
+    const result = await this.db.result(
+      `DELETE FROM map_presence
+       WHERE map_id = $1 AND user_id = $2
+         AND ($3::varchar IS NULL OR socket_id = $3)
+         AND ($4::uuid IS NULL OR node_id = $4)`,
+      [mapId, userId, holder.socketId ?? null, holder.nodeId ?? null]
+    );
+    return result.rowCount > 0;
+  }
+
+  async setPresenceStatus(mapId: number, userId: string, socketId: string, status: 'active' | 'away'): Promise<boolean> {
+    const result = await this.db.result(
+      `UPDATE map_presence SET status = $4, updated_at = CURRENT_TIMESTAMP
+       WHERE map_id = $1 AND user_id = $2 AND socket_id = $3`,
+      [mapId, userId, socketId, status]
+    );
+    return result.rowCount > 0;
+  }
+
+  async updatePresencePosition(mapId: number, userId: string, lng: number, lat: number): Promise<void> {
+    await this.db.none(
+      `UPDATE map_presence SET lng = $3, lat = $4, updated_at = CURRENT_TIMESTAMP
+       WHERE map_id = $1 AND user_id = $2`,
+      [mapId, userId, lng, lat]
+    );
+  }
+
+  // Presence left behind by servers that stopped sending heartbeats
+  // (rows as old as the node TTL, so a server starting up isn't mistaken for a dead one)
+  async removeOrphanedPresence(ttlMs: number): Promise<{ map_id: number; user_id: string }[]> {
+    return this.db.any(
+      `DELETE FROM map_presence
+       WHERE node_id NOT IN (SELECT node_id FROM socket_nodes)
+         AND updated_at < CURRENT_TIMESTAMP - ($1 * INTERVAL '1 millisecond')
+       RETURNING map_id, user_id`,
+      ttlMs
+    );
+  }
+
+  async getMapSelections(mapId: number): Promise<FeatureSelection[]> {
+    return this.db.any(
+      `SELECT feature_id AS "featureId", user_id AS "userId", user_name AS "userName"
+       FROM feature_selections WHERE map_id = $1`,
+      mapId
+    );
+  }
+
+  // Replace the selection of a user in a map; selecting a feature takes it from whoever had it
+  async setUserSelection(
+    mapId: number,
+    userId: string,
+    userName: string,
+    holder: Required<PresenceHolder>,
+    featureIds: string[]
+  ): Promise<void> {
+    await this.db.tx(async t => {
+      await t.none('DELETE FROM feature_selections WHERE map_id = $1 AND user_id = $2', [mapId, userId]);
+
+      if (featureIds.length === 0) return;
+
+      await t.none(
+        `INSERT INTO feature_selections (map_id, feature_id, user_id, user_name, node_id, socket_id)
+         SELECT $1, feature_id, $2, $3, $4, $5 FROM unnest($6::varchar[]) AS feature_id
+         ON CONFLICT (map_id, feature_id) DO UPDATE SET
+           user_id = EXCLUDED.user_id,
+           user_name = EXCLUDED.user_name,
+           node_id = EXCLUDED.node_id,
+           socket_id = EXCLUDED.socket_id,
+           selected_at = CURRENT_TIMESTAMP`,
+        [mapId, userId, userName, holder.nodeId, holder.socketId, featureIds]
+      );
+    });
+  }
+
+  // Only cleared while made through the given socket/server, when set (the user may have selected again elsewhere)
+  async clearUserSelection(userId: string, mapId: number, holder: PresenceHolder = {}): Promise<boolean> {
+    const result = await this.db.result(
+      `DELETE FROM feature_selections
+       WHERE user_id = $1 AND map_id = $2
+         AND ($3::varchar IS NULL OR socket_id = $3)
+         AND ($4::uuid IS NULL OR node_id = $4)`,
+      [userId, mapId, holder.socketId ?? null, holder.nodeId ?? null]
+    );
+    return result.rowCount > 0;
+  }
+
+  // Selections left behind by servers that stopped sending heartbeats
+  async removeOrphanedSelections(ttlMs: number): Promise<{ map_id: number; user_id: string }[]> {
+    return this.db.any(
+      `DELETE FROM feature_selections
+       WHERE node_id NOT IN (SELECT node_id FROM socket_nodes)
+         AND selected_at < CURRENT_TIMESTAMP - ($1 * INTERVAL '1 millisecond')
+       RETURNING map_id, user_id`,
+      ttlMs
+    );
+  }
+}
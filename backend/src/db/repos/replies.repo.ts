@@ -1,11 +1,11 @@
 // Path: db\repos\replies.repo.ts
-import { IDatabase } from 'pg-promise';
+import { IBaseProtocol } from 'pg-promise';
 import { Reply } from '../../types/index.js';
 
 export class RepliesRepository {
-  private db: IDatabase<any>;
+  private db: IBaseProtocol<any>;
 
-  constructor(db: IDatabase<any>) {
+  constructor(db: IBaseProtocol<any>) {
     this.db = db;
   }
 
@@ -0,0 +1,62 @@
+// Path: db\repos\socket-nodes.repo.ts
+
+import { IBaseProtocol } from 'pg-promise';
+
+export class SocketNodesRepository {
+  private db: IBaseProtocol<any>;
+
+  constructor(db: IBaseProtocol<any>) {
+    this.db = db;
+  }
+
+  async nodeHeartbeat(nodeId: string): Promise<void> {
+    await this.db.none(
+      `INSERT INTO socket_nodes (node_id) VALUES ($1)
+       ON CONFLICT (node_id) DO UPDATE SET last_heartbeat = CURRENT_TIMESTAMP`,
+      nodeId
+    );
+  }
+
+  // Nodes without a heartbeat for longer than the TTL are considered gone
+  async removeDeadNodes(ttlMs: number): Promise<string[]> {
+    const rows = await this.db.any(
+      `DELETE FROM socket_nodes
+       WHERE last_heartbeat < CURRENT_TIMESTAMP - ($1 * INTERVAL '1 millisecond')
+       RETURNING node_id`,
+      ttlMs
+    );
+    return rows.map(row => row.node_id);
+  }
+
+  async countLiveNodes(ttlMs: number): Promise<number> {
+    const result = await this.db.one(
+      `SELECT COUNT(*)::int AS count FROM socket_nodes
+       WHERE last_heartbeat >= CURRENT_TIMESTAMP - ($1 * INTERVAL '1 millisecond')`,
+      ttlMs
+    );
+    return result.count;
+  }
+
+  // Broadcasts too large for a NOTIFY payload are passed through this table
+  async storeSocketPayload(payload: string): Promise<string> {
+    const result = await this.db.one(
+      'INSERT INTO socket_payloads (payload) VALUES ($1) RETURNING id',
+      payload
+    );
+    return result.id;
+  }
+
+  async getSocketPayload(id: string): Promise<string | null> {
+    const result = await this.db.oneOrNone('SELECT payload FROM socket_payloads WHERE id = $1', id);
+    return result ? result.payload : null;
+  }
+
+  async removeOldSocketPayloads(maxAgeMs: number): Promise<number> {
+    const result = await this.db.result(
+      `DELETE FROM socket_payloads
+       WHERE created_at < CURRENT_TIMESTAMP - ($1 * INTERVAL '1 millisecond')`,
+      maxAgeMs
+    );
+    return result.rowCount;
+  }
+}
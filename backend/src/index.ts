@@ -5,15 +5,29 @@ import cors from 'cors';
 import config from './config/env.js';
 import { initializeSocketIO } from './services/socket/index.js';
 import { initDatabase } from './config/database.init.js';
+import { initAuthProvider } from './services/auth/index.js';
 import routes from './routes/index.js';
 
+// Fail now rather than on every request when authentication is misconfigured
+try {
+  initAuthProvider();
+} catch (error) {
+  console.error('[SERVER] Invalid authentication configuration:', (error as Error).message);
+  process.exit(1);
+}
+
 const app = express();
 app.use(
   cors({
     origin: config.cors.origin,
   }),
 );
-app.use(express.json());
+
+// Uploads are read as raw bodies by their routes, with their own size limits,
+// so the JSON parser must not consume them (e.g. a GeoJSON import sent as application/json)
+const RAW_BODY_ROUTE = /^\/api\/maps\/[^/]+\/(import\/[^/]+|features\/[^/]+\/image)\/?$/;
+const jsonParser = express.json();
+app.use((req, res, next) => (RAW_BODY_ROUTE.test(req.path) ? next() : jsonParser(req, res, next)));
 
 // API routes
 app.use('/api', routes);
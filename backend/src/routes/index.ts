@@ -5,9 +5,21 @@ import * as mapsController from '../controllers/maps.controller.js';
 import * as featureHistoryController from '../controllers/feature-history.controller.js';
 import * as syncController from '../controllers/sync.controller.js';
 import * as batchController from '../controllers/batch.controller.js';
+import * as featureImagesController from '../controllers/feature-images.controller.js';
+import * as undoController from '../controllers/undo.controller.js';
+import * as mapMembersController from '../controllers/map-members.controller.js';
+import * as importController from '../controllers/import.controller.js';
+import * as exportController from '../controllers/export.controller.js';
+import * as tilesController from '../controllers/tiles.controller.js';
+import * as commentsController from '../controllers/comments.controller.js';
+import config from '../config/env.js';
+import { authenticateRequest } from '../services/auth/index.js';
 
 const router = express.Router();
 
+// Every API route requires an authenticated user (available as req.user)
+router.use(authenticateRequest);
+
 // Maps routes
 router.get('/maps', mapsController.getMaps);
 router.get('/maps/:id', mapsController.getMap);
@@ -15,13 +27,61 @@ router.post('/maps', mapsController.createMap);
 router.put('/maps/:id', mapsController.updateMap);
 router.delete('/maps/:id', mapsController.deleteMap);
 
+// Map membership routes
+router.get('/maps/:mapId/members', mapMembersController.getMapMembers);
+router.put('/maps/:mapId/members/:userId', mapMembersController.setMapMember);
+router.delete('/maps/:mapId/members/:userId', mapMembersController.removeMapMember);
+
+// Comment routes
+router.get('/maps/:mapId/comments', commentsController.getMapComments);
+router.get('/features/:id/comments', commentsController.getFeatureComments);
+router.post('/comments', commentsController.createComment);
+router.get('/comments/:id', commentsController.getComment);
+router.put('/comments/:id', commentsController.updateComment);
+router.put('/comments/:id/position', commentsController.updateCommentPosition);
+router.delete('/comments/:id', commentsController.deleteComment);
+
+// Reply routes
+router.get('/comments/:id/replies', commentsController.getCommentReplies);
+router.post('/replies', commentsController.createReply);
+router.put('/replies/:id', commentsController.updateReply);
+router.delete('/replies/:id', commentsController.deleteReply);
+
 // Feature history routes
 router.get('/features/:id/history', featureHistoryController.getFeatureHistory);
 router.get('/maps/:mapId/history', featureHistoryController.getMapHistory);
+router.post('/maps/:mapId/restore', featureHistoryController.restoreMap);
+router.get('/maps/:mapId/snapshot', featureHistoryController.getMapSnapshot);
 
 router.get('/maps/:mapId/sync', syncController.getMapUpdates);
 router.get('/features/:id/sync', syncController.getFeatureUpdates);
 
 router.post('/maps/:mapId/batch', batchController.processBatchOperations);
 
+// Undo/redo routes
+router.post('/maps/:mapId/undo', undoController.undo);
+router.post('/maps/:mapId/redo', undoController.redo);
+
+// Image feature content routes
+router.post(
+  '/maps/:mapId/features/:id/image',
+  express.raw({ type: () => true, limit: config.images.maxSizeBytes }),
+  featureImagesController.uploadFeatureImage
+);
+router.get('/maps/:mapId/features/:id/image', featureImagesController.getFeatureImage);
+router.get('/maps/:mapId/features/:id/image/thumbnail', featureImagesController.getFeatureImageThumbnail);
+
+// Import routes - the file is sent as the raw body (e.g. Content-Type: application/octet-stream)
+router.post(
+  '/maps/:mapId/import/:format',
+  express.raw({ type: () => true, limit: config.imports.maxSizeBytes }),
+  importController.importFile
+);
+
+// Export routes
+router.get('/maps/:mapId/export', exportController.exportMapFeatures);
+
+// Vector tile routes
+router.get('/maps/:mapId/tiles/:z/:x/:y.mvt', tilesController.getMapTile);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,50 @@
+// Path: services\auth\dev-provider.ts
+
+import { createHash } from 'crypto';
+import { AuthProvider, AuthCredentials, AuthenticatedUser } from '@/types/auth.js';
+import { generateRandomName } from '../../utils/nameGenerator.js';
+import { AuthError } from './errors.js';
+
+// Maximum number of generated names remembered
+const MAX_REMEMBERED_NAMES = 10000;
+
+/**
+ * Development stub: trusts the identity claimed by the client
+ * Clients without an id are identified by their token (the same token is always the same user),
+ * and nameless users get a random name that stays the same across reconnections
+ * Without either the request is rejected - a random id would be a new user on every request
+ */
+export class DevAuthProvider implements AuthProvider {
+  readonly name = 'dev';
+  private generatedNames = new Map<string, string>();
+
+  async authenticate(credentials: AuthCredentials): Promise<AuthenticatedUser> {
+    const id = credentials.userId || (credentials.token ? this.getTokenUserId(credentials.token) : null);
+    if (!id) {
+      throw new AuthError('Dev authentication requires a client id or a token');
+    }
+
+    return { id, name: credentials.userName || this.getGeneratedName(id) };
+  }
+
+  private getTokenUserId(token: string): string {
+    return `dev-${createHash('sha256').update(token).digest('hex').slice(0, 32)}`;
+  }
+
+  private getGeneratedName(id: string): string {
+    let name = this.generatedNames.get(id);
+
+    if (!name) {
+      if (this.generatedNames.size >= MAX_REMEMBERED_NAMES) {
+        // Forget the oldest name (Map keeps insertion order)
+        const oldest = this.generatedNames.keys().next().value;
+        if (oldest !== undefined) this.generatedNames.delete(oldest);
+      }
+
+      name = generateRandomName();
+      this.generatedNames.set(id, name);
+    }
+
+    return name;
+  }
+}
@@ -0,0 +1,11 @@
+// Path: services\auth\errors.ts
+
+/**
+ * Thrown when credentials are missing or invalid
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
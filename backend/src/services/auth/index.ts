@@ -0,0 +1,110 @@
+// Path: services\auth\index.ts
+
+import { Request, Response, NextFunction } from 'express';
+import { Socket } from 'socket.io';
+import config from '../../config/env.js';
+import { AuthProvider, AuthCredentials, AuthenticatedUser } from '@/types/auth.js';
+import { JwtAuthProvider } from './jwt-provider.js';
+import { DevAuthProvider } from './dev-provider.js';
+import { AuthError } from './errors.js';
+
+export { AuthError };
+
+// Provider selected by AUTH_MODE, created at startup by initAuthProvider
+let provider: AuthProvider | null = null;
+
+/**
+ * Create the authentication provider selected by AUTH_MODE
+ * Called at startup, so a misconfiguration (unknown mode, missing JWT key...) stops the server
+ * instead of failing every request
+ */
+export const initAuthProvider = (): AuthProvider => {
+  if (config.auth.mode !== 'dev' && config.auth.mode !== 'jwt') {
+    throw new Error(`Unknown AUTH_MODE '${config.auth.mode}' (expected 'jwt' or 'dev')`);
+  }
+
+  provider = config.auth.mode === 'dev' ? new DevAuthProvider() : new JwtAuthProvider();
+  console.log(`[AUTH] Using ${provider.name} authentication provider`);
+
+  if (provider.name === 'dev' && config.nodeEnv === 'production') {
+    console.warn('[AUTH] WARNING: dev authentication trusts client-claimed identities');
+  }
+
+  return provider;
+};
+
+/**
+ * Get the configured authentication provider
+ */
+export const getAuthProvider = (): AuthProvider => {
+  if (!provider) {
+    throw new Error('Authentication provider not initialized');
+  }
+
+  return provider;
+};
+
+/**
+ * Get the token from an "Authorization: Bearer <token>" header
+ */
+const getBearerToken = (header: unknown): string | null => {
+  if (typeof header !== 'string') return null;
+
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Socket.IO middleware - authenticates the handshake and stores the user in socket.data.user
+ * The token is read from the auth payload ({ token }) or the Authorization header
+ */
+export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void): Promise<void> => {
+  const auth = socket.handshake.auth || {};
+  const credentials: AuthCredentials = {
+    token: auth.token || getBearerToken(socket.handshake.headers.authorization),
+    userId: auth.clientId,
+    userName: auth.userName
+  };
+
+  try {
+    socket.data.user = await getAuthProvider().authenticate(credentials);
+    next();
+  } catch (error) {
+    console.warn(`[AUTH] Socket ${socket.id} rejected: ${(error as Error).message}`);
+    next(error instanceof AuthError ? error : new AuthError('Authentication failed'));
+  }
+};
+
+/**
+ * Express middleware - authenticates the request and stores the user in req.user
+ * GET requests can also pass the token as ?access_token= and the client id as ?client_id=
+ * (e.g. for <img> sources)
+ */
+export const authenticateRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const fromQuery = (name: string): string | null =>
+    req.method === 'GET' && typeof req.query[name] === 'string' ? req.query[name] as string : null;
+
+  const credentials: AuthCredentials = {
+    token: getBearerToken(req.headers.authorization) || fromQuery('access_token'),
+    userId: (req.headers['user-id'] as string) || fromQuery('client_id') || undefined,
+    userName: req.headers['user-name'] as string
+  };
+
+  try {
+    req.user = await getAuthProvider().authenticate(credentials);
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(401).json({ error: error.message });
+      return;
+    }
+
+    console.error('[AUTH] Error authenticating request:', error);
+    res.status(500).json({ error: 'Failed to authenticate request' });
+  }
+};
+
+/**
+ * Get the authenticated user of a socket (set by authenticateSocket)
+ */
+export const getSocketUser = (socket: Socket): AuthenticatedUser => socket.data.user;
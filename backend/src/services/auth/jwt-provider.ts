@@ -0,0 +1,71 @@
+// Path: services\auth\jwt-provider.ts
+
+import fs from 'fs';
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken';
+import config from '../../config/env.js';
+import { AuthProvider, AuthCredentials, AuthenticatedUser } from '@/types/auth.js';
+import { AuthError } from './errors.js';
+
+/**
+ * Verifies JWTs signed with a local key: a shared secret (HS256...) or the
+ * issuer's public key (RS256, ES256...) read from disk
+ * The user id comes from 'sub' and the display name from 'name'
+ */
+export class JwtAuthProvider implements AuthProvider {
+  readonly name = 'jwt';
+  private key: string;
+  private options: jwt.VerifyOptions;
+
+  constructor() {
+    const { secret, publicKeyPath, algorithms, issuer, audience } = config.auth.jwt;
+
+    if (publicKeyPath) {
+      this.key = fs.readFileSync(publicKeyPath, 'utf8');
+    } else if (secret) {
+      this.key = secret;
+    } else {
+      throw new Error('JWT authentication requires JWT_SECRET or JWT_PUBLIC_KEY_PATH');
+    }
+
+    // A shared secret only verifies HMAC signatures, a public key only asymmetric ones
+    const hmac = algorithms.filter(algorithm => algorithm.startsWith('HS'));
+    if (algorithms.length === 0 || hmac.length !== (publicKeyPath ? 0 : algorithms.length)) {
+      throw new Error(
+        `JWT_ALGORITHMS (${algorithms.join(', ') || 'none'}) don't match the ` +
+        `${publicKeyPath ? 'public key' : 'shared secret'} in use`
+      );
+    }
+
+    this.options = {
+      algorithms: algorithms as Algorithm[],
+      ...(issuer ? { issuer } : {}),
+      ...(audience ? { audience } : {})
+    };
+  }
+
+  async authenticate(credentials: AuthCredentials): Promise<AuthenticatedUser> {
+    if (!credentials.token) {
+      throw new AuthError('Authentication token required');
+    }
+
+    let payload: JwtPayload;
+    try {
+      const decoded = jwt.verify(credentials.token, this.key, this.options);
+      if (typeof decoded === 'string') {
+        throw new AuthError('Invalid token payload');
+      }
+      payload = decoded;
+    } catch (error) {
+      if (error instanceof AuthError) throw error;
+      throw new AuthError(`Invalid token: ${(error as Error).message}`);
+    }
+
+    if (!payload.sub) {
+      throw new AuthError('Token has no subject');
+    }
+
+    const name = payload.name || payload.preferred_username || payload.sub;
+
+    return { id: String(payload.sub), name: String(name) };
+  }
+}
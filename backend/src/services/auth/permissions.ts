@@ -0,0 +1,106 @@
+// Path: services\auth\permissions.ts
+
+import { Request, Response } from 'express';
+import { db } from '@/config/database.js';
+import { MapRole } from '@/types/index.js';
+
+/**
+ * Per-map roles and what each of them allows
+ * Maps without members predate roles: everyone can edit them, but nobody can
+ * manage them until an owner is assigned (see LEGACY_MAP_OWNER_ID)
+ */
+
+export type MapAction = 'view' | 'comment' | 'edit' | 'manage';
+
+export const MAP_ROLES: MapRole[] = ['owner', 'editor', 'commenter', 'viewer'];
+
+const ROLE_ACTIONS: Record<MapRole, MapAction[]> = {
+  owner: ['view', 'comment', 'edit', 'manage'],
+  editor: ['view', 'comment', 'edit'],
+  commenter: ['view', 'comment'],
+  viewer: ['view']
+};
+
+// Role everyone has on a map without members
+const OPEN_MAP_ROLE: MapRole = 'editor';
+
+export interface PermissionCheck {
+  allowed: boolean;
+  role: MapRole | null; // null when the user has no access to the map
+  message?: string; // Why the action was denied
+}
+
+export const isMapRole = (value: unknown): value is MapRole =>
+  typeof value === 'string' && MAP_ROLES.includes(value as MapRole);
+
+/**
+ * Whether a role allows an action
+ */
+export const canPerform = (role: MapRole | null, action: MapAction): boolean =>
+  role !== null && ROLE_ACTIONS[role].includes(action);
+
+/**
+ * Get the role of a user in a map (null when not a member of a map with members)
+ */
+export async function getMapRole(mapId: number, userId: string): Promise<MapRole | null> {
+  const member = await db.getMapMember(mapId, userId);
+  if (member) return member.role;
+
+  return await db.hasMapMembers(mapId) ? null : OPEN_MAP_ROLE;
+}
+
+/**
+ * Explain to the user why an action was denied
+ */
+export const describeDenial = (role: MapRole | null, action: MapAction): string => {
+  if (role === null) {
+    return 'You are not a member of this map';
+  }
+
+  const needed: Record<MapAction, string> = {
+    view: 'view this map',
+    comment: 'comment on this map',
+    edit: 'edit features on this map',
+    manage: 'manage this map'
+  };
+
+  return `Your role (${role}) does not allow you to ${needed[action]}`;
+};
+
+/**
+ * Check whether a user can perform an action on a map
+ */
+export async function checkMapPermission(
+  mapId: number,
+  userId: string,
+  action: MapAction
+): Promise<PermissionCheck> {
+  const role = await getMapRole(mapId, userId);
+
+  if (canPerform(role, action)) {
+    return { allowed: true, role };
+  }
+
+  return { allowed: false, role, message: describeDenial(role, action) };
+}
+
+/**
+ * Express helper - checks the permission of the authenticated user and answers 403 when denied
+ * Returns whether the request can go on
+ */
+export async function requireMapPermission(
+  req: Request,
+  res: Response,
+  mapId: number,
+  action: MapAction
+): Promise<boolean> {
+  const check = await checkMapPermission(mapId, req.user!.id, action);
+
+  if (!check.allowed) {
+    console.log(`[API] User ${req.user!.id} denied ${action} on map ${mapId} (role: ${check.role || 'none'})`);
+    res.status(403).json({ error: check.message, action, role: check.role });
+    return false;
+  }
+
+  return true;
+}
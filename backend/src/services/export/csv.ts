@@ -0,0 +1,64 @@
+// Path: services\export\csv.ts
+
+import { ExportWriter } from '@/types/export.types.js';
+import { EXPORT_METADATA_KEYS } from './exported-features.js';
+
+/**
+ * CSV writer - one row per feature with the geometry as WKT
+ * Metadata gets its own columns; styling and attributes go in a JSON column
+ */
+
+const COLUMNS = ['id', ...EXPORT_METADATA_KEYS, 'wkt', 'properties'];
+
+const formatPosition = (position: number[]): string => `${position[0]} ${position[1]}`;
+
+/**
+ * Convert a single-part GeoJSON geometry to WKT
+ */
+export function toWKT(geometry: any): string {
+  switch (geometry?.type) {
+    case 'Point':
+      return `POINT (${formatPosition(geometry.coordinates)})`;
+    case 'LineString':
+      return `LINESTRING (${geometry.coordinates.map(formatPosition).join(', ')})`;
+    case 'Polygon':
+      return `POLYGON (${geometry.coordinates
+        .map((ring: number[][]) => `(${ring.map(formatPosition).join(', ')})`)
+        .join(', ')})`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Quote a CSV value when needed (RFC 4180)
+ */
+const escapeValue = (value: any): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvWriter: ExportWriter = {
+  format: 'csv',
+  contentType: 'text/csv; charset=utf-8',
+  extension: 'csv',
+
+  start: () => `${COLUMNS.join(',')}\r\n`,
+
+  feature: (feature) => {
+    const properties = { ...feature.properties };
+    const row: any[] = [feature.id];
+
+    for (const key of EXPORT_METADATA_KEYS) {
+      row.push(properties[key]);
+      delete properties[key];
+    }
+
+    row.push(toWKT(feature.geometry), JSON.stringify(properties));
+    return `${row.map(escapeValue).join(',')}\r\n`;
+  },
+
+  end: () => ''
+};
@@ -0,0 +1,63 @@
+// Path: services\export\exported-features.ts
+
+import { Comment } from '@/types/index.js';
+import { Feature } from '@/types/feature.types.js';
+import { ExportedFeature } from '@/types/export.types.js';
+
+/**
+ * Conversion of stored features and comments to exported features
+ */
+
+// Metadata added to the properties of every exported feature
+// Importers skip these keys so a re-imported export doesn't carry them as attributes
+export const EXPORT_METADATA_KEYS = [
+  'feature_type',
+  'user_id',
+  'user_name',
+  'version',
+  'created_at',
+  'updated_at'
+] as const;
+
+export const featureToExported = (feature: Feature): ExportedFeature => ({
+  type: 'Feature',
+  id: feature.id,
+  geometry: feature.geometry,
+  properties: {
+    ...feature.properties,
+    feature_type: feature.feature_type,
+    user_id: feature.user_id,
+    user_name: feature.user_name,
+    version: feature.version,
+    created_at: feature.created_at,
+    updated_at: feature.updated_at
+  }
+});
+
+/**
+ * Comments are exported as point features of type 'comment'
+ */
+export const commentToExported = (comment: Comment): ExportedFeature => ({
+  type: 'Feature',
+  id: comment.id,
+  geometry: {
+    type: 'Point',
+    coordinates: [comment.lng, comment.lat]
+  },
+  properties: {
+    content: comment.content,
+    replies: (comment.replies || []).map(reply => ({
+      id: reply.id,
+      content: reply.content,
+      user_id: reply.user_id,
+      user_name: reply.user_name,
+      created_at: reply.created_at
+    })),
+    feature_type: 'comment',
+    user_id: comment.user_id,
+    user_name: comment.user_name,
+    version: null,
+    created_at: comment.created_at,
+    updated_at: comment.updated_at
+  }
+});
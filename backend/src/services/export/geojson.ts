@@ -0,0 +1,18 @@
+// Path: services\export\geojson.ts
+
+import { ExportWriter } from '@/types/export.types.js';
+
+/**
+ * GeoJSON writer - a FeatureCollection named after the map
+ */
+export const geojsonWriter: ExportWriter = {
+  format: 'geojson',
+  contentType: 'application/geo+json',
+  extension: 'geojson',
+
+  start: (map) => `{"type":"FeatureCollection","name":${JSON.stringify(map.name)},"features":[\n`,
+
+  feature: (feature, index) => `${index > 0 ? ',\n' : ''}${JSON.stringify(feature)}`,
+
+  end: () => '\n]}\n'
+};
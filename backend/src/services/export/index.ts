@@ -0,0 +1,108 @@
+// Path: services\export\index.ts
+
+import { Writable, PassThrough } from 'stream';
+import { finished } from 'stream/promises';
+import JSZip from 'jszip';
+import { db } from '@/config/database.js';
+import { Map } from '@/types/index.js';
+import { ExportWriter } from '@/types/export.types.js';
+import { featureToExported, commentToExported } from './exported-features.js';
+import { geojsonWriter } from './geojson.js';
+import { csvWriter } from './csv.js';
+import { kmlWriter, kmzWriter } from './kml.js';
+
+/**
+ * Export of a map's features (and optionally its comments) to a file
+ * Rows are read through database cursors and written out batch by batch,
+ * so memory use doesn't grow with the size of the map
+ */
+
+// Rows fetched from the cursor per batch
+const EXPORT_BATCH_SIZE = 500;
+
+export const EXPORT_WRITERS: Record<string, ExportWriter> = {
+  geojson: geojsonWriter,
+  csv: csvWriter,
+  kml: kmlWriter,
+  kmz: kmzWriter
+};
+
+/**
+ * Write a chunk, waiting for the stream to drain when its buffer is full
+ * Rejects when the stream is gone (e.g. the client disconnected), which stops the export
+ */
+function writeChunk(output: Writable, chunk: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (output.destroyed || output.writableEnded) {
+      reject(new Error('Output closed'));
+      return;
+    }
+
+    if (chunk.length === 0 || output.write(chunk)) {
+      resolve();
+      return;
+    }
+
+    const onDrain = () => {
+      output.off('close', onClose);
+      resolve();
+    };
+    const onClose = () => {
+      output.off('drain', onDrain);
+      reject(new Error('Output closed'));
+    };
+
+    output.once('drain', onDrain);
+    output.once('close', onClose);
+  });
+}
+
+/**
+ * Write a map to a stream through an export writer and end the stream
+ * Zipped formats are compressed on the fly
+ * Returns the number of exported features (including comments)
+ */
+export async function exportMap(
+  map: Map,
+  writer: ExportWriter,
+  includeComments: boolean,
+  output: Writable
+): Promise<number> {
+  let target: Writable = output;
+
+  if (writer.archive) {
+    const document = new PassThrough();
+    const zip = new JSZip();
+    zip.file(writer.archive, document, { binary: true });
+    zip.generateNodeStream({ streamFiles: true, compression: 'DEFLATE' }).pipe(output);
+
+    // Stop producing the document when nobody reads the archive anymore
+    output.once('close', () => document.destroy());
+    target = document;
+  }
+
+  let count = 0;
+  const write = (chunk: string) => writeChunk(target, chunk);
+
+  await write(writer.start(map));
+
+  await db.forEachMapFeatureBatch(map.id, EXPORT_BATCH_SIZE, async (features) => {
+    await write(features.map(feature => writer.feature(featureToExported(feature), count++)).join(''));
+  });
+
+  if (includeComments) {
+    await db.forEachMapCommentBatch(map.id, EXPORT_BATCH_SIZE, async (comments) => {
+      await write(comments.map(comment => writer.feature(commentToExported(comment), count++)).join(''));
+    });
+  }
+
+  await write(writer.end());
+
+  // With an archive, the zip stream ends the output once the document is compressed
+  target.end();
+  if (target !== output) {
+    await finished(output);
+  }
+
+  return count;
+}
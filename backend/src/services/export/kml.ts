@@ -0,0 +1,139 @@
+// Path: services\export\kml.ts
+
+import { ExportWriter, ExportedFeature } from '@/types/export.types.js';
+import { hexToKmlColor, KML_POINT_BASE_SIZE, KML_LABEL_BASE_SIZE } from '../../utils/kmlStyle.js';
+
+/**
+ * KML/KMZ writer - one Placemark per feature with an inline Style
+ * Styling that KML can't express (and the exact values of what it can) is also
+ * written as ExtendedData, together with attributes and metadata, so that
+ * importing the file back restores the same properties
+ */
+
+const escapeXml = (value: unknown): string =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const formatPositions = (positions: number[][]): string =>
+  positions.map(position => `${position[0]},${position[1]}`).join(' ');
+
+/**
+ * KML geometry of a single-part GeoJSON geometry
+ */
+function geometryToKml(geometry: any): string {
+  switch (geometry?.type) {
+    case 'Point':
+      return `<Point><coordinates>${formatPositions([geometry.coordinates])}</coordinates></Point>`;
+    case 'LineString':
+      return `<LineString><tessellate>1</tessellate><coordinates>${formatPositions(geometry.coordinates)}</coordinates></LineString>`;
+    case 'Polygon': {
+      const [outer, ...inner] = geometry.coordinates as number[][][];
+      const ring = (positions: number[][]) => `<LinearRing><coordinates>${formatPositions(positions)}</coordinates></LinearRing>`;
+      return '<Polygon>' +
+        `<outerBoundaryIs>${ring(outer)}</outerBoundaryIs>` +
+        inner.map(positions => `<innerBoundaryIs>${ring(positions)}</innerBoundaryIs>`).join('') +
+        '</Polygon>';
+    }
+    default:
+      return '';
+  }
+}
+
+/**
+ * Inline KML style for the styling properties of a feature
+ */
+function styleToKml(properties: Record<string, any>): string {
+  switch (properties.feature_type) {
+    case 'polygon':
+      return '<Style>' +
+        `<LineStyle><color>${hexToKmlColor(properties.borderColor, properties.borderOpacity)}</color><width>${properties.borderSize ?? 2}</width></LineStyle>` +
+        `<PolyStyle><color>${hexToKmlColor(properties.fillColor, properties.fillOpacity)}</color></PolyStyle>` +
+        '</Style>';
+    case 'line':
+      return '<Style>' +
+        `<LineStyle><color>${hexToKmlColor(properties.color, properties.opacity)}</color><width>${properties.size ?? 2}</width></LineStyle>` +
+        '</Style>';
+    case 'point':
+      return '<Style>' +
+        `<IconStyle><color>${hexToKmlColor(properties.color, properties.opacity)}</color><scale>${(properties.size ?? KML_POINT_BASE_SIZE) / KML_POINT_BASE_SIZE}</scale></IconStyle>` +
+        '</Style>';
+    case 'text':
+      // Hidden icon, so only the label shows
+      return '<Style>' +
+        '<IconStyle><scale>0</scale></IconStyle>' +
+        `<LabelStyle><color>${hexToKmlColor(properties.color, 1)}</color><scale>${(properties.size ?? KML_LABEL_BASE_SIZE) / KML_LABEL_BASE_SIZE}</scale></LabelStyle>` +
+        '</Style>';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Placemark name and description of a feature
+ */
+function describe(properties: Record<string, any>): { name?: string; description?: string } {
+  if (properties.feature_type === 'text') {
+    return { name: properties.text };
+  }
+  if (properties.feature_type === 'comment') {
+    return { name: `Comment by ${properties.user_name}`, description: properties.content };
+  }
+  return { name: properties.attributes?.name, description: properties.attributes?.description };
+}
+
+function placemarkToKml(feature: ExportedFeature): string {
+  const { attributes, ...properties } = feature.properties;
+  const { name, description } = describe(feature.properties);
+
+  // Attributes are flattened next to the other properties, except those used as name/description
+  const data: Record<string, any> = { ...properties };
+  for (const [key, value] of Object.entries(attributes || {})) {
+    if ((key === 'name' && value === name) || (key === 'description' && value === description)) continue;
+    data[key] = value;
+  }
+
+  const extendedData = Object.entries(data)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => {
+      const text = value instanceof Date ? value.toISOString() :
+        typeof value === 'object' ? JSON.stringify(value) : value;
+      return `<Data name="${escapeXml(key)}"><value>${escapeXml(text)}</value></Data>`;
+    })
+    .join('');
+
+  return `<Placemark id="${escapeXml(feature.id)}">` +
+    (name ? `<name>${escapeXml(name)}</name>` : '') +
+    (description ? `<description>${escapeXml(description)}</description>` : '') +
+    styleToKml(feature.properties) +
+    (extendedData ? `<ExtendedData>${extendedData}</ExtendedData>` : '') +
+    geometryToKml(feature.geometry) +
+    '</Placemark>\n';
+}
+
+export const kmlWriter: ExportWriter = {
+  format: 'kml',
+  contentType: 'application/vnd.google-earth.kml+xml',
+  extension: 'kml',
+
+  start: (map) =>
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<kml xmlns="http://www.opengis.net/kml/2.2">\n' +
+    `<Document><name>${escapeXml(map.name)}</name>\n`,
+
+  feature: (feature) => placemarkToKml(feature),
+
+  end: () => '</Document>\n</kml>\n'
+};
+
+// Same document, zipped as doc.kml
+export const kmzWriter: ExportWriter = {
+  ...kmlWriter,
+  format: 'kmz',
+  contentType: 'application/vnd.google-earth.kmz',
+  extension: 'kmz',
+  archive: 'doc.kml'
+};
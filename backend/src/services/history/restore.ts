@@ -0,0 +1,118 @@
+// Path: services\history\restore.ts
+
+import { db } from '@/config/database.js';
+import { Comment } from '@/types/index.js';
+import { Feature } from '@/types/feature.types.js';
+import { FeaturesRepository } from '../../db/repos/features.repo.js';
+import { FeatureHistoryRepository } from '../../db/repos/feature-history.repo.js';
+import { getFeatureStatesAt, diffFeatureStates, FeatureStateDiff } from './snapshot.js';
+
+/**
+ * Roll a whole map back to its state at a point in time
+ * The diff is applied as regular operations recorded in history, so the
+ * restore itself can be reviewed, undone per feature or restored over again.
+ * Stored image content is kept when features are deleted, so recreated image
+ * features get their image back (as last uploaded, it is not versioned).
+ */
+
+export interface RestoreResult {
+  dryRun: boolean;
+  at: number;
+  created: Feature[]; // Features recreated (state at 'at')
+  updated: Array<{ before: Feature; after: Feature }>;
+  deleted: Feature[]; // Features deleted (state before the restore)
+  movedComments: Comment[]; // Comments anchored to updated features, moved with them
+  reanchoredComments: Comment[]; // Comments anchored again to recreated features
+}
+
+/**
+ * Restore a map to the given time (ms since epoch)
+ * With dryRun, only computes the diff without changing anything
+ */
+export async function restoreMapToTime(
+  mapId: number,
+  at: number,
+  userId: string,
+  userName: string,
+  dryRun: boolean
+): Promise<RestoreResult> {
+  return db.tx('restore-map', async (t) => {
+    // Repositories bound to the transaction so the whole diff is applied atomically
+    const featuresRepo = new FeaturesRepository(t);
+    const historyRepo = new FeatureHistoryRepository(t);
+
+    // Serialize restores of the same map
+    await t.none('SELECT id FROM maps WHERE id = $1 FOR UPDATE', mapId);
+
+    const currentFeatures = await featuresRepo.getMapFeatures(mapId);
+    const targetStates = await getFeatureStatesAt(
+      {
+        getMapFeatures: (id: number) => featuresRepo.getMapFeatures(id),
+        getMapHistorySince: (id: number, since: number, page?: number, limit?: number) =>
+          historyRepo.getMapHistorySince(id, since, page, limit)
+      },
+      mapId,
+      at,
+      currentFeatures
+    );
+
+    const diff: FeatureStateDiff = diffFeatureStates(currentFeatures, targetStates);
+    const result: RestoreResult = {
+      dryRun,
+      at,
+      created: diff.toCreate,
+      updated: diff.toUpdate.map(({ current, target }) => ({ before: current, after: target })),
+      deleted: diff.toDelete,
+      movedComments: [],
+      reanchoredComments: []
+    };
+
+    if (dryRun) {
+      return result;
+    }
+
+    // Delete features created after 'at'
+    for (const feature of diff.toDelete) {
+      await historyRepo.recordDeletion(feature, userId, userName);
+      await featuresRepo.deleteFeature(feature.id);
+    }
+
+    // Recreate features deleted after 'at'
+    const created: Feature[] = [];
+    const reanchoredComments: Comment[] = [];
+    for (const feature of diff.toCreate) {
+      const restoreResult = await featuresRepo.restoreFeature(feature, userId, userName);
+      await historyRepo.recordCreation(restoreResult.feature, userId, userName);
+      created.push(restoreResult.feature);
+      reanchoredComments.push(...restoreResult.reanchoredComments);
+    }
+
+    // Bring changed features back to their state at 'at'
+    // A concurrent edit fails the version check and rolls the whole restore back
+    const updated: Array<{ before: Feature; after: Feature }> = [];
+    const movedComments: Comment[] = [];
+    for (const { current, target } of diff.toUpdate) {
+      const updateResult = await featuresRepo.updateFeature(
+        current.id,
+        {
+          geometry: target.geometry,
+          properties: target.properties,
+          version: current.version
+        },
+        userId,
+        userName
+      );
+
+      if (!updateResult.success || !updateResult.feature) {
+        // Throwing rolls back everything applied so far
+        throw new Error(`Failed to restore feature ${current.id}`);
+      }
+
+      await historyRepo.recordUpdate(current, updateResult.feature, userId, userName);
+      updated.push({ before: current, after: updateResult.feature });
+      movedComments.push(...(updateResult.movedComments || []));
+    }
+
+    return { ...result, created, updated, movedComments, reanchoredComments };
+  });
+}
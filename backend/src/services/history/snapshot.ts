@@ -0,0 +1,105 @@
+// Path: services\history\snapshot.ts
+
+import { Feature } from '@/types/feature.types.js';
+import { FeatureHistory } from '@/types/history.types.js';
+import { isDeepEqual } from '../../utils/featureMerge.js';
+
+/**
+ * Reconstruction of a map's features at a past instant from feature_history
+ * Starts from the current features and walks the history recorded after that
+ * instant: the first entry of each feature holds its state at that time
+ */
+
+// Page size used when reading the history after the requested instant
+const HISTORY_PAGE_SIZE = 1000;
+
+// Where features and history are read from (the db object or transaction-bound repositories)
+export interface HistorySource {
+  getMapFeatures(mapId: number): Promise<Feature[]>;
+  getMapHistorySince(mapId: number, since: number, page?: number, limit?: number): Promise<FeatureHistory[]>;
+}
+
+// Changes needed to bring the current features back to a past state
+export interface FeatureStateDiff {
+  toCreate: Feature[]; // Existed at that time but are deleted now
+  toUpdate: Array<{ current: Feature; target: Feature }>; // Changed since then
+  toDelete: Feature[]; // Created after that time
+}
+
+/**
+ * Get the id of the feature a history entry refers to
+ * feature_id is cleared when the feature is deleted, but the states keep it
+ */
+export const getHistoryFeatureId = (entry: FeatureHistory): string | null =>
+  entry.feature_id || entry.new_state?.id || entry.previous_state?.id || null;
+
+/**
+ * Get the features of a map as they were at the given time (ms since epoch)
+ * The current features can be passed in when the caller already loaded them
+ */
+export async function getFeatureStatesAt(
+  source: HistorySource,
+  mapId: number,
+  at: number,
+  currentFeatures?: Feature[]
+): Promise<Map<string, Feature>> {
+  const states = new Map<string, Feature>();
+  const features = currentFeatures || await source.getMapFeatures(mapId);
+  features.forEach(feature => states.set(feature.id, feature));
+
+  // Features already rolled back to their first state after 'at'
+  const seen = new Set<string>();
+
+  let page = 1;
+  let entries: FeatureHistory[];
+  do {
+    entries = await source.getMapHistorySince(mapId, at, page, HISTORY_PAGE_SIZE);
+
+    for (const entry of entries) {
+      const featureId = getHistoryFeatureId(entry);
+      if (!featureId || seen.has(featureId)) continue;
+      seen.add(featureId);
+
+      // The state before the first later change is the state at 'at'
+      if (entry.previous_state) {
+        states.set(featureId, entry.previous_state);
+      } else {
+        states.delete(featureId);
+      }
+    }
+
+    page++;
+  } while (entries.length === HISTORY_PAGE_SIZE);
+
+  return states;
+}
+
+/**
+ * Compare the current features with a past state
+ */
+export function diffFeatureStates(current: Feature[], target: Map<string, Feature>): FeatureStateDiff {
+  const diff: FeatureStateDiff = { toCreate: [], toUpdate: [], toDelete: [] };
+  const currentIds = new Set<string>();
+
+  for (const feature of current) {
+    currentIds.add(feature.id);
+    const targetState = target.get(feature.id);
+
+    if (!targetState) {
+      diff.toDelete.push(feature);
+    } else if (
+      !isDeepEqual(feature.geometry, targetState.geometry) ||
+      !isDeepEqual(feature.properties, targetState.properties)
+    ) {
+      diff.toUpdate.push({ current: feature, target: targetState });
+    }
+  }
+
+  for (const [id, feature] of target) {
+    if (!currentIds.has(id)) {
+      diff.toCreate.push(feature);
+    }
+  }
+
+  return diff;
+}
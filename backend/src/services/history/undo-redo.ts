@@ -0,0 +1,224 @@
+// Path: services\history\undo-redo.ts
+
+import { Server as SocketIOServer } from 'socket.io';
+import { db } from '@/config/database.js';
+import { Comment } from '@/types/index.js';
+import { Feature } from '@/types/feature.types.js';
+import { FeatureHistory } from '@/types/history.types.js';
+import { FeaturesRepository } from '../../db/repos/features.repo.js';
+import { FeatureHistoryRepository } from '../../db/repos/feature-history.repo.js';
+import { compressFeature } from '../../utils/geometryCompression.js';
+import { getBlockingLock } from '../socket/feature-locks.js';
+import { broadcastMovedComments, broadcastReanchoredComments } from '../socket/comment-anchors.js';
+
+/**
+ * Per-user undo/redo on a map, backed by feature_history
+ * Every undo/redo is applied as a regular operation (with a new version) and
+ * recorded in history, so other clients just see normal feature events
+ */
+
+type UndoAction = 'undo' | 'redo';
+
+export interface UndoRedoResult {
+  success: boolean;
+  reason?: 'empty' | 'conflict' | 'busy' | 'locked'; // Set on failure
+  message?: string;
+  operation?: 'create' | 'update' | 'delete'; // Operation applied to revert the entry
+  feature?: Feature; // Created or updated feature
+  deletedFeature?: Feature; // Deleted feature
+  merged?: boolean; // True when the revert was merged with later edits of others
+  movedComments?: Comment[]; // Comments anchored to the updated feature, moved with it
+  reanchoredComments?: Comment[]; // Comments anchored again to the recreated feature
+}
+
+/**
+ * Revert a single history entry, respecting the edits others made after it
+ */
+async function revertEntry(
+  entry: FeatureHistory,
+  action: UndoAction,
+  userId: string,
+  userName: string
+): Promise<UndoRedoResult> {
+  const featureId = (entry.new_state || entry.previous_state)!.id;
+
+  // Someone else is editing the feature right now
+  const lock = await getBlockingLock(featureId, userId);
+  if (lock) {
+    return { success: false, reason: 'locked', message: `Feature is locked by ${lock.userName}` };
+  }
+
+  // The change and the history entry recording it are written together or not at all
+  return db.tx('revert-history-entry', async (t): Promise<UndoRedoResult> => {
+    const featuresRepo = new FeaturesRepository(t);
+    const historyRepo = new FeatureHistoryRepository(t);
+
+    const current = await featuresRepo.getFeature(featureId);
+
+    // Reverting a creation - delete the feature again
+    if (entry.operation === 'create') {
+      if (!current) {
+        return { success: false, reason: 'conflict', message: 'Feature no longer exists' };
+      }
+
+      // Deleting would throw away the changes made by someone else since then
+      if (current.version !== entry.new_state!.version) {
+        return { success: false, reason: 'conflict', message: 'Feature was changed by another user' };
+      }
+
+      await featuresRepo.deleteFeature(featureId);
+      await historyRepo.recordUndoRedo({
+        operation: 'delete',
+        previous_state: current,
+        new_state: null,
+        user_id: userId,
+        user_name: userName,
+        undo_action: action,
+        source_history_id: entry.id
+      });
+
+      return { success: true, operation: 'delete', deletedFeature: current };
+    }
+
+    // Reverting a deletion - recreate the feature as it was
+    if (entry.operation === 'delete') {
+      if (current) {
+        return { success: false, reason: 'conflict', message: 'Feature already exists' };
+      }
+
+      const { feature: restored, reanchoredComments } = await featuresRepo.restoreFeature(entry.previous_state!, userId, userName);
+      await historyRepo.recordUndoRedo({
+        operation: 'create',
+        previous_state: null,
+        new_state: restored,
+        user_id: userId,
+        user_name: userName,
+        undo_action: action,
+        source_history_id: entry.id
+      });
+
+      return { success: true, operation: 'create', feature: restored, reanchoredComments };
+    }
+
+    // Reverting an update - restore the previous state
+    // Merging against the entry's version keeps changes others made to other fields since then
+    if (!current) {
+      return { success: false, reason: 'conflict', message: 'Feature no longer exists' };
+    }
+
+    const updateResult = await featuresRepo.updateFeature(
+      featureId,
+      {
+        geometry: entry.previous_state!.geometry,
+        properties: entry.previous_state!.properties,
+        version: entry.new_state!.version,
+        merge: true
+      },
+      userId,
+      userName
+    );
+
+    if (!updateResult.success || !updateResult.feature) {
+      const fields = updateResult.conflict?.conflictingFields.join(', ');
+      return {
+        success: false,
+        reason: 'conflict',
+        message: fields ? `Feature was changed by another user (${fields})` : 'Failed to restore feature'
+      };
+    }
+
+    await historyRepo.recordUndoRedo({
+      operation: 'update',
+      previous_state: updateResult.previousFeature || current,
+      new_state: updateResult.feature,
+      user_id: userId,
+      user_name: userName,
+      undo_action: action,
+      source_history_id: entry.id
+    });
+
+    return {
+      success: true,
+      operation: 'update',
+      feature: updateResult.feature,
+      merged: updateResult.merged,
+      movedComments: updateResult.movedComments
+    };
+  });
+}
+
+/**
+ * Undo or redo the last operation of a user on a map
+ */
+async function applyUndoRedo(
+  action: UndoAction,
+  mapId: number,
+  userId: string,
+  userName: string
+): Promise<UndoRedoResult> {
+  // One undo/redo per user and map at a time across all servers, so concurrent requests
+  // can't revert the same entry twice
+  return db.task('undo-redo', async (t): Promise<UndoRedoResult> => {
+    const historyRepo = new FeatureHistoryRepository(t);
+
+    if (!await historyRepo.tryLockUndoRedo(mapId, userId)) {
+      return { success: false, reason: 'busy', message: `Another ${action} is still in progress` };
+    }
+
+    try {
+      const entry = action === 'undo' ?
+        await db.getLastUndoableOperation(mapId, userId) :
+        await db.getLastRedoableOperation(mapId, userId);
+
+      if (!entry) {
+        return { success: false, reason: 'empty', message: `Nothing to ${action}` };
+      }
+
+      console.log(`[HISTORY] User ${userId} ${action} of history entry ${entry.id} (${entry.operation}) on map ${mapId}`);
+
+      return await revertEntry(entry, action, userId, userName);
+    } finally {
+      await historyRepo.unlockUndoRedo(mapId, userId);
+    }
+  });
+}
+
+export const undoLastOperation = (mapId: number, userId: string, userName: string) =>
+  applyUndoRedo('undo', mapId, userId, userName);
+
+export const redoLastOperation = (mapId: number, userId: string, userName: string) =>
+  applyUndoRedo('redo', mapId, userId, userName);
+
+/**
+ * Broadcast the outcome of a successful undo/redo as the regular feature events
+ */
+export function broadcastUndoRedo(
+  io: SocketIOServer,
+  mapId: number,
+  result: UndoRedoResult,
+  user: { id: string; name: string }
+): void {
+  const room = `map-${mapId}`;
+
+  if (result.operation === 'create' && result.feature) {
+    io.to(room).emit('feature-created', {
+      feature: compressFeature(result.feature),
+      creator: user
+    });
+    broadcastReanchoredComments(io, room, result.reanchoredComments);
+  } else if (result.operation === 'update' && result.feature) {
+    io.to(room).emit('feature-updated', {
+      feature: compressFeature(result.feature),
+      updater: user
+    });
+    broadcastMovedComments(io, room, result.movedComments);
+  } else if (result.operation === 'delete' && result.deletedFeature) {
+    io.to(room).emit('feature-deleted', {
+      featureId: result.deletedFeature.id,
+      featureType: result.deletedFeature.feature_type,
+      mapId,
+      deleter: user,
+      timestamp: Date.now()
+    });
+  }
+}
@@ -0,0 +1,70 @@
+// Path: services\import\archive.ts
+
+import JSZip from 'jszip';
+import config from '../../config/env.js';
+import { ImportError } from './errors.js';
+
+/**
+ * Reading of zipped imports (KMZ, zipped shapefiles)
+ * Entries are only read through readArchiveFile, which stops inflating once the archive
+ * goes over the uncompressed size limit - the sizes declared in the zip can't be trusted
+ */
+
+// Bytes each open archive may still inflate
+const remainingBytes = new WeakMap<JSZip, number>();
+
+/**
+ * Open a zip archive
+ */
+export async function openArchive(body: Buffer): Promise<JSZip> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(body);
+  } catch {
+    throw new ImportError('File is not a valid zip archive');
+  }
+
+  remainingBytes.set(zip, config.imports.maxUncompressedBytes);
+  return zip;
+}
+
+/**
+ * Inflate a file of an archive, rejecting the import when the archive goes over the limit
+ */
+export function readArchiveFile(zip: JSZip, file: JSZip.JSZipObject): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = file.nodeStream('nodebuffer');
+
+    stream.on('data', (chunk: Buffer) => {
+      const remaining = (remainingBytes.get(zip) ?? config.imports.maxUncompressedBytes) - chunk.length;
+      remainingBytes.set(zip, remaining);
+
+      if (remaining < 0) {
+        stream.pause();
+        stream.removeAllListeners();
+        const limitMb = Math.round(config.imports.maxUncompressedBytes / (1024 * 1024));
+        reject(new ImportError(`Archive is larger than ${limitMb}MB once uncompressed`));
+        return;
+      }
+
+      chunks.push(chunk);
+    });
+
+    stream.on('error', () => reject(new ImportError(`Could not read ${file.name} from the archive`)));
+
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Get the files of an archive with the given extension, shallowest first
+ * Folders added by macOS (__MACOSX) are skipped
+ */
+export function findArchiveFiles(zip: JSZip, extension: string): JSZip.JSZipObject[] {
+  const suffix = `.${extension.toLowerCase()}`;
+
+  return Object.values(zip.files)
+    .filter(file => !file.dir && !file.name.startsWith('__MACOSX/') && file.name.toLowerCase().endsWith(suffix))
+    .sort((a, b) => a.name.split('/').length - b.name.split('/').length || a.name.localeCompare(b.name));
+}
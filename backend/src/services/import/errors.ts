@@ -0,0 +1,12 @@
+// Path: services\import\errors.ts
+
+/**
+ * Thrown when an imported file can't be read at all
+ * Problems with single records are reported as failures instead
+ */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
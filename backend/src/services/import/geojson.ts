@@ -0,0 +1,115 @@
+// Path: services\import\geojson.ts
+
+import { ImportedFeatureType, ParsedImport } from '@/types/import.types.js';
+import { ImportError } from './errors.js';
+
+/**
+ * GeoJSON reader
+ * Accepts a FeatureCollection, a single Feature or a bare geometry.
+ * Multi* geometries and GeometryCollections become one feature per part,
+ * each part keeping the properties of the original feature
+ */
+
+const SINGLE_PART_TYPES: Record<string, ImportedFeatureType> = {
+  Point: 'point',
+  LineString: 'line',
+  Polygon: 'polygon'
+};
+
+// Multi-part geometry type -> type of each part
+const MULTI_PART_TYPES: Record<string, string> = {
+  MultiPoint: 'Point',
+  MultiLineString: 'LineString',
+  MultiPolygon: 'Polygon'
+};
+
+/**
+ * Add the single-part geometries of a GeoJSON geometry to the result
+ */
+export function addGeometry(geometry: any, properties: Record<string, any>, source: string, result: ParsedImport): void {
+  if (!geometry || typeof geometry !== 'object') {
+    result.failures.push({ source, message: 'Feature has no geometry' });
+    return;
+  }
+
+  // Text features come back as points from our own exports
+  const featureType = geometry.type === 'Point' && properties.feature_type === 'text' ?
+    'text' : SINGLE_PART_TYPES[geometry.type];
+  if (featureType) {
+    result.drafts.push({
+      feature_type: featureType,
+      geometry: { type: geometry.type, coordinates: geometry.coordinates },
+      properties,
+      source
+    });
+    return;
+  }
+
+  const partType = MULTI_PART_TYPES[geometry.type];
+  if (partType) {
+    if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+      result.failures.push({ source, message: `${geometry.type} has no coordinates` });
+      return;
+    }
+
+    geometry.coordinates.forEach((coordinates: any, index: number) => {
+      addGeometry({ type: partType, coordinates }, properties, `${source}.part[${index}]`, result);
+    });
+    return;
+  }
+
+  if (geometry.type === 'GeometryCollection' && Array.isArray(geometry.geometries)) {
+    geometry.geometries.forEach((part: any, index: number) => {
+      addGeometry(part, properties, `${source}.part[${index}]`, result);
+    });
+    return;
+  }
+
+  result.failures.push({ source, message: `Unsupported geometry type: ${geometry.type}` });
+}
+
+/**
+ * Read features from GeoJSON (text or already parsed)
+ */
+export function parseGeoJSON(input: string | object): ParsedImport {
+  let data: any = input;
+
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new ImportError('File is not valid JSON');
+    }
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new ImportError('File is not a GeoJSON object');
+  }
+
+  const result: ParsedImport = { drafts: [], failures: [] };
+  const propertiesOf = (feature: any) =>
+    feature.properties && typeof feature.properties === 'object' ? feature.properties : {};
+
+  if (data.type === 'FeatureCollection') {
+    if (!Array.isArray(data.features)) {
+      throw new ImportError('FeatureCollection has no features array');
+    }
+
+    data.features.forEach((feature: any, index: number) => {
+      const source = `features[${index}]`;
+      if (!feature || feature.type !== 'Feature') {
+        result.failures.push({ source, message: 'Not a GeoJSON Feature' });
+        return;
+      }
+      addGeometry(feature.geometry, propertiesOf(feature), source, result);
+    });
+  } else if (data.type === 'Feature') {
+    addGeometry(data.geometry, propertiesOf(data), 'feature', result);
+  } else if (typeof data.type === 'string') {
+    addGeometry(data, {}, 'geometry', result);
+  } else {
+    throw new ImportError('File is not a GeoJSON object');
+  }
+
+  return result;
+}
@@ -0,0 +1,139 @@
+// Path: services\import\gpx.ts
+
+import { XMLParser } from 'fast-xml-parser';
+import { ParsedImport } from '@/types/import.types.js';
+import { ImportError } from './errors.js';
+
+/**
+ * GPX reader
+ * Each track segment and each route becomes a line feature, each waypoint a
+ * point feature plus a text feature with its name. Recorded times are kept
+ * in the attributes (per vertex for lines, with their start and end)
+ */
+
+const ARRAY_ELEMENTS = new Set(['wpt', 'rte', 'rtept', 'trk', 'trkseg', 'trkpt']);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => ARRAY_ELEMENTS.has(name)
+});
+
+type GpxNode = Record<string, any>;
+
+const textOf = (node: any): string | undefined =>
+  node === undefined || node === null || typeof node === 'object' ? undefined : String(node);
+
+const positionOf = (point: GpxNode): number[] => [Number(point['@_lon']), Number(point['@_lat'])];
+
+/**
+ * Descriptive attributes shared by tracks, routes and waypoints
+ */
+function describe(node: GpxNode): Record<string, any> {
+  const attributes: Record<string, any> = {};
+
+  for (const key of ['name', 'desc', 'cmt', 'type']) {
+    const value = textOf(node[key]);
+    if (value) attributes[key] = value;
+  }
+
+  return attributes;
+}
+
+/**
+ * Attributes of a line from its vertices: times (if recorded) and elevations
+ */
+function describeVertices(points: GpxNode[]): Record<string, any> {
+  const attributes: Record<string, any> = {};
+  const times = points.map(point => textOf(point.time) || null);
+
+  if (times.some(time => time !== null)) {
+    attributes.times = times;
+    attributes.start_time = times.find(time => time !== null);
+    attributes.end_time = [...times].reverse().find(time => time !== null);
+  }
+
+  const elevations = points.map(point => textOf(point.ele));
+  if (elevations.some(elevation => elevation !== undefined)) {
+    attributes.elevations = elevations.map(elevation => elevation !== undefined ? Number(elevation) : null);
+  }
+
+  return attributes;
+}
+
+/**
+ * Read features from a GPX document
+ */
+export function parseGPX(xml: string): ParsedImport {
+  let document: GpxNode;
+  try {
+    document = parser.parse(xml);
+  } catch {
+    throw new ImportError('File is not valid XML');
+  }
+
+  const gpx = document?.gpx;
+  if (!gpx) {
+    throw new ImportError('File is not a GPX document');
+  }
+
+  const result: ParsedImport = { drafts: [], failures: [] };
+
+  (gpx.trk || []).forEach((track: GpxNode, trackIndex: number) => {
+    (track.trkseg || []).forEach((segment: GpxNode, segmentIndex: number) => {
+      const points: GpxNode[] = segment.trkpt || [];
+      result.drafts.push({
+        feature_type: 'line',
+        geometry: { type: 'LineString', coordinates: points.map(positionOf) },
+        properties: {
+          ...describe(track),
+          segment: segmentIndex,
+          ...describeVertices(points)
+        },
+        source: `tracks[${trackIndex}].segments[${segmentIndex}]`
+      });
+    });
+  });
+
+  (gpx.rte || []).forEach((route: GpxNode, routeIndex: number) => {
+    const points: GpxNode[] = route.rtept || [];
+    result.drafts.push({
+      feature_type: 'line',
+      geometry: { type: 'LineString', coordinates: points.map(positionOf) },
+      properties: {
+        ...describe(route),
+        ...describeVertices(points)
+      },
+      source: `routes[${routeIndex}]`
+    });
+  });
+
+  (gpx.wpt || []).forEach((waypoint: GpxNode, waypointIndex: number) => {
+    const source = `waypoints[${waypointIndex}]`;
+    const geometry = { type: 'Point', coordinates: positionOf(waypoint) };
+    const attributes: Record<string, any> = { ...describe(waypoint) };
+
+    const time = textOf(waypoint.time);
+    if (time) attributes.time = time;
+
+    const elevation = textOf(waypoint.ele);
+    if (elevation !== undefined) attributes.elevation = Number(elevation);
+
+    result.drafts.push({ feature_type: 'point', geometry, properties: attributes, source });
+
+    // The name is shown as a label next to the point
+    if (attributes.name) {
+      result.drafts.push({
+        feature_type: 'text',
+        geometry,
+        properties: { ...attributes, text: attributes.name },
+        source: `${source}.label`
+      });
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,217 @@
+// Path: services\import\index.ts
+
+import { Server as SocketIOServer } from 'socket.io';
+import { db } from '@/config/database.js';
+import config from '@/config/env.js';
+import { AuthenticatedUser } from '@/types/auth.js';
+import { CreateFeatureDTO, Feature } from '@/types/feature.types.js';
+import {
+  ImportedFeatureDraft,
+  ImportedFeatureType,
+  ImportFailure,
+  ImportOptions,
+  ImportResult,
+  ParsedImport
+} from '@/types/import.types.js';
+import { FeaturesRepository } from '../../db/repos/features.repo.js';
+import { FeatureHistoryRepository } from '../../db/repos/feature-history.repo.js';
+import { compressFeatures } from '../../utils/geometryCompression.js';
+import {
+  isValidPoint,
+  isValidLine,
+  isValidPolygon,
+  validatePointProperties,
+  validateLineProperties,
+  validatePolygonProperties,
+  validateTextProperties
+} from '../../utils/featureValidation.js';
+import { EXPORT_METADATA_KEYS } from '../export/exported-features.js';
+import { ImportError } from './errors.js';
+import { parseGeoJSON } from './geojson.js';
+import { parseKML, parseKMZ } from './kml.js';
+import { parseGPX } from './gpx.js';
+import { parseShapefile } from './shapefile.js';
+
+/**
+ * Import of features from files
+ * Format readers turn a file into feature drafts, which go through the same
+ * validation as features drawn by hand and are created in a single transaction
+ */
+
+type ValidationResult = { valid: boolean; message?: string; sanitized?: any };
+
+// Readers of the supported file formats (the file is the raw request body)
+export const IMPORT_READERS: Record<
+  string,
+  (body: Buffer, options: ImportOptions) => ParsedImport | Promise<ParsedImport>
+> = {
+  geojson: body => parseGeoJSON(body.toString('utf8')),
+  kml: body => parseKML(body.toString('utf8')),
+  kmz: body => parseKMZ(body),
+  gpx: body => parseGPX(body.toString('utf8')),
+  shapefile: (body, options) => parseShapefile(body, options)
+};
+
+const VALIDATORS: Record<ImportedFeatureType, {
+  geometry: (coordinates: any) => ValidationResult;
+  properties: (properties: any) => ValidationResult;
+}> = {
+  point: { geometry: isValidPoint, properties: validatePointProperties },
+  line: { geometry: isValidLine, properties: validateLineProperties },
+  polygon: { geometry: isValidPolygon, properties: validatePolygonProperties },
+  text: { geometry: isValidPoint, properties: validateTextProperties }
+};
+
+/**
+ * Drop altitude (and any other extra values) from the positions of a geometry
+ */
+const toPlanarCoordinates = (coordinates: any): any => {
+  if (!Array.isArray(coordinates)) return coordinates;
+  if (typeof coordinates[0] === 'number') return coordinates.slice(0, 2);
+  return coordinates.map(toPlanarCoordinates);
+};
+
+/**
+ * Set aside the properties of a draft that would make it invalid as styling
+ * Source attributes can share a name with a style property (e.g. a shapefile "color"
+ * column holding color names), so they are kept as attributes rather than failing the feature
+ */
+function splitUnusableStyling(
+  properties: Record<string, any>,
+  validate: (properties: any) => ValidationResult
+): { styling: Record<string, any>; unusable: Record<string, any> } {
+  const styling: Record<string, any> = {};
+  const unusable: Record<string, any> = {};
+
+  // The text goes first, since text features are invalid without it
+  const entries = Object.entries(properties)
+    .sort(([a], [b]) => Number(b === 'text') - Number(a === 'text'));
+
+  for (const [key, value] of entries) {
+    if (key === 'attributes' || validate({ ...styling, [key]: value }).valid) {
+      styling[key] = value;
+    } else {
+      unusable[key] = value;
+    }
+  }
+
+  return { styling, unusable };
+}
+
+/**
+ * Validate a draft and split its properties into styling (with defaults) and attributes
+ * Returns the failure message when the draft can't be imported
+ */
+function prepareDraft(
+  draft: ImportedFeatureDraft,
+  mapId: number,
+  user: AuthenticatedUser
+): CreateFeatureDTO | string {
+  const validators = VALIDATORS[draft.feature_type];
+  const coordinates = toPlanarCoordinates(draft.geometry?.coordinates);
+
+  const geometryValidation = validators.geometry(coordinates);
+  if (!geometryValidation.valid) {
+    return geometryValidation.message || `Invalid ${draft.feature_type} geometry`;
+  }
+
+  const { styling, unusable } = splitUnusableStyling(draft.properties || {}, validators.properties);
+  const propertiesValidation = validators.properties(styling);
+  if (!propertiesValidation.valid) {
+    // Reported with what is wrong in the draft itself (e.g. a text too long rather than missing)
+    const message = validators.properties(draft.properties).message || propertiesValidation.message;
+    return message || `Invalid ${draft.feature_type} properties`;
+  }
+
+  // Whatever isn't styling (or metadata of an exported feature) is kept as attributes
+  const properties = propertiesValidation.sanitized;
+  const attributes: Record<string, any> = { ...(properties.attributes || {}) };
+  const metadataKeys: readonly string[] = EXPORT_METADATA_KEYS;
+  for (const [key, value] of Object.entries(styling)) {
+    if (!(key in properties) && !metadataKeys.includes(key) && value !== undefined) {
+      attributes[key] = value;
+    }
+  }
+  Object.assign(attributes, unusable);
+  if (Object.keys(attributes).length > 0) {
+    properties.attributes = attributes;
+  }
+
+  return {
+    map_id: mapId,
+    feature_type: draft.feature_type,
+    geometry: { type: draft.geometry.type, coordinates },
+    properties,
+    user_id: user.id,
+    user_name: user.name
+  };
+}
+
+/**
+ * Create the features read from a file in a map
+ * Invalid drafts are reported as failures; the valid ones are created atomically
+ */
+export async function importFeatures(
+  mapId: number,
+  format: string,
+  parsed: ParsedImport,
+  user: AuthenticatedUser
+): Promise<ImportResult> {
+  const failures: ImportFailure[] = [...parsed.failures];
+  const toCreate: CreateFeatureDTO[] = [];
+
+  for (const draft of parsed.drafts) {
+    const prepared = prepareDraft(draft, mapId, user);
+    if (typeof prepared === 'string') {
+      failures.push({ source: draft.source, message: prepared });
+    } else {
+      toCreate.push(prepared);
+    }
+  }
+
+  if (toCreate.length > config.imports.maxFeatures) {
+    throw new ImportError(
+      `File has ${toCreate.length} features, at most ${config.imports.maxFeatures} can be imported at once`
+    );
+  }
+
+  const features = toCreate.length === 0 ? [] : await db.tx('import-features', async (t) => {
+    const featuresRepo = new FeaturesRepository(t);
+    const historyRepo = new FeatureHistoryRepository(t);
+    const created: Feature[] = [];
+
+    for (const data of toCreate) {
+      const feature = await featuresRepo.createFeature(data);
+      await historyRepo.recordCreation(feature, user.id, user.name);
+      created.push(feature);
+    }
+
+    return created;
+  });
+
+  console.log(`[IMPORT] User ${user.id} imported ${features.length} feature(s) from ${format} into map ${mapId} (${failures.length} failed)`);
+
+  return { format, features, failures };
+}
+
+/**
+ * Send all imported features to the map's room in one event
+ */
+export function broadcastImport(
+  io: SocketIOServer,
+  mapId: number,
+  result: ImportResult,
+  user: AuthenticatedUser
+): void {
+  if (result.features.length === 0) return;
+
+  io.to(`map-${mapId}`).emit('features-imported', {
+    features: compressFeatures(result.features),
+    format: result.format,
+    importer: {
+      id: user.id,
+      name: user.name
+    },
+    timestamp: Date.now()
+  });
+}
@@ -0,0 +1,315 @@
+// Path: services\import\kml.ts
+
+import { XMLParser } from 'fast-xml-parser';
+import { ImportedFeatureType, ParsedImport } from '@/types/import.types.js';
+import { kmlColorToHex, KML_POINT_BASE_SIZE, KML_LABEL_BASE_SIZE } from '../../utils/kmlStyle.js';
+import { openArchive, findArchiveFiles, readArchiveFile } from './archive.js';
+import { ImportError } from './errors.js';
+
+/**
+ * KML/KMZ reader
+ * Placemark styles (shared or inline) become the styling properties of each
+ * feature type; ExtendedData values become attributes, or override the
+ * styling when they name a style property (as written by our KML export).
+ * Point placemarks with a hidden icon, or marked as text, become text features
+ */
+
+// Elements that may appear more than once where they are read
+const ARRAY_ELEMENTS = new Set([
+  'Document', 'Folder', 'Placemark', 'Style', 'StyleMap', 'Pair',
+  'Point', 'LineString', 'Polygon', 'MultiGeometry', 'innerBoundaryIs',
+  'Data', 'SchemaData', 'SimpleData'
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => ARRAY_ELEMENTS.has(name)
+});
+
+type KmlNode = Record<string, any>;
+
+// Style of a placemark, by KML style element
+interface KmlStyle {
+  LineStyle?: KmlNode;
+  PolyStyle?: KmlNode;
+  IconStyle?: KmlNode;
+  LabelStyle?: KmlNode;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Text content of an element (with or without attributes)
+const textOf = (node: any): string | undefined => {
+  if (node === undefined || node === null) return undefined;
+  if (typeof node === 'object') return node['#text'] !== undefined ? String(node['#text']) : undefined;
+  return String(node);
+};
+
+const numberOf = (node: any): number | undefined => {
+  const text = textOf(node);
+  const value = text !== undefined ? Number(text) : NaN;
+  return isNaN(value) ? undefined : value;
+};
+
+/**
+ * Find all elements with the given name anywhere below a node
+ * Elements named skipInside are not searched (e.g. inline styles inside placemarks)
+ */
+function collectElements(node: any, name: string, skipInside?: string, found: KmlNode[] = []): KmlNode[] {
+  if (!node || typeof node !== 'object') return found;
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('@_') || key === skipInside) continue;
+
+    const children = Array.isArray(value) ? value : [value];
+    if (key === name) {
+      found.push(...children.filter(child => child && typeof child === 'object'));
+    } else {
+      children.forEach(child => collectElements(child, name, skipInside, found));
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Read "lng,lat[,alt] lng,lat[,alt] ..." into positions
+ */
+function parseCoordinates(node: any): number[][] {
+  const text = textOf(node) || '';
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(tuple => tuple.length > 0)
+    .map(tuple => tuple.split(',').slice(0, 2).map(Number));
+}
+
+// KML rings should be closed, but not every producer does it
+const closeRing = (ring: number[][]): number[][] => {
+  if (ring.length === 0) return ring;
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+};
+
+/**
+ * Shared styles of the document, by id (style maps resolve to their normal style)
+ */
+function readSharedStyles(root: KmlNode): Map<string, KmlStyle> {
+  const styles = new Map<string, KmlStyle>();
+
+  for (const style of collectElements(root, 'Style', 'Placemark')) {
+    if (style['@_id']) styles.set(style['@_id'], style);
+  }
+
+  for (const styleMap of collectElements(root, 'StyleMap', 'Placemark')) {
+    const normal = (styleMap.Pair || []).find((pair: KmlNode) => textOf(pair.key) === 'normal');
+    const target = normal && textOf(normal.styleUrl)?.replace(/^#/, '');
+    if (styleMap['@_id'] && target && styles.has(target)) {
+      styles.set(styleMap['@_id'], styles.get(target)!);
+    }
+  }
+
+  return styles;
+}
+
+/**
+ * Placemark ExtendedData as a flat object
+ * 'true'/'false' become booleans; anything else stays a string (validation parses numbers)
+ */
+function readExtendedData(placemark: KmlNode): Record<string, any> {
+  const data: Record<string, any> = {};
+  const extended = placemark.ExtendedData;
+  if (!extended) return data;
+
+  const setValue = (name: unknown, value: string | undefined) => {
+    if (typeof name !== 'string' || value === undefined) return;
+    data[name] = value === 'true' ? true : value === 'false' ? false : value;
+  };
+
+  for (const item of extended.Data || []) {
+    setValue(item['@_name'], textOf(item.value));
+  }
+  for (const schemaData of extended.SchemaData || []) {
+    for (const item of schemaData.SimpleData || []) {
+      setValue(item['@_name'], textOf(item));
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Styling properties of a feature type from a KML style
+ */
+function styleToProperties(featureType: ImportedFeatureType, style: KmlStyle): Record<string, any> {
+  const properties: Record<string, any> = {};
+  const lineColor = kmlColorToHex(textOf(style.LineStyle?.color));
+  const lineWidth = numberOf(style.LineStyle?.width);
+
+  if (featureType === 'polygon') {
+    const fillColor = kmlColorToHex(textOf(style.PolyStyle?.color));
+    if (fillColor) {
+      properties.fillColor = fillColor.color;
+      properties.fillOpacity = fillColor.opacity;
+    }
+    if (textOf(style.PolyStyle?.fill) === '0') {
+      properties.fillOpacity = 0;
+    }
+    if (lineColor) {
+      properties.borderColor = lineColor.color;
+      properties.borderOpacity = lineColor.opacity;
+    }
+    if (lineWidth !== undefined) {
+      properties.borderSize = clamp(lineWidth, 0, 10);
+    }
+    if (textOf(style.PolyStyle?.outline) === '0') {
+      properties.borderSize = 0;
+    }
+  } else if (featureType === 'line') {
+    if (lineColor) {
+      properties.color = lineColor.color;
+      properties.opacity = lineColor.opacity;
+    }
+    if (lineWidth !== undefined) {
+      properties.size = clamp(lineWidth, 0, 10);
+    }
+  } else if (featureType === 'point') {
+    const iconColor = kmlColorToHex(textOf(style.IconStyle?.color));
+    const scale = numberOf(style.IconStyle?.scale);
+    if (iconColor) {
+      properties.color = iconColor.color;
+      properties.opacity = iconColor.opacity;
+    }
+    if (scale !== undefined && scale > 0) {
+      properties.size = clamp(Math.round(KML_POINT_BASE_SIZE * scale), 1, 50);
+    }
+  } else if (featureType === 'text') {
+    const labelColor = kmlColorToHex(textOf(style.LabelStyle?.color));
+    const scale = numberOf(style.LabelStyle?.scale);
+    if (labelColor) {
+      properties.color = labelColor.color;
+    }
+    if (scale !== undefined && scale > 0) {
+      properties.size = clamp(Math.round(KML_LABEL_BASE_SIZE * scale), 6, 72);
+    }
+  }
+
+  return properties;
+}
+
+/**
+ * Single-part geometries of a placemark, with their source suffix
+ */
+function readGeometries(node: KmlNode, source: string): Array<{ geometry: any; source: string }> {
+  const geometries: Array<{ geometry: any; source: string }> = [];
+
+  for (const point of node.Point || []) {
+    geometries.push({ geometry: { type: 'Point', coordinates: parseCoordinates(point.coordinates)[0] }, source });
+  }
+  for (const line of node.LineString || []) {
+    geometries.push({ geometry: { type: 'LineString', coordinates: parseCoordinates(line.coordinates) }, source });
+  }
+  for (const polygon of node.Polygon || []) {
+    const outer = closeRing(parseCoordinates(polygon.outerBoundaryIs?.LinearRing?.coordinates));
+    const inner = (polygon.innerBoundaryIs || [])
+      .map((boundary: KmlNode) => closeRing(parseCoordinates(boundary.LinearRing?.coordinates)));
+    geometries.push({ geometry: { type: 'Polygon', coordinates: [outer, ...inner] }, source });
+  }
+  for (const multi of node.MultiGeometry || []) {
+    geometries.push(...readGeometries(multi, source));
+  }
+
+  // Parts of multi-geometries are numbered like the other readers do
+  if (geometries.length > 1) {
+    return geometries.map((entry, index) => ({ ...entry, source: `${source}.part[${index}]` }));
+  }
+  return geometries;
+}
+
+const GEOMETRY_TYPES: Record<string, ImportedFeatureType> = {
+  Point: 'point',
+  LineString: 'line',
+  Polygon: 'polygon'
+};
+
+/**
+ * Read features from a KML document
+ */
+export function parseKML(xml: string): ParsedImport {
+  let document: KmlNode;
+  try {
+    document = parser.parse(xml);
+  } catch {
+    throw new ImportError('File is not valid XML');
+  }
+
+  const root = document?.kml;
+  if (!root) {
+    throw new ImportError('File is not a KML document');
+  }
+
+  const result: ParsedImport = { drafts: [], failures: [] };
+  const sharedStyles = readSharedStyles(root);
+
+  collectElements(root, 'Placemark').forEach((placemark, index) => {
+    const source = `placemarks[${index}]`;
+    const name = textOf(placemark.name);
+    const description = textOf(placemark.description);
+    const data = readExtendedData(placemark);
+
+    // Inline style on top of the shared one
+    const sharedStyle = sharedStyles.get(textOf(placemark.styleUrl)?.replace(/^#/, '') || '') || {};
+    const inlineStyle = (placemark.Style || [])[0] || {};
+    const style: KmlStyle = { ...sharedStyle, ...inlineStyle };
+
+    const geometries = readGeometries(placemark, source);
+    if (geometries.length === 0) {
+      result.failures.push({ source, message: 'Placemark has no supported geometry' });
+      return;
+    }
+
+    for (const { geometry, source: partSource } of geometries) {
+      let featureType = GEOMETRY_TYPES[geometry.type];
+
+      // A label without an icon is a text feature
+      const hiddenIcon = numberOf(style.IconStyle?.scale) === 0;
+      if (featureType === 'point' && name && (data.feature_type === 'text' || hiddenIcon)) {
+        featureType = 'text';
+      }
+
+      const properties: Record<string, any> = {
+        ...(featureType === 'text' ? { text: name } : { name }),
+        description,
+        ...styleToProperties(featureType, style),
+        ...data
+      };
+
+      // Unset name/description are not attributes
+      Object.keys(properties).forEach(key => properties[key] === undefined && delete properties[key]);
+
+      result.drafts.push({ feature_type: featureType, geometry, properties, source: partSource });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Read features from a KMZ archive (the main KML document in it)
+ */
+export async function parseKMZ(body: Buffer): Promise<ParsedImport> {
+  const zip = await openArchive(body);
+  const files = findArchiveFiles(zip, 'kml');
+  const main = files.find(file => file.name.toLowerCase() === 'doc.kml') || files[0];
+
+  if (!main) {
+    throw new ImportError('KMZ archive has no KML document');
+  }
+
+  return parseKML((await readArchiveFile(zip, main)).toString('utf8'));
+}
@@ -0,0 +1,179 @@
+// Path: services\import\shapefile.ts
+
+import * as shapefile from 'shapefile';
+import { IBaseProtocol } from 'pg-promise';
+import { db } from '@/config/database.js';
+import { ImportOptions, ParsedImport } from '@/types/import.types.js';
+import { openArchive, findArchiveFiles, readArchiveFile } from './archive.js';
+import { addGeometry } from './geojson.js';
+import { ImportError } from './errors.js';
+
+/**
+ * Zipped shapefile reader
+ * Every layer in the archive (.shp with its .dbf, .prj and .cpg) is read.
+ * Geometries are reprojected from the layer's .prj to WGS84 by PostGIS;
+ * without a .prj they are taken as longitude/latitude already.
+ * DBF fields become properties, renamed by the caller's attribute mapping
+ */
+
+interface ShapefileRecord {
+  source: string;
+  geometry: any;
+  properties: Record<string, any>;
+}
+
+// .cpg files name the DBF encoding as a code page ("1252") or a label ("UTF-8")
+const encodingOf = (codePage: string | undefined): string | undefined => {
+  const value = codePage?.trim();
+  if (!value) return undefined;
+  return /^\d+$/.test(value) ? `windows-${value}` : value;
+};
+
+/**
+ * Properties of a record from its DBF fields
+ * With a mapping, only the mapped fields are kept, under their new names
+ */
+function mapAttributes(fields: Record<string, any> | null, mapping?: Record<string, string>): Record<string, any> {
+  const properties: Record<string, any> = {};
+
+  for (const [field, value] of Object.entries(fields || {})) {
+    if (value === null || value === undefined) continue;
+
+    const name = mapping ? mapping[field] : field;
+    if (!name) continue;
+
+    properties[name] = value instanceof Date ? value.toISOString() : value;
+  }
+
+  return properties;
+}
+
+/**
+ * Reproject record geometries to WGS84 (EPSG:4326)
+ * All records are transformed in one query; if that fails, they are transformed
+ * one by one so that only the records that can't be reprojected are reported
+ */
+async function reproject(
+  records: ShapefileRecord[],
+  projection: string,
+  result: ParsedImport
+): Promise<ShapefileRecord[]> {
+  const transformQuery =
+    `SELECT ST_AsGeoJSON(ST_Transform(ST_GeomFromGeoJSON(geometry), $2, 4326))::json AS geometry
+     FROM unnest($1::text[]) WITH ORDINALITY AS records(geometry, position)
+     ORDER BY position`;
+
+  const transform = async (connection: IBaseProtocol<any>, batch: ShapefileRecord[]) => {
+    const rows = await connection.any(transformQuery, [batch.map(record => JSON.stringify(record.geometry)), projection]);
+    return batch.map((record, index) => ({ ...record, geometry: rows[index].geometry }));
+  };
+
+  try {
+    return await transform(db, records);
+  } catch {
+    return db.task('reproject-shapefile', async t => {
+      const reprojected: ShapefileRecord[] = [];
+
+      for (const record of records) {
+        try {
+          reprojected.push(...await transform(t, [record]));
+        } catch (error) {
+          result.failures.push({
+            source: record.source,
+            message: `Could not reproject geometry: ${error instanceof Error ? error.message : error}`
+          });
+        }
+      }
+
+      return reprojected;
+    });
+  }
+}
+
+/**
+ * Read the records of one layer
+ * A record that can't be read ends the layer, but keeps the records read before it
+ */
+async function readLayer(
+  name: string,
+  shp: Buffer,
+  dbf: Buffer | undefined,
+  encoding: string | undefined,
+  options: ImportOptions,
+  result: ParsedImport
+): Promise<ShapefileRecord[]> {
+  const records: ShapefileRecord[] = [];
+
+  let layer: Awaited<ReturnType<typeof shapefile.open>>;
+  try {
+    layer = await shapefile.open(shp, dbf, { encoding });
+  } catch (error) {
+    throw new ImportError(`Layer ${name} is not a valid shapefile: ${error instanceof Error ? error.message : error}`);
+  }
+
+  for (let index = 0; ; index++) {
+    const source = `${name}.records[${index}]`;
+
+    try {
+      const { done, value } = await layer.read();
+      if (done) break;
+
+      if (!value.geometry) {
+        result.failures.push({ source, message: 'Record has no geometry' });
+        continue;
+      }
+
+      records.push({ source, geometry: value.geometry, properties: mapAttributes(value.properties, options.attributeMapping) });
+    } catch (error) {
+      result.failures.push({ source, message: `Unreadable record: ${error instanceof Error ? error.message : error}` });
+      break;
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Read features from a zipped shapefile
+ */
+export async function parseShapefile(body: Buffer, options: ImportOptions = {}): Promise<ParsedImport> {
+  const zip = await openArchive(body);
+  const layers = findArchiveFiles(zip, 'shp');
+
+  if (layers.length === 0) {
+    throw new ImportError('Archive has no .shp file');
+  }
+
+  const result: ParsedImport = { drafts: [], failures: [] };
+
+  for (const shpFile of layers) {
+    const basePath = shpFile.name.slice(0, -'.shp'.length);
+    const name = basePath.split('/').pop() || basePath;
+
+    // Files of the layer share its name, whatever the case of their extension
+    const sibling = (extension: string) =>
+      Object.values(zip.files).find(file => file.name.toLowerCase() === `${basePath}.${extension}`.toLowerCase());
+
+    const dbfFile = sibling('dbf');
+    const prjFile = sibling('prj');
+    const cpgFile = sibling('cpg');
+
+    const records = await readLayer(
+      name,
+      await readArchiveFile(zip, shpFile),
+      dbfFile ? await readArchiveFile(zip, dbfFile) : undefined,
+      encodingOf(cpgFile ? (await readArchiveFile(zip, cpgFile)).toString('utf8') : undefined),
+      options,
+      result
+    );
+
+    const projection = prjFile ? (await readArchiveFile(zip, prjFile)).toString('utf8').trim() : '';
+    const reprojected = projection && records.length > 0 ? await reproject(records, projection, result) : records;
+
+    for (const record of reprojected) {
+      addGeometry(record.geometry, record.properties, record.source, result);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,205 @@
+// Path: services\socket\adaptive-delivery.ts
+
+import { Socket } from 'socket.io';
+import { SessionAwareAdapter, BroadcastOptions } from 'socket.io-adapter';
+import { PacketType } from 'socket.io-parser';
+import { AdaptiveSettings } from '@/types/socket.js';
+import { compressFeature } from '../../utils/geometryCompression.js';
+import { isDeepEqual } from '../../utils/featureMerge.js';
+import { scopeToViewports } from './viewport-subscriptions.js';
+
+// Decimals kept in broadcast geometries when precision is reduced (≈ 11 meters)
+const REDUCED_PRECISION = 4;
+
+// Previews that are only useful in real time, dropped when real time is disabled
+const REALTIME_EVENTS = new Set([
+  'user-move',
+  'point-dragging',
+  'line-dragging',
+  'polygon-dragging',
+  'text-dragging',
+  'image-dragging'
+]);
+
+// Events where only the latest one per user/feature matters within a batch
+const COALESCED_EVENTS: Record<string, (data: any) => string | undefined> = {
+  'user-move': data => data?.id,
+  'feature-updated': data => data?.feature?.id,
+  'point-dragging': data => data?.featureId,
+  'line-dragging': data => data?.featureId,
+  'polygon-dragging': data => data?.featureId,
+  'text-dragging': data => data?.featureId,
+  'image-dragging': data => data?.featureId
+};
+
+interface AdaptiveDelivery {
+  socket: Socket;
+  settings: AdaptiveSettings;
+  queue: Map<string, any[]>; // Batch key -> event arguments, in arrival order
+  sequence: number;
+  flushInterval: NodeJS.Timeout | null;
+}
+
+// Sockets whose broadcasts don't go out as they are, by socket id
+const deliveries = new Map<string, AdaptiveDelivery>();
+
+/**
+ * Whether settings change anything compared to sending every broadcast as is
+ */
+const isAdapted = (settings: AdaptiveSettings): boolean =>
+  settings.batchInterval > 0 || settings.reducedPrecision || settings.disableRealtime === true;
+
+/**
+ * Apply the delivery settings of a socket to the broadcasts it gets from now on
+ */
+export function setAdaptiveSettings(socket: Socket, settings: AdaptiveSettings): void {
+  socket.data.adaptiveSettings = settings;
+
+  let delivery = deliveries.get(socket.id);
+  if (delivery) {
+    flush(delivery);
+    if (delivery.flushInterval) {
+      clearInterval(delivery.flushInterval);
+      delivery.flushInterval = null;
+    }
+  }
+
+  if (!isAdapted(settings)) {
+    deliveries.delete(socket.id);
+    return;
+  }
+
+  if (!delivery) {
+    delivery = { socket, settings, queue: new Map(), sequence: 0, flushInterval: null };
+    deliveries.set(socket.id, delivery);
+
+    socket.once('disconnect', () => {
+      const current = deliveries.get(socket.id);
+      if (current?.flushInterval) clearInterval(current.flushInterval);
+      deliveries.delete(socket.id);
+    });
+  }
+
+  delivery.settings = settings;
+  if (settings.batchInterval > 0) {
+    const target = delivery;
+    delivery.flushInterval = setInterval(() => flush(target), settings.batchInterval);
+  }
+}
+
+/**
+ * Delivery settings of a socket, or null while it gets everything in real time
+ */
+export function getAdaptiveSettings(socket: Pick<Socket, 'data'>): AdaptiveSettings | null {
+  return socket.data.adaptiveSettings ?? null;
+}
+
+/**
+ * Copy of event data with the geometries of features rounded, and the features whose
+ * geometry changed flagged as simplified so clients load the full geometry before editing them
+ */
+function reducePrecision(value: any): any {
+  if (Array.isArray(value)) return value.map(reducePrecision);
+  if (value === null || typeof value !== 'object' || Buffer.isBuffer(value) || value instanceof Date) return value;
+
+  if (value.id !== undefined && value.geometry?.coordinates) {
+    const reduced = compressFeature(value, REDUCED_PRECISION);
+    return isDeepEqual(reduced.geometry, value.geometry) ? reduced : { ...reduced, simplified: true };
+  }
+
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(value)) {
+    result[key] = reducePrecision(value[key]);
+  }
+  return result;
+}
+
+/**
+ * Hand a broadcast event to an adapted socket
+ */
+function deliver(delivery: AdaptiveDelivery, args: any[]): void {
+  const { settings, socket } = delivery;
+  const [event, data] = args;
+
+  if (settings.disableRealtime && REALTIME_EVENTS.has(event)) return;
+
+  const eventArgs = settings.reducedPrecision ? [event, ...args.slice(1).map(reducePrecision)] : args;
+
+  if (settings.batchInterval <= 0) {
+    socket.emit(...(eventArgs as [string, ...any[]]));
+    return;
+  }
+
+  const coalesceId = COALESCED_EVENTS[event]?.(data);
+  const key = coalesceId !== undefined ? `${event}:${coalesceId}` : `#${delivery.sequence++}`;
+
+  // A coalesced event goes to the end of the queue, after the events sent before it
+  delivery.queue.delete(key);
+  delivery.queue.set(key, eventArgs);
+}
+
+/**
+ * Send the events held for a socket, as a single 'event-batch' when there is more than one
+ */
+function flush(delivery: AdaptiveDelivery): void {
+  if (delivery.queue.size === 0) return;
+
+  const events = Array.from(delivery.queue.values());
+  delivery.queue.clear();
+
+  if (events.length === 1) {
+    delivery.socket.emit(...(events[0] as [string, ...any[]]));
+  } else {
+    delivery.socket.emit('event-batch', events);
+  }
+}
+
+/**
+ * Socket.IO adapter that sends broadcasts to adapted sockets through their delivery settings
+ * Everyone else gets them as usual (and connection state recovery keeps working)
+ * Feature and cursor updates only go to the sockets whose viewport they are in
+ */
+export class AdaptiveAdapter extends SessionAwareAdapter {
+  broadcast(packet: any, opts: BroadcastOptions): void {
+    const isEvent = packet.type === PacketType.EVENT || packet.type === PacketType.BINARY_EVENT;
+    if (isEvent) {
+      opts = scopeToViewports(this.sids, opts, packet.data);
+    }
+
+    const targets = isEvent ? this.adaptedTargets(opts) : [];
+
+    if (targets.length === 0) {
+      super.broadcast(packet, opts);
+      return;
+    }
+
+    // Taken before the session adapter appends the offset to the packet
+    const args = [...packet.data];
+    const except = new Set(opts.except);
+    targets.forEach(delivery => except.add(delivery.socket.id));
+
+    super.broadcast(packet, { ...opts, except });
+    targets.forEach(delivery => deliver(delivery, args));
+  }
+
+  /**
+   * Adapted sockets of this namespace the broadcast is meant for
+   */
+  private adaptedTargets(opts: BroadcastOptions): AdaptiveDelivery[] {
+    const targets: AdaptiveDelivery[] = [];
+
+    for (const delivery of deliveries.values()) {
+      const socketRooms = this.sids.get(delivery.socket.id);
+      if (!socketRooms || delivery.socket.nsp !== this.nsp) continue;
+
+      // With connection state recovery, emits to a single socket also come through here (including ours)
+      if (opts.rooms.size === 1 && opts.rooms.has(delivery.socket.id)) continue;
+
+      const inRooms = opts.rooms.size === 0 || [...opts.rooms].some(room => socketRooms.has(room));
+      const excluded = opts.except && [...opts.except].some(room => socketRooms.has(room));
+      if (inRooms && !excluded) targets.push(delivery);
+    }
+
+    return targets;
+  }
+}
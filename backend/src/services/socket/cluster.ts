@@ -0,0 +1,59 @@
+// Path: services\socket\cluster.ts
+
+import { randomUUID } from 'crypto';
+import { Server as SocketIOServer } from 'socket.io';
+import config from '../../config/env.js';
+import { db } from '@/config/database.js';
+
+// Identifies this server in the shared presence and selection tables, and in relayed broadcasts
+export const NODE_ID = randomUUID();
+
+// Large broadcast payloads only need to last until every server has read them
+const PAYLOAD_MAX_AGE = 60 * 1000;
+
+let heartbeatInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Register this server and keep its heartbeat going
+ * Each beat also drops what servers that stopped beating (crashed, scaled down) left behind:
+ * their users' presence and selections, telling the maps they were in
+ */
+export function startClusterNode(io: SocketIOServer): void {
+  if (heartbeatInterval) return;
+
+  console.log(`[CLUSTER] Socket server node ${NODE_ID}${config.cluster.enabled ? ' (cluster mode)' : ''}`);
+
+  const beat = async () => {
+    try {
+      await db.nodeHeartbeat(NODE_ID);
+
+      const deadNodes = await db.removeDeadNodes(config.cluster.nodeTtlMs);
+      if (deadNodes.length > 0) {
+        console.log(`[CLUSTER] Removed ${deadNodes.length} node(s) without heartbeat: ${deadNodes.join(', ')}`);
+      }
+
+      const presence = await db.removeOrphanedPresence(config.cluster.nodeTtlMs);
+      for (const { map_id, user_id } of presence) {
+        io.to(`map-${map_id}`).emit('user-disconnected', user_id);
+      }
+
+      const selections = await db.removeOrphanedSelections(config.cluster.nodeTtlMs);
+      const deselected = new Set(selections.map(({ map_id, user_id }) => `${map_id}:${user_id}`));
+      for (const key of deselected) {
+        const [mapId, userId] = key.split(':');
+        io.to(`map-${mapId}`).emit('features-deselected', { userId });
+      }
+
+      if (presence.length > 0 || deselected.size > 0) {
+        console.log(`[CLUSTER] Removed ${presence.length} orphaned presence(s) and ${deselected.size} selection(s)`);
+      }
+
+      await db.removeOldSocketPayloads(PAYLOAD_MAX_AGE);
+    } catch (error) {
+      console.error('[CLUSTER] Heartbeat failed:', error);
+    }
+  };
+
+  beat();
+  heartbeatInterval = setInterval(beat, config.cluster.heartbeatIntervalMs);
+}
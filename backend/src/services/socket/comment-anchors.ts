@@ -0,0 +1,32 @@
+// Path: services\socket\comment-anchors.ts
+
+import { Server as SocketIOServer } from 'socket.io';
+import { Comment } from '@/types/index.js';
+
+/**
+ * Broadcast the comments moved along with the geometry of the feature they are anchored to
+ * Sent as regular comment moves, so clients don't need to know about anchors to follow them
+ */
+export function broadcastMovedComments(
+  io: SocketIOServer,
+  room: string,
+  comments: Comment[] | undefined
+): void {
+  for (const comment of comments || []) {
+    io.to(room).emit('comment-moved', comment);
+  }
+}
+
+/**
+ * Broadcast the comments anchored again to a feature that was deleted and came back
+ * They stay where they are, so they are sent as regular comment updates
+ */
+export function broadcastReanchoredComments(
+  io: SocketIOServer,
+  room: string,
+  comments: Comment[] | undefined
+): void {
+  for (const comment of comments || []) {
+    io.to(room).emit('comment-updated', comment);
+  }
+}
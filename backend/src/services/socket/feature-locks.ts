@@ -0,0 +1,187 @@
+// Path: services\socket\feature-locks.ts
+
+import { Server as SocketIOServer } from 'socket.io';
+import config from '../../config/env.js';
+import { db } from '@/config/database.js';
+import { SocketUser, FeatureLock, FeatureLockMode, LockAcquireResult } from '@/types/socket.js';
+
+/**
+ * Feature locks taken while users edit features, shared by all socket servers
+ * A lock belongs to a user (any of their sockets may update the feature) and
+ * is released on deselect, disconnect or when its TTL runs out without a heartbeat
+ */
+
+// How often expired locks are swept
+const LOCK_SWEEP_INTERVAL = 5000;
+
+// How long the lock check of a dragged feature is reused for the following drag frames
+const DRAG_LOCK_CHECK_TTL = 2000;
+
+// Last lock check of each feature a user is dragging
+const dragLockChecks = new WeakMap<SocketUser, Map<string, { allowed: Promise<boolean>; checkedAt: number }>>();
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+export type LockReleaseReason = 'released' | 'expired' | 'disconnected' | 'taken-over' | 'deleted';
+
+/**
+ * Get the lock that keeps a user from changing a feature, if any
+ */
+export const getBlockingLock = async (featureId: string, userId: string): Promise<FeatureLock | null> => {
+  const [lock] = await db.getBlockingFeatureLocks([featureId], userId);
+  return lock || null;
+};
+
+/**
+ * Get the active locks of a map
+ */
+export const getMapLocks = (mapId: number): Promise<FeatureLock[]> => db.getMapFeatureLocks(mapId);
+
+/**
+ * Lock features for a user
+ * Soft locks of others are only taken with takeOver, hard locks never
+ */
+export const acquireFeatureLocks = (
+  user: SocketUser,
+  mapId: number,
+  featureIds: string[],
+  mode: FeatureLockMode,
+  takeOver: boolean
+): Promise<LockAcquireResult> =>
+  db.acquireFeatureLocks(mapId, user.id, user.name, user.socket.id, featureIds, mode, takeOver, config.locks.ttlMs);
+
+/**
+ * Extend the locks of a user (all of them, or only the given features)
+ * Returns the IDs of the given features whose lock is no longer held
+ * (without features, the sweep tells the user about the locks that expired)
+ */
+export async function renewFeatureLocks(
+  userId: string,
+  featureIds?: string[]
+): Promise<{ renewed: FeatureLock[]; lost: string[] }> {
+  const renewed = await db.renewFeatureLocks(userId, featureIds || null, config.locks.ttlMs);
+
+  const held = new Set(renewed.map(lock => lock.featureId));
+  const lost = (featureIds || []).filter(featureId => !held.has(featureId));
+
+  return { renewed, lost };
+}
+
+// Locks of a user in a map (on deselect or when leaving the map), except those on the features to keep
+export const releaseUserLocks = (userId: string, mapId: number, keepFeatureIds?: string[]): Promise<FeatureLock[]> =>
+  db.releaseUserFeatureLocks(userId, mapId, keepFeatureIds);
+
+// Locks taken through a socket (on disconnect)
+export const releaseSocketLocks = (socketId: string): Promise<FeatureLock[]> =>
+  db.releaseSocketFeatureLocks(socketId);
+
+// Locks of deleted features
+export const releaseFeatureLocks = (featureIds: string[]): Promise<FeatureLock[]> =>
+  db.releaseFeatureLocks(featureIds);
+
+/**
+ * Tell the rooms which locks were released, and the holders which locks they lost
+ */
+export function broadcastLocksReleased(
+  io: SocketIOServer,
+  released: FeatureLock[],
+  reason: LockReleaseReason
+): void {
+  // One event per map and holder
+  const groups = new Map<string, FeatureLock[]>();
+  for (const lock of released) {
+    const key = `${lock.mapId}:${lock.userId}:${lock.socketId}`;
+    groups.set(key, [...(groups.get(key) || []), lock]);
+  }
+
+  for (const group of groups.values()) {
+    const { mapId, userId, socketId } = group[0];
+    const featureIds = group.map(lock => lock.featureId);
+
+    io.to(`map-${mapId}`).emit('features-unlocked', { featureIds, userId, reason });
+
+    if (reason === 'expired' || reason === 'taken-over') {
+      io.to(socketId).emit('lock-lost', { featureIds, reason });
+    }
+  }
+}
+
+/**
+ * Reject a change to locked features
+ * Emits 'feature-locked' naming the holder and returns false when a feature is locked by someone else
+ * (or 'error' when the locks can't be checked)
+ */
+export async function checkFeatureLocks(user: SocketUser, featureIds: string[], event: string): Promise<boolean> {
+  let lock: FeatureLock | undefined;
+  try {
+    [lock] = await db.getBlockingFeatureLocks(featureIds, user.id);
+  } catch (error) {
+    console.error(`[SOCKET] Error checking feature locks for ${event}:`, error);
+    user.socket.emit('error', 'Failed to check feature locks');
+    return false;
+  }
+
+  if (!lock) return true;
+
+  console.log(`[SOCKET] User ${user.id} blocked from ${event} on feature ${lock.featureId} locked by ${lock.userId}`);
+
+  user.socket.emit('feature-locked', {
+    featureId: lock.featureId,
+    event,
+    mode: lock.mode,
+    holder: {
+      id: lock.userId,
+      name: lock.userName
+    },
+    expiresAt: lock.expiresAt
+  });
+
+  return false;
+}
+
+/**
+ * Reject a drag frame on a locked feature
+ * Drag frames come with every mouse move, so the locks are checked on the first frame and then
+ * at most every DRAG_LOCK_CHECK_TTL (the end of the drag, which saves the feature, is always checked)
+ */
+export function checkDragLock(user: SocketUser, featureId: string, event: string): Promise<boolean> {
+  let checks = dragLockChecks.get(user);
+  if (!checks) {
+    checks = new Map();
+    dragLockChecks.set(user, checks);
+  }
+
+  const now = Date.now();
+  const cached = checks.get(featureId);
+  if (cached && now - cached.checkedAt < DRAG_LOCK_CHECK_TTL) return cached.allowed;
+
+  // Forget the features no longer being dragged
+  for (const [id, check] of checks) {
+    if (now - check.checkedAt >= DRAG_LOCK_CHECK_TTL) checks.delete(id);
+  }
+
+  const allowed = checkFeatureLocks(user, [featureId], event);
+  checks.set(featureId, { allowed, checkedAt: now });
+  return allowed;
+}
+
+/**
+ * Start sweeping expired locks
+ * Every server sweeps; each expired lock is released (and announced) by only one of them
+ */
+export function initFeatureLocks(io: SocketIOServer): void {
+  if (sweepTimer) return;
+
+  sweepTimer = setInterval(async () => {
+    try {
+      const expired = await db.releaseExpiredFeatureLocks();
+
+      if (expired.length > 0) {
+        console.log(`[SOCKET] ${expired.length} feature lock(s) expired`);
+        broadcastLocksReleased(io, expired, 'expired');
+      }
+    } catch (error) {
+      console.error('[SOCKET] Error sweeping expired locks:', error);
+    }
+  }, LOCK_SWEEP_INTERVAL);
+}
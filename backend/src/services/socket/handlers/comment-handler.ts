@@ -3,101 +3,62 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { SocketUser } from '@/types/socket.js';
 import { db } from '@/config/database.js';
-import { CommentCreateData, ReplyCreateData } from '@/types/index.js';
-
-/**
- * Validate comment data
- */
-function validateCommentData(data: any): { valid: boolean; message?: string } {
-  // Check required fields
-  if (!data || typeof data !== 'object') {
-    return { valid: false, message: 'Comment data is required' };
-  }
-  
-  // Validate map_id
-  if (!data.map_id || typeof data.map_id !== 'number' || data.map_id <= 0) {
-    return { valid: false, message: 'Valid map ID is required' };
-  }
-  
-  // Validate content
-  if (!data.content || typeof data.content !== 'string' || data.content.trim() === '') {
-    return { valid: false, message: 'Comment content cannot be empty' };
-  }
-  
-  if (data.content.length > 5000) {
-    return { valid: false, message: 'Comment content exceeds maximum length (5000 characters)' };
-  }
-  
-  // Validate coordinates
-  if (data.lng === undefined || typeof data.lng !== 'number') {
-    return { valid: false, message: 'Valid longitude is required' };
-  }
-  
-  if (data.lat === undefined || typeof data.lat !== 'number') {
-    return { valid: false, message: 'Valid latitude is required' };
-  }
-  
-  // Check coordinates are within valid range
-  if (data.lng < -180 || data.lng > 180) {
-    return { valid: false, message: 'Longitude must be between -180 and 180' };
-  }
-  
-  if (data.lat < -90 || data.lat > 90) {
-    return { valid: false, message: 'Latitude must be between -90 and 90' };
-  }
-  
-  return { valid: true };
-}
-
-/**
- * Validate reply data
- */
-function validateReplyData(data: any): { valid: boolean; message?: string } {
-  // Check required fields
-  if (!data || typeof data !== 'object') {
-    return { valid: false, message: 'Reply data is required' };
-  }
-  
-  // Validate comment_id
-  if (!data.comment_id || typeof data.comment_id !== 'string' || data.comment_id.trim() === '') {
-    return { valid: false, message: 'Valid comment ID is required' };
-  }
-  
-  // Validate content
-  if (!data.content || typeof data.content !== 'string' || data.content.trim() === '') {
-    return { valid: false, message: 'Reply content cannot be empty' };
-  }
-  
-  if (data.content.length > 2000) {
-    return { valid: false, message: 'Reply content exceeds maximum length (2000 characters)' };
-  }
-  
-  return { valid: true };
-}
+import { CommentCreateData, CommentStatus, ReplyCreateData } from '@/types/index.js';
+import { validateCommentData, validateReplyData, parseStatusFilter } from '../../../utils/commentValidation.js';
+import { isFeatureId } from '../../../utils/featureValidation.js';
+import { checkSocketPermission } from '../permissions.js';
 
 /**
  * Set up comment socket handlers with batch operations
  */
 export function setupCommentHandlers(
   io: SocketIOServer,
-  user: SocketUser,
-  _rooms: any
+  user: SocketUser
 ): void {
   const { socket } = user;
   
-  // Get comments for current map
-  socket.on('get-comments', async () => {
+  // Get comments for current map (only those anchored to a feature with filter.featureId,
+  // and only those in the given status or statuses with filter.status)
+  socket.on('get-comments', async (filter?: { featureId?: string, status?: CommentStatus | CommentStatus[] }) => {
     try {
       if (!user.currentRoom) {
         socket.emit('error', 'You must join a map first');
         return;
       }
       
+      if (!checkSocketPermission(user, 'view', 'get-comments')) return;
+      
       const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const featureId = filter?.featureId;
+      
+      const statuses = parseStatusFilter(filter?.status);
+      if (statuses === null) {
+        socket.emit('error', 'Invalid comment status filter');
+        return;
+      }
+      
+      if (featureId !== undefined) {
+        if (!isFeatureId(featureId)) {
+          socket.emit('error', 'Invalid feature ID');
+          return;
+        }
+        
+        const feature = await db.getFeature(featureId);
+        if (!feature || feature.map_id !== mapId) {
+          socket.emit('error', 'Feature not found');
+          return;
+        }
+        
+        console.log(`[SOCKET] User ${user.id} requesting comments for feature ${featureId}`);
+        const featureComments = await db.getFeatureComments(featureId, statuses);
+        socket.emit('comments-loaded', featureComments);
+        return;
+      }
+      
       console.log(`[SOCKET] User ${user.id} requesting comments for map ${mapId}`);
       
       // Get all comments for the map
-      const comments = await db.getMapComments(mapId);
+      const comments = await db.getMapComments(mapId, statuses);
       console.log(`[SOCKET] Found ${comments.length} comments for map ${mapId}`);
       
       // Get all replies for these comments
@@ -121,6 +82,8 @@ export function setupCommentHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'comment', 'batch-comment-operations')) return;
+      
       const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
       console.log(`[SOCKET] User ${user.id} submitting batch comment operations for map ${mapId}`);
       
@@ -173,6 +136,19 @@ export function setupCommentHandlers(
                 break;
               }
               
+              // Anchor feature must be in the same map
+              if (op.data.feature_id) {
+                const anchorFeature = await db.getFeature(op.data.feature_id);
+                if (!anchorFeature || anchorFeature.map_id !== mapId) {
+                  result = {
+                    success: false,
+                    operationId: op.id,
+                    error: 'Feature not found'
+                  };
+                  break;
+                }
+              }
+              
               // Add user info
               const fullCommentData: CommentCreateData = {
                 ...op.data,
@@ -624,6 +600,8 @@ export function setupCommentHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'comment', 'create-comment')) return;
+      
       console.log(`[SOCKET] User ${user.id} creating new comment for map ${commentData.map_id}`);
       
       // Validate data
@@ -640,6 +618,15 @@ export function setupCommentHandlers(
         return;
       }
       
+      // Anchor feature must be in the same map
+      if (commentData.feature_id) {
+        const feature = await db.getFeature(commentData.feature_id);
+        if (!feature || feature.map_id !== roomMapId) {
+          socket.emit('error', 'Feature not found');
+          return;
+        }
+      }
+      
       // Add user info to data
       const fullCommentData: CommentCreateData = {
         ...commentData,
@@ -673,6 +660,8 @@ export function setupCommentHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'comment', 'update-comment')) return;
+      
       // Validate ID
       if (!data.id || typeof data.id !== 'string' || data.id.trim() === '') {
         socket.emit('error', 'Invalid comment ID');
@@ -736,6 +725,8 @@ export function setupCommentHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'comment', 'update-comment-position')) return;
+      
       // Validate ID
       if (!data.id || typeof data.id !== 'string' || data.id.trim() === '') {
         socket.emit('error', 'Invalid comment ID');
@@ -802,6 +793,83 @@ export function setupCommentHandlers(
     }
   });
   
+  /**
+   * Set the status of a comment thread in the current map
+   * Closing and reopening threads is part of reviewing, so anyone who can comment may do it
+   */
+  const setCommentStatus = async (event: string, id: unknown, status: CommentStatus): Promise<void> => {
+    if (!user.currentRoom) {
+      socket.emit('error', 'You must join a map first');
+      return;
+    }
+    
+    if (!checkSocketPermission(user, 'comment', event)) return;
+    
+    // Validate ID
+    if (!id || typeof id !== 'string' || id.trim() === '') {
+      socket.emit('error', 'Invalid comment ID');
+      return;
+    }
+    
+    console.log(`[SOCKET] User ${user.id} setting status of comment ${id} to ${status}`);
+    
+    const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+    const comment = await db.getComment(id);
+    
+    if (!comment || comment.map_id !== mapId) {
+      socket.emit('error', 'Comment not found');
+      return;
+    }
+    
+    if (comment.status === status) {
+      socket.emit('error', `Comment is already ${status}`);
+      return;
+    }
+    
+    const updatedComment = await db.setCommentStatus(id, status, user.id, user.name);
+    
+    if (!updatedComment) {
+      socket.emit('error', 'Failed to update comment status');
+      return;
+    }
+    
+    updatedComment.replies = await db.getCommentReplies(id);
+    
+    console.log(`[SOCKET] Comment ${id} is now ${status}`);
+    
+    // Broadcast to room
+    io.to(user.currentRoom).emit('comment-updated', updatedComment);
+  };
+  
+  // Close a comment thread, as resolved (default) or won't fix
+  socket.on('resolve-comment', async (data: { id: string, status?: 'resolved' | 'wont-fix' }) => {
+    try {
+      const status = data?.status ?? 'resolved';
+      
+      if (status !== 'resolved' && status !== 'wont-fix') {
+        socket.emit('error', 'Status must be resolved or wont-fix');
+        return;
+      }
+      
+      await setCommentStatus('resolve-comment', data?.id, status);
+      
+    } catch (error) {
+      console.error('[SOCKET] Error resolving comment:', error);
+      socket.emit('error', 'Failed to resolve comment');
+    }
+  });
+  
+  // Reopen a closed comment thread
+  socket.on('reopen-comment', async (data: { id: string }) => {
+    try {
+      await setCommentStatus('reopen-comment', data?.id, 'open');
+      
+    } catch (error) {
+      console.error('[SOCKET] Error reopening comment:', error);
+      socket.emit('error', 'Failed to reopen comment');
+    }
+  });
+  
   // Delete comment
   socket.on('delete-comment', async (commentId: string) => {
     try {
@@ -810,6 +878,8 @@ export function setupCommentHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'comment', 'delete-comment')) return;
+      
       // Validate ID
       if (!commentId || typeof commentId !== 'string' || commentId.trim() === '') {
         socket.emit('error', 'Invalid comment ID');
@@ -858,6 +928,8 @@ export function setupCommentHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'comment', 'create-reply')) return;
+      
       console.log(`[SOCKET] User ${user.id} creating new reply for comment ${replyData.comment_id}`);
       
       // Validate data
@@ -915,6 +987,8 @@ export function setupCommentHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'comment', 'update-reply')) return;
+      
       // Validate ID
       if (!data.id || typeof data.id !== 'string' || data.id.trim() === '') {
         socket.emit('error', 'Invalid reply ID');
@@ -978,6 +1052,8 @@ export function setupCommentHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'comment', 'delete-reply')) return;
+      
       // Validate ID
       if (!replyId || typeof replyId !== 'string' || replyId.trim() === '') {
         socket.emit('error', 'Invalid reply ID');
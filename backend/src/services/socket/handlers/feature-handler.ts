@@ -4,7 +4,18 @@ import { Server as SocketIOServer } from 'socket.io';
 import { SocketUser } from '@/types/socket.js';
 import { db } from '@/config/database.js';
 import { Feature } from '@/types/feature.types.js';
-import { compressFeatures, compressFeature } from '../../../utils/geometryCompression.js';
+import { FeaturesRepository } from '../../../db/repos/features.repo.js';
+import { FeatureHistoryRepository } from '../../../db/repos/feature-history.repo.js';
+import { compressFeatures, compressFeature, simplificationTolerance } from '../../../utils/geometryCompression.js';
+import { validateBounds, isFeatureId } from '../../../utils/featureValidation.js';
+import { checkSocketPermission } from '../permissions.js';
+import { getAdaptiveSettings } from '../adaptive-delivery.js';
+import {
+  checkFeatureLocks,
+  getBlockingLock,
+  releaseFeatureLocks,
+  broadcastLocksReleased
+} from '../feature-locks.js';
 
 // TTL and size configurations for client cache
 const CLIENT_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
@@ -13,56 +24,16 @@ const CACHE_CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
 
 // Extended cache structure with timestamps
 interface CacheEntry {
-  features: Set<string>;
+  features: Map<string, number>; // Feature id -> simplification tolerance it was sent with (0 = full geometry)
   lastAccessed: number;
 }
 
-/**
- * Validate viewport bounds
- */
-function validateBounds(bounds: any): { valid: boolean; message?: string } {
-  if (!bounds || typeof bounds !== 'object') {
-    return { valid: false, message: 'Invalid bounds object' };
-  }
-  
-  const { minLng, minLat, maxLng, maxLat } = bounds;
-  
-  // Check all required properties exist and are numbers
-  if (minLng === undefined || typeof minLng !== 'number' ||
-      minLat === undefined || typeof minLat !== 'number' ||
-      maxLng === undefined || typeof maxLng !== 'number' ||
-      maxLat === undefined || typeof maxLat !== 'number') {
-    return { valid: false, message: 'Bounds must include minLng, minLat, maxLng, maxLat as numbers' };
-  }
-  
-  // Validate coordinate ranges
-  if (minLng < -180 || minLng > 180 || maxLng < -180 || maxLng > 180) {
-    return { valid: false, message: 'Longitude values must be between -180 and 180' };
-  }
-  
-  if (minLat < -90 || minLat > 90 || maxLat < -90 || maxLat > 90) {
-    return { valid: false, message: 'Latitude values must be between -90 and 90' };
-  }
-  
-  // Ensure min is less than max
-  if (minLng > maxLng) {
-    return { valid: false, message: 'minLng must be less than or equal to maxLng' };
-  }
-  
-  if (minLat > maxLat) {
-    return { valid: false, message: 'minLat must be less than or equal to maxLat' };
-  }
-  
-  return { valid: true };
-}
-
 /**
  * Set up feature socket handlers with spatial loading and batch operations
  */
 export function setupFeatureHandlers(
   io: SocketIOServer,
-  user: SocketUser,
-  _rooms: any
+  user: SocketUser
 ): void {
   const { socket } = user;
   
@@ -71,13 +42,13 @@ export function setupFeatureHandlers(
   const clientCache = new Map<string, CacheEntry>();
   
   // Get the cache for the current user/map
-  const getCache = (): Set<string> => {
-    if (!user.currentRoom) return new Set<string>();
+  const getCache = (): Map<string, number> => {
+    if (!user.currentRoom) return new Map<string, number>();
     
     const cacheKey = `${user.id}:${user.currentRoom}`;
     if (!clientCache.has(cacheKey)) {
       clientCache.set(cacheKey, {
-        features: new Set<string>(),
+        features: new Map<string, number>(),
         lastAccessed: Date.now()
       });
     }
@@ -109,7 +80,7 @@ export function setupFeatureHandlers(
       // If this entry exceeds max size, trim it
       if (entry.features.size > CLIENT_CACHE_MAX_SIZE) {
         // Convert to array, sort by feature ID (not ideal but simple), and keep only the newest
-        const featureIds = Array.from(entry.features);
+        const featureIds = Array.from(entry.features.keys());
         const toRemove = featureIds.slice(0, featureIds.length - CLIENT_CACHE_MAX_SIZE);
         
         for (const id of toRemove) {
@@ -132,21 +103,24 @@ export function setupFeatureHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'view', 'get-features')) return;
+      
       const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
       console.log(`[SOCKET] User ${user.id} requesting all features for map ${mapId}`);
       
       // Check map size first to determine loading strategy
       const featureCount = await getMapFeatureCount(mapId);
       
-      // For small maps (e.g., less than 500 features), send all at once
-      if (featureCount < 500) {
+      // For small maps (e.g., less than 500 features), send all at once - unless the connection is too poor for it
+      const loadFullMap = getAdaptiveSettings(socket)?.loadFullMap !== false;
+      if (featureCount < 500 && loadFullMap) {
         const features = await db.getMapFeatures(mapId);
         console.log(`[SOCKET] Returning all ${features.length} features for map ${mapId}`);
         
         // Clear and update cache
         const cache = getCache();
         cache.clear();
-        features.forEach(f => cache.add(f.id));
+        features.forEach(f => cache.set(f.id, 0));
         
         // Apply geometry compression to reduce bandwidth
         const compressedFeatures = compressFeatures(features);
@@ -154,7 +128,7 @@ export function setupFeatureHandlers(
         socket.emit('features-loaded', compressedFeatures);
       } else {
         // For larger maps, advise the client to use viewport-based loading
-        console.log(`[SOCKET] Map ${mapId} has ${featureCount} features, using viewport loading`);
+        console.log(`[SOCKET] Map ${mapId} has ${featureCount} features${loadFullMap ? '' : ' (poor connection)'}, using viewport loading`);
         socket.emit('use-viewport-loading', { featureCount });
       }
       
@@ -172,6 +146,8 @@ export function setupFeatureHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'view', 'get-features-by-type')) return;
+      
       // Validate feature type
       if (!featureType || typeof featureType !== 'string' ||
           !['point', 'line', 'polygon', 'text', 'image'].includes(featureType)) {
@@ -187,7 +163,7 @@ export function setupFeatureHandlers(
       
       // Add to cache
       const cache = getCache();
-      features.forEach(f => cache.add(f.id));
+      features.forEach(f => cache.set(f.id, 0));
       
       // Apply geometry compression to reduce bandwidth
       const compressedFeatures = compressFeatures(features);
@@ -211,6 +187,8 @@ export function setupFeatureHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'view', 'get-features-in-bounds')) return;
+      
       // Validate bounds
       const validation = validateBounds(bounds);
       if (!validation.valid) {
@@ -221,17 +199,21 @@ export function setupFeatureHandlers(
       const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
       const { minLng, minLat, maxLng, maxLat } = bounds;
       
+      // Lines and polygons are simplified for the zoom level of the viewport (or an explicit tolerance)
+      const tolerance = simplificationTolerance(bounds.zoom, bounds.tolerance);
+      
       console.log(
         `[SOCKET] User ${user.id} requesting features in viewport for map ${mapId}: ` +
-        `[${minLng.toFixed(4)}, ${minLat.toFixed(4)}, ${maxLng.toFixed(4)}, ${maxLat.toFixed(4)}]`
+        `[${minLng.toFixed(4)}, ${minLat.toFixed(4)}, ${maxLng.toFixed(4)}, ${maxLat.toFixed(4)}]` +
+        (tolerance > 0 ? ` simplified to ${tolerance.toExponential(2)}°` : '')
       );
       
       // Get features in bounds
-      const features = await db.getFeaturesInBounds(mapId, minLng, minLat, maxLng, maxLat);
+      const features = await db.getFeaturesInBounds(mapId, minLng, minLat, maxLng, maxLat, tolerance);
       
-      // Filter out features that have already been sent to this client
+      // Filter out features already sent to this client with at least this much detail
       const cache = getCache();
-      const newFeatures = features.filter(f => !cache.has(f.id));
+      const newFeatures = features.filter(f => !cache.has(f.id) || cache.get(f.id)! > tolerance);
       
       // Check if adding these would exceed the cache limit
       if (cache.size + newFeatures.length > CLIENT_CACHE_MAX_SIZE) {
@@ -242,7 +224,7 @@ export function setupFeatureHandlers(
       }
       
       // Update cache with the new features
-      newFeatures.forEach(f => cache.add(f.id));
+      newFeatures.forEach(f => cache.set(f.id, f.simplified ? tolerance : 0));
       
       console.log(
         `[SOCKET] Found ${features.length} features in viewport for map ${mapId}, ` +
@@ -268,6 +250,34 @@ export function setupFeatureHandlers(
     }
   });
   
+  // Get a single feature with its full geometry (e.g. a simplified feature selected for editing)
+  socket.on('get-feature', async (featureId: string) => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+
+      if (!checkSocketPermission(user, 'view', 'get-feature')) return;
+
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const feature = typeof featureId === 'string' ? await db.getFeature(featureId) : null;
+
+      if (!feature || feature.map_id !== mapId) {
+        socket.emit('error', 'Feature not found');
+        return;
+      }
+
+      getCache().set(feature.id, 0);
+
+      socket.emit('feature-loaded', { feature: compressFeature(feature) });
+
+    } catch (error) {
+      console.error('[SOCKET] Error getting feature:', error);
+      socket.emit('error', 'Failed to load feature');
+    }
+  });
+
   // Reset feature cache (useful when map view changes dramatically)
   socket.on('reset-feature-cache', () => {
     if (!user.currentRoom) {
@@ -291,6 +301,8 @@ export function setupFeatureHandlers(
         socket.emit('error', 'You must join a map first');
         return;
       }
+      
+      if (!checkSocketPermission(user, 'edit', 'batch-feature-operations')) return;
 
       const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
       console.log(`[SOCKET] User ${user.id} submitting batch operations for map ${mapId}`);
@@ -342,6 +354,36 @@ export function setupFeatureHandlers(
             }
           }
           
+          // Only features of this map can be changed from its room
+          if ((op.type === 'update-feature' || op.type === 'delete-feature') && op.data.id) {
+            const target = await db.getFeature(op.data.id);
+            if (target && target.map_id !== mapId) {
+              results.push({
+                success: false,
+                operationId: op.id,
+                error: 'Feature does not belong to this map'
+              });
+              continue;
+            }
+          }
+          
+          // Features locked by someone else can't be changed
+          if ((op.type === 'update-feature' || op.type === 'delete-feature') && op.data.id) {
+            const lock = await getBlockingLock(op.data.id, user.id);
+            if (lock) {
+              results.push({
+                success: false,
+                operationId: op.id,
+                error: `Feature is locked by ${lock.userName}`,
+                lockedBy: {
+                  id: lock.userId,
+                  name: lock.userName
+                }
+              });
+              continue;
+            }
+          }
+          
           let result;
           let broadcastEvent;
           let broadcastData;
@@ -406,7 +448,8 @@ export function setupFeatureHandlers(
                 {
                   geometry: op.data.geometry,
                   properties: op.data.properties,
-                  version: op.data.version
+                  version: op.data.version,
+                  merge: op.data.merge === true
                 },
                 user.id,
                 user.name
@@ -417,13 +460,15 @@ export function setupFeatureHandlers(
                   success: false,
                   operationId: op.id,
                   error: 'Update failed',
-                  currentVersion: updateResult.currentVersion
+                  currentVersion: updateResult.currentVersion,
+                  conflict: updateResult.conflict
                 };
               } else {
                 // Record in history with client operation ID for idempotency
-                if (op.data.previousState) {
+                const previousState = updateResult.previousFeature || op.data.previousState;
+                if (previousState) {
                   await db.recordFeatureUpdate(
-                    op.data.previousState,
+                    previousState,
                     updateResult.feature!,
                     user.id,
                     user.name,
@@ -437,6 +482,11 @@ export function setupFeatureHandlers(
                   feature: updateResult.feature
                 };
                 
+                // Comments anchored to the feature moved with it
+                for (const comment of updateResult.movedComments || []) {
+                  broadcasts.push({ event: 'comment-moved', data: comment });
+                }
+                
                 // Prepare broadcast
                 broadcastEvent = 'feature-updated';
                 broadcastData = {
@@ -461,11 +511,12 @@ export function setupFeatureHandlers(
                   error: 'Feature not found'
                 };
               } else {
-                // Record history with client operation ID for idempotency
-                await db.recordFeatureDeletion(featureToDelete, user.id, user.name, op.id);
-                
-                // Delete the feature
-                const deleted = await db.deleteFeature(op.data.id);
+                // Record history with client operation ID for idempotency, in the same
+                // transaction as the deletion so neither is kept without the other
+                const deleted = await db.tx('delete-feature-with-history', async t => {
+                  await new FeatureHistoryRepository(t).recordDeletion(featureToDelete, user.id, user.name, op.id);
+                  return new FeaturesRepository(t).deleteFeature(op.data.id);
+                });
                 
                 if (!deleted) {
                   result = {
@@ -485,6 +536,8 @@ export function setupFeatureHandlers(
                     entry.features.delete(op.data.id);
                   }
                   
+                  broadcastLocksReleased(io, await releaseFeatureLocks([op.data.id]), 'deleted');
+                  
                   // Prepare broadcast
                   broadcastEvent = 'feature-deleted';
                   broadcastData = {
@@ -580,6 +633,8 @@ export function setupFeatureHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'edit', 'delete-features')) return;
+      
       // Validate input: ensure featureIds is an array or a valid ID
       let ids: string[] = [];
       if (Array.isArray(featureIds)) {
@@ -593,6 +648,20 @@ export function setupFeatureHandlers(
         return;
       }
       
+      // Only features of this map can be deleted from its room
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const mapFeatureIds = new Set(await db.getMapFeatureIds(mapId, ids.filter(isFeatureId)));
+      const rejected = ids.filter(id => !mapFeatureIds.has(id));
+      if (rejected.length > 0) {
+        console.log(`[SOCKET] User ${user.id} tried to delete features outside map ${mapId}: ${rejected.join(', ')}`);
+        socket.emit('error', `Features not found in this map: ${rejected.join(', ')}`);
+      }
+      
+      ids = ids.filter(id => mapFeatureIds.has(id));
+      if (ids.length === 0) return;
+      
+      if (!await checkFeatureLocks(user, ids, 'delete-features')) return;
+      
       console.log(`[SOCKET] User ${user.id} deleting ${ids.length} feature(s): ${ids.join(', ')}`);
       
       // Get all features before deletion for history
@@ -607,21 +676,26 @@ export function setupFeatureHandlers(
         return;
       }
       
-      // Record history for each feature
-      for (const feature of validFeatures) {
-        await db.recordFeatureDeletion(feature, user.id, user.name);
-      }
-      
-      // Bulk delete features
-      const deleteCount = await db.bulkDeleteFeatures(
-        validFeatures.map(f => f.id)
-      );
+      // Record history for each feature and bulk delete them in one transaction
+      const deleteCount = await db.tx('bulk-delete-features-with-history', async t => {
+        const historyRepo = new FeatureHistoryRepository(t);
+        for (const feature of validFeatures) {
+          await historyRepo.recordDeletion(feature, user.id, user.name);
+        }
+        
+        return new FeaturesRepository(t).bulkDeleteFeatures(
+          validFeatures.map(f => f.id)
+        );
+      });
       
       console.log(`[SOCKET] Successfully deleted ${deleteCount} feature(s)`);
       
       // Remove deleted features from client caches
       const featureIdsToRemove = validFeatures.map(f => f.id);
       
+      // Deleted features keep no locks
+      broadcastLocksReleased(io, await releaseFeatureLocks(featureIdsToRemove), 'deleted');
+      
       for (const [_key, entry] of clientCache.entries()) {
         for (const id of featureIdsToRemove) {
           entry.features.delete(id);
@@ -668,6 +742,8 @@ export function setupFeatureHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'view', 'get-feature-history')) return;
+      
       // Validate feature ID
       if (!featureId || typeof featureId !== 'string' || featureId.trim() === '') {
         socket.emit('error', 'Invalid feature ID');
@@ -697,6 +773,8 @@ export function setupFeatureHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'view', 'get-map-history')) return;
+      
       // Validate limit if provided
       if (limit !== undefined && (typeof limit !== 'number' || limit <= 0)) {
         socket.emit('error', 'Invalid limit value');
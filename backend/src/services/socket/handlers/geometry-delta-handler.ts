@@ -0,0 +1,148 @@
+// Path: services\socket\handlers\geometry-delta-handler.ts
+
+import { Server as SocketIOServer } from 'socket.io';
+import { SocketUser } from '@/types/socket.js';
+import { db } from '@/config/database.js';
+import { compressFeature } from '../../../utils/geometryCompression.js';
+import { isValidPoint, isValidLine, isValidPolygon } from '../../../utils/featureValidation.js';
+import { applyGeometryDelta, validateGeometryDelta } from '../../../utils/geometryDelta.js';
+import { checkSocketPermission } from '../permissions.js';
+import { checkFeatureLocks } from '../feature-locks.js';
+import { broadcastMovedComments } from '../comment-anchors.js';
+
+// Geometry validation of each feature type, applied to the result of a delta
+const GEOMETRY_VALIDATORS: Record<string, (coordinates: any) => { valid: boolean; message?: string }> = {
+  point: isValidPoint,
+  text: isValidPoint,
+  image: isValidPoint,
+  line: isValidLine,
+  polygon: isValidPolygon
+};
+
+/**
+ * Set up delta-encoded geometry update handlers (any feature type)
+ */
+export function setupGeometryDeltaHandlers(
+  io: SocketIOServer,
+  user: SocketUser
+): void {
+  const { socket } = user;
+
+  // Update a geometry with a delta (translation and/or vertex operations) against a known version
+  socket.on('update-geometry-delta', async (data) => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+
+      if (!checkSocketPermission(user, 'edit', 'update-geometry-delta')) return;
+
+      const { featureId, delta, version, merge } = data || {};
+      console.log(`[SOCKET] User ${user.id} updating geometry of feature ${featureId} with a delta`);
+
+      // Validate feature ID
+      if (!featureId || typeof featureId !== 'string' || featureId.trim() === '') {
+        socket.emit('error', 'Invalid feature ID');
+        return;
+      }
+
+      if (!await checkFeatureLocks(user, [featureId], 'update-geometry-delta')) return;
+
+      // Validate version
+      if (version === undefined || typeof version !== 'number' || version < 0) {
+        socket.emit('error', 'Version is required and must be a non-negative number');
+        return;
+      }
+
+      const deltaValidation = validateGeometryDelta(delta);
+      if (!deltaValidation.valid) {
+        socket.emit('error', deltaValidation.message || 'Invalid geometry delta');
+        return;
+      }
+
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const current = await db.getFeature(featureId);
+      if (!current || current.map_id !== mapId) {
+        socket.emit('error', 'Feature not found');
+        return;
+      }
+
+      // Applied to the stored geometry; if that changed since the client's version, the update conflicts below
+      const applied = applyGeometryDelta(current.geometry, delta);
+      if (!applied.geometry) {
+        socket.emit('error', applied.message || 'Delta does not fit the feature geometry');
+        return;
+      }
+
+      const geometryValidation = GEOMETRY_VALIDATORS[current.feature_type](applied.geometry.coordinates);
+      if (!geometryValidation.valid) {
+        socket.emit('error', geometryValidation.message || `Invalid ${current.feature_type} geometry`);
+        return;
+      }
+
+      const updateResult = await db.updateFeature(
+        featureId,
+        {
+          geometry: applied.geometry,
+          version: version,
+          merge: merge === true
+        },
+        user.id,
+        user.name
+      );
+
+      if (!updateResult.success) {
+        if (updateResult.currentVersion !== undefined) {
+          socket.emit('feature-update-conflict', {
+            featureId,
+            currentVersion: updateResult.currentVersion,
+            ...updateResult.conflict
+          });
+        } else {
+          socket.emit('error', 'Failed to update feature geometry');
+        }
+        return;
+      }
+
+      const feature = updateResult.feature;
+      if (!feature) return;
+
+      // Record in history (also used as the base version for later merges)
+      if (updateResult.previousFeature) {
+        await db.recordFeatureUpdate(updateResult.previousFeature, feature, user.id, user.name);
+      }
+
+      console.log(`[SOCKET] Geometry delta applied to feature ${featureId} (version ${feature.version})`);
+
+      const updater = {
+        id: user.id,
+        name: user.name
+      };
+
+      // Clients holding the version the delta was made against apply it themselves;
+      // a merged update also changed other fields, so everyone gets the whole feature
+      if (!updateResult.merged && updateResult.previousFeature?.version === version) {
+        io.to(user.currentRoom).emit('feature-geometry-delta', {
+          featureId,
+          delta,
+          baseVersion: version,
+          version: feature.version,
+          updated_at: feature.updated_at,
+          updater
+        });
+      } else {
+        io.to(user.currentRoom).emit('feature-updated', {
+          feature: compressFeature(feature),
+          updater
+        });
+      }
+
+      broadcastMovedComments(io, user.currentRoom, updateResult.movedComments);
+
+    } catch (error) {
+      console.error('[SOCKET] Error applying geometry delta:', error);
+      socket.emit('error', 'Failed to update feature geometry');
+    }
+  });
+}
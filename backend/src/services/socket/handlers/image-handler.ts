@@ -0,0 +1,427 @@
+// Path: services\socket\handlers\image-handler.ts
+
+import { Server as SocketIOServer } from 'socket.io';
+import { SocketUser } from '@/types/socket.js';
+import { db } from '@/config/database.js';
+import { CreateFeatureDTO } from '@/types/feature.types.js';
+import { compressFeature } from '../../../utils/geometryCompression.js';
+import { isValidPoint, validateImageProperties } from '../../../utils/featureValidation.js';
+import { checkSocketPermission } from '../permissions.js';
+import { checkFeatureLocks, checkDragLock } from '../feature-locks.js';
+import { broadcastMovedComments } from '../comment-anchors.js';
+
+/**
+ * Set up image feature socket handlers
+ */
+export function setupImageHandlers(
+  io: SocketIOServer,
+  user: SocketUser
+): void {
+  const { socket } = user;
+
+  // Create image feature
+  socket.on('create-image', async (data) => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+      
+      if (!checkSocketPermission(user, 'edit', 'create-image')) return;
+
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      console.log(`[SOCKET] User ${user.id} creating new image on map ${mapId}`);
+
+      // Validate coordinates
+      const coordValidation = isValidPoint(data.coordinates);
+      if (!coordValidation.valid) {
+        socket.emit('error', coordValidation.message || 'Invalid image coordinates');
+        return;
+      }
+
+      // Validate properties
+      const propsValidation = validateImageProperties(data.properties);
+      if (!propsValidation.valid) {
+        socket.emit('error', propsValidation.message || 'Invalid image properties');
+        return;
+      }
+
+      // Create image feature with validated/sanitized properties
+      const featureData: CreateFeatureDTO = {
+        map_id: mapId,
+        feature_type: 'image',
+        geometry: {
+          type: 'Point',
+          coordinates: data.coordinates
+        },
+        properties: propsValidation.sanitized,
+        user_id: user.id,
+        user_name: user.name
+      };
+
+      // Save to database
+      const newFeature = await db.createFeature(featureData);
+
+      // Record in history
+      await db.recordFeatureCreation(newFeature, user.id, user.name);
+
+      console.log(`[SOCKET] Image feature created with ID ${newFeature.id}`);
+
+      // Apply geometry compression before sending
+      const compressedFeature = compressFeature(newFeature);
+
+      // Broadcast to all clients in the room
+      io.to(user.currentRoom).emit('feature-created', {
+        feature: compressedFeature,
+        creator: {
+          id: user.id,
+          name: user.name
+        }
+      });
+
+    } catch (error) {
+      console.error('[SOCKET] Error creating image:', error);
+      socket.emit('error', 'Failed to create image');
+    }
+  });
+
+  // Update image geometry
+  socket.on('update-image-geometry', async (data) => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+      
+      if (!checkSocketPermission(user, 'edit', 'update-image-geometry')) return;
+
+      const { featureId, coordinates, version, merge } = data;
+      console.log(`[SOCKET] User ${user.id} updating image geometry for feature ${featureId}`);
+
+      // Validate feature ID
+      if (!featureId || typeof featureId !== 'string' || featureId.trim() === '') {
+        socket.emit('error', 'Invalid feature ID');
+        return;
+      }
+
+      if (!await checkFeatureLocks(user, [featureId], 'update-image-geometry')) return;
+
+      // Validate version
+      if (version === undefined || typeof version !== 'number' || version < 0) {
+        socket.emit('error', 'Version is required and must be a non-negative number');
+        return;
+      }
+
+      // Validate coordinates
+      const coordValidation = isValidPoint(coordinates);
+      if (!coordValidation.valid) {
+        socket.emit('error', coordValidation.message || 'Invalid image coordinates');
+        return;
+      }
+
+      // Make sure the target really is an image of this map
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const existing = await db.getFeature(featureId);
+      if (!existing || existing.feature_type !== 'image' || existing.map_id !== mapId) {
+        socket.emit('error', 'Image feature not found');
+        return;
+      }
+
+      // Update feature
+      const updateResult = await db.updateFeature(
+        featureId,
+        {
+          geometry: {
+            type: 'Point',
+            coordinates: coordinates
+          },
+          version: version,
+          merge: merge === true
+        },
+        user.id,
+        user.name
+      );
+
+      if (!updateResult.success) {
+        if (updateResult.currentVersion !== undefined) {
+          socket.emit('feature-update-conflict', {
+            featureId,
+            currentVersion: updateResult.currentVersion,
+            ...updateResult.conflict
+          });
+        } else {
+          socket.emit('error', 'Failed to update image geometry');
+        }
+        return;
+      }
+
+      console.log(`[SOCKET] Image geometry updated successfully for feature ${featureId}`);
+
+      // Apply geometry compression
+      const feature = updateResult.feature;
+      if (feature) {
+        // Record in history (also used as the base version for later merges)
+        if (updateResult.previousFeature) {
+          await db.recordFeatureUpdate(updateResult.previousFeature, feature, user.id, user.name);
+        }
+
+        const compressedFeature = compressFeature(feature);
+
+        // Broadcast to room
+        io.to(user.currentRoom).emit('feature-updated', {
+          feature: compressedFeature,
+          updater: {
+            id: user.id,
+            name: user.name
+          }
+        });
+
+        broadcastMovedComments(io, user.currentRoom, updateResult.movedComments);
+      }
+
+    } catch (error) {
+      console.error('[SOCKET] Error updating image geometry:', error);
+      socket.emit('error', 'Failed to update image geometry');
+    }
+  });
+
+  // Update image properties
+  socket.on('update-image-properties', async (data) => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+      
+      if (!checkSocketPermission(user, 'edit', 'update-image-properties')) return;
+
+      const { featureId, properties, version, merge } = data;
+      console.log(`[SOCKET] User ${user.id} updating image properties for feature ${featureId}`);
+
+      // Validate feature ID
+      if (!featureId || typeof featureId !== 'string' || featureId.trim() === '') {
+        socket.emit('error', 'Invalid feature ID');
+        return;
+      }
+
+      if (!await checkFeatureLocks(user, [featureId], 'update-image-properties')) return;
+
+      // Validate version
+      if (version === undefined || typeof version !== 'number' || version < 0) {
+        socket.emit('error', 'Version is required and must be a non-negative number');
+        return;
+      }
+
+      // Make sure the target really is an image of this map
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const existing = await db.getFeature(featureId);
+      if (!existing || existing.feature_type !== 'image' || existing.map_id !== mapId) {
+        socket.emit('error', 'Image feature not found');
+        return;
+      }
+
+      // Validate properties, keeping stored values for anything not sent
+      const propsValidation = validateImageProperties({ ...existing.properties, ...properties });
+      if (!propsValidation.valid) {
+        socket.emit('error', propsValidation.message || 'Invalid image properties');
+        return;
+      }
+
+      // The stored image was validated against the current type, so it cannot change underneath it
+      if (propsValidation.sanitized.imageType !== existing.properties.imageType &&
+          await db.getFeatureImageMetadata(featureId)) {
+        socket.emit('error', 'imageType cannot be changed once an image has been uploaded');
+        return;
+      }
+
+      // Update feature
+      const updateResult = await db.updateFeature(
+        featureId,
+        {
+          properties: propsValidation.sanitized,
+          version: version,
+          merge: merge === true
+        },
+        user.id,
+        user.name
+      );
+
+      if (!updateResult.success) {
+        if (updateResult.currentVersion !== undefined) {
+          socket.emit('feature-update-conflict', {
+            featureId,
+            currentVersion: updateResult.currentVersion,
+            ...updateResult.conflict
+          });
+        } else {
+          socket.emit('error', 'Failed to update image properties');
+        }
+        return;
+      }
+
+      console.log(`[SOCKET] Image properties updated successfully for feature ${featureId}`);
+
+      // Apply geometry compression
+      const feature = updateResult.feature;
+      if (feature) {
+        // Record in history (also used as the base version for later merges)
+        if (updateResult.previousFeature) {
+          await db.recordFeatureUpdate(updateResult.previousFeature, feature, user.id, user.name);
+        }
+
+        const compressedFeature = compressFeature(feature);
+
+        // Broadcast to room
+        io.to(user.currentRoom).emit('feature-updated', {
+          feature: compressedFeature,
+          updater: {
+            id: user.id,
+            name: user.name
+          }
+        });
+      }
+
+    } catch (error) {
+      console.error('[SOCKET] Error updating image properties:', error);
+      socket.emit('error', 'Failed to update image properties');
+    }
+  });
+
+  // Drag image
+  socket.on('drag-image', async (dragInfo) => {
+    if (!user.currentRoom) {
+      return;
+    }
+    
+    if (!checkSocketPermission(user, 'edit', 'drag-image')) return;
+
+    // Validate drag info
+    if (!dragInfo || typeof dragInfo !== 'object') {
+      socket.emit('error', 'Invalid drag information');
+      return;
+    }
+
+    if (!dragInfo.featureId || typeof dragInfo.featureId !== 'string') {
+      socket.emit('error', 'Invalid feature ID');
+      return;
+    }
+
+    if (!await checkDragLock(user, dragInfo.featureId, 'drag-image')) return;
+
+    if (!dragInfo.offset || typeof dragInfo.offset !== 'object' ||
+        typeof dragInfo.offset.lng !== 'number' || typeof dragInfo.offset.lat !== 'number') {
+      socket.emit('error', 'Invalid offset coordinates');
+      return;
+    }
+
+    // Broadcast drag event to room
+    socket.to(user.currentRoom).emit('image-dragging', {
+      featureId: dragInfo.featureId,
+      offset: dragInfo.offset,
+      dragger: {
+        id: user.id,
+        name: user.name
+      }
+    });
+  });
+
+  // End image drag
+  socket.on('end-image-drag', async (data) => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+      
+      if (!checkSocketPermission(user, 'edit', 'end-image-drag')) return;
+
+      const { featureId, newCoordinates, version, merge } = data;
+      console.log(`[SOCKET] User ${user.id} ending image drag for feature ${featureId}`);
+
+      // Validate feature ID
+      if (!featureId || typeof featureId !== 'string' || featureId.trim() === '') {
+        socket.emit('error', 'Invalid feature ID');
+        return;
+      }
+
+      if (!await checkFeatureLocks(user, [featureId], 'end-image-drag')) return;
+
+      // Validate version
+      if (version === undefined || typeof version !== 'number' || version < 0) {
+        socket.emit('error', 'Version is required and must be a non-negative number');
+        return;
+      }
+
+      // Validate coordinates
+      const coordValidation = isValidPoint(newCoordinates);
+      if (!coordValidation.valid) {
+        socket.emit('error', coordValidation.message || 'Invalid image coordinates');
+        return;
+      }
+
+      // Make sure the target really is an image of this map
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const existing = await db.getFeature(featureId);
+      if (!existing || existing.feature_type !== 'image' || existing.map_id !== mapId) {
+        socket.emit('error', 'Image feature not found');
+        return;
+      }
+
+      // Update feature with new position
+      const updateResult = await db.updateFeature(
+        featureId,
+        {
+          geometry: {
+            type: 'Point',
+            coordinates: newCoordinates
+          },
+          version: version,
+          merge: merge === true
+        },
+        user.id,
+        user.name
+      );
+
+      if (!updateResult.success) {
+        if (updateResult.currentVersion !== undefined) {
+          socket.emit('feature-update-conflict', {
+            featureId,
+            currentVersion: updateResult.currentVersion,
+            ...updateResult.conflict
+          });
+        } else {
+          socket.emit('error', 'Failed to update image position');
+        }
+        return;
+      }
+
+      console.log(`[SOCKET] Image drag completed for feature ${featureId}`);
+
+      // Apply geometry compression
+      const feature = updateResult.feature;
+      if (feature) {
+        // Record in history (also used as the base version for later merges)
+        if (updateResult.previousFeature) {
+          await db.recordFeatureUpdate(updateResult.previousFeature, feature, user.id, user.name);
+        }
+
+        const compressedFeature = compressFeature(feature);
+
+        // Broadcast to room
+        io.to(user.currentRoom).emit('feature-updated', {
+          feature: compressedFeature,
+          updater: {
+            id: user.id,
+            name: user.name
+          }
+        });
+
+        broadcastMovedComments(io, user.currentRoom, updateResult.movedComments);
+      }
+
+    } catch (error) {
+      console.error('[SOCKET] Error completing image drag:', error);
+      socket.emit('error', 'Failed to update image position');
+    }
+  });
+}
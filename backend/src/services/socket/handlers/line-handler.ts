@@ -0,0 +1,420 @@
+// Path: services\socket\handlers\line-handler.ts
+
+import { Server as SocketIOServer } from 'socket.io';
+import { SocketUser } from '@/types/socket.js';
+import { db } from '@/config/database.js';
+import { CreateFeatureDTO } from '@/types/feature.types.js';
+import { compressFeature } from '../../../utils/geometryCompression.js';
+import { isValidLine, validateLineProperties } from '../../../utils/featureValidation.js';
+import { checkSocketPermission } from '../permissions.js';
+import { checkFeatureLocks, checkDragLock } from '../feature-locks.js';
+import { broadcastMovedComments } from '../comment-anchors.js';
+
+/**
+ * Set up line feature socket handlers
+ */
+export function setupLineHandlers(
+  io: SocketIOServer,
+  user: SocketUser
+): void {
+  const { socket } = user;
+
+  // Create line feature
+  socket.on('create-line', async (data) => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+      
+      if (!checkSocketPermission(user, 'edit', 'create-line')) return;
+
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      console.log(`[SOCKET] User ${user.id} creating new line on map ${mapId}`);
+
+      // Validate coordinates
+      const coordValidation = isValidLine(data.coordinates);
+      if (!coordValidation.valid) {
+        socket.emit('error', coordValidation.message || 'Invalid line coordinates');
+        return;
+      }
+
+      // Validate properties
+      const propsValidation = validateLineProperties(data.properties);
+      if (!propsValidation.valid) {
+        socket.emit('error', propsValidation.message || 'Invalid line properties');
+        return;
+      }
+
+      // Create line feature with validated/sanitized properties
+      const featureData: CreateFeatureDTO = {
+        map_id: mapId,
+        feature_type: 'line',
+        geometry: {
+          type: 'LineString',
+          coordinates: data.coordinates
+        },
+        properties: propsValidation.sanitized,
+        user_id: user.id,
+        user_name: user.name
+      };
+
+      // Save to database
+      const newFeature = await db.createFeature(featureData);
+
+      // Record in history
+      await db.recordFeatureCreation(newFeature, user.id, user.name);
+
+      console.log(`[SOCKET] Line feature created with ID ${newFeature.id}`);
+
+      // Apply geometry compression before sending
+      const compressedFeature = compressFeature(newFeature);
+
+      // Broadcast to all clients in the room
+      io.to(user.currentRoom).emit('feature-created', {
+        feature: compressedFeature,
+        creator: {
+          id: user.id,
+          name: user.name
+        }
+      });
+
+    } catch (error) {
+      console.error('[SOCKET] Error creating line:', error);
+      socket.emit('error', 'Failed to create line');
+    }
+  });
+
+  // Update line geometry
+  socket.on('update-line-geometry', async (data) => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+      
+      if (!checkSocketPermission(user, 'edit', 'update-line-geometry')) return;
+
+      const { featureId, coordinates, version, merge } = data;
+      console.log(`[SOCKET] User ${user.id} updating line geometry for feature ${featureId}`);
+
+      // Validate feature ID
+      if (!featureId || typeof featureId !== 'string' || featureId.trim() === '') {
+        socket.emit('error', 'Invalid feature ID');
+        return;
+      }
+
+      if (!await checkFeatureLocks(user, [featureId], 'update-line-geometry')) return;
+
+      // Validate version
+      if (version === undefined || typeof version !== 'number' || version < 0) {
+        socket.emit('error', 'Version is required and must be a non-negative number');
+        return;
+      }
+
+      // Validate coordinates
+      const coordValidation = isValidLine(coordinates);
+      if (!coordValidation.valid) {
+        socket.emit('error', coordValidation.message || 'Invalid line coordinates');
+        return;
+      }
+
+      // Make sure the target really is a line of this map
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const existing = await db.getFeature(featureId);
+      if (!existing || existing.feature_type !== 'line' || existing.map_id !== mapId) {
+        socket.emit('error', 'Line feature not found');
+        return;
+      }
+
+      // Update feature
+      const updateResult = await db.updateFeature(
+        featureId,
+        {
+          geometry: {
+            type: 'LineString',
+            coordinates: coordinates
+          },
+          version: version,
+          merge: merge === true
+        },
+        user.id,
+        user.name
+      );
+
+      if (!updateResult.success) {
+        if (updateResult.currentVersion !== undefined) {
+          socket.emit('feature-update-conflict', {
+            featureId,
+            currentVersion: updateResult.currentVersion,
+            ...updateResult.conflict
+          });
+        } else {
+          socket.emit('error', 'Failed to update line geometry');
+        }
+        return;
+      }
+
+      console.log(`[SOCKET] Line geometry updated successfully for feature ${featureId}`);
+
+      // Apply geometry compression
+      const feature = updateResult.feature;
+      if (feature) {
+        // Record in history (also used as the base version for later merges)
+        if (updateResult.previousFeature) {
+          await db.recordFeatureUpdate(updateResult.previousFeature, feature, user.id, user.name);
+        }
+
+        const compressedFeature = compressFeature(feature);
+
+        // Broadcast to room
+        io.to(user.currentRoom).emit('feature-updated', {
+          feature: compressedFeature,
+          updater: {
+            id: user.id,
+            name: user.name
+          }
+        });
+
+        broadcastMovedComments(io, user.currentRoom, updateResult.movedComments);
+      }
+
+    } catch (error) {
+      console.error('[SOCKET] Error updating line geometry:', error);
+      socket.emit('error', 'Failed to update line geometry');
+    }
+  });
+
+  // Update line properties
+  socket.on('update-line-properties', async (data) => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+      
+      if (!checkSocketPermission(user, 'edit', 'update-line-properties')) return;
+
+      const { featureId, properties, version, merge } = data;
+      console.log(`[SOCKET] User ${user.id} updating line properties for feature ${featureId}`);
+
+      // Validate feature ID
+      if (!featureId || typeof featureId !== 'string' || featureId.trim() === '') {
+        socket.emit('error', 'Invalid feature ID');
+        return;
+      }
+
+      if (!await checkFeatureLocks(user, [featureId], 'update-line-properties')) return;
+
+      // Validate version
+      if (version === undefined || typeof version !== 'number' || version < 0) {
+        socket.emit('error', 'Version is required and must be a non-negative number');
+        return;
+      }
+
+      // Make sure the target really is a line of this map
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const existing = await db.getFeature(featureId);
+      if (!existing || existing.feature_type !== 'line' || existing.map_id !== mapId) {
+        socket.emit('error', 'Line feature not found');
+        return;
+      }
+
+      // Validate properties, keeping stored values for anything not sent
+      const propsValidation = validateLineProperties({ ...existing.properties, ...properties });
+      if (!propsValidation.valid) {
+        socket.emit('error', propsValidation.message || 'Invalid line properties');
+        return;
+      }
+
+      // Update feature
+      const updateResult = await db.updateFeature(
+        featureId,
+        {
+          properties: propsValidation.sanitized,
+          version: version,
+          merge: merge === true
+        },
+        user.id,
+        user.name
+      );
+
+      if (!updateResult.success) {
+        if (updateResult.currentVersion !== undefined) {
+          socket.emit('feature-update-conflict', {
+            featureId,
+            currentVersion: updateResult.currentVersion,
+            ...updateResult.conflict
+          });
+        } else {
+          socket.emit('error', 'Failed to update line properties');
+        }
+        return;
+      }
+
+      console.log(`[SOCKET] Line properties updated successfully for feature ${featureId}`);
+
+      // Apply geometry compression
+      const feature = updateResult.feature;
+      if (feature) {
+        // Record in history (also used as the base version for later merges)
+        if (updateResult.previousFeature) {
+          await db.recordFeatureUpdate(updateResult.previousFeature, feature, user.id, user.name);
+        }
+
+        const compressedFeature = compressFeature(feature);
+
+        // Broadcast to room
+        io.to(user.currentRoom).emit('feature-updated', {
+          feature: compressedFeature,
+          updater: {
+            id: user.id,
+            name: user.name
+          }
+        });
+      }
+
+    } catch (error) {
+      console.error('[SOCKET] Error updating line properties:', error);
+      socket.emit('error', 'Failed to update line properties');
+    }
+  });
+
+  // Drag line
+  socket.on('drag-line', async (dragInfo) => {
+    if (!user.currentRoom) {
+      return;
+    }
+    
+    if (!checkSocketPermission(user, 'edit', 'drag-line')) return;
+
+    // Validate drag info
+    if (!dragInfo || typeof dragInfo !== 'object') {
+      socket.emit('error', 'Invalid drag information');
+      return;
+    }
+
+    if (!dragInfo.featureId || typeof dragInfo.featureId !== 'string') {
+      socket.emit('error', 'Invalid feature ID');
+      return;
+    }
+
+    if (!await checkDragLock(user, dragInfo.featureId, 'drag-line')) return;
+
+    if (!dragInfo.offset || typeof dragInfo.offset !== 'object' ||
+        typeof dragInfo.offset.lng !== 'number' || typeof dragInfo.offset.lat !== 'number') {
+      socket.emit('error', 'Invalid offset coordinates');
+      return;
+    }
+
+    // Broadcast drag event to room
+    socket.to(user.currentRoom).emit('line-dragging', {
+      featureId: dragInfo.featureId,
+      offset: dragInfo.offset,
+      dragger: {
+        id: user.id,
+        name: user.name
+      }
+    });
+  });
+
+  // End line drag
+  socket.on('end-line-drag', async (data) => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+      
+      if (!checkSocketPermission(user, 'edit', 'end-line-drag')) return;
+
+      const { featureId, newCoordinates, version, merge } = data;
+      console.log(`[SOCKET] User ${user.id} ending line drag for feature ${featureId}`);
+
+      // Validate feature ID
+      if (!featureId || typeof featureId !== 'string' || featureId.trim() === '') {
+        socket.emit('error', 'Invalid feature ID');
+        return;
+      }
+
+      if (!await checkFeatureLocks(user, [featureId], 'end-line-drag')) return;
+
+      // Validate version
+      if (version === undefined || typeof version !== 'number' || version < 0) {
+        socket.emit('error', 'Version is required and must be a non-negative number');
+        return;
+      }
+
+      // Validate coordinates
+      const coordValidation = isValidLine(newCoordinates);
+      if (!coordValidation.valid) {
+        socket.emit('error', coordValidation.message || 'Invalid line coordinates');
+        return;
+      }
+
+      // Make sure the target really is a line of this map
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const existing = await db.getFeature(featureId);
+      if (!existing || existing.feature_type !== 'line' || existing.map_id !== mapId) {
+        socket.emit('error', 'Line feature not found');
+        return;
+      }
+
+      // Update feature with new position
+      const updateResult = await db.updateFeature(
+        featureId,
+        {
+          geometry: {
+            type: 'LineString',
+            coordinates: newCoordinates
+          },
+          version: version,
+          merge: merge === true
+        },
+        user.id,
+        user.name
+      );
+
+      if (!updateResult.success) {
+        if (updateResult.currentVersion !== undefined) {
+          socket.emit('feature-update-conflict', {
+            featureId,
+            currentVersion: updateResult.currentVersion,
+            ...updateResult.conflict
+          });
+        } else {
+          socket.emit('error', 'Failed to update line position');
+        }
+        return;
+      }
+
+      console.log(`[SOCKET] Line drag completed for feature ${featureId}`);
+
+      // Apply geometry compression
+      const feature = updateResult.feature;
+      if (feature) {
+        // Record in history (also used as the base version for later merges)
+        if (updateResult.previousFeature) {
+          await db.recordFeatureUpdate(updateResult.previousFeature, feature, user.id, user.name);
+        }
+
+        const compressedFeature = compressFeature(feature);
+
+        // Broadcast to room
+        io.to(user.currentRoom).emit('feature-updated', {
+          feature: compressedFeature,
+          updater: {
+            id: user.id,
+            name: user.name
+          }
+        });
+
+        broadcastMovedComments(io, user.currentRoom, updateResult.movedComments);
+      }
+
+    } catch (error) {
+      console.error('[SOCKET] Error completing line drag:', error);
+      socket.emit('error', 'Failed to update line position');
+    }
+  });
+}
@@ -5,124 +5,17 @@ import { SocketUser } from '@/types/socket.js';
 import { db } from '@/config/database.js';
 import { CreateFeatureDTO } from '@/types/feature.types.js';
 import { compressFeature } from '../../../utils/geometryCompression.js';
-
-/**
- * Validate polygon geometry
- * Ensures polygon coordinates are in proper format and bounds
- */
-function isValidPolygon(coordinates: Array<Array<[number, number]>>): { valid: boolean; message?: string } {
-  if (!Array.isArray(coordinates) || coordinates.length === 0) {
-    return { valid: false, message: "Coordinates must be a non-empty array" };
-  }
-  
-  // Check each ring
-  for (const ring of coordinates) {
-    if (!Array.isArray(ring) || ring.length < 4) {
-      return { valid: false, message: "Each polygon ring must have at least 4 points" };
-    }
-    
-    // Check each coordinate
-    for (const coord of ring) {
-      if (!Array.isArray(coord) || coord.length !== 2 || 
-          typeof coord[0] !== 'number' || typeof coord[1] !== 'number') {
-        return { valid: false, message: "Each coordinate must be a [longitude, latitude] array of numbers" };
-      }
-      
-      // Validate longitude/latitude ranges
-      const [lng, lat] = coord;
-      if (lng < -180 || lng > 180) {
-        return { valid: false, message: `Invalid longitude: ${lng} (must be between -180 and 180)` };
-      }
-      if (lat < -90 || lat > 90) {
-        return { valid: false, message: `Invalid latitude: ${lat} (must be between -90 and 90)` };
-      }
-    }
-    
-    // Check if the ring is closed (first point equals last point)
-    const first = ring[0];
-    const last = ring[ring.length - 1];
-    if (first[0] !== last[0] || first[1] !== last[1]) {
-      return { valid: false, message: "Polygon ring must be closed (first point must equal last point)" };
-    }
-  }
-  
-  return { valid: true };
-}
-
-/**
- * Validate polygon properties
- */
-function validatePolygonProperties(properties: any): { valid: boolean; message?: string; sanitized?: any } {
-  const validatedProperties: any = {
-    fillColor: '#3388ff',
-    borderColor: '#3388ff',
-    borderSize: 2,
-    borderOpacity: 1,
-    fillOpacity: 0.2,
-    showArea: false
-  };
-  
-  if (!properties) {
-    return { valid: true, sanitized: validatedProperties };
-  }
-  
-  // Validate color formats (hex colors)
-  const colorRegex = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
-  
-  if (properties.fillColor !== undefined) {
-    if (typeof properties.fillColor !== 'string' || !colorRegex.test(properties.fillColor)) {
-      return { valid: false, message: "fillColor must be a valid hex color (e.g., #3388ff)" };
-    }
-    validatedProperties.fillColor = properties.fillColor;
-  }
-  
-  if (properties.borderColor !== undefined) {
-    if (typeof properties.borderColor !== 'string' || !colorRegex.test(properties.borderColor)) {
-      return { valid: false, message: "borderColor must be a valid hex color (e.g., #3388ff)" };
-    }
-    validatedProperties.borderColor = properties.borderColor;
-  }
-  
-  // Validate numeric properties
-  if (properties.borderSize !== undefined) {
-    const size = Number(properties.borderSize);
-    if (isNaN(size) || size < 0 || size > 10) {
-      return { valid: false, message: "borderSize must be a number between 0 and 10" };
-    }
-    validatedProperties.borderSize = size;
-  }
-  
-  if (properties.borderOpacity !== undefined) {
-    const opacity = Number(properties.borderOpacity);
-    if (isNaN(opacity) || opacity < 0 || opacity > 1) {
-      return { valid: false, message: "borderOpacity must be a number between 0 and 1" };
-    }
-    validatedProperties.borderOpacity = opacity;
-  }
-  
-  if (properties.fillOpacity !== undefined) {
-    const opacity = Number(properties.fillOpacity);
-    if (isNaN(opacity) || opacity < 0 || opacity > 1) {
-      return { valid: false, message: "fillOpacity must be a number between 0 and 1" };
-    }
-    validatedProperties.fillOpacity = opacity;
-  }
-  
-  // Validate boolean properties
-  if (properties.showArea !== undefined) {
-    validatedProperties.showArea = Boolean(properties.showArea);
-  }
-  
-  return { valid: true, sanitized: validatedProperties };
-}
+import { isValidPolygon, validatePolygonProperties } from '../../../utils/featureValidation.js';
+import { checkSocketPermission } from '../permissions.js';
+import { checkFeatureLocks, checkDragLock } from '../feature-locks.js';
+import { broadcastMovedComments } from '../comment-anchors.js';
 
 /**
  * Set up polygon feature socket handlers
  */
 export function setupPolygonHandlers(
   io: SocketIOServer,
-  user: SocketUser,
-  _rooms: any
+  user: SocketUser
 ): void {
   const { socket } = user;
   
@@ -134,6 +27,8 @@ export function setupPolygonHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'edit', 'create-polygon')) return;
+      
       const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
       console.log(`[SOCKET] User ${user.id} creating new polygon on map ${mapId}`);
       
@@ -199,7 +94,9 @@ export function setupPolygonHandlers(
         return;
       }
       
-      const { featureId, coordinates, version } = data;
+      if (!checkSocketPermission(user, 'edit', 'update-polygon-geometry')) return;
+      
+      const { featureId, coordinates, version, merge } = data;
       console.log(`[SOCKET] User ${user.id} updating polygon geometry for feature ${featureId}`);
       
       // Validate feature ID
@@ -207,6 +104,8 @@ export function setupPolygonHandlers(
         socket.emit('error', 'Invalid feature ID');
         return;
       }
+
+      if (!await checkFeatureLocks(user, [featureId], 'update-polygon-geometry')) return;
       
       // Validate version
       if (version === undefined || typeof version !== 'number' || version < 0) {
@@ -221,6 +120,14 @@ export function setupPolygonHandlers(
         return;
       }
       
+      // Make sure the target really is a polygon of this map
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const existing = await db.getFeature(featureId);
+      if (!existing || existing.feature_type !== 'polygon' || existing.map_id !== mapId) {
+        socket.emit('error', 'Polygon feature not found');
+        return;
+      }
+      
       // Update feature
       const updateResult = await db.updateFeature(
         featureId,
@@ -229,7 +136,8 @@ export function setupPolygonHandlers(
             type: 'Polygon',
             coordinates: coordinates
           },
-          version: version
+          version: version,
+          merge: merge === true
         },
         user.id,
         user.name
@@ -239,7 +147,8 @@ export function setupPolygonHandlers(
         if (updateResult.currentVersion !== undefined) {
           socket.emit('feature-update-conflict', {
             featureId,
-            currentVersion: updateResult.currentVersion
+            currentVersion: updateResult.currentVersion,
+            ...updateResult.conflict
           });
         } else {
           socket.emit('error', 'Failed to update polygon geometry');
@@ -252,6 +161,11 @@ export function setupPolygonHandlers(
       // Apply geometry compression
       const feature = updateResult.feature;
       if (feature) {
+        // Record in history (also used as the base version for later merges)
+        if (updateResult.previousFeature) {
+          await db.recordFeatureUpdate(updateResult.previousFeature, feature, user.id, user.name);
+        }
+        
         const compressedFeature = compressFeature(feature);
         
         // Broadcast to room
@@ -262,6 +176,8 @@ export function setupPolygonHandlers(
             name: user.name
           }
         });
+
+        broadcastMovedComments(io, user.currentRoom, updateResult.movedComments);
       }
       
     } catch (error) {
@@ -278,7 +194,9 @@ export function setupPolygonHandlers(
         return;
       }
       
-      const { featureId, properties, version } = data;
+      if (!checkSocketPermission(user, 'edit', 'update-polygon-properties')) return;
+      
+      const { featureId, properties, version, merge } = data;
       console.log(`[SOCKET] User ${user.id} updating polygon properties for feature ${featureId}`);
       
       // Validate feature ID
@@ -286,6 +204,8 @@ export function setupPolygonHandlers(
         socket.emit('error', 'Invalid feature ID');
         return;
       }
+
+      if (!await checkFeatureLocks(user, [featureId], 'update-polygon-properties')) return;
       
       // Validate version
       if (version === undefined || typeof version !== 'number' || version < 0) {
@@ -300,12 +220,21 @@ export function setupPolygonHandlers(
         return;
       }
       
+      // Make sure the target really is a polygon of this map
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const existing = await db.getFeature(featureId);
+      if (!existing || existing.feature_type !== 'polygon' || existing.map_id !== mapId) {
+        socket.emit('error', 'Polygon feature not found');
+        return;
+      }
+      
       // Update feature
       const updateResult = await db.updateFeature(
         featureId,
         {
           properties: propsValidation.sanitized,
-          version: version
+          version: version,
+          merge: merge === true
         },
         user.id,
         user.name
@@ -315,7 +244,8 @@ export function setupPolygonHandlers(
         if (updateResult.currentVersion !== undefined) {
           socket.emit('feature-update-conflict', {
             featureId,
-            currentVersion: updateResult.currentVersion
+            currentVersion: updateResult.currentVersion,
+            ...updateResult.conflict
           });
         } else {
           socket.emit('error', 'Failed to update polygon properties');
@@ -328,6 +258,11 @@ export function setupPolygonHandlers(
       // Apply geometry compression
       const feature = updateResult.feature;
       if (feature) {
+        // Record in history (also used as the base version for later merges)
+        if (updateResult.previousFeature) {
+          await db.recordFeatureUpdate(updateResult.previousFeature, feature, user.id, user.name);
+        }
+        
         const compressedFeature = compressFeature(feature);
         
         // Broadcast to room
@@ -347,11 +282,13 @@ export function setupPolygonHandlers(
   });
   
   // Drag polygon
-  socket.on('drag-polygon', (dragInfo) => {
+  socket.on('drag-polygon', async (dragInfo) => {
     if (!user.currentRoom) {
       return;
     }
     
+    if (!checkSocketPermission(user, 'edit', 'drag-polygon')) return;
+    
     // Validate drag info
     if (!dragInfo || typeof dragInfo !== 'object') {
       socket.emit('error', 'Invalid drag information');
@@ -362,6 +299,8 @@ export function setupPolygonHandlers(
       socket.emit('error', 'Invalid feature ID');
       return;
     }
+
+    if (!await checkDragLock(user, dragInfo.featureId, 'drag-polygon')) return;
     
     if (!dragInfo.offset || typeof dragInfo.offset !== 'object' ||
         typeof dragInfo.offset.lng !== 'number' || typeof dragInfo.offset.lat !== 'number') {
@@ -388,7 +327,9 @@ export function setupPolygonHandlers(
         return;
       }
       
-      const { featureId, newCoordinates, version } = data;
+      if (!checkSocketPermission(user, 'edit', 'end-polygon-drag')) return;
+      
+      const { featureId, newCoordinates, version, merge } = data;
       console.log(`[SOCKET] User ${user.id} ending polygon drag for feature ${featureId}`);
       
       // Validate feature ID
@@ -396,6 +337,8 @@ export function setupPolygonHandlers(
         socket.emit('error', 'Invalid feature ID');
         return;
       }
+
+      if (!await checkFeatureLocks(user, [featureId], 'end-polygon-drag')) return;
       
       // Validate version
       if (version === undefined || typeof version !== 'number' || version < 0) {
@@ -410,6 +353,14 @@ export function setupPolygonHandlers(
         return;
       }
       
+      // Make sure the target really is a polygon of this map
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const existing = await db.getFeature(featureId);
+      if (!existing || existing.feature_type !== 'polygon' || existing.map_id !== mapId) {
+        socket.emit('error', 'Polygon feature not found');
+        return;
+      }
+      
       // Update feature with new position
       const updateResult = await db.updateFeature(
         featureId,
@@ -418,7 +369,8 @@ export function setupPolygonHandlers(
             type: 'Polygon',
             coordinates: newCoordinates
           },
-          version: version
+          version: version,
+          merge: merge === true
         },
         user.id,
         user.name
@@ -428,7 +380,8 @@ export function setupPolygonHandlers(
         if (updateResult.currentVersion !== undefined) {
           socket.emit('feature-update-conflict', {
             featureId,
-            currentVersion: updateResult.currentVersion
+            currentVersion: updateResult.currentVersion,
+            ...updateResult.conflict
           });
         } else {
           socket.emit('error', 'Failed to update polygon position');
@@ -441,6 +394,11 @@ export function setupPolygonHandlers(
       // Apply geometry compression
       const feature = updateResult.feature;
       if (feature) {
+        // Record in history (also used as the base version for later merges)
+        if (updateResult.previousFeature) {
+          await db.recordFeatureUpdate(updateResult.previousFeature, feature, user.id, user.name);
+        }
+        
         const compressedFeature = compressFeature(feature);
         
         // Broadcast to room
@@ -451,6 +409,8 @@ export function setupPolygonHandlers(
             name: user.name
           }
         });
+
+        broadcastMovedComments(io, user.currentRoom, updateResult.movedComments);
       }
       
     } catch (error) {
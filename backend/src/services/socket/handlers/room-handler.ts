@@ -1,8 +1,11 @@
 // Path: services\socket\handlers\room-handler.ts
 
 import { Server as SocketIOServer } from 'socket.io';
-import { SocketUser, Rooms, UserConnectionState } from '@/types/socket.js';
+import { SocketUser, UserConnectionState } from '@/types/socket.js';
 import { db } from '@/config/database.js';
+import { getMapRole, canPerform, describeDenial } from '../../auth/permissions.js';
+import { setSocketRole, checkSocketPermission } from '../permissions.js';
+import { NODE_ID } from '../cluster.js';
 
 /**
  * Set up room-related socket handlers with enhanced sync support
@@ -10,7 +13,6 @@ import { db } from '@/config/database.js';
 export function setupRoomHandlers(
   io: SocketIOServer,
   user: SocketUser,
-  rooms: Rooms,
   userConnections: Record<string, UserConnectionState>
 ): void {
   const { socket } = user;
@@ -28,16 +30,31 @@ export function setupRoomHandlers(
         return;
       }
 
+      // Only members (or anyone, on maps without members) can join
+      const role = await getMapRole(mapId, user.id);
+      if (!canPerform(role, 'view')) {
+        console.log(`[SOCKET] User ${user.id} is not allowed to join map ${mapId}`);
+        socket.emit('permission-denied', {
+          event: 'join-map',
+          action: 'view',
+          mapId,
+          role,
+          message: describeDenial(role, 'view')
+        });
+        return;
+      }
+
       // Leave previous room if any
       if (user.currentRoom) {
         console.log(`[SOCKET] User ${user.id} leaving previous room ${user.currentRoom}`);
-        leaveCurrentRoom(io, user, rooms);
+        await leaveCurrentRoom(io, user);
       }
 
       // Join new room
       const roomId = `map-${mapId}`;
       socket.join(roomId);
       user.currentRoom = roomId;
+      setSocketRole(socket, role);
       
       // Update user connection state
       if (userConnections[user.id]) {
@@ -49,39 +66,24 @@ export function setupRoomHandlers(
       
       console.log(`[SOCKET] User ${user.id} joined room ${roomId}`);
 
-      // Initialize room if it doesn't exist
-      if (!rooms[roomId]) {
-        console.log(`[SOCKET] Creating new room ${roomId}`);
-        rooms[roomId] = {};
-      }
-
-      // Add user to room with name and status
-      rooms[roomId][user.id] = {
-        id: user.id,
-        name: user.name,
-        position: { lng: 0, lat: 0 },
-        status: 'active',
-        joinedAt: Date.now()
-      };
+      // Add user to the room presence shared by all servers
+      const roomUser = await db.joinMapPresence(mapId, user.id, user.name, NODE_ID, socket.id);
 
       // Send user details back to the client
       socket.emit('user-info', {
         id: user.id,
         name: user.name,
+        role
       });
       console.log(`[SOCKET] Sent user info to ${user.id}`);
 
       // Send all users in the room to the new user
-      socket.emit('users', Object.values(rooms[roomId]));
-      console.log(`[SOCKET] Sent users list to ${user.id} (${Object.keys(rooms[roomId]).length} users)`);
+      const roomUsers = await db.getMapPresence(mapId);
+      socket.emit('users', roomUsers);
+      console.log(`[SOCKET] Sent users list to ${user.id} (${roomUsers.length} users)`);
 
       // Notify room of new user
-      socket.to(roomId).emit('user-joined', {
-        id: user.id,
-        name: user.name,
-        position: { lng: 0, lat: 0 },
-        status: 'active'
-      });
+      socket.to(roomId).emit('user-joined', roomUser);
       console.log(`[SOCKET] Notified room ${roomId} that user ${user.name} (${user.id}) joined`);
       
       // Load map features - potentially with sync-based loading
@@ -112,8 +114,12 @@ export function setupRoomHandlers(
   });
 
   // Leave current room
-  socket.on('leave-map', () => {
-    leaveCurrentRoom(io, user, rooms);
+  socket.on('leave-map', async () => {
+    try {
+      await leaveCurrentRoom(io, user);
+    } catch (error) {
+      console.error('[SOCKET] Error leaving map:', error);
+    }
   });
   
   // Get updates since a specific timestamp
@@ -124,6 +130,8 @@ export function setupRoomHandlers(
         return;
       }
       
+      if (!checkSocketPermission(user, 'view', 'get-updates-since')) return;
+      
       // Verify user is in the correct map
       const roomMapId = parseInt(user.currentRoom.replace('map-', ''), 10);
       if (data.mapId !== roomMapId) {
@@ -187,19 +195,21 @@ export function setupRoomHandlers(
 /**
  * Helper function to leave the current room
  */
-function leaveCurrentRoom(_io: SocketIOServer, user: SocketUser, rooms: Rooms): void {
+async function leaveCurrentRoom(_io: SocketIOServer, user: SocketUser): Promise<void> {
   if (!user.currentRoom) return;
   
-  console.log(`[SOCKET] User ${user.id} leaving room ${user.currentRoom}`);
-  user.socket.leave(user.currentRoom);
-  
-  if (rooms[user.currentRoom] && rooms[user.currentRoom][user.id]) {
-    delete rooms[user.currentRoom][user.id];
-    user.socket.to(user.currentRoom).emit('user-disconnected', user.id);
-    console.log(`[SOCKET] Notified room ${user.currentRoom} that user ${user.id} disconnected`);
-  }
+  const roomId = user.currentRoom;
+  const mapId = parseInt(roomId.replace('map-', ''), 10);
   
+  console.log(`[SOCKET] User ${user.id} leaving room ${roomId}`);
+  user.socket.leave(roomId);
   user.currentRoom = null;
+  setSocketRole(user.socket, null);
+  
+  if (await db.leaveMapPresence(mapId, user.id, { socketId: user.socket.id })) {
+    user.socket.to(roomId).emit('user-disconnected', user.id);
+    console.log(`[SOCKET] Notified room ${roomId} that user ${user.id} disconnected`);
+  }
 }
 
 /**
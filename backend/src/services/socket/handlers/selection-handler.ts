@@ -1,57 +1,184 @@
 // Path: services\socket\handlers\selection-handler.ts
 
 import { Server as SocketIOServer } from 'socket.io';
-import { SocketUser, SelectionState } from '@/types/socket.js';
+import { SocketUser, FeatureLock, FeatureLockMode } from '@/types/socket.js';
+import { db } from '@/config/database.js';
+import { checkSocketPermission } from '../permissions.js';
+import { NODE_ID } from '../cluster.js';
+import { isFeatureId } from '../../../utils/featureValidation.js';
+import {
+  acquireFeatureLocks,
+  renewFeatureLocks,
+  releaseUserLocks,
+  releaseSocketLocks,
+  broadcastLocksReleased,
+  getMapLocks
+} from '../feature-locks.js';
 
-// Track selections across all maps
-const selections: Record<string, SelectionState> = {};
+// Selection request - a plain array of IDs selects without locking
+interface SelectFeaturesRequest {
+  featureIds: string[];
+  lock?: FeatureLockMode; // Lock the features for editing
+  takeOver?: boolean; // Take soft locks held by others
+}
+
+/**
+ * Lock info sent to clients
+ */
+const toLockInfo = (lock: FeatureLock) => ({
+  featureId: lock.featureId,
+  mode: lock.mode,
+  holder: {
+    id: lock.userId,
+    name: lock.userName
+  },
+  expiresAt: lock.expiresAt
+});
 
 /**
  * Set up feature selection socket handlers
  */
 export function setupSelectionHandlers(
   io: SocketIOServer,
-  user: SocketUser,
-  _rooms: any
+  user: SocketUser
 ): void {
   const { socket } = user;
   
-  // Handle feature selection
-  socket.on('select-features', (featureIds: number[]) => {
+  // Remove the user's selections and locks in the current room
+  const clearSelection = async (reason: 'released' | 'disconnected') => {
+    if (!user.currentRoom) return;
+    
+    const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+    try {
+      await db.clearUserSelection(user.id, mapId);
+      
+      const released = await releaseUserLocks(user.id, mapId);
+      if (released.length > 0) {
+        broadcastLocksReleased(io, released, reason);
+      }
+    } catch (error) {
+      console.error('[SOCKET] Error clearing selection:', error);
+    }
+  };
+  
+  // Handle feature selection, optionally locking the features
+  socket.on('select-features', async (request: string[] | SelectFeaturesRequest) => {
     if (!user.currentRoom) {
       socket.emit('error', 'You must join a map first');
       return;
     }
     
-    console.log(`[SOCKET] User ${user.id} selected features: ${featureIds.join(', ')}`);
+    const roomId = user.currentRoom;
     
-    // Initialize selection state for this room if it doesn't exist
-    if (!selections[user.currentRoom]) {
-      selections[user.currentRoom] = {};
+    const { featureIds: requestedIds, lock: lockMode, takeOver } = Array.isArray(request) ?
+      { featureIds: request, lock: undefined, takeOver: false } :
+      request || { featureIds: [] };
+    
+    if (!Array.isArray(requestedIds)) {
+      socket.emit('error', 'Invalid feature IDs');
+      return;
     }
     
-    // Remove user's previous selections
-    for (const featureId in selections[user.currentRoom]) {
-      if (selections[user.currentRoom][featureId].userId === user.id) {
-        delete selections[user.currentRoom][featureId];
-      }
+    if (lockMode !== undefined && lockMode !== 'soft' && lockMode !== 'hard') {
+      socket.emit('error', 'Lock mode must be soft or hard');
+      return;
     }
     
-    // Add new selections
-    for (const featureId of featureIds) {
-      selections[user.currentRoom][featureId] = {
-        userId: user.id,
-        userName: user.name,
-        featureIds: featureIds
-      };
+    if (lockMode && !checkSocketPermission(user, 'edit', 'select-features')) return;
+    
+    const featureIds = requestedIds.filter(id => typeof id === 'string' && id.trim() !== '');
+    const mapId = parseInt(roomId.replace('map-', ''), 10);
+    
+    console.log(`[SOCKET] User ${user.id} selected features: ${featureIds.join(', ')}${lockMode ? ` (${lockMode} lock)` : ''}`);
+    
+    // Replace the user's previous selections
+    try {
+      await db.setUserSelection(mapId, user.id, user.name, { nodeId: NODE_ID, socketId: socket.id }, featureIds);
+      
+      // Previous locks are kept only for features locked again
+      const dropped = await releaseUserLocks(user.id, mapId, lockMode ? featureIds : []);
+      if (dropped.length > 0) {
+        broadcastLocksReleased(io, dropped, 'released');
+      }
+    } catch (error) {
+      console.error('[SOCKET] Error saving selection:', error);
+      socket.emit('error', 'Failed to select features');
+      return;
     }
     
     // Broadcast selection to room
-    io.to(user.currentRoom).emit('features-selected', {
+    io.to(roomId).emit('features-selected', {
       userId: user.id,
       userName: user.name,
       featureIds: featureIds
     });
+    
+    if (!lockMode || featureIds.length === 0) return;
+    
+    // Only features of this map can be locked from its room
+    let result;
+    try {
+      const lockableIds = await db.getMapFeatureIds(mapId, featureIds.filter(isFeatureId));
+      
+      const lockable = new Set(lockableIds);
+      const rejected = featureIds.filter(id => !lockable.has(id));
+      if (rejected.length > 0) {
+        console.log(`[SOCKET] User ${user.id} tried to lock features outside map ${mapId}: ${rejected.join(', ')}`);
+        socket.emit('error', `Features not found in this map: ${rejected.join(', ')}`);
+      }
+      
+      if (lockableIds.length === 0) return;
+      
+      result = await acquireFeatureLocks(user, mapId, lockableIds, lockMode, takeOver === true);
+    } catch (error) {
+      console.error('[SOCKET] Error locking features:', error);
+      socket.emit('error', 'Failed to lock features');
+      return;
+    }
+    
+    if (result.takenOver.length > 0) {
+      broadcastLocksReleased(io, result.takenOver, 'taken-over');
+    }
+    
+    if (result.acquired.length > 0) {
+      io.to(roomId).emit('features-locked', {
+        locks: result.acquired.map(toLockInfo)
+      });
+    }
+    
+    // Tell the user which features are being edited by someone else
+    for (const lock of result.denied) {
+      socket.emit('feature-locked', {
+        event: 'select-features',
+        ...toLockInfo(lock)
+      });
+    }
+  });
+  
+  // Keep the user's locks alive - clients send this well within the lock TTL
+  socket.on('lock-heartbeat', async (featureIds?: string[]) => {
+    if (!user.currentRoom) return;
+    
+    let renewal;
+    try {
+      renewal = await renewFeatureLocks(user.id, Array.isArray(featureIds) ? featureIds : undefined);
+    } catch (error) {
+      console.error('[SOCKET] Error renewing locks:', error);
+      return;
+    }
+    
+    const { renewed, lost } = renewal;
+    
+    if (renewed.length > 0) {
+      socket.emit('locks-renewed', {
+        featureIds: renewed.map(lock => lock.featureId),
+        expiresAt: Math.min(...renewed.map(lock => lock.expiresAt))
+      });
+    }
+    
+    if (lost.length > 0) {
+      socket.emit('lock-lost', { featureIds: lost, reason: 'expired' });
+    }
   });
   
   // Handle feature deselection
@@ -62,14 +189,8 @@ export function setupSelectionHandlers(
     
     console.log(`[SOCKET] User ${user.id} deselected all features`);
     
-    // Remove user's selections
-    if (selections[user.currentRoom]) {
-      for (const featureId in selections[user.currentRoom]) {
-        if (selections[user.currentRoom][featureId].userId === user.id) {
-          delete selections[user.currentRoom][featureId];
-        }
-      }
-    }
+    // Remove user's selections and locks
+    clearSelection('released');
     
     // Broadcast deselection to room
     io.to(user.currentRoom).emit('features-deselected', {
@@ -78,41 +199,68 @@ export function setupSelectionHandlers(
   });
   
   // Get current feature selections in the room
-  socket.on('get-selections', () => {
+  socket.on('get-selections', async () => {
     if (!user.currentRoom) {
       socket.emit('error', 'You must join a map first');
       return;
     }
     
-    const roomSelections = selections[user.currentRoom] || {};
-    const userSelections: Record<string, number[]> = {};
+    const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+    
+    let roomSelections;
+    let roomLocks;
+    try {
+      roomSelections = await db.getMapSelections(mapId);
+      roomLocks = await getMapLocks(mapId);
+    } catch (error) {
+      console.error('[SOCKET] Error getting selections:', error);
+      socket.emit('error', 'Failed to get selections');
+      return;
+    }
+    
+    const userSelections: Record<string, string[]> = {};
     
     // Group selections by user
-    for (const featureId in roomSelections) {
-      const selection = roomSelections[featureId];
-      
+    for (const selection of roomSelections) {
       if (!userSelections[selection.userId]) {
         userSelections[selection.userId] = [];
       }
       
-      if (!userSelections[selection.userId].includes(parseInt(featureId))) {
-        userSelections[selection.userId].push(parseInt(featureId));
-      }
+      userSelections[selection.userId].push(selection.featureId);
     }
     
-    // Send current selections to client
+    // Send current selections and locks to client
     socket.emit('current-selections', userSelections);
+    
+    socket.emit('current-locks', {
+      locks: roomLocks.map(toLockInfo)
+    });
   });
   
-  // Clean up selections when user disconnects or leaves room
-  socket.on('disconnect', () => {
-    // Clean up user's selections in all rooms
-    for (const roomId in selections) {
-      for (const featureId in selections[roomId]) {
-        if (selections[roomId][featureId].userId === user.id) {
-          delete selections[roomId][featureId];
+  // Selections and locks don't follow the user to another map
+  socket.on('leave-map', () => clearSelection('released'));
+  socket.on('join-map', () => clearSelection('released'));
+  
+  // Clean up what this connection selected and locked when it goes away
+  socket.on('disconnect', async () => {
+    const roomId = user.currentRoom;
+    
+    try {
+      // The user's selection in the room, unless another of their connections made it since
+      if (roomId) {
+        const mapId = parseInt(roomId.replace('map-', ''), 10);
+        if (await db.clearUserSelection(user.id, mapId, { socketId: socket.id, nodeId: NODE_ID })) {
+          io.to(roomId).emit('features-deselected', { userId: user.id });
         }
       }
+      
+      // Locks taken through this connection
+      const released = await releaseSocketLocks(socket.id);
+      if (released.length > 0) {
+        broadcastLocksReleased(io, released, 'disconnected');
+      }
+    } catch (error) {
+      console.error('[SOCKET] Error clearing selections:', error);
     }
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,65 @@
+// Path: services\socket\handlers\undo-handler.ts
+
+import { Server as SocketIOServer } from 'socket.io';
+import { SocketUser } from '@/types/socket.js';
+import {
+  undoLastOperation,
+  redoLastOperation,
+  broadcastUndoRedo,
+  UndoRedoResult
+} from '../../history/undo-redo.js';
+import { checkSocketPermission } from '../permissions.js';
+
+/**
+ * Set up undo/redo socket handlers
+ */
+export function setupUndoHandlers(
+  io: SocketIOServer,
+  user: SocketUser
+): void {
+  const { socket } = user;
+
+  const handle = async (action: 'undo' | 'redo') => {
+    try {
+      if (!user.currentRoom) {
+        socket.emit('error', 'You must join a map first');
+        return;
+      }
+
+      if (!checkSocketPermission(user, 'edit', action)) return;
+
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      console.log(`[SOCKET] User ${user.id} requesting ${action} on map ${mapId}`);
+
+      const result: UndoRedoResult = action === 'undo' ?
+        await undoLastOperation(mapId, user.id, user.name) :
+        await redoLastOperation(mapId, user.id, user.name);
+
+      if (!result.success) {
+        socket.emit(`${action}-failed`, {
+          reason: result.reason,
+          message: result.message
+        });
+        return;
+      }
+
+      broadcastUndoRedo(io, mapId, result, { id: user.id, name: user.name });
+
+      socket.emit(`${action}-completed`, {
+        operation: result.operation,
+        featureId: (result.feature || result.deletedFeature)?.id,
+        merged: result.merged || false
+      });
+
+    } catch (error) {
+      console.error(`[SOCKET] Error processing ${action}:`, error);
+      socket.emit('error', `Failed to ${action}`);
+    }
+  };
+
+  // Undo the user's last operation on the current map
+  socket.on('undo', () => handle('undo'));
+
+  // Redo the user's last undone operation on the current map
+  socket.on('redo', () => handle('redo'));
+}
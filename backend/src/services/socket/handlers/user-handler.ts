@@ -1,26 +1,37 @@
 // Path: services\socket\handlers\user-handler.ts
 
 import { Server as SocketIOServer } from 'socket.io';
-import { SocketUser, Rooms, Position } from '@/types/socket.js';
+import { SocketUser, Position } from '@/types/socket.js';
+import { db } from '@/config/database.js';
+
+// Positions are stored at most this often, they are only needed for users joining later
+const POSITION_SAVE_INTERVAL = 2000;
 
 /**
  * Set up user-related socket handlers
  */
 export function setupUserHandlers(
   _io: SocketIOServer,
-  user: SocketUser,
-  rooms: Rooms
+  user: SocketUser
 ): void {
   const { socket } = user;
-  
+  let lastPositionSave = 0;
+
   // Handle user movement
   socket.on('mousemove', (position: Position) => {
-    if (!user.currentRoom || !rooms[user.currentRoom] || !rooms[user.currentRoom][user.id]) {
+    if (!user.currentRoom) {
       return;
     }
 
     // Update user position in room state
-    rooms[user.currentRoom][user.id].position = position;
+    const now = Date.now();
+    if (now - lastPositionSave >= POSITION_SAVE_INTERVAL) {
+      lastPositionSave = now;
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      db.updatePresencePosition(mapId, user.id, position.lng, position.lat).catch(error => {
+        console.error('[SOCKET] Error saving user position:', error);
+      });
+    }
 
     // Only log occasionally to avoid flooding the console
     const shouldLog = Math.random() < 0.01; // Log approx. 1% of movements
@@ -35,4 +46,4 @@ export function setupUserHandlers(
       position,
     });
   });
-}
\ No newline at end of file
+}
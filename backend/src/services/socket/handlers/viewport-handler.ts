@@ -0,0 +1,70 @@
+// Path: services\socket\handlers\viewport-handler.ts
+
+import { Server as SocketIOServer } from 'socket.io';
+import { SocketUser, Viewport } from '@/types/socket.js';
+import { db } from '@/config/database.js';
+import { compressFeatures, simplificationTolerance } from '../../../utils/geometryCompression.js';
+import { validateBounds } from '../../../utils/featureValidation.js';
+import { checkSocketPermission } from '../permissions.js';
+import { setViewport, clearViewport, clearMissedUpdates } from '../viewport-subscriptions.js';
+
+/**
+ * Set up viewport subscription handlers
+ * Once a client registers its viewport, feature updates and cursor moves outside of it aren't sent,
+ * and what it missed is sent when it pans or zooms to where it happened
+ */
+export function setupViewportHandlers(
+  _io: SocketIOServer,
+  user: SocketUser
+): void {
+  const { socket } = user;
+
+  // Register the current viewport (null goes back to getting every update)
+  socket.on('update-viewport', async (viewport: Viewport | null) => {
+    try {
+      if (viewport === null) {
+        clearViewport(socket);
+        return;
+      }
+
+      const validation = validateBounds(viewport);
+      if (!validation.valid) {
+        socket.emit('error', validation.message);
+        return;
+      }
+
+      const catchUp = setViewport(socket, viewport);
+
+      if (!user.currentRoom) return;
+      if (!catchUp.reloadViewport && catchUp.featureIds.length === 0 && catchUp.cursors.length === 0) return;
+      if (!checkSocketPermission(user, 'view', 'update-viewport')) return;
+
+      const mapId = parseInt(user.currentRoom.replace('map-', ''), 10);
+      const { minLng, minLat, maxLng, maxLat } = viewport;
+      const tolerance = simplificationTolerance(viewport.zoom);
+
+      // Features updated out of view since the last viewport, or all features in view when too many were missed
+      const features = catchUp.reloadViewport ?
+        await db.getFeaturesInBounds(mapId, minLng, minLat, maxLng, maxLat, tolerance) :
+        await db.getFeaturesByIds(mapId, catchUp.featureIds, tolerance);
+
+      console.log(
+        `[SOCKET] Sending viewport catch-up to user ${user.id}: ` +
+        `${features.length} feature(s)${catchUp.reloadViewport ? ' (whole viewport)' : ''}, ${catchUp.cursors.length} cursor(s)`
+      );
+
+      socket.emit('viewport-catch-up', {
+        features: compressFeatures(features),
+        users: catchUp.cursors
+      });
+
+    } catch (error) {
+      console.error('[SOCKET] Error updating viewport:', error);
+      socket.emit('error', 'Failed to update viewport');
+    }
+  });
+
+  // Missed updates of the previous map are of no use in the next one
+  socket.on('join-map', () => clearMissedUpdates(socket));
+  socket.on('leave-map', () => clearMissedUpdates(socket));
+}
@@ -6,12 +6,27 @@ import config from '../../config/env.js';
 import { setupRoomHandlers } from './handlers/room-handler.js';
 import { setupFeatureHandlers } from './handlers/feature-handler.js';
 import { setupPolygonHandlers } from './handlers/polygon-handler.js';
+import { setupPointHandlers } from './handlers/point-handler.js';
+import { setupLineHandlers } from './handlers/line-handler.js';
+import { setupTextHandlers } from './handlers/text-handler.js';
+import { setupImageHandlers } from './handlers/image-handler.js';
 import { setupUserHandlers } from './handlers/user-handler.js';
 import { setupCommentHandlers } from './handlers/comment-handler.js';
 import { setupSelectionHandlers } from './handlers/selection-handler.js';
+import { setupUndoHandlers } from './handlers/undo-handler.js';
+import { setupGeometryDeltaHandlers } from './handlers/geometry-delta-handler.js';
+import { setupViewportHandlers } from './handlers/viewport-handler.js';
 import { setupConnectionMonitor } from './quality-monitor.js';
-import { SocketUser, Rooms, UserConnectionState } from '@/types/socket.js';
-import { generateRandomName } from '../../utils/nameGenerator.js';
+import { negotiatedParser, wantsMessagePack, useMessagePack } from './msgpack-parser.js';
+import { AdaptiveAdapter } from './adaptive-delivery.js';
+import { PostgresAdapter } from './postgres-adapter.js';
+import { startClusterNode, NODE_ID } from './cluster.js';
+import { SocketUser, UserConnectionState, PresenceHolder } from '@/types/socket.js';
+import { db } from '@/config/database.js';
+import { authenticateSocket, getSocketUser } from '../auth/index.js';
+import { getMapRole, canPerform } from '../auth/permissions.js';
+import { getSocketRole, setSocketRole } from './permissions.js';
+import { initFeatureLocks } from './feature-locks.js';
 
 // Configuration constants for user connections
 const USER_INACTIVE_TIMEOUT = 60 * 60 * 1000; // 1 hour (reduced from 4 hours)
@@ -21,10 +36,7 @@ const MAX_STORED_USERS = 10000; // Maximum number of users to store in memory
 // Singleton instance of the Socket.IO server
 let io: SocketIOServer;
 
-// Global rooms object to track users in each room
-const rooms: Rooms = {};
-
-// Track user connection states across reconnects
+// Track user connection states across reconnects (who is in each map is kept in the database)
 const userConnections: Record<string, UserConnectionState> = {};
 
 /**
@@ -48,6 +60,18 @@ export const initializeSocketIO = (server: http.Server): SocketIOServer => {
       // INCREASED from 3 minutes to 10 minutes for field users with spotty connections
       maxDisconnectionDuration: 2 * 60 * 1000, // 2 minutes
       skipMiddlewares: true,
+    },
+    // JSON by default, MessagePack for the clients that ask for it
+    parser: negotiatedParser,
+    // Broadcasts are batched and reduced for clients on poor connections,
+    // and relayed to the other servers through Postgres in cluster mode
+    adapter: config.cluster.enabled ? PostgresAdapter : AdaptiveAdapter
+  });
+  
+  // Connections opened with ?parser=msgpack get their packets as MessagePack
+  io.engine.on('connection', (conn) => {
+    if (wantsMessagePack(conn)) {
+      useMessagePack(conn);
     }
   });
   
@@ -56,14 +80,30 @@ export const initializeSocketIO = (server: http.Server): SocketIOServer => {
   console.log('[SOCKET] Enhanced connection reliability settings activated');
   console.log('[SOCKET] Disconnection recovery window: 10 minutes');
   
+  // Every connection must be authenticated - the user identity comes from the verified credentials
+  io.use(authenticateSocket);
+  
+  // Expire feature locks that are no longer renewed
+  initFeatureLocks(io);
+  
+  // Heartbeat of this server, clearing the presence left by servers that are gone
+  startClusterNode(io);
+  
+  // Membership changes made through another server
+  io.on('refresh-map-roles', (mapId: number) => {
+    refreshLocalMapRoles(mapId).catch(error => {
+      console.error(`[SOCKET] Error refreshing roles in map ${mapId}:`, error);
+    });
+  });
+  
   // Set up connection handler
   io.on('connection', (socket) => {
     const isReconnection = socket.recovered;
-    let clientId = socket.handshake.auth.clientId || socket.id;
+    const authUser = getSocketUser(socket);
+    const clientId = authUser.id;
     
-    // Check if this is a reconnect with a known client ID
-    if (socket.handshake.auth.clientId && userConnections[socket.handshake.auth.clientId]) {
-      clientId = socket.handshake.auth.clientId;
+    // Check if this is a reconnect of a known user
+    if (userConnections[clientId]) {
       console.log(`[SOCKET] User reconnected with client ID: ${clientId}`);
     } else {
       console.log(`[SOCKET] New user connected: ${clientId}`);
@@ -81,11 +121,13 @@ export const initializeSocketIO = (server: http.Server): SocketIOServer => {
         lastActivityByMap: {},
         reconnectCount: 0,
         lastRoom: null,
-        userName: generateRandomName()
+        userName: authUser.name
       };
     } else {
       userConnections[clientId].reconnectCount++;
       userConnections[clientId].lastSeen = Date.now();
+      // The name may have changed in a new token
+      userConnections[clientId].userName = authUser.name;
     }
     
     // Create user context object to be passed to all handlers
@@ -126,12 +168,19 @@ export const initializeSocketIO = (server: http.Server): SocketIOServer => {
     setupConnectionMonitor(socket, userContext);
     
     // Set up all handlers
-    setupRoomHandlers(io, userContext, rooms, userConnections);
-    setupUserHandlers(io, userContext, rooms);
-    setupFeatureHandlers(io, userContext, rooms);
-    setupPolygonHandlers(io, userContext, rooms);
-    setupCommentHandlers(io, userContext, rooms);
-    setupSelectionHandlers(io, userContext, rooms);
+    setupRoomHandlers(io, userContext, userConnections);
+    setupUserHandlers(io, userContext);
+    setupFeatureHandlers(io, userContext);
+    setupPolygonHandlers(io, userContext);
+    setupPointHandlers(io, userContext);
+    setupLineHandlers(io, userContext);
+    setupTextHandlers(io, userContext);
+    setupImageHandlers(io, userContext);
+    setupGeometryDeltaHandlers(io, userContext);
+    setupCommentHandlers(io, userContext);
+    setupSelectionHandlers(io, userContext);
+    setupUndoHandlers(io, userContext);
+    setupViewportHandlers(io, userContext);
     
     // Send client their connection info for recovery purposes
     socket.emit('connection-info', { 
@@ -169,10 +218,18 @@ export const initializeSocketIO = (server: http.Server): SocketIOServer => {
           delete userConnections[clientId];
         } else {
           // For temporary disconnects, keep the user in the system but mark as away in rooms
-          if (userContext.currentRoom && rooms[userContext.currentRoom] && rooms[userContext.currentRoom][clientId]) {
-            rooms[userContext.currentRoom][clientId].status = 'away';
-            socket.to(userContext.currentRoom).emit('user-away', clientId);
-            console.log(`[SOCKET] User ${clientId} marked as away in room ${userContext.currentRoom}`);
+          const roomId = userContext.currentRoom;
+          if (roomId) {
+            const mapId = parseInt(roomId.replace('map-', ''), 10);
+            db.setPresenceStatus(mapId, clientId, socket.id, 'away')
+              .then(updated => {
+                if (!updated) return;
+                io.to(roomId).emit('user-away', clientId);
+                console.log(`[SOCKET] User ${clientId} marked as away in room ${roomId}`);
+              })
+              .catch(error => {
+                console.error(`[SOCKET] Error marking user ${clientId} as away:`, error);
+              });
           }
         }
       } else {
@@ -191,6 +248,60 @@ export const initializeSocketIO = (server: http.Server): SocketIOServer => {
   return io;
 };
 
+/**
+ * Get the Socket.IO server instance (used by REST controllers to notify map rooms)
+ */
+export const getIO = (): SocketIOServer => io;
+
+/**
+ * Reload the roles of everyone connected to a map after its membership changed
+ * Users who lost access are removed from the room and told so
+ */
+export const refreshMapRoles = async (mapId: number): Promise<void> => {
+  if (config.cluster.enabled) {
+    io.serverSideEmit('refresh-map-roles', mapId);
+  }
+  await refreshLocalMapRoles(mapId);
+};
+
+/**
+ * Role refresh for the sockets connected to this server
+ */
+const refreshLocalMapRoles = async (mapId: number): Promise<void> => {
+  const roomId = `map-${mapId}`;
+  const sockets = await io.in(roomId).fetchSockets();
+  const roles: Record<string, Awaited<ReturnType<typeof getMapRole>>> = {};
+
+  for (const socket of sockets) {
+    const userId: string = socket.data.user.id;
+    if (!(userId in roles)) {
+      roles[userId] = await getMapRole(mapId, userId);
+    }
+
+    const role = roles[userId];
+    if (getSocketRole(socket) === role) continue;
+
+    setSocketRole(socket, role);
+    socket.emit('role-changed', { mapId, role });
+    console.log(`[SOCKET] Role of user ${userId} in map ${mapId} is now ${role || 'none'}`);
+
+    if (!canPerform(role, 'view')) {
+      socket.leave(roomId);
+      socket.emit('permission-denied', {
+        event: 'join-map',
+        action: 'view',
+        mapId,
+        role,
+        message: 'You were removed from this map'
+      });
+
+      if (await db.leaveMapPresence(mapId, userId, { socketId: socket.id })) {
+        io.to(roomId).emit('user-disconnected', userId);
+      }
+    }
+  }
+};
+
 /**
  * Clean up stale user connections
  */
@@ -203,9 +314,9 @@ function cleanupStaleUsers(): void {
       cleanupCount++;
       
       // Clean up user from all rooms
-      if (userConnections[clientId].lastRoom && rooms[userConnections[clientId].lastRoom]) {
-        delete rooms[userConnections[clientId].lastRoom][clientId];
-        io.to(userConnections[clientId].lastRoom).emit('user-disconnected', clientId);
+      const lastRoom = userConnections[clientId].lastRoom;
+      if (lastRoom) {
+        leavePresence(lastRoom, clientId, { nodeId: NODE_ID });
       }
       
       delete userConnections[clientId];
@@ -232,8 +343,9 @@ function cleanupOldestUsers(count: number): void {
   
   for (const userId of usersToRemove) {
     // Remove from rooms if present
-    if (userConnections[userId].lastRoom && rooms[userConnections[userId].lastRoom]) {
-      delete rooms[userConnections[userId].lastRoom][userId];
+    const lastRoom = userConnections[userId].lastRoom;
+    if (lastRoom) {
+      leavePresence(lastRoom, userId, { nodeId: NODE_ID });
     }
     
     // Delete the user connection state
@@ -248,14 +360,25 @@ function cleanupOldestUsers(count: number): void {
  * Clean up a user from all rooms
  */
 function cleanupUser(userContext: SocketUser): void {
-  if (userContext.currentRoom && rooms[userContext.currentRoom]) {
-    delete rooms[userContext.currentRoom][userContext.id];
-    
-    // Notify room members
-    userContext.socket.to(userContext.currentRoom).emit('user-disconnected', userContext.id);
-    
-    // Log remaining users in the room
-    const remainingUsers = Object.keys(rooms[userContext.currentRoom]).length;
-    console.log(`[SOCKET] Room ${userContext.currentRoom} now has ${remainingUsers} users`);
+  if (userContext.currentRoom) {
+    leavePresence(userContext.currentRoom, userContext.id, { socketId: userContext.socket.id });
   }
+}
+
+/**
+ * Remove a user from the presence of a map and notify its members
+ * Only while the given socket or server still holds it, since the user may have joined again elsewhere
+ */
+function leavePresence(roomId: string, userId: string, holder: PresenceHolder): void {
+  const mapId = parseInt(roomId.replace('map-', ''), 10);
+  
+  db.leaveMapPresence(mapId, userId, holder)
+    .then(removed => {
+      if (removed) {
+        io.to(roomId).emit('user-disconnected', userId);
+      }
+    })
+    .catch(error => {
+      console.error(`[SOCKET] Error removing user ${userId} from room ${roomId}:`, error);
+    });
 }
\ No newline at end of file
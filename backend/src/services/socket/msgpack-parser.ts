@@ -0,0 +1,323 @@
+// Path: services\socket\msgpack-parser.ts
+
+import { Socket } from 'socket.io';
+import { Encoder as JSONEncoder, Decoder as JSONDecoder, Packet, PacketType } from 'socket.io-parser';
+import { Emitter } from '@socket.io/component-emitter';
+import { encode, decode, ExtensionCodec } from '@msgpack/msgpack';
+
+type EngineSocket = Socket['conn'];
+
+// Query parameter clients connect with to get MessagePack packets
+const PARSER_QUERY_PARAM = 'parser';
+const MSGPACK_PARSER = 'msgpack';
+
+// MessagePack extension type of coordinate arrays packed as Float64Array bytes
+const COORDINATES_EXT_TYPE = 1;
+
+// Deepest nesting of the counts of a GeoJSON coordinate array (MultiPolygon: polygons > rings > positions)
+const MAX_COORDINATES_DEPTH = 3;
+
+/**
+ * Bytes sent to a MessagePack client, and what the same packets would have taken as JSON
+ */
+export interface TransportStats {
+  packets: number;
+  jsonBytes: number;
+  msgpackBytes: number;
+}
+
+/**
+ * Nested coordinate array flattened into a typed array
+ * `counts` keeps the nesting: null for a single position, the number of positions
+ * for an array of positions, or the counts of each child for deeper arrays
+ */
+class PackedCoordinates {
+  constructor(
+    readonly dimension: number,
+    readonly counts: any,
+    readonly values: Float64Array
+  ) {}
+}
+
+const extensionCodec = new ExtensionCodec();
+extensionCodec.register({
+  type: COORDINATES_EXT_TYPE,
+  encode: (input) => {
+    if (!(input instanceof PackedCoordinates)) return null;
+    return encode([
+      input.dimension,
+      input.counts,
+      new Uint8Array(input.values.buffer, input.values.byteOffset, input.values.byteLength)
+    ]);
+  },
+  decode: (data) => {
+    const [dimension, counts, bytes] = decode(data) as [unknown, unknown, unknown];
+    // Checked before anything is built, counts come from the client and could ask for huge arrays
+    if (!(bytes instanceof Uint8Array) || bytes.byteLength % Float64Array.BYTES_PER_ELEMENT !== 0 ||
+        !isPackingValid(dimension, counts, bytes.byteLength / Float64Array.BYTES_PER_ELEMENT)) {
+      throw new Error('Invalid packed coordinates');
+    }
+    // Copied so the Float64Array starts on an aligned offset
+    const values = new Float64Array(new Uint8Array(bytes).buffer);
+    return unpackCoordinates(dimension as number, counts, values);
+  }
+});
+
+/**
+ * Flatten a GeoJSON coordinate array, or null if it isn't one (empty arrays, mixed dimensions...)
+ */
+function packCoordinates(coordinates: any): PackedCoordinates | null {
+  const values: number[] = [];
+  let dimension = 0;
+  let valid = true;
+
+  const walk = (node: any): any => {
+    if (!valid || !Array.isArray(node) || node.length === 0) {
+      valid = false;
+      return null;
+    }
+
+    // A position
+    if (typeof node[0] === 'number') {
+      if (dimension === 0) dimension = node.length;
+      if (node.length !== dimension || node.some(value => typeof value !== 'number')) {
+        valid = false;
+        return null;
+      }
+      values.push(...node);
+      return null;
+    }
+
+    const children = node.map(walk);
+    if (!valid) return null;
+
+    // Children are either all positions or all nested arrays
+    if (children.every(child => child === null)) {
+      return node.length;
+    }
+    if (children.some(child => child === null)) {
+      valid = false;
+      return null;
+    }
+    return children;
+  };
+
+  const counts = walk(coordinates);
+  return valid ? new PackedCoordinates(dimension, counts, Float64Array.from(values)) : null;
+}
+
+/**
+ * Whether the dimension and counts of packed coordinates describe exactly valueCount values
+ */
+function isPackingValid(dimension: unknown, counts: unknown, valueCount: number): boolean {
+  if (dimension !== 2 && dimension !== 3) return false;
+
+  let positions = 0;
+
+  const walk = (node: unknown, depth: number): boolean => {
+    if (node === null) {
+      positions++;
+      return true;
+    }
+    if (typeof node === 'number') {
+      if (!Number.isInteger(node) || node < 0) return false;
+      positions += node;
+      return true;
+    }
+    if (!Array.isArray(node) || depth >= MAX_COORDINATES_DEPTH) return false;
+    return node.every(child => walk(child, depth + 1));
+  };
+
+  return walk(counts, 1) && positions * dimension === valueCount;
+}
+
+/**
+ * Rebuild the nested coordinate array of PackedCoordinates
+ */
+function unpackCoordinates(dimension: number, counts: any, values: Float64Array): any {
+  let offset = 0;
+
+  const position = (): number[] => {
+    const result = Array.from(values.subarray(offset, offset + dimension));
+    offset += dimension;
+    return result;
+  };
+
+  const build = (node: any): any => {
+    if (node === null) return position();
+    if (typeof node === 'number') return Array.from({ length: node }, position);
+    return node.map(build);
+  };
+
+  return build(counts);
+}
+
+/**
+ * Copy of a value with every `coordinates` array replaced by PackedCoordinates
+ * Only arrays and plain objects are copied, binary data is left as is
+ */
+function packGeometries(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(packGeometries);
+  }
+
+  if (value === null || typeof value !== 'object' || ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    return value;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(value)) {
+    const packed = key === 'coordinates' ? packCoordinates(value[key]) : null;
+    result[key] = packed || packGeometries(value[key]);
+  }
+  return result;
+}
+
+/**
+ * Encode a Socket.IO packet as a single MessagePack buffer
+ */
+function encodePacket(packet: Packet): Uint8Array {
+  return encode(
+    {
+      type: packet.type,
+      nsp: packet.nsp,
+      data: packGeometries(packet.data),
+      id: packet.id
+    },
+    { extensionCodec, ignoreUndefined: true }
+  );
+}
+
+/**
+ * Same checks the JSON decoder applies to a packet before it reaches the handlers
+ */
+function isPacketValid(packet: any): packet is Packet {
+  if (!packet || typeof packet !== 'object' || typeof packet.nsp !== 'string') return false;
+  if (packet.id !== undefined && !Number.isInteger(packet.id)) return false;
+
+  switch (packet.type) {
+    case PacketType.CONNECT:
+      return packet.data === undefined || (typeof packet.data === 'object' && packet.data !== null);
+    case PacketType.DISCONNECT:
+      return packet.data === undefined;
+    case PacketType.EVENT:
+      return Array.isArray(packet.data) && packet.data.length > 0 &&
+        (typeof packet.data[0] === 'string' || typeof packet.data[0] === 'number');
+    case PacketType.ACK:
+      return Array.isArray(packet.data);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Decoder of incoming packets for both kinds of client
+ * Clients using the default parser always start with a text packet, MessagePack clients with a binary one
+ */
+class Decoder extends Emitter<Record<string, never>, Record<string, never>, { decoded: (packet: Packet) => void }> {
+  private jsonDecoder: JSONDecoder | null = null;
+  private binary: boolean | null = null;
+
+  add(chunk: any): void {
+    if (this.binary === null) {
+      this.binary = typeof chunk !== 'string';
+      if (!this.binary) {
+        this.jsonDecoder = new JSONDecoder();
+        this.jsonDecoder.on('decoded', (packet) => this.emitReserved('decoded', packet));
+      }
+    }
+
+    if (this.jsonDecoder) {
+      this.jsonDecoder.add(chunk);
+      return;
+    }
+
+    if (typeof chunk === 'string') {
+      throw new Error('Unexpected text packet from a MessagePack client');
+    }
+
+    const packet = decode(chunk, { extensionCodec });
+    if (!isPacketValid(packet)) {
+      throw new Error('Invalid MessagePack packet');
+    }
+    this.emitReserved('decoded', packet);
+  }
+
+  destroy(): void {
+    this.jsonDecoder?.destroy();
+    this.jsonDecoder = null;
+  }
+}
+
+/**
+ * Socket.IO parser negotiated per client
+ * Packets are encoded once as JSON (shared by every client of a broadcast) and
+ * re-encoded by useMessagePack for the connections that asked for it
+ */
+export const negotiatedParser = {
+  Encoder: JSONEncoder,
+  Decoder
+};
+
+// Stats of the connections using MessagePack
+const transportStats = new WeakMap<EngineSocket, TransportStats>();
+
+/**
+ * Whether an engine connection asked for MessagePack packets
+ */
+export function wantsMessagePack(conn: EngineSocket): boolean {
+  const url = new URL(conn.request.url || '/', 'http://localhost');
+  return url.searchParams.get(PARSER_QUERY_PARAM) === MSGPACK_PARSER;
+}
+
+/**
+ * Send the packets of an engine connection as MessagePack
+ * What Socket.IO writes (JSON, plus binary attachments) is decoded back into packets and re-encoded
+ */
+export function useMessagePack(conn: EngineSocket): void {
+  const write = conn.write.bind(conn);
+  const decoder = new JSONDecoder();
+  const stats: TransportStats = { packets: 0, jsonBytes: 0, msgpackBytes: 0 };
+  let pendingOptions: any = {};
+  let pendingCallback: Parameters<EngineSocket['write']>[2];
+
+  transportStats.set(conn, stats);
+
+  decoder.on('decoded', (packet) => {
+    const encoded = encodePacket(packet);
+    stats.packets++;
+    stats.msgpackBytes += encoded.byteLength;
+    write(Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength), pendingOptions, pendingCallback);
+  });
+
+  conn.write = (data: any, options?: any, callback?: Parameters<EngineSocket['write']>[2]) => {
+    if (typeof options === 'function') {
+      callback = options;
+      options = {};
+    }
+
+    stats.jsonBytes += typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength;
+
+    // A frame pre-encoded for a broadcast holds the JSON packet, it can't be reused
+    const { wsPreEncodedFrame: _frame, ...rest } = options || {};
+    pendingOptions = rest;
+    pendingCallback = callback;
+
+    // Emits 'decoded' synchronously once the packet (and its attachments) is complete
+    decoder.add(data);
+    return conn;
+  };
+
+  conn.once('close', () => decoder.destroy());
+}
+
+/**
+ * Transport stats of a connection, or null when it uses the default JSON parser
+ */
+export function getTransportStats(conn: EngineSocket): TransportStats | null {
+  return transportStats.get(conn) || null;
+}
@@ -0,0 +1,43 @@
+// Path: services\socket\permissions.ts
+
+import { Socket } from 'socket.io';
+import { SocketUser } from '@/types/socket.js';
+import { MapRole } from '@/types/index.js';
+import { MapAction, canPerform, describeDenial } from '../auth/permissions.js';
+
+/**
+ * Role checks for socket events
+ * The role in the current map is loaded on join-map and kept in socket.data.mapRole,
+ * refreshed whenever the map membership changes (see refreshMapRoles)
+ */
+
+// Works with local sockets and the remote sockets returned by fetchSockets()
+type SocketWithData = Pick<Socket, 'data'>;
+
+export const getSocketRole = (socket: SocketWithData): MapRole | null => socket.data.mapRole ?? null;
+
+export const setSocketRole = (socket: SocketWithData, role: MapRole | null): void => {
+  socket.data.mapRole = role;
+};
+
+/**
+ * Check whether the user can perform an action in the current map
+ * When denied, the client gets a 'permission-denied' event telling why
+ */
+export function checkSocketPermission(user: SocketUser, action: MapAction, event: string): boolean {
+  const role = getSocketRole(user.socket);
+  if (canPerform(role, action)) return true;
+
+  const mapId = user.currentRoom ? parseInt(user.currentRoom.replace('map-', ''), 10) : null;
+  console.log(`[SOCKET] User ${user.id} denied ${event} on map ${mapId} (role: ${role || 'none'})`);
+
+  user.socket.emit('permission-denied', {
+    event,
+    action,
+    mapId,
+    role,
+    message: describeDenial(role, action)
+  });
+
+  return false;
+}
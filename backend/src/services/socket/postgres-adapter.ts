@@ -0,0 +1,207 @@
+// Path: services\socket\postgres-adapter.ts
+
+import { BroadcastOptions, Room } from 'socket.io-adapter';
+import config from '../../config/env.js';
+import { db } from '@/config/database.js';
+import { AdaptiveAdapter } from './adaptive-delivery.js';
+import { NODE_ID } from './cluster.js';
+
+// Channel every server listens on
+const CHANNEL = 'socket_io';
+
+// NOTIFY payloads must stay under 8000 bytes, larger messages go through the socket_payloads table
+const MAX_NOTIFY_BYTES = 7900;
+
+const RECONNECT_DELAY = 5000;
+
+type ClusterMessage =
+  | {
+      node: string;
+      nsp: string;
+      type: 'broadcast';
+      packet: any;
+      opts: { rooms: Room[]; except: Room[]; flags?: BroadcastOptions['flags'] };
+    }
+  | {
+      node: string;
+      nsp: string;
+      type: 'server-side-emit';
+      args: any[];
+    };
+
+// What is actually notified, the message itself or where to find it
+type Notification = ClusterMessage | { node: string; payloadId: string };
+
+/**
+ * JSON with Buffers kept as base64 (Buffer.toJSON would turn them into arrays of numbers)
+ */
+const serialize = (message: ClusterMessage): string =>
+  JSON.stringify(message, (_key, value) =>
+    value && value.type === 'Buffer' && Array.isArray(value.data)
+      ? { $binary: Buffer.from(value.data).toString('base64') }
+      : value
+  );
+
+const deserialize = (payload: string): Notification =>
+  JSON.parse(payload, (_key, value) =>
+    value && typeof value.$binary === 'string' ? Buffer.from(value.$binary, 'base64') : value
+  );
+
+/**
+ * Socket.IO adapter relaying broadcasts between servers through Postgres LISTEN/NOTIFY
+ * Each server delivers to its own sockets, so running several behind a load balancer
+ * only needs sticky sessions (connection state recovery stays on the server that had the socket)
+ */
+export class PostgresAdapter extends AdaptiveAdapter {
+  private listener: any = null;
+  private closed = false;
+  // Publishing and receiving are chained so messages keep their order
+  private publishing: Promise<void> = Promise.resolve();
+  private receiving: Promise<void> = Promise.resolve();
+
+  init(): void {
+    this.listen();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.listener) {
+      this.listener.done();
+      this.listener = null;
+    }
+  }
+
+  async serverCount(): Promise<number> {
+    return db.countLiveNodes(config.cluster.nodeTtlMs);
+  }
+
+  broadcast(packet: any, opts: BroadcastOptions): void {
+    if (!opts.flags?.local && !this.isLocalOnly(opts)) {
+      // Serialized before the local broadcast, which appends the session offset to the packet
+      this.publish({
+        node: NODE_ID,
+        nsp: this.nsp.name,
+        type: 'broadcast',
+        packet,
+        opts: { rooms: [...opts.rooms], except: [...(opts.except ?? [])], flags: opts.flags }
+      });
+    }
+
+    super.broadcast(packet, opts);
+  }
+
+  serverSideEmit(packet: any[]): void {
+    if (typeof packet[packet.length - 1] === 'function') {
+      throw new Error('Acknowledgements are not supported by the Postgres adapter');
+    }
+
+    this.publish({ node: NODE_ID, nsp: this.nsp.name, type: 'server-side-emit', args: packet });
+  }
+
+  /**
+   * Emits to sockets of this server (single socket emits, which are most of them)
+   * have no reason to go through the other servers
+   */
+  private isLocalOnly(opts: BroadcastOptions): boolean {
+    if (opts.rooms.size === 0) return false;
+    return [...opts.rooms].every(room => this.nsp.sockets.has(room));
+  }
+
+  private publish(message: ClusterMessage): void {
+    let payload: string;
+    try {
+      payload = serialize(message);
+    } catch (error) {
+      console.error('[CLUSTER] Could not serialize broadcast:', error);
+      return;
+    }
+
+    this.publishing = this.publishing
+      .then(async () => {
+        if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+          const payloadId = await db.storeSocketPayload(payload);
+          payload = JSON.stringify({ node: NODE_ID, payloadId });
+        }
+        await db.none('SELECT pg_notify($1, $2)', [CHANNEL, payload]);
+      })
+      .catch(error => {
+        console.error('[CLUSTER] Could not publish broadcast:', error);
+      });
+  }
+
+  private receive(payload: string): void {
+    let notification: Notification;
+    try {
+      notification = deserialize(payload);
+    } catch (error) {
+      console.error('[CLUSTER] Invalid message:', error);
+      return;
+    }
+
+    if (notification.node === NODE_ID) return;
+
+    this.receiving = this.receiving
+      .then(async () => {
+        let message: ClusterMessage;
+        if ('payloadId' in notification) {
+          const stored = await db.getSocketPayload(notification.payloadId);
+          if (!stored) {
+            console.warn(`[CLUSTER] Payload ${notification.payloadId} not found`);
+            return;
+          }
+          message = deserialize(stored) as ClusterMessage;
+        } else {
+          message = notification;
+        }
+
+        if (message.nsp !== this.nsp.name) return;
+
+        if (message.type === 'broadcast') {
+          super.broadcast(message.packet, {
+            rooms: new Set(message.opts.rooms),
+            except: new Set(message.opts.except),
+            flags: { ...message.opts.flags, local: true }
+          });
+        } else {
+          this.nsp._onServerSideEmit(message.args);
+        }
+      })
+      .catch(error => {
+        console.error('[CLUSTER] Could not deliver message:', error);
+      });
+  }
+
+  /**
+   * Keep a dedicated connection listening for the other servers, reconnecting when it is lost
+   */
+  private async listen(): Promise<void> {
+    if (this.closed) return;
+
+    try {
+      this.listener = await db.connect({
+        direct: true,
+        onLost: () => {
+          console.warn('[CLUSTER] Lost the LISTEN connection, reconnecting...');
+          this.listener = null;
+          setTimeout(() => this.listen(), RECONNECT_DELAY);
+        }
+      });
+
+      this.listener.client.on('notification', (notification: { channel: string; payload?: string }) => {
+        if (notification.channel === CHANNEL && notification.payload) {
+          this.receive(notification.payload);
+        }
+      });
+
+      await this.listener.none('LISTEN $1:name', CHANNEL);
+      console.log(`[CLUSTER] Listening for broadcasts of namespace ${this.nsp.name}`);
+    } catch (error) {
+      console.error('[CLUSTER] Could not listen for broadcasts:', error);
+      if (this.listener) {
+        this.listener.done();
+        this.listener = null;
+      }
+      setTimeout(() => this.listen(), RECONNECT_DELAY);
+    }
+  }
+}
@@ -1,7 +1,9 @@
 // Path: services\socket\quality-monitor.ts
 
 import { Socket } from 'socket.io';
-import { SocketUser } from '@/types/socket.js';
+import { SocketUser, AdaptiveSettings } from '@/types/socket.js';
+import { getTransportStats } from './msgpack-parser.js';
+import { setAdaptiveSettings } from './adaptive-delivery.js';
 
 // We define our own Connection Quality type internally
 type ConnectionQuality = 'excellent' | 'good' | 'poor' | 'critical';
@@ -16,6 +18,7 @@ interface ConnectionStats {
   samples: number;
   checkInterval: NodeJS.Timeout | null;
   lastActive: number; // Timestamp when this connection was last active
+  bytesSaved: number; // Bytes MessagePack saved over JSON (0 for JSON clients)
 }
 
 // Configuration constants
@@ -51,7 +54,8 @@ export function setupConnectionMonitor(socket: Socket, user: SocketUser): void {
     lastCheck: Date.now(),
     samples: 0,
     checkInterval: null,
-    lastActive: Date.now()
+    lastActive: Date.now(),
+    bytesSaved: 0
   };
   
   console.log(`[CONNECTION] Starting quality monitoring for user ${user.id}`);
@@ -104,6 +108,8 @@ export function setupConnectionMonitor(socket: Socket, user: SocketUser): void {
   // Clean up on disconnect
   socket.on('disconnect', () => {
     if (connectionStats[user.id]) {
+      updateTransportStats(socket, user.id);
+      
       const interval = connectionStats[user.id].checkInterval;
       if (interval) {
         clearInterval(interval);
@@ -131,10 +137,22 @@ function checkConnectionQuality(socket: Socket, userId: string): void {
   connectionStats[userId].lastCheck = timestamp;
   connectionStats[userId].lastActive = timestamp;
   
+  updateTransportStats(socket, userId);
+  
   // Send ping with current timestamp as ID
   socket.emit('latency-check', { id: timestamp });
 }
 
+/**
+ * Update the bytes saved by the MessagePack transport of a user's connection
+ */
+function updateTransportStats(socket: Socket, userId: string): void {
+  const transport = getTransportStats(socket.conn);
+  if (!transport || !connectionStats[userId]) return;
+  
+  connectionStats[userId].bytesSaved = transport.jsonBytes - transport.msgpackBytes;
+}
+
 /**
  * Update latency statistics for a user
  */
@@ -195,6 +213,7 @@ function assessConnectionQuality(socket: Socket, userId: string): void {
     socket.emit('connection-quality', {
       quality: newQuality,
       latency: stats.latencyAvg,
+      bytesSaved: stats.bytesSaved,
       timestamp: Date.now()
     });
     
@@ -207,8 +226,8 @@ function assessConnectionQuality(socket: Socket, userId: string): void {
  * Apply adaptive settings based on connection quality
  */
 function applyAdaptiveSettings(socket: Socket, quality: ConnectionQuality): void {
-  // Suggest client-side adaptations
-  const adaptations: Record<string, any> = {};
+  // Applied to what the server sends, and suggested to the client
+  const adaptations = {} as AdaptiveSettings;
   
   switch (quality) {
     case 'excellent':
@@ -245,6 +264,8 @@ function applyAdaptiveSettings(socket: Socket, quality: ConnectionQuality): void
       break;
   }
   
+  setAdaptiveSettings(socket, adaptations);
+  
   // Send adaptive settings to client
   socket.emit('adaptive-settings', {
     quality,
@@ -0,0 +1,315 @@
+// Path: services\socket\viewport-subscriptions.ts
+
+import { Socket } from 'socket.io';
+import { BroadcastOptions, Room, SocketId } from 'socket.io-adapter';
+import { Viewport, ViewportBounds } from '@/types/socket.js';
+
+// Share of the viewport added on each side, so what is just off screen still arrives
+const VIEWPORT_MARGIN = 0.25;
+
+// Missed feature updates remembered per socket; past this the whole viewport is reloaded instead
+const MAX_MISSED_FEATURES = 5000;
+
+// Locations of the latest updates that went through, to keep delivering updates moving out of a viewport
+const MAX_KNOWN_LOCATIONS = 20000;
+
+interface ScopedLocation {
+  id: string;
+  bounds: ViewportBounds;
+}
+
+// What a broadcast updates and where
+// A preview (live drag) is shown where it goes, but the stored feature stays where it was
+interface ScopedUpdate {
+  kind: 'feature' | 'cursor' | 'preview';
+  locations: ScopedLocation[];
+}
+
+const featureLocation = (feature: any): ScopedLocation | null => {
+  const bounds = geometryBounds(feature?.geometry);
+  return bounds && feature.id !== undefined ? { id: String(feature.id), bounds } : null;
+};
+
+const featureUpdate = (feature: any): ScopedUpdate | null => {
+  const location = featureLocation(feature);
+  return location ? { kind: 'feature', locations: [location] } : null;
+};
+
+// Where a feature is dragged to - the offset applies to its stored geometry, so to its last known location
+const dragPreview = (data: any): ScopedUpdate | null => {
+  const { lng, lat } = data?.offset || {};
+  const known = data?.featureId !== undefined ? knownLocations.get(`feature:${data.featureId}`) : undefined;
+  if (!known || typeof lng !== 'number' || typeof lat !== 'number') return null;
+
+  return { kind: 'preview', locations: [{ id: String(data.featureId), bounds: shiftBounds(known, lng, lat) }] };
+};
+
+// Broadcast events scoped to viewports
+// Events about features whose location isn't known yet go to everyone
+const SCOPED_EVENTS: Record<string, (data: any) => ScopedUpdate | null> = {
+  'feature-created': data => featureUpdate(data?.feature),
+  'feature-updated': data => featureUpdate(data?.feature),
+  'features-imported': data => {
+    const locations = (Array.isArray(data?.features) ? data.features : [])
+      .map(featureLocation)
+      .filter((location: ScopedLocation | null): location is ScopedLocation => location !== null);
+    return locations.length > 0 ? { kind: 'feature', locations } : null;
+  },
+  // Moved/inserted vertices are added to the translated location (removed ones may leave it a bit large)
+  'feature-geometry-delta': data => {
+    const known = data?.featureId !== undefined ? knownLocations.get(`feature:${data.featureId}`) : undefined;
+    const delta = data?.delta;
+    if (!known || !delta || typeof delta !== 'object') return null;
+
+    const { translate } = delta;
+    let bounds = translate && typeof translate.lng === 'number' && typeof translate.lat === 'number' ?
+      shiftBounds(known, translate.lng, translate.lat) :
+      known;
+
+    const positions = (Array.isArray(delta.vertices) ? delta.vertices : []).map((vertex: any) => vertex?.position);
+    const vertexBounds = geometryBounds({ coordinates: positions });
+    if (vertexBounds) {
+      bounds = unionBounds(bounds, vertexBounds);
+    }
+
+    return { kind: 'feature', locations: [{ id: String(data.featureId), bounds }] };
+  },
+  'point-dragging': dragPreview,
+  'line-dragging': dragPreview,
+  'polygon-dragging': dragPreview,
+  'text-dragging': dragPreview,
+  'image-dragging': dragPreview,
+  'user-move': data => {
+    const { lng, lat } = data?.position || {};
+    if (data?.id === undefined || typeof lng !== 'number' || typeof lat !== 'number') return null;
+    return { kind: 'cursor', locations: [{ id: String(data.id), bounds: { minLng: lng, minLat: lat, maxLng: lng, maxLat: lat } }] };
+  }
+};
+
+interface ViewportSubscription {
+  bounds: ViewportBounds; // Viewport with its margin
+  missedFeatures: Map<string, ViewportBounds>; // Feature id -> where the update that wasn't sent was
+  missedCursors: Map<string, any>; // User id -> last user-move that wasn't sent
+  reloadViewport: boolean; // Too many missed features to track them one by one
+}
+
+/**
+ * Updates a socket didn't get while they were out of its viewport and can now see
+ */
+export interface ViewportCatchUp {
+  featureIds: string[];
+  cursors: any[];
+  reloadViewport: boolean; // Missed updates weren't all tracked, every feature in view must be sent
+}
+
+// Sockets that only get what is in their viewport, by socket id
+const subscriptions = new Map<SocketId, ViewportSubscription>();
+
+// Last location of each feature/cursor, by kind and id
+const knownLocations = new Map<string, ViewportBounds>();
+
+/**
+ * Bounding box of a GeoJSON geometry, or null if it has no valid coordinates
+ */
+function geometryBounds(geometry: any): ViewportBounds | null {
+  if (!geometry || !Array.isArray(geometry.coordinates)) return null;
+
+  const bounds = { minLng: Infinity, minLat: Infinity, maxLng: -Infinity, maxLat: -Infinity };
+
+  const walk = (node: any[]) => {
+    if (typeof node[0] === 'number' && typeof node[1] === 'number') {
+      bounds.minLng = Math.min(bounds.minLng, node[0]);
+      bounds.minLat = Math.min(bounds.minLat, node[1]);
+      bounds.maxLng = Math.max(bounds.maxLng, node[0]);
+      bounds.maxLat = Math.max(bounds.maxLat, node[1]);
+      return;
+    }
+    node.forEach(child => Array.isArray(child) && walk(child));
+  };
+  walk(geometry.coordinates);
+
+  return bounds.minLng <= bounds.maxLng ? bounds : null;
+}
+
+const shiftBounds = (bounds: ViewportBounds, lng: number, lat: number): ViewportBounds => ({
+  minLng: bounds.minLng + lng,
+  minLat: bounds.minLat + lat,
+  maxLng: bounds.maxLng + lng,
+  maxLat: bounds.maxLat + lat
+});
+
+const unionBounds = (a: ViewportBounds, b: ViewportBounds): ViewportBounds => ({
+  minLng: Math.min(a.minLng, b.minLng),
+  minLat: Math.min(a.minLat, b.minLat),
+  maxLng: Math.max(a.maxLng, b.maxLng),
+  maxLat: Math.max(a.maxLat, b.maxLat)
+});
+
+const intersects = (a: ViewportBounds, b: ViewportBounds): boolean =>
+  a.minLng <= b.maxLng && a.maxLng >= b.minLng && a.minLat <= b.maxLat && a.maxLat >= b.minLat;
+
+const withMargin = (viewport: ViewportBounds): ViewportBounds => {
+  const lngMargin = (viewport.maxLng - viewport.minLng) * VIEWPORT_MARGIN;
+  const latMargin = (viewport.maxLat - viewport.minLat) * VIEWPORT_MARGIN;
+  return {
+    minLng: viewport.minLng - lngMargin,
+    minLat: viewport.minLat - latMargin,
+    maxLng: viewport.maxLng + lngMargin,
+    maxLat: viewport.maxLat + latMargin
+  };
+};
+
+/**
+ * Remember where a feature/cursor now is, dropping the oldest locations past the limit
+ */
+function rememberLocation(key: string, bounds: ViewportBounds): void {
+  knownLocations.delete(key);
+  knownLocations.set(key, bounds);
+
+  if (knownLocations.size > MAX_KNOWN_LOCATIONS) {
+    knownLocations.delete(knownLocations.keys().next().value!);
+  }
+}
+
+/**
+ * Drop what is known about the cursor of a user who left, so it doesn't come back in a catch-up
+ */
+function forgetCursor(userId: string): void {
+  knownLocations.delete(`cursor:${userId}`);
+  for (const subscription of subscriptions.values()) {
+    subscription.missedCursors.delete(userId);
+  }
+}
+
+/**
+ * Register the viewport of a socket, returning the missed updates it now covers
+ */
+export function setViewport(socket: Socket, viewport: Viewport): ViewportCatchUp {
+  let subscription = subscriptions.get(socket.id);
+
+  if (!subscription) {
+    subscription = {
+      bounds: withMargin(viewport),
+      missedFeatures: new Map(),
+      missedCursors: new Map(),
+      reloadViewport: false
+    };
+    subscriptions.set(socket.id, subscription);
+    socket.once('disconnect', () => subscriptions.delete(socket.id));
+    return { featureIds: [], cursors: [], reloadViewport: false };
+  }
+
+  subscription.bounds = withMargin(viewport);
+
+  const catchUp: ViewportCatchUp = { featureIds: [], cursors: [], reloadViewport: subscription.reloadViewport };
+  subscription.reloadViewport = false;
+
+  if (catchUp.reloadViewport) {
+    subscription.missedFeatures.clear();
+  }
+
+  for (const [featureId, bounds] of subscription.missedFeatures) {
+    if (intersects(bounds, subscription.bounds)) {
+      catchUp.featureIds.push(featureId);
+      subscription.missedFeatures.delete(featureId);
+    }
+  }
+
+  for (const [userId, move] of subscription.missedCursors) {
+    const { lng, lat } = move.position;
+    if (intersects({ minLng: lng, minLat: lat, maxLng: lng, maxLat: lat }, subscription.bounds)) {
+      catchUp.cursors.push(move);
+      subscription.missedCursors.delete(userId);
+    }
+  }
+
+  return catchUp;
+}
+
+/**
+ * Stop filtering the broadcasts of a socket by viewport
+ */
+export function clearViewport(socket: Socket): void {
+  subscriptions.delete(socket.id);
+}
+
+/**
+ * Forget the updates a socket missed (it joined or left a map, and loads it again anyway)
+ */
+export function clearMissedUpdates(socket: Socket): void {
+  const subscription = subscriptions.get(socket.id);
+  if (!subscription) return;
+
+  subscription.missedFeatures.clear();
+  subscription.missedCursors.clear();
+  subscription.reloadViewport = false;
+}
+
+/**
+ * Broadcast options leaving out the sockets that can't see a feature or cursor update
+ * Sockets that didn't register a viewport get every update
+ */
+export function scopeToViewports(
+  sids: Map<SocketId, Set<Room>>,
+  opts: BroadcastOptions,
+  args: any[]
+): BroadcastOptions {
+  const [event, data] = args;
+
+  if (event === 'user-disconnected') {
+    forgetCursor(String(data));
+    return opts;
+  }
+
+  const update = SCOPED_EVENTS[event]?.(data);
+  if (!update) return opts;
+
+  // Previews don't move the stored feature, so its location stays as it was
+  const locationKind = update.kind === 'cursor' ? 'cursor' : 'feature';
+  const previous = update.locations.map(({ id }) => knownLocations.get(`${locationKind}:${id}`));
+  if (update.kind !== 'preview') {
+    for (const { id, bounds } of update.locations) {
+      rememberLocation(`${locationKind}:${id}`, bounds);
+    }
+  }
+
+  if (subscriptions.size === 0) return opts;
+
+  let except: Set<Room> | null = null;
+
+  for (const [socketId, subscription] of subscriptions) {
+    const socketRooms = sids.get(socketId);
+    if (!socketRooms) continue;
+
+    // Emits to the socket itself aren't broadcasts
+    if (opts.rooms.size === 1 && opts.rooms.has(socketId)) continue;
+
+    const inRooms = opts.rooms.size === 0 || [...opts.rooms].some(room => socketRooms.has(room));
+    const excluded = opts.except && [...opts.except].some(room => socketRooms.has(room));
+    if (!inRooms || excluded) continue;
+
+    // Updates moving something out of the viewport still go through, so it doesn't stay where it was
+    const visible = update.locations.some(({ bounds }, index) =>
+      intersects(bounds, subscription.bounds) ||
+      (previous[index] !== undefined && intersects(previous[index]!, subscription.bounds)));
+    if (visible) continue;
+
+    // Missed previews need no catch-up, the drop arrives as an update
+    if (update.kind === 'cursor') {
+      subscription.missedCursors.set(update.locations[0].id, data);
+    } else if (update.kind === 'feature') {
+      for (const { id, bounds } of update.locations) {
+        if (subscription.missedFeatures.size < MAX_MISSED_FEATURES || subscription.missedFeatures.has(id)) {
+          subscription.missedFeatures.set(id, bounds);
+        } else {
+          subscription.reloadViewport = true;
+        }
+      }
+    }
+
+    except = except || new Set(opts.except);
+    except.add(socketId);
+  }
+
+  return except ? { ...opts, except } : opts;
+}
@@ -0,0 +1,27 @@
+// Path: types\auth.ts
+
+/**
+ * Identity of an authenticated user
+ */
+export interface AuthenticatedUser {
+  id: string;
+  name: string;
+}
+
+/**
+ * Credentials presented by a client
+ * userId/userName are only trusted by the dev provider
+ */
+export interface AuthCredentials {
+  token?: string | null;
+  userId?: string | null;
+  userName?: string | null;
+}
+
+/**
+ * Verifies credentials and resolves the user identity
+ */
+export interface AuthProvider {
+  readonly name: string;
+  authenticate(credentials: AuthCredentials): Promise<AuthenticatedUser>;
+}
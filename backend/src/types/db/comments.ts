@@ -1,11 +1,17 @@
 // Path: types\db\comments.ts
 
-import { Comment, Reply } from '../index.js';
+import { Comment, CommentStatus, Reply } from '../index.js';
 
 // Comment-related database extensions
 export interface ICommentExtensions {
   // Comments methods
-  getMapComments(mapId: number): Promise<Comment[]>;
+  getMapComments(mapId: number, statuses?: CommentStatus[]): Promise<Comment[]>;
+  forEachMapCommentBatch(
+    mapId: number,
+    batchSize: number,
+    onBatch: (comments: Comment[]) => Promise<void>
+  ): Promise<void>;
+  getFeatureComments(featureId: string, statuses?: CommentStatus[]): Promise<Comment[]>;
   getCommentReplies(commentId: string): Promise<Reply[]>;
   getCommentByClientId(clientId: string, mapId: number): Promise<Comment | null>;
   createComment(data: {
@@ -15,6 +21,7 @@ export interface ICommentExtensions {
     content: string;
     lng: number;
     lat: number;
+    feature_id?: string | null;
     client_id?: string;
     offline_created?: boolean;
   }): Promise<Comment>;
@@ -25,6 +32,12 @@ export interface ICommentExtensions {
     lng: number,
     lat: number,
   ): Promise<Comment | null>;
+  setCommentStatus(
+    id: string,
+    status: CommentStatus,
+    userId: string,
+    userName: string,
+  ): Promise<Comment | null>;
   deleteComment(id: string): Promise<boolean>;
   
   // New sync methods
@@ -1,14 +1,21 @@
 // Path: types\db\features.ts
 
-import { Feature } from '../feature.types.js';
-import { FeatureHistory } from '../history.types.js';
+import { Feature, UpdateFeatureResult, RestoreFeatureResult } from '../feature.types.js';
+import { FeatureHistory, UndoRedoHistoryDTO } from '../history.types.js';
 
 // Feature-related database extensions
 export interface IFeatureExtensions {
   // Feature methods
   getMapFeatures(mapId: number): Promise<Feature[]>;
+  forEachMapFeatureBatch(
+    mapId: number,
+    batchSize: number,
+    onBatch: (features: Feature[]) => Promise<void>
+  ): Promise<void>;
   getMapFeaturesByType(mapId: number, featureType: string): Promise<Feature[]>;
   getFeature(id: string): Promise<Feature | null>;
+  getFeaturesByIds(mapId: number, ids: string[], tolerance?: number): Promise<Feature[]>;
+  getMapFeatureIds(mapId: number, ids: string[]): Promise<string[]>;
   getFeatureByClientId(clientId: string, mapId: number): Promise<Feature | null>;
   createFeature(data: {
     map_id: number;
@@ -26,10 +33,12 @@ export interface IFeatureExtensions {
       geometry?: any;
       properties?: Record<string, any>;
       version: number;
+      merge?: boolean;
     }, 
     userId: string,
     userName: string
-  ): Promise<{ success: boolean; feature?: Feature; currentVersion?: number }>;
+  ): Promise<UpdateFeatureResult>;
+  restoreFeature(feature: Feature, userId: string, userName: string): Promise<RestoreFeatureResult>;
   deleteFeature(id: string): Promise<boolean>;
   bulkDeleteFeatures(ids: string[]): Promise<number>;
   getFeaturesInBounds(
@@ -37,15 +46,19 @@ export interface IFeatureExtensions {
     minLng: number,
     minLat: number,
     maxLng: number,
-    maxLat: number
+    maxLat: number,
+    tolerance?: number
   ): Promise<Feature[]>;
+  getMapTile(mapId: number, z: number, x: number, y: number): Promise<Buffer>;
+  getMapFeaturesVersion(mapId: number): Promise<number>;
   
   // New sync methods
   getUpdatedFeatures(
     mapId: number,
     since: number,
     page?: number,
-    limit?: number
+    limit?: number,
+    tolerance?: number
   ): Promise<Feature[]>;
   
   getFeaturesInViewportSince(
@@ -56,7 +69,8 @@ export interface IFeatureExtensions {
     maxLat: number,
     since: number,
     page?: number,
-    limit?: number
+    limit?: number,
+    tolerance?: number
   ): Promise<Feature[]>;
   
   getUpdatedFeaturesCount(
@@ -104,4 +118,9 @@ export interface IFeatureExtensions {
   ): Promise<string[]>;
   
   getOperationByClientId(clientOperationId: string): Promise<FeatureHistory | null>;
+  
+  // Undo/redo methods
+  recordUndoRedo(data: UndoRedoHistoryDTO): Promise<FeatureHistory>;
+  getLastUndoableOperation(mapId: number, userId: string): Promise<FeatureHistory | null>;
+  getLastRedoableOperation(mapId: number, userId: string): Promise<FeatureHistory | null>;
 }
\ No newline at end of file
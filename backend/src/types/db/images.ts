@@ -0,0 +1,14 @@
+// Path: types\db\images.ts
+
+import { FeatureImage, FeatureImageMetadata, SaveFeatureImageDTO } from '../feature.types.js';
+
+// Feature image database extensions
+export interface IImageExtensions {
+  saveFeatureImage(data: SaveFeatureImageDTO): Promise<FeatureImageMetadata>;
+  getFeatureImage(featureId: string): Promise<FeatureImage | null>;
+  getFeatureImageThumbnail(
+    featureId: string
+  ): Promise<(FeatureImageMetadata & { thumbnail: Buffer | null }) | null>;
+  getFeatureImageMetadata(featureId: string): Promise<FeatureImageMetadata | null>;
+  deleteFeatureImage(featureId: string): Promise<boolean>;
+}
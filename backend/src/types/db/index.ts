@@ -4,12 +4,18 @@ import { IDatabase } from 'pg-promise';
 import { IMapExtensions } from './maps.js';
 import { IFeatureExtensions } from './features.js';
 import { ICommentExtensions } from './comments.js';
+import { IImageExtensions } from './images.js';
+import { IMemberExtensions } from './members.js';
+import { IPresenceExtensions } from './presence.js';
 
 // Combine all extensions internally - IDB is the only exported type
 interface IExtensions extends 
   IMapExtensions,
   IFeatureExtensions,
-  ICommentExtensions
+  ICommentExtensions,
+  IImageExtensions,
+  IMemberExtensions,
+  IPresenceExtensions
 {}
 
 // Export the combined types
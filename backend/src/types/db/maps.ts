@@ -6,6 +6,7 @@ import { Map } from '../index.js';
 export interface IMapExtensions {
   // Maps methods
   getMaps(): Promise<Map[]>;
+  getMapsForUser(userId: string): Promise<Map[]>;
   getMap(id: number): Promise<Map | null>;
   createMap(name: string, description: string | null): Promise<Map>;
   updateMap(
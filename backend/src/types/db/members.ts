@@ -0,0 +1,19 @@
+// Path: types\db\members.ts
+
+import { MapMember, MapRole } from '../index.js';
+
+// Map membership database extensions
+export interface IMemberExtensions {
+  getMapMembers(mapId: number): Promise<MapMember[]>;
+  getMapMember(mapId: number, userId: string): Promise<MapMember | null>;
+  hasMapMembers(mapId: number): Promise<boolean>;
+  setMapMember(
+    mapId: number,
+    userId: string,
+    userName: string | null,
+    role: MapRole,
+    addedBy: string | null,
+  ): Promise<MapMember>;
+  removeMapMember(mapId: number, userId: string): Promise<boolean>;
+  countMapOwners(mapId: number): Promise<number>;
+}
@@ -0,0 +1,40 @@
+// Path: types\db\presence.ts
+
+import { RoomUser, FeatureSelection, PresenceHolder, FeatureLock, FeatureLockMode, LockAcquireResult } from '../socket.js';
+
+// Presence, selection, feature lock and socket server node database extensions
+export interface IPresenceExtensions {
+  getMapPresence(mapId: number): Promise<RoomUser[]>;
+  joinMapPresence(mapId: number, userId: string, userName: string, nodeId: string, socketId: string): Promise<RoomUser>;
+  leaveMapPresence(mapId: number, userId: string, holder?: PresenceHolder): Promise<boolean>;
+  setPresenceStatus(mapId: number, userId: string, socketId: string, status: 'active' | 'away'): Promise<boolean>;
+  updatePresencePosition(mapId: number, userId: string, lng: number, lat: number): Promise<void>;
+  removeOrphanedPresence(ttlMs: number): Promise<{ map_id: number; user_id: string }[]>;
+  getMapSelections(mapId: number): Promise<FeatureSelection[]>;
+  setUserSelection(mapId: number, userId: string, userName: string, holder: Required<PresenceHolder>, featureIds: string[]): Promise<void>;
+  clearUserSelection(userId: string, mapId: number, holder?: PresenceHolder): Promise<boolean>;
+  removeOrphanedSelections(ttlMs: number): Promise<{ map_id: number; user_id: string }[]>;
+  getBlockingFeatureLocks(featureIds: string[], userId: string): Promise<FeatureLock[]>;
+  getMapFeatureLocks(mapId: number): Promise<FeatureLock[]>;
+  acquireFeatureLocks(
+    mapId: number,
+    userId: string,
+    userName: string,
+    socketId: string,
+    featureIds: string[],
+    mode: FeatureLockMode,
+    takeOver: boolean,
+    ttlMs: number
+  ): Promise<LockAcquireResult>;
+  renewFeatureLocks(userId: string, featureIds: string[] | null, ttlMs: number): Promise<FeatureLock[]>;
+  releaseUserFeatureLocks(userId: string, mapId: number, keepFeatureIds?: string[]): Promise<FeatureLock[]>;
+  releaseSocketFeatureLocks(socketId: string): Promise<FeatureLock[]>;
+  releaseFeatureLocks(featureIds: string[]): Promise<FeatureLock[]>;
+  releaseExpiredFeatureLocks(): Promise<FeatureLock[]>;
+  nodeHeartbeat(nodeId: string): Promise<void>;
+  removeDeadNodes(ttlMs: number): Promise<string[]>;
+  countLiveNodes(ttlMs: number): Promise<number>;
+  storeSocketPayload(payload: string): Promise<string>;
+  getSocketPayload(id: string): Promise<string | null>;
+  removeOldSocketPayloads(maxAgeMs: number): Promise<number>;
+}
@@ -0,0 +1,23 @@
+// Path: types\export.types.ts
+
+import { Map } from './index.js';
+
+// Feature (or comment) as written to an export, in GeoJSON form
+// Styling, attributes and author/version metadata are all in properties
+export interface ExportedFeature {
+  type: 'Feature';
+  id: string;
+  geometry: any;
+  properties: Record<string, any>;
+}
+
+// Serializes exported features into a file format, one chunk at a time
+export interface ExportWriter {
+  format: string;
+  contentType: string;
+  extension: string;
+  archive?: string; // Name of the document in a zip archive, for zipped formats (e.g. KMZ)
+  start(map: Map): string;
+  feature(feature: ExportedFeature, index: number): string;
+  end(): string;
+}
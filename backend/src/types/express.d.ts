@@ -0,0 +1,14 @@
+// Path: types\express.d.ts
+
+import { AuthenticatedUser } from './auth.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by the authentication middleware
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+export {};
@@ -1,5 +1,7 @@
 // Path: types\feature.types.ts
 
+import { Comment } from './index.js';
+
 // Common type for all feature types - only export Feature and the DTOs as they're the ones used externally
 // Internal types are kept but not exported
 type FeatureType = 'point' | 'line' | 'polygon' | 'text' | 'image';
@@ -18,6 +20,7 @@ interface BaseFeature {
   version: number;
   client_id?: string;
   offline_created?: boolean;
+  simplified?: boolean; // Geometry was simplified for display, never use it for edits
 }
 
 // Point Feature
@@ -118,4 +121,78 @@ export interface UpdateFeatureDTO {
   geometry?: any;
   properties?: Record<string, any>;
   version: number; // Required for conflict resolution
-}
\ No newline at end of file
+  merge?: boolean; // Merge with newer changes instead of rejecting a stale version
+}
+
+// Details of an update that could not be merged with newer changes
+export interface FeatureUpdateConflict {
+  base: Feature | null; // State the update was based on (null if not found in history)
+  theirs: Feature; // Current state
+  mine: { geometry?: any; properties?: Record<string, any> }; // Rejected changes
+  conflictingFields: string[]; // 'geometry' or 'properties.<key>'
+}
+
+// Change of one vertex, by ring (polygons) and index within it
+// Polygon indexes don't count the closing position, which always follows the first one
+export interface VertexOperation {
+  op: 'insert' | 'move' | 'delete';
+  ring?: number; // Polygon ring (0 = outer ring), ignored for other geometries
+  index: number;
+  position?: [number, number]; // New position, for insert and move
+}
+
+// Compact geometry change: a translation, then vertex operations in order
+export interface GeometryDelta {
+  translate?: { lng: number; lat: number };
+  vertices?: VertexOperation[];
+}
+
+// Result of a feature update
+export interface UpdateFeatureResult {
+  success: boolean;
+  feature?: Feature;
+  previousFeature?: Feature; // State before the update, for history
+  currentVersion?: number; // Set on version mismatch
+  merged?: boolean; // True when a stale update was merged with newer changes
+  conflict?: FeatureUpdateConflict; // Set when a merge was requested but failed
+  movedComments?: Comment[]; // Comments anchored to the feature, moved along with its geometry
+}
+
+export interface RestoreFeatureResult {
+  feature: Feature;
+  reanchoredComments: Comment[]; // Comments detached when the feature was deleted, anchored to it again
+}
+
+// Stored binary content of an image feature (metadata only, without the bytes)
+export interface FeatureImageMetadata {
+  feature_id: string; // UUID
+  map_id: number;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  checksum: string; // SHA-256 of the original bytes, used as ETag
+  user_id: string;
+  user_name: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Stored image including its bytes
+export interface FeatureImage extends FeatureImageMetadata {
+  data: Buffer;
+}
+
+// DTO for storing an image
+export interface SaveFeatureImageDTO {
+  feature_id: string;
+  map_id: number;
+  mime_type: string;
+  data: Buffer;
+  width: number | null;
+  height: number | null;
+  thumbnail: Buffer | null;
+  checksum: string;
+  user_id: string;
+  user_name: string;
+}
@@ -4,6 +4,7 @@ import { Feature } from './feature.types.js';
 
 // Only export the FeatureHistory type which is referenced externally
 type OperationType = 'create' | 'update' | 'delete';
+type UndoAction = 'undo' | 'redo';
 
 export interface FeatureHistory {
   id: number;
@@ -16,4 +17,18 @@ export interface FeatureHistory {
   user_name: string;
   timestamp: Date;
   client_operation_id?: string;
+  undone: boolean; // Reverted by a later undo/redo entry
+  undo_action: UndoAction | null; // Set when this entry was produced by an undo or redo
+  source_history_id: number | null; // Entry reverted by this undo/redo entry
+}
+
+// Data for recording an entry produced by an undo or redo
+export interface UndoRedoHistoryDTO {
+  operation: OperationType;
+  previous_state: Feature | null;
+  new_state: Feature | null;
+  user_id: string;
+  user_name: string;
+  undo_action: UndoAction;
+  source_history_id: number;
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+// Path: types\import.types.ts
+
+import { Feature } from './feature.types.js';
+
+// Feature types that imported geometries are mapped onto
+export type ImportedFeatureType = 'point' | 'line' | 'polygon' | 'text';
+
+// Feature read from an imported file, before validation
+export interface ImportedFeatureDraft {
+  feature_type: ImportedFeatureType;
+  geometry: any; // GeoJSON geometry (single part)
+  properties: Record<string, any>;
+  source: string; // Where it came from in the file (e.g. 'features[3]' or 'features[3].part[1]')
+}
+
+// Record of the file that could not be imported
+export interface ImportFailure {
+  source: string;
+  message: string;
+}
+
+// Options of an import, given by the caller
+export interface ImportOptions {
+  attributeMapping?: Record<string, string>; // Source field -> property name; unmapped fields are left out
+}
+
+// Features read from a file by a format parser
+export interface ParsedImport {
+  drafts: ImportedFeatureDraft[];
+  failures: ImportFailure[];
+}
+
+// Outcome of an import
+export interface ImportResult {
+  format: string;
+  features: Feature[]; // Created features
+  failures: ImportFailure[];
+}
@@ -10,6 +10,34 @@ export interface Map {
   created_at: Date;
 }
 
+/**
+ * Role of a user in a map
+ * owner: everything, including managing members and the map itself
+ * editor: create, change and delete features and comments
+ * commenter: view features, add comments and replies
+ * viewer: view only
+ */
+export type MapRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+/**
+ * Member of a map
+ */
+export interface MapMember {
+  map_id: number;
+  user_id: string;
+  user_name: string | null;
+  role: MapRole;
+  added_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Status of a comment thread
+ * resolved and wont-fix threads are closed, recording who closed them and when
+ */
+export type CommentStatus = 'open' | 'resolved' | 'wont-fix';
+
 /**
  * Comment definition
  */
@@ -21,6 +49,12 @@ export interface Comment {
   content: string;
   lng: number;
   lat: number;
+  feature_id: string | null; // UUID of the feature the comment is anchored to, moving with it
+  detached_feature_id: string | null; // Feature deleted while the comment was anchored to it, anchored again if restored
+  status: CommentStatus;
+  resolved_by: string | null; // Set while the thread is closed (resolved or wont-fix)
+  resolved_by_name: string | null;
+  resolved_at: Date | null;
   created_at: Date;
   updated_at: Date;
   client_id?: string;
@@ -53,6 +87,7 @@ export interface CommentCreateData {
   content: string;
   lng: number;
   lat: number;
+  feature_id?: string | null; // Anchor to a feature of the same map
   client_id?: string;
   offline_created?: boolean;
 }
@@ -10,8 +10,11 @@ export interface Position {
   lat: number;
 }
 
-// Internal types - only used within socket handlers
-interface RoomUser {
+/**
+ * User present in a map, as listed to everyone in it
+ * Presence is kept in the database so all servers of a cluster share it
+ */
+export interface RoomUser {
   id: string;
   name: string;
   position: Position;
@@ -19,6 +22,13 @@ interface RoomUser {
   joinedAt?: number;
 }
 
+// Connection holding the presence of a user in a map (socket and/or server)
+export interface PresenceHolder {
+  socketId?: string;
+  nodeId?: string;
+}
+
+// Internal types - only used within socket handlers
 interface ConnectionState {
   isReconnection: boolean;
   reconnectCount: number;
@@ -37,26 +47,35 @@ export interface SocketUser {
 }
 
 /**
- * Map of room IDs to maps of user IDs to users
+ * Feature selected by a user in a map (a feature is selected by one user at a time)
  */
-export interface Rooms {
-  [roomId: string]: {
-    [userId: string]: RoomUser;
-  };
-}
-
-// Internal types that only need to be used within the socket handlers
-interface FeatureSelection {
+export interface FeatureSelection {
+  featureId: string;
   userId: string;
   userName: string;
-  featureIds: number[];
 }
 
 /**
- * Map of feature IDs to selections
+ * Lock held on a feature while a user edits it
+ * soft: can be taken over by another editor; hard: only released by its holder or expiry
  */
-export interface SelectionState {
-  [featureId: number]: FeatureSelection;
+export type FeatureLockMode = 'soft' | 'hard';
+
+export interface FeatureLock {
+  featureId: string;
+  mapId: number;
+  userId: string;
+  userName: string;
+  socketId: string;
+  mode: FeatureLockMode;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+export interface LockAcquireResult {
+  acquired: FeatureLock[];
+  denied: FeatureLock[]; // Locks held by others that could not be taken
+  takenOver: FeatureLock[]; // Soft locks taken from others
 }
 
 /**
@@ -71,3 +90,31 @@ export interface UserConnectionState {
   lastRoom: string | null;
   userName: string;
 }
+
+/**
+ * Delivery settings of a socket, chosen by the quality monitor from its connection quality
+ */
+export interface AdaptiveSettings {
+  batchInterval: number;      // Milliseconds broadcasts are held and batched for (0 = real time)
+  compressionLevel: number;
+  reducedPrecision: boolean;  // Geometries in broadcasts are sent with fewer decimals
+  loadFullMap: boolean;       // False makes the client load features by viewport
+  disableRealtime?: boolean;  // Cursor and drag previews are not sent at all
+}
+
+/**
+ * Area of the map a client is looking at, in degrees
+ */
+export interface ViewportBounds {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+/**
+ * Viewport a client registers to only get the feature and cursor broadcasts it can see
+ */
+export interface Viewport extends ViewportBounds {
+  zoom?: number;
+}
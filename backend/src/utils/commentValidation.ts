@@ -0,0 +1,104 @@
+// Path: utils\commentValidation.ts
+
+/**
+ * Comment and reply validation
+ * Shared by the comment socket handlers and the comments REST API
+ */
+
+import { CommentStatus } from '../types/index.js';
+import { isFeatureId } from './featureValidation.js';
+
+type ValidationResult = { valid: boolean; message?: string };
+
+export const COMMENT_STATUSES: CommentStatus[] = ['open', 'resolved', 'wont-fix'];
+
+export const isCommentStatus = (value: unknown): value is CommentStatus =>
+  typeof value === 'string' && COMMENT_STATUSES.includes(value as CommentStatus);
+
+/**
+ * Parse a status filter (one status or a list of them) into the statuses to keep
+ * undefined means no filter; null means the filter is invalid
+ */
+export function parseStatusFilter(value: unknown): CommentStatus[] | undefined | null {
+  if (value === undefined) return undefined;
+
+  const statuses = Array.isArray(value) ? value : [value];
+  if (statuses.length === 0 || !statuses.every(isCommentStatus)) return null;
+
+  return statuses;
+}
+
+/**
+ * Validate comment data
+ */
+export function validateCommentData(data: any): ValidationResult {
+  // Check required fields
+  if (!data || typeof data !== 'object') {
+    return { valid: false, message: 'Comment data is required' };
+  }
+  
+  // Validate map_id
+  if (!data.map_id || typeof data.map_id !== 'number' || data.map_id <= 0) {
+    return { valid: false, message: 'Valid map ID is required' };
+  }
+  
+  // Validate content
+  if (!data.content || typeof data.content !== 'string' || data.content.trim() === '') {
+    return { valid: false, message: 'Comment content cannot be empty' };
+  }
+  
+  if (data.content.length > 5000) {
+    return { valid: false, message: 'Comment content exceeds maximum length (5000 characters)' };
+  }
+  
+  // Validate coordinates
+  if (data.lng === undefined || typeof data.lng !== 'number') {
+    return { valid: false, message: 'Valid longitude is required' };
+  }
+  
+  if (data.lat === undefined || typeof data.lat !== 'number') {
+    return { valid: false, message: 'Valid latitude is required' };
+  }
+  
+  // Check coordinates are within valid range
+  if (data.lng < -180 || data.lng > 180) {
+    return { valid: false, message: 'Longitude must be between -180 and 180' };
+  }
+  
+  if (data.lat < -90 || data.lat > 90) {
+    return { valid: false, message: 'Latitude must be between -90 and 90' };
+  }
+  
+  // Validate the optional feature anchor (that it exists in the map is checked where it is created)
+  if (data.feature_id !== undefined && data.feature_id !== null && !isFeatureId(data.feature_id)) {
+    return { valid: false, message: 'Invalid feature ID' };
+  }
+  
+  return { valid: true };
+}
+
+/**
+ * Validate reply data
+ */
+export function validateReplyData(data: any): ValidationResult {
+  // Check required fields
+  if (!data || typeof data !== 'object') {
+    return { valid: false, message: 'Reply data is required' };
+  }
+  
+  // Validate comment_id
+  if (!data.comment_id || typeof data.comment_id !== 'string' || data.comment_id.trim() === '') {
+    return { valid: false, message: 'Valid comment ID is required' };
+  }
+  
+  // Validate content
+  if (!data.content || typeof data.content !== 'string' || data.content.trim() === '') {
+    return { valid: false, message: 'Reply content cannot be empty' };
+  }
+  
+  if (data.content.length > 2000) {
+    return { valid: false, message: 'Reply content exceeds maximum length (2000 characters)' };
+  }
+  
+  return { valid: true };
+}
@@ -0,0 +1,92 @@
+// Path: utils\featureMerge.ts
+
+/**
+ * Three-way merge of feature changes
+ * Compares the changes made on top of a base version with the changes
+ * already stored by others since then
+ */
+
+type FeatureChanges = { geometry?: any; properties?: Record<string, any> };
+
+export interface MergeResult {
+  merged: FeatureChanges; // Changes to apply on top of the current state
+  conflictingFields: string[];
+}
+
+/**
+ * Structural equality for JSON values (geometries and property values)
+ */
+export function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+
+  return keysA.every(key => isDeepEqual(a[key], b[key]));
+}
+
+/**
+ * Merge changes made on top of base with the current (theirs) state
+ * A field conflicts only when both sides changed it to different values
+ */
+export function mergeFeatureChanges(
+  base: FeatureChanges,
+  theirs: FeatureChanges,
+  mine: FeatureChanges
+): MergeResult {
+  const merged: FeatureChanges = {};
+  const conflictingFields: string[] = [];
+
+  // Geometry is merged as a whole
+  if (mine.geometry !== undefined && !isDeepEqual(mine.geometry, base.geometry)) {
+    if (isDeepEqual(theirs.geometry, base.geometry)) {
+      merged.geometry = mine.geometry;
+    } else if (!isDeepEqual(theirs.geometry, mine.geometry)) {
+      conflictingFields.push('geometry');
+    }
+  }
+
+  // Properties are merged key by key
+  if (mine.properties !== undefined) {
+    const baseProperties = base.properties || {};
+    const theirProperties = theirs.properties || {};
+    const mergedProperties = { ...theirProperties };
+    let changed = false;
+
+    const keys = new Set([...Object.keys(baseProperties), ...Object.keys(mine.properties)]);
+    for (const key of keys) {
+      const mineValue = mine.properties[key];
+      const baseValue = baseProperties[key];
+      const theirValue = theirProperties[key];
+
+      // Unchanged on our side, or both sides agree
+      if (isDeepEqual(mineValue, baseValue) || isDeepEqual(mineValue, theirValue)) {
+        continue;
+      }
+
+      if (isDeepEqual(theirValue, baseValue)) {
+        if (mineValue === undefined) {
+          delete mergedProperties[key];
+        } else {
+          mergedProperties[key] = mineValue;
+        }
+        changed = true;
+      } else {
+        conflictingFields.push(`properties.${key}`);
+      }
+    }
+
+    if (changed) {
+      merged.properties = mergedProperties;
+    }
+  }
+
+  return { merged, conflictingFields };
+}
@@ -0,0 +1,418 @@
+// Path: utils\featureValidation.ts
+
+/**
+ * Geometry and property validation for each feature type
+ * Shared by the per-type socket handlers so every feature goes through the same checks
+ */
+
+type ValidationResult = { valid: boolean; message?: string };
+type PropertiesValidationResult = ValidationResult & { sanitized?: any };
+
+// Validate color formats (hex colors)
+const colorRegex = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
+
+// Feature IDs are UUIDs
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Supported MIME types for image features
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'];
+
+// Maximum length of the text stored in a text feature
+const MAX_TEXT_LENGTH = 500;
+
+/**
+ * Validate a single [longitude, latitude] position
+ */
+function isValidPosition(coord: any): ValidationResult {
+  // NaN and Infinity can't come through JSON, but can through MessagePack
+  if (!Array.isArray(coord) || coord.length !== 2 ||
+      !Number.isFinite(coord[0]) || !Number.isFinite(coord[1])) {
+    return { valid: false, message: "Each coordinate must be a [longitude, latitude] array of finite numbers" };
+  }
+
+  // Validate longitude/latitude ranges
+  const [lng, lat] = coord;
+  if (lng < -180 || lng > 180) {
+    return { valid: false, message: `Invalid longitude: ${lng} (must be between -180 and 180)` };
+  }
+  if (lat < -90 || lat > 90) {
+    return { valid: false, message: `Invalid latitude: ${lat} (must be between -90 and 90)` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Whether a value has the format of a feature ID
+ */
+export const isFeatureId = (value: unknown): value is string =>
+  typeof value === 'string' && uuidRegex.test(value);
+
+/**
+ * Validate viewport bounds (west/south/east/north in degrees)
+ */
+export function validateBounds(bounds: any): ValidationResult {
+  if (!bounds || typeof bounds !== 'object') {
+    return { valid: false, message: 'Invalid bounds object' };
+  }
+  
+  const { minLng, minLat, maxLng, maxLat } = bounds;
+  
+  // Check all required properties exist and are (finite) numbers
+  if (!Number.isFinite(minLng) || !Number.isFinite(minLat) ||
+      !Number.isFinite(maxLng) || !Number.isFinite(maxLat)) {
+    return { valid: false, message: 'Bounds must include minLng, minLat, maxLng, maxLat as numbers' };
+  }
+  
+  // Validate coordinate ranges
+  if (minLng < -180 || minLng > 180 || maxLng < -180 || maxLng > 180) {
+    return { valid: false, message: 'Longitude values must be between -180 and 180' };
+  }
+  
+  if (minLat < -90 || minLat > 90 || maxLat < -90 || maxLat > 90) {
+    return { valid: false, message: 'Latitude values must be between -90 and 90' };
+  }
+  
+  // Ensure min is less than max
+  if (minLng > maxLng) {
+    return { valid: false, message: 'minLng must be less than or equal to maxLng' };
+  }
+  
+  if (minLat > maxLat) {
+    return { valid: false, message: 'minLat must be less than or equal to maxLat' };
+  }
+  
+  return { valid: true };
+}
+
+/**
+ * Validate point geometry (also used by text and image features)
+ */
+export function isValidPoint(coordinates: [number, number]): ValidationResult {
+  return isValidPosition(coordinates);
+}
+
+/**
+ * Validate line geometry
+ * Ensures line coordinates are in proper format and bounds
+ */
+export function isValidLine(coordinates: Array<[number, number]>): ValidationResult {
+  if (!Array.isArray(coordinates) || coordinates.length < 2) {
+    return { valid: false, message: "A line must have at least 2 points" };
+  }
+
+  // Check each coordinate
+  for (const coord of coordinates) {
+    const result = isValidPosition(coord);
+    if (!result.valid) {
+      return result;
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate polygon geometry
+ * Ensures polygon coordinates are in proper format and bounds
+ */
+export function isValidPolygon(coordinates: Array<Array<[number, number]>>): ValidationResult {
+  if (!Array.isArray(coordinates) || coordinates.length === 0) {
+    return { valid: false, message: "Coordinates must be a non-empty array" };
+  }
+
+  // Check each ring
+  for (const ring of coordinates) {
+    if (!Array.isArray(ring) || ring.length < 4) {
+      return { valid: false, message: "Each polygon ring must have at least 4 points" };
+    }
+
+    // Check each coordinate
+    for (const coord of ring) {
+      const result = isValidPosition(coord);
+      if (!result.valid) {
+        return result;
+      }
+    }
+
+    // Check if the ring is closed (first point equals last point)
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      return { valid: false, message: "Polygon ring must be closed (first point must equal last point)" };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Keep the free-form attributes of a feature (e.g. the source attributes of imported features)
+ * They are stored as-is next to the styling properties
+ */
+function withAttributes(validatedProperties: any, properties: any): any {
+  const attributes = properties?.attributes;
+  if (attributes && typeof attributes === 'object' && !Array.isArray(attributes)) {
+    validatedProperties.attributes = attributes;
+  }
+  return validatedProperties;
+}
+
+/**
+ * Validate point properties
+ */
+export function validatePointProperties(properties: any): PropertiesValidationResult {
+  const validatedProperties: any = {
+    color: '#3388ff',
+    size: 8,
+    opacity: 1
+  };
+
+  if (!properties) {
+    return { valid: true, sanitized: validatedProperties };
+  }
+
+  if (properties.color !== undefined) {
+    if (typeof properties.color !== 'string' || !colorRegex.test(properties.color)) {
+      return { valid: false, message: "color must be a valid hex color (e.g., #3388ff)" };
+    }
+    validatedProperties.color = properties.color;
+  }
+
+  // Validate numeric properties
+  if (properties.size !== undefined) {
+    const size = Number(properties.size);
+    if (isNaN(size) || size < 1 || size > 50) {
+      return { valid: false, message: "size must be a number between 1 and 50" };
+    }
+    validatedProperties.size = size;
+  }
+
+  if (properties.opacity !== undefined) {
+    const opacity = Number(properties.opacity);
+    if (isNaN(opacity) || opacity < 0 || opacity > 1) {
+      return { valid: false, message: "opacity must be a number between 0 and 1" };
+    }
+    validatedProperties.opacity = opacity;
+  }
+
+  return { valid: true, sanitized: withAttributes(validatedProperties, properties) };
+}
+
+/**
+ * Validate line properties
+ */
+export function validateLineProperties(properties: any): PropertiesValidationResult {
+  const validatedProperties: any = {
+    color: '#3388ff',
+    size: 2,
+    opacity: 1,
+    showLength: false
+  };
+
+  if (!properties) {
+    return { valid: true, sanitized: validatedProperties };
+  }
+
+  if (properties.color !== undefined) {
+    if (typeof properties.color !== 'string' || !colorRegex.test(properties.color)) {
+      return { valid: false, message: "color must be a valid hex color (e.g., #3388ff)" };
+    }
+    validatedProperties.color = properties.color;
+  }
+
+  // Validate numeric properties
+  if (properties.size !== undefined) {
+    const size = Number(properties.size);
+    if (isNaN(size) || size < 0 || size > 10) {
+      return { valid: false, message: "size must be a number between 0 and 10" };
+    }
+    validatedProperties.size = size;
+  }
+
+  if (properties.opacity !== undefined) {
+    const opacity = Number(properties.opacity);
+    if (isNaN(opacity) || opacity < 0 || opacity > 1) {
+      return { valid: false, message: "opacity must be a number between 0 and 1" };
+    }
+    validatedProperties.opacity = opacity;
+  }
+
+  // Validate boolean properties
+  if (properties.showLength !== undefined) {
+    validatedProperties.showLength = Boolean(properties.showLength);
+  }
+
+  return { valid: true, sanitized: withAttributes(validatedProperties, properties) };
+}
+
+/**
+ * Validate polygon properties
+ */
+export function validatePolygonProperties(properties: any): PropertiesValidationResult {
+  const validatedProperties: any = {
+    fillColor: '#3388ff',
+    borderColor: '#3388ff',
+    borderSize: 2,
+    borderOpacity: 1,
+    fillOpacity: 0.2,
+    showArea: false
+  };
+
+  if (!properties) {
+    return { valid: true, sanitized: validatedProperties };
+  }
+
+  if (properties.fillColor !== undefined) {
+    if (typeof properties.fillColor !== 'string' || !colorRegex.test(properties.fillColor)) {
+      return { valid: false, message: "fillColor must be a valid hex color (e.g., #3388ff)" };
+    }
+    validatedProperties.fillColor = properties.fillColor;
+  }
+
+  if (properties.borderColor !== undefined) {
+    if (typeof properties.borderColor !== 'string' || !colorRegex.test(properties.borderColor)) {
+      return { valid: false, message: "borderColor must be a valid hex color (e.g., #3388ff)" };
+    }
+    validatedProperties.borderColor = properties.borderColor;
+  }
+
+  // Validate numeric properties
+  if (properties.borderSize !== undefined) {
+    const size = Number(properties.borderSize);
+    if (isNaN(size) || size < 0 || size > 10) {
+      return { valid: false, message: "borderSize must be a number between 0 and 10" };
+    }
+    validatedProperties.borderSize = size;
+  }
+
+  if (properties.borderOpacity !== undefined) {
+    const opacity = Number(properties.borderOpacity);
+    if (isNaN(opacity) || opacity < 0 || opacity > 1) {
+      return { valid: false, message: "borderOpacity must be a number between 0 and 1" };
+    }
+    validatedProperties.borderOpacity = opacity;
+  }
+
+  if (properties.fillOpacity !== undefined) {
+    const opacity = Number(properties.fillOpacity);
+    if (isNaN(opacity) || opacity < 0 || opacity > 1) {
+      return { valid: false, message: "fillOpacity must be a number between 0 and 1" };
+    }
+    validatedProperties.fillOpacity = opacity;
+  }
+
+  // Validate boolean properties
+  if (properties.showArea !== undefined) {
+    validatedProperties.showArea = Boolean(properties.showArea);
+  }
+
+  return { valid: true, sanitized: withAttributes(validatedProperties, properties) };
+}
+
+/**
+ * Validate text properties
+ * Unlike the other feature types, the text itself has no default and is required
+ */
+export function validateTextProperties(properties: any): PropertiesValidationResult {
+  if (!properties || typeof properties.text !== 'string' || properties.text.trim() === '') {
+    return { valid: false, message: "text is required and cannot be empty" };
+  }
+
+  if (properties.text.length > MAX_TEXT_LENGTH) {
+    return { valid: false, message: `text exceeds maximum length (${MAX_TEXT_LENGTH} characters)` };
+  }
+
+  const validatedProperties: any = {
+    text: properties.text.trim(),
+    justification: 'center',
+    size: 14,
+    color: '#000000',
+    bufferColor: '#ffffff',
+    rotation: 0
+  };
+
+  if (properties.justification !== undefined) {
+    if (!['left', 'center', 'right'].includes(properties.justification)) {
+      return { valid: false, message: "justification must be one of 'left', 'center' or 'right'" };
+    }
+    validatedProperties.justification = properties.justification;
+  }
+
+  if (properties.color !== undefined) {
+    if (typeof properties.color !== 'string' || !colorRegex.test(properties.color)) {
+      return { valid: false, message: "color must be a valid hex color (e.g., #000000)" };
+    }
+    validatedProperties.color = properties.color;
+  }
+
+  if (properties.bufferColor !== undefined) {
+    if (typeof properties.bufferColor !== 'string' || !colorRegex.test(properties.bufferColor)) {
+      return { valid: false, message: "bufferColor must be a valid hex color (e.g., #ffffff)" };
+    }
+    validatedProperties.bufferColor = properties.bufferColor;
+  }
+
+  // Validate numeric properties
+  if (properties.size !== undefined) {
+    const size = Number(properties.size);
+    if (isNaN(size) || size < 6 || size > 72) {
+      return { valid: false, message: "size must be a number between 6 and 72" };
+    }
+    validatedProperties.size = size;
+  }
+
+  if (properties.rotation !== undefined) {
+    const rotation = Number(properties.rotation);
+    if (isNaN(rotation) || rotation < -360 || rotation > 360) {
+      return { valid: false, message: "rotation must be a number between -360 and 360" };
+    }
+    validatedProperties.rotation = rotation;
+  }
+
+  return { valid: true, sanitized: withAttributes(validatedProperties, properties) };
+}
+
+/**
+ * Validate image properties
+ * imageType is required since it determines how the stored image is served
+ */
+export function validateImageProperties(properties: any): PropertiesValidationResult {
+  if (!properties || typeof properties.imageType !== 'string' || !IMAGE_TYPES.includes(properties.imageType)) {
+    return { valid: false, message: `imageType must be one of: ${IMAGE_TYPES.join(', ')}` };
+  }
+
+  const validatedProperties: any = {
+    rotation: 0,
+    size: 1,
+    opacity: 1,
+    imageType: properties.imageType
+  };
+
+  // Validate numeric properties
+  if (properties.rotation !== undefined) {
+    const rotation = Number(properties.rotation);
+    if (isNaN(rotation) || rotation < -360 || rotation > 360) {
+      return { valid: false, message: "rotation must be a number between -360 and 360" };
+    }
+    validatedProperties.rotation = rotation;
+  }
+
+  if (properties.size !== undefined) {
+    const size = Number(properties.size);
+    if (isNaN(size) || size <= 0 || size > 10) {
+      return { valid: false, message: "size must be a number greater than 0 and at most 10" };
+    }
+    validatedProperties.size = size;
+  }
+
+  if (properties.opacity !== undefined) {
+    const opacity = Number(properties.opacity);
+    if (isNaN(opacity) || opacity < 0 || opacity > 1) {
+      return { valid: false, message: "opacity must be a number between 0 and 1" };
+    }
+    validatedProperties.opacity = opacity;
+  }
+
+  return { valid: true, sanitized: withAttributes(validatedProperties, properties) };
+}
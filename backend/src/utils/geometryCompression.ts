@@ -87,4 +87,31 @@ export function compressFeatures(features: any[], precision: number = 5): any[]
   if (!features || !Array.isArray(features)) return features;
   
   return features.map(feature => compressFeature(feature, precision));
-}
\ No newline at end of file
+}
+
+// Zoom level from which geometries are always sent in full
+export const FULL_GEOMETRY_ZOOM = 18;
+
+/**
+ * Simplification tolerance (in degrees) for a read at a zoom level
+ * About one screen pixel at that zoom, so simplified geometries look the same
+ * on the map. An explicit tolerance takes precedence; 0 means no simplification
+ * 
+ * @param zoom Web map zoom level the geometries will be shown at
+ * @param tolerance Explicit tolerance in degrees
+ * @returns Tolerance to use, or 0 for full geometries
+ */
+export function simplificationTolerance(zoom?: unknown, tolerance?: unknown): number {
+  const explicit = Number(tolerance);
+  if (tolerance !== undefined && tolerance !== null && tolerance !== '') {
+    return isFinite(explicit) && explicit > 0 ? explicit : 0;
+  }
+  
+  const level = Number(zoom);
+  if (zoom === undefined || zoom === null || zoom === '' || !isFinite(level) || level >= FULL_GEOMETRY_ZOOM) {
+    return 0;
+  }
+  
+  // Degrees covered by one pixel of a 256px tile
+  return 360 / (256 * 2 ** Math.max(level, 0));
+}
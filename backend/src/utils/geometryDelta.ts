@@ -0,0 +1,160 @@
+// Path: utils\geometryDelta.ts
+
+import { GeometryDelta, VertexOperation } from '@/types/feature.types.js';
+
+/**
+ * Delta-encoded geometry updates
+ * Instead of the whole coordinate array, clients send what changed: a translation
+ * and/or vertex operations. The delta is applied to the stored geometry and the
+ * same delta is sent on to the other clients, which apply it to their own copy
+ */
+
+type ValidationResult = { valid: boolean; message?: string };
+
+// Upper bound of vertex operations in one delta (beyond that, send the full geometry)
+const MAX_VERTEX_OPERATIONS = 1000;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isPosition = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && isFiniteNumber(value[0]) && isFiniteNumber(value[1]);
+
+/**
+ * Validate the structure of a geometry delta (not whether it fits a geometry)
+ */
+export function validateGeometryDelta(delta: any): ValidationResult {
+  if (!delta || typeof delta !== 'object') {
+    return { valid: false, message: 'Delta must be an object' };
+  }
+
+  if (delta.translate !== undefined &&
+      (!delta.translate || !isFiniteNumber(delta.translate.lng) || !isFiniteNumber(delta.translate.lat))) {
+    return { valid: false, message: 'translate must have numeric lng and lat' };
+  }
+
+  if (delta.vertices !== undefined) {
+    if (!Array.isArray(delta.vertices)) {
+      return { valid: false, message: 'vertices must be an array of operations' };
+    }
+    if (delta.vertices.length > MAX_VERTEX_OPERATIONS) {
+      return { valid: false, message: `A delta can have at most ${MAX_VERTEX_OPERATIONS} vertex operations` };
+    }
+
+    for (const operation of delta.vertices) {
+      if (!operation || !['insert', 'move', 'delete'].includes(operation.op)) {
+        return { valid: false, message: 'Vertex operation must be insert, move or delete' };
+      }
+      if (!Number.isInteger(operation.index) || operation.index < 0 ||
+          (operation.ring !== undefined && (!Number.isInteger(operation.ring) || operation.ring < 0))) {
+        return { valid: false, message: 'Vertex ring and index must be non-negative integers' };
+      }
+      if (operation.op !== 'delete' && !isPosition(operation.position)) {
+        return { valid: false, message: `${operation.op} needs a [longitude, latitude] position` };
+      }
+    }
+  }
+
+  if (delta.translate === undefined && (!delta.vertices || delta.vertices.length === 0)) {
+    return { valid: false, message: 'Delta has no changes' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Shift every position of a (possibly nested) coordinates array
+ */
+function translateCoordinates(coordinates: any, lng: number, lat: number): any {
+  if (isPosition(coordinates)) {
+    return [coordinates[0] + lng, coordinates[1] + lat];
+  }
+  return Array.isArray(coordinates) ? coordinates.map(coord => translateCoordinates(coord, lng, lat)) : coordinates;
+}
+
+/**
+ * Apply a vertex operation to a list of positions (in place)
+ * Returns an error message when the index is out of range
+ */
+function applyVertexOperation(positions: number[][], operation: VertexOperation): string | null {
+  const { op, index, position } = operation;
+  const maxIndex = op === 'insert' ? positions.length : positions.length - 1;
+
+  if (index > maxIndex) {
+    return `Vertex index ${index} is out of range${operation.ring !== undefined ? ` in ring ${operation.ring}` : ''}`;
+  }
+
+  if (op === 'insert') {
+    positions.splice(index, 0, [...position!]);
+  } else if (op === 'move') {
+    positions[index] = [...position!];
+  } else {
+    positions.splice(index, 1);
+  }
+
+  return null;
+}
+
+/**
+ * Apply a delta to a GeoJSON geometry (Point, LineString or Polygon)
+ * Returns the new geometry, or an error message if the delta doesn't fit it.
+ * The result still has to go through the geometry validation of its feature type
+ */
+export function applyGeometryDelta(
+  geometry: any,
+  delta: GeometryDelta
+): { geometry?: any; message?: string } {
+  let coordinates = geometry.coordinates;
+
+  if (delta.translate) {
+    coordinates = translateCoordinates(coordinates, delta.translate.lng, delta.translate.lat);
+  }
+
+  const operations = delta.vertices || [];
+  if (operations.length === 0) {
+    return { geometry: { type: geometry.type, coordinates } };
+  }
+
+  switch (geometry.type) {
+    case 'Point': {
+      // A point only has vertex 0, which can be moved
+      const invalid = operations.find(operation => operation.op !== 'move' || operation.index !== 0);
+      if (invalid) {
+        return { message: 'Points only support moving vertex 0' };
+      }
+      return { geometry: { type: 'Point', coordinates: [...operations[operations.length - 1].position!] } };
+    }
+
+    case 'LineString': {
+      const positions = coordinates.map((position: number[]) => [...position]);
+      for (const operation of operations) {
+        const message = applyVertexOperation(positions, operation);
+        if (message) return { message };
+      }
+      return { geometry: { type: 'LineString', coordinates: positions } };
+    }
+
+    case 'Polygon': {
+      // Rings are edited without their closing position, which is added back at the end
+      const rings: number[][][] = coordinates.map((ring: number[][]) => ring.slice(0, -1).map(position => [...position]));
+
+      for (const operation of operations) {
+        const ring = rings[operation.ring || 0];
+        if (!ring) {
+          return { message: `Polygon has no ring ${operation.ring}` };
+        }
+        const message = applyVertexOperation(ring, operation);
+        if (message) return { message };
+      }
+
+      return {
+        geometry: {
+          type: 'Polygon',
+          coordinates: rings.map(ring => ring.length > 0 ? [...ring, [...ring[0]]] : ring)
+        }
+      };
+    }
+
+    default:
+      return { message: `Deltas are not supported for ${geometry.type} geometries` };
+  }
+}
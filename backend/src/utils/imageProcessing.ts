@@ -0,0 +1,75 @@
+// Path: utils\imageProcessing.ts
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+
+/**
+ * Helpers for the binary content of image features
+ */
+
+export interface ProcessedImage {
+  width: number | null;
+  height: number | null;
+  thumbnail: Buffer | null;
+  checksum: string;
+}
+
+/**
+ * Detect the MIME type of an image from its leading bytes
+ * Returns null when the content is not one of the supported image formats
+ */
+export function detectImageMimeType(data: Buffer): string | null {
+  if (data.length >= 8 &&
+      data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+
+  const header = data.subarray(0, 12).toString('latin1');
+  if (header.startsWith('GIF87a') || header.startsWith('GIF89a')) {
+    return 'image/gif';
+  }
+
+  if (header.startsWith('RIFF') && header.slice(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+
+  // SVG is text, so look for the root element near the start of the document
+  const text = data.subarray(0, 1024).toString('utf8').trimStart().toLowerCase();
+  if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) {
+    return 'image/svg+xml';
+  }
+
+  return null;
+}
+
+/**
+ * Read image dimensions, generate a thumbnail and compute the checksum
+ * Thumbnail generation failures are not fatal - the original is served instead
+ */
+export async function processImage(data: Buffer, thumbnailSize: number): Promise<ProcessedImage> {
+  const checksum = crypto.createHash('sha256').update(data).digest('hex');
+
+  let width: number | null = null;
+  let height: number | null = null;
+  let thumbnail: Buffer | null = null;
+
+  try {
+    const metadata = await sharp(data).metadata();
+    width = metadata.width ?? null;
+    height = metadata.height ?? null;
+
+    thumbnail = await sharp(data)
+      .rotate() // Respect EXIF orientation
+      .resize(thumbnailSize, thumbnailSize, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+  } catch (error) {
+    console.error('[IMAGE] Failed to generate thumbnail:', error);
+  }
+
+  return { width, height, thumbnail, checksum };
+}
@@ -0,0 +1,48 @@
+// Path: utils\kmlStyle.ts
+
+/**
+ * Conversion between KML colors and the hex colors and opacities stored in feature properties
+ * KML colors are aabbggrr (alpha first, then blue, green, red)
+ */
+
+// Scale factor of a KML icon/label with scale 1, in feature size units
+export const KML_POINT_BASE_SIZE = 8;
+export const KML_LABEL_BASE_SIZE = 14;
+
+/**
+ * Convert a KML color to a hex color and an opacity
+ */
+export function kmlColorToHex(kmlColor: unknown): { color: string; opacity: number } | null {
+  if (typeof kmlColor !== 'string') return null;
+
+  const value = kmlColor.trim().replace(/^#/, '');
+  if (!/^[0-9a-fA-F]{8}$/.test(value)) return null;
+
+  const alpha = parseInt(value.slice(0, 2), 16);
+  const blue = value.slice(2, 4);
+  const green = value.slice(4, 6);
+  const red = value.slice(6, 8);
+
+  return {
+    color: `#${red}${green}${blue}`.toLowerCase(),
+    opacity: Math.round((alpha / 255) * 100) / 100
+  };
+}
+
+/**
+ * Convert a hex color (#rrggbb or #rgb) and an opacity to a KML color
+ */
+export function hexToKmlColor(color: unknown, opacity: unknown = 1): string {
+  let hex = typeof color === 'string' ? color.replace(/^#/, '') : '';
+  if (hex.length === 3) {
+    hex = hex.split('').map(digit => digit + digit).join('');
+  }
+  if (!/^[0-9a-fA-F]{6}$/.test(hex)) {
+    hex = '3388ff';
+  }
+
+  const numericOpacity = Number(opacity);
+  const alpha = Math.round(Math.min(Math.max(isNaN(numericOpacity) ? 1 : numericOpacity, 0), 1) * 255);
+
+  return `${alpha.toString(16).padStart(2, '0')}${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`.toLowerCase();
+}
@@ -3,10 +3,12 @@ import React, { useEffect, useState, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { useUserStore } from './store/useUserStore';
 import { useCommentStore } from './store/useCommentStore';
+import { useFeatureStore } from './store/useFeatureStore';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { fetchMaps, createMap, updateMap, deleteMap } from './api/maps';
 import { fetchMapComments } from './api/comments';
-import { Comment, Reply, Map as MapType } from './types';
+import { getAuthToken, getClientId } from './api/auth';
+import { Comment, Reply, Map as MapType, Feature, FeatureDragPreview, FeatureLock, GeometryDelta, MapRole, AdaptiveSettings, User } from './types';
 import MapContainer from './components/MapContainer';
 
 // Material UI imports
@@ -35,9 +37,13 @@ import {
 import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
 import { ZodError } from 'zod';
 import { mapFormSchema } from './schemas/map.schema';
+import { msgpackParser, MSGPACK_QUERY } from './utils/msgpackParser';
 
 const SOCKET_SERVER = import.meta.env.VITE_SOCKET_SERVER;
 
+// Feature types that broadcast live drag previews as '<type>-dragging'
+const DRAGGABLE_FEATURE_TYPES = ['point', 'line', 'polygon', 'text', 'image'];
+
 function App() {
   const [openDialog, setOpenDialog] = useState<boolean>(false);
   const [mapFormData, setMapFormData] = useState<{ name: string, description: string }>({ name: '', description: '' });
@@ -48,6 +54,21 @@ function App() {
   
   const { currentMap, setUsers, updateUser, removeUser, setCurrentMap, clearUsers, setCurrentUser } = useUserStore();
   const { setComments, addComment, updateComment, moveComment, deleteComment, addReply, updateReply, deleteReply } = useCommentStore();
+  const { 
+    setFeatures, 
+    mergeFeatures, 
+    upsertFeature, 
+    deleteFeature, 
+    deleteFeatures, 
+    clearFeatures, 
+    setDragPreview, 
+    clearDragPreview,
+    setViewportLoading,
+    setImageChecksum,
+    setLocks,
+    addLocks,
+    removeLocks
+  } = useFeatureStore();
   
   const socketRef = useRef<Socket | null>(null);
   const queryClient = useQueryClient();
@@ -129,7 +150,12 @@ function App() {
           timeout: 20000,
           transports: ['websocket', 'polling'], // Try WebSocket first, then polling
           forceNew: false, // Don't force a new connection
-          multiplex: true // Use multiplexing
+          multiplex: true, // Use multiplexing
+          // Binary packets (smaller on poor links), the server only answers in MessagePack when asked to
+          parser: msgpackParser,
+          query: MSGPACK_QUERY,
+          // Read on every (re)connection so a renewed token is picked up
+          auth: (cb) => cb({ token: getAuthToken(), clientId: getClientId() })
         });
         
         // Clean up existing socket listeners to avoid duplicates
@@ -196,6 +222,50 @@ function App() {
           }
         });
         
+        // An action was rejected because of the user's role in the map
+        socket.on('permission-denied', ({ message }: { message: string }) => {
+          setErrorMessage(message);
+        });
+        
+        // Role changed by a map owner - losing access also removes us from the map
+        socket.on('role-changed', ({ role }: { role: MapRole | null }) => {
+          const current = useUserStore.getState().currentUser;
+          if (current) {
+            setCurrentUser({ ...current, role });
+          }
+          if (!role) {
+            setCurrentMap(null);
+          }
+        });
+        
+        // Answer the server's latency checks so it can assess the connection quality
+        socket.on('latency-check', ({ id }: { id: number }) => {
+          socket.emit('latency-check-response', { id, clientReceivedAt: Date.now() });
+        });
+        
+        // The server changed how it sends to us - follow suit for what we send and how features are loaded
+        socket.on('adaptive-settings', ({ quality, adaptations }: { quality: string, adaptations: AdaptiveSettings }) => {
+          console.log("Connection quality:", quality, adaptations);
+          const previous = useUserStore.getState().adaptiveSettings;
+          useUserStore.getState().setAdaptiveSettings(adaptations);
+          
+          if (!useUserStore.getState().currentMap) return;
+          
+          if (!adaptations.loadFullMap) {
+            useFeatureStore.getState().setViewportLoading(true);
+          } else if (previous && !previous.loadFullMap) {
+            // The server decides again whether the whole map can be sent
+            socket.emit('get-features');
+          }
+        });
+        
+        // Broadcasts held by the server on a poor connection arrive together
+        socket.on('event-batch', (events: [string, ...any[]][]) => {
+          events.forEach(([event, ...args]) => {
+            socket.listeners(event).forEach(listener => listener(...args));
+          });
+        });
+        
         socket.on('user-info', (user) => {
           console.log("Received user info:", user?.name || user?.id);
           if (user && user.id) {
@@ -204,6 +274,10 @@ function App() {
               user.position = { lng: 0, lat: 0 };
             }
             setCurrentUser(user);
+            
+            // The room has been joined, load its features and who is editing them
+            socket.emit('get-features');
+            socket.emit('get-selections');
           }
         });
       } catch (err) {
@@ -295,6 +369,199 @@ function App() {
     }
   }, [currentMap, addComment, updateComment, moveComment, deleteComment, addReply, updateReply, deleteReply]);
 
+  // Feature listeners for the current map
+  useEffect(() => {
+    if (socketRef.current && currentMap) {
+      const socket = socketRef.current;
+      const dragEvents = DRAGGABLE_FEATURE_TYPES.map(type => `${type}-dragging`);
+      const featureEvents = [
+        'features-loaded',
+        'features-in-bounds-loaded',
+        'feature-loaded',
+        'use-viewport-loading',
+        'feature-created',
+        'feature-updated',
+        'feature-geometry-delta',
+        'viewport-catch-up',
+        'feature-deleted',
+        'features-deleted',
+        'features-imported',
+        'feature-update-conflict',
+        'feature-image-updated',
+        'undo-failed',
+        'redo-failed',
+        'map-restored',
+        'current-locks',
+        'features-locked',
+        'features-unlocked',
+        'feature-locked',
+        'lock-lost',
+        ...dragEvents
+      ];
+      
+      // Remove existing listeners first to prevent duplicates
+      featureEvents.forEach(event => socket.off(event));
+      clearFeatures();
+      
+      socket.on('features-loaded', (features: Feature[]) => {
+        console.log("Features loaded:", features.length);
+        setViewportLoading(false);
+        setFeatures(features);
+      });
+      
+      // Large maps are loaded by viewport instead
+      socket.on('use-viewport-loading', ({ featureCount }: { featureCount: number }) => {
+        console.log("Map too large to load at once, using viewport loading:", featureCount);
+        setViewportLoading(true);
+      });
+      
+      socket.on('features-in-bounds-loaded', ({ features }: { features: Feature[] }) => {
+        mergeFeatures(features);
+      });
+      
+      // Full geometry of a feature that was loaded simplified
+      socket.on('feature-loaded', ({ feature }: { feature: Feature }) => {
+        upsertFeature(feature);
+      });
+      
+      socket.on('feature-created', ({ feature }: { feature: Feature }) => {
+        console.log("Feature created:", feature.id);
+        upsertFeature(feature);
+      });
+      
+      socket.on('feature-updated', ({ feature }: { feature: Feature }) => {
+        upsertFeature(feature);
+      });
+      
+      // Geometry changes arrive as deltas against the previous version; a copy that can't take one is reloaded
+      socket.on('feature-geometry-delta', ({ featureId, delta, baseVersion, version, updated_at }: {
+        featureId: string,
+        delta: GeometryDelta,
+        baseVersion: number,
+        version: number,
+        updated_at: string
+      }) => {
+        const applied = useFeatureStore.getState().applyGeometryDelta(featureId, delta, baseVersion, version, updated_at);
+        if (!applied && useFeatureStore.getState().features[featureId]) {
+          socket.emit('get-feature', featureId);
+        }
+      });
+      
+      // Updates made out of view, sent once the viewport moves to where they happened
+      socket.on('viewport-catch-up', ({ features, users }: { features: Feature[], users: User[] }) => {
+        features.forEach(feature => upsertFeature(feature));
+        users.forEach(user => useUserStore.getState().updateUser(user));
+      });
+      
+      socket.on('feature-deleted', ({ featureId }: { featureId: string }) => {
+        console.log("Feature deleted:", featureId);
+        deleteFeature(featureId);
+        useCommentStore.getState().detachComments([featureId]);
+      });
+      
+      socket.on('features-deleted', ({ featureIds }: { featureIds: string[] }) => {
+        console.log("Features deleted:", featureIds.length);
+        deleteFeatures(featureIds);
+        useCommentStore.getState().detachComments(featureIds);
+      });
+      
+      socket.on('features-imported', ({ features }: { features: Feature[] }) => {
+        console.log("Features imported:", features.length);
+        mergeFeatures(features);
+      });
+      
+      // Our update clashed with changes made by someone else - drop the local preview
+      socket.on('feature-update-conflict', ({ featureId, theirs, conflictingFields }: { 
+        featureId: string, 
+        theirs?: Feature, 
+        conflictingFields?: string[] 
+      }) => {
+        clearDragPreview(featureId);
+        if (theirs) {
+          upsertFeature(theirs);
+        }
+        setErrorMessage(conflictingFields && conflictingFields.length > 0 ?
+          `This feature was changed by someone else (${conflictingFields.join(', ')}). Please try again.` :
+          'This feature was changed by someone else. Please try again.');
+      });
+      
+      socket.on('feature-image-updated', ({ featureId, checksum }: { featureId: string, checksum: string }) => {
+        setImageChecksum(featureId, checksum);
+      });
+      
+      socket.on('undo-failed', ({ message }: { message: string }) => {
+        setErrorMessage(`Cannot undo: ${message}`);
+      });
+      
+      socket.on('redo-failed', ({ message }: { message: string }) => {
+        setErrorMessage(`Cannot redo: ${message}`);
+      });
+      
+      // The whole map was rolled back - reload its features
+      socket.on('map-restored', ({ restoredBy }: { restoredBy: { name: string } }) => {
+        console.log("Map restored by:", restoredBy.name);
+        socket.emit('reset-feature-cache');
+        socket.emit('get-features');
+        // Anchored comments moved with the restored features
+        queryClient.invalidateQueries({ queryKey: ['comments'] });
+      });
+      
+      // Features being edited by someone (including this user)
+      socket.on('current-locks', ({ locks }: { locks: FeatureLock[] }) => {
+        setLocks(locks);
+      });
+      
+      socket.on('features-locked', ({ locks }: { locks: FeatureLock[] }) => {
+        addLocks(locks);
+      });
+      
+      socket.on('features-unlocked', ({ featureIds, userId }: { featureIds: string[], userId: string }) => {
+        removeLocks(featureIds, userId);
+      });
+      
+      // Our change or lock request was rejected because someone else is editing the feature
+      socket.on('feature-locked', (lock: FeatureLock) => {
+        clearDragPreview(lock.featureId);
+        addLocks([lock]);
+        setErrorMessage(`This feature is being edited by ${lock.holder.name}`);
+      });
+      
+      socket.on('lock-lost', ({ featureIds, reason }: { featureIds: string[], reason: string }) => {
+        const selfId = useUserStore.getState().currentUser?.id;
+        removeLocks(featureIds, selfId);
+        if (reason === 'taken-over') {
+          setErrorMessage('Someone else took over the feature you were editing');
+        }
+      });
+      
+      // Live drag previews from other users
+      dragEvents.forEach(event => {
+        socket.on(event, (preview: FeatureDragPreview) => {
+          setDragPreview(preview);
+        });
+      });
+      
+      return () => {
+        featureEvents.forEach(event => socket.off(event));
+      };
+    }
+  }, [
+    currentMap, 
+    setFeatures, 
+    mergeFeatures, 
+    upsertFeature, 
+    deleteFeature, 
+    deleteFeatures, 
+    clearFeatures, 
+    setDragPreview, 
+    clearDragPreview, 
+    setViewportLoading, 
+    setImageChecksum,
+    setLocks,
+    addLocks,
+    removeLocks
+  ]);
+
   // Join a specific map
   const joinMap = (mapId: number) => {
     clearUsers();
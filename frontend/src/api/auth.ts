@@ -0,0 +1,57 @@
+// Path: api\auth.ts
+
+// Where the access token is kept between sessions
+const TOKEN_STORAGE_KEY = 'auth-token';
+
+// Where the id of this client is kept, so it stays the same user across requests and sessions
+const CLIENT_ID_STORAGE_KEY = 'client-id';
+
+/**
+ * Get the access token issued to this user
+ * Falls back to VITE_AUTH_TOKEN, handy for local setups
+ */
+export const getAuthToken = (): string | null => {
+  return localStorage.getItem(TOKEN_STORAGE_KEY) || import.meta.env.VITE_AUTH_TOKEN || null;
+};
+
+export const setAuthToken = (token: string | null): void => {
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+};
+
+/**
+ * Get the persistent id of this client
+ * Only the backend dev authentication uses it as the user id, a token takes precedence otherwise
+ */
+export const getClientId = (): string => {
+  let clientId = localStorage.getItem(CLIENT_ID_STORAGE_KEY);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_STORAGE_KEY, clientId);
+  }
+  return clientId;
+};
+
+/**
+ * Authorization headers for API requests
+ */
+export const authHeaders = (): Record<string, string> => {
+  const token = getAuthToken();
+  return {
+    'user-id': getClientId(),
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  };
+};
+
+/**
+ * Add the access token and client id to a URL loaded by the browser itself (e.g. <img> sources)
+ */
+export const withAccessToken = (url: string): string => {
+  const token = getAuthToken();
+  const params = new URLSearchParams({ client_id: getClientId() });
+  if (token) params.set('access_token', token);
+  return `${url}${url.includes('?') ? '&' : '?'}${params.toString()}`;
+};
@@ -1,31 +1,41 @@
 // Path: api\comments.ts
 import { Comment, CommentFormData, Reply, ReplyFormData } from '../types';
+import { authHeaders } from './auth';
 
 const API_URL = import.meta.env.VITE_API_URL;
 
 export const fetchMapComments = async (mapId: number): Promise<Comment[]> => {
-  const response = await fetch(`${API_URL}/maps/${mapId}/comments`);
+  const response = await fetch(`${API_URL}/maps/${mapId}/comments`, { headers: authHeaders() });
   if (!response.ok) throw new Error('Failed to fetch comments');
   return response.json();
 };
 
+// Comments anchored to a feature, with their replies
+export const fetchFeatureComments = async (featureId: string): Promise<Comment[]> => {
+  const response = await fetch(`${API_URL}/features/${featureId}/comments`, { headers: authHeaders() });
+  if (!response.ok) throw new Error('Failed to fetch feature comments');
+  return response.json();
+};
+
 export const createComment = async (
   mapId: number, 
   userId: string, 
   userName: string, 
   position: { lng: number, lat: number },
-  data: CommentFormData
+  data: CommentFormData,
+  featureId?: string | null
 ): Promise<Comment> => {
   const response = await fetch(`${API_URL}/comments`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify({
       map_id: mapId,
       user_id: userId,
       user_name: userName,
       content: data.content,
       lng: position.lng,
-      lat: position.lat
+      lat: position.lat,
+      feature_id: featureId || null
     })
   });
   
@@ -40,7 +50,7 @@ export const updateComment = async (
 ): Promise<Comment> => {
   const response = await fetch(`${API_URL}/comments/${commentId}?userId=${userId}`, {
     method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify({
       content: data.content
     })
@@ -57,7 +67,7 @@ export const updateCommentPosition = async (
 ): Promise<Comment> => {
   const response = await fetch(`${API_URL}/comments/${commentId}/position?userId=${userId}`, {
     method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify({
       lng: position.lng,
       lat: position.lat
@@ -73,7 +83,8 @@ export const deleteComment = async (
   userId: string
 ): Promise<void> => {
   const response = await fetch(`${API_URL}/comments/${commentId}?userId=${userId}`, {
-    method: 'DELETE'
+    method: 'DELETE',
+    headers: authHeaders()
   });
   
   if (!response.ok) throw new Error('Failed to delete comment');
@@ -87,7 +98,7 @@ export const createReply = async (
 ): Promise<Reply> => {
   const response = await fetch(`${API_URL}/replies`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify({
       comment_id: commentId,
       user_id: userId,
@@ -107,7 +118,7 @@ export const updateReply = async (
 ): Promise<Reply> => {
   const response = await fetch(`${API_URL}/replies/${replyId}?userId=${userId}`, {
     method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify({
       content: data.content
     })
@@ -122,7 +133,8 @@ export const deleteReply = async (
   userId: string
 ): Promise<void> => {
   const response = await fetch(`${API_URL}/replies/${replyId}?userId=${userId}`, {
-    method: 'DELETE'
+    method: 'DELETE',
+    headers: authHeaders()
   });
   
   if (!response.ok) throw new Error('Failed to delete reply');
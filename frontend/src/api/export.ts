@@ -0,0 +1,46 @@
+// Path: api\export.ts
+import { authHeaders } from './auth';
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+// File formats a map can be exported to
+export const EXPORT_FORMATS = [
+  { format: 'geojson', label: 'GeoJSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'kml', label: 'KML (Google Earth)' },
+  { format: 'kmz', label: 'KMZ (Google Earth)' }
+];
+
+// Fetch an export of a map and save it as a file
+export const downloadMapExport = async (
+  mapId: number,
+  format: string,
+  includeComments: boolean,
+  userId: string,
+  userName: string
+): Promise<void> => {
+  const response = await fetch(
+    `${API_URL}/maps/${mapId}/export?format=${format}${includeComments ? '&comments=true' : ''}`,
+    {
+      headers: {
+        // Only used by the backend dev authentication, a token takes precedence
+        'user-id': userId,
+        'user-name': userName,
+        ...authHeaders()
+      }
+    }
+  );
+
+  if (!response.ok) throw new Error('Failed to export map');
+
+  // Keep the file name chosen by the server
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `map-${mapId}.${format}`;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,36 @@
+// Path: api\features.ts
+
+import { authHeaders } from './auth';
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export const getFeatureImageUrl = (mapId: number, featureId: string, thumbnail = false): string => {
+  return `${API_URL}/maps/${mapId}/features/${featureId}/image${thumbnail ? '/thumbnail' : ''}`;
+};
+
+// URL template of the vector tiles of a map, for a MapLibre vector source
+export const getMapTilesUrl = (mapId: number): string => {
+  return `${API_URL}/maps/${mapId}/tiles/{z}/{x}/{y}.mvt`;
+};
+
+export const uploadFeatureImage = async (
+  mapId: number,
+  featureId: string,
+  userId: string,
+  userName: string,
+  file: File
+): Promise<void> => {
+  const response = await fetch(getFeatureImageUrl(mapId, featureId), {
+    method: 'POST',
+    headers: {
+      'Content-Type': file.type,
+      // Only used by the backend dev authentication, a token takes precedence
+      'user-id': userId,
+      'user-name': userName,
+      ...authHeaders()
+    },
+    body: file
+  });
+
+  if (!response.ok) throw new Error('Failed to upload image');
+};
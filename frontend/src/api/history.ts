@@ -0,0 +1,19 @@
+// Path: api\history.ts
+import { FeatureHistoryEntry, MapSnapshot } from '../types';
+import { authHeaders } from './auth';
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+// Most recent entries first
+export const fetchMapHistory = async (mapId: number, limit?: number): Promise<FeatureHistoryEntry[]> => {
+  const query = limit ? `?limit=${limit}` : '';
+  const response = await fetch(`${API_URL}/maps/${mapId}/history${query}`, { headers: authHeaders() });
+  if (!response.ok) throw new Error('Failed to fetch map history');
+  return response.json();
+};
+
+export const fetchMapSnapshot = async (mapId: number, at: number): Promise<MapSnapshot> => {
+  const response = await fetch(`${API_URL}/maps/${mapId}/snapshot?at=${at}`, { headers: authHeaders() });
+  if (!response.ok) throw new Error('Failed to fetch map snapshot');
+  return response.json();
+};
@@ -0,0 +1,49 @@
+// Path: api\import.ts
+import { ImportSummary } from '../types';
+import { authHeaders } from './auth';
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+// File formats the backend can import, by file extension
+const IMPORT_FORMATS: Record<string, string> = {
+  geojson: 'geojson',
+  json: 'geojson',
+  kml: 'kml',
+  kmz: 'kmz',
+  gpx: 'gpx',
+  zip: 'shapefile' // Zipped .shp/.shx/.dbf/.prj
+};
+
+export const IMPORT_EXTENSIONS = Object.keys(IMPORT_FORMATS).map(extension => `.${extension}`);
+
+export const getImportFormat = (fileName: string): string | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return IMPORT_FORMATS[extension] || null;
+};
+
+// The file is sent as is; the imported features also arrive through the 'features-imported' event
+// attributes renames source fields (e.g. shapefile DBF columns) to feature properties, leaving out the others
+export const importFile = async (
+  mapId: number,
+  format: string,
+  file: File,
+  attributes?: Record<string, string>
+): Promise<ImportSummary> => {
+  const query = attributes ? `?attributes=${encodeURIComponent(JSON.stringify(attributes))}` : '';
+  const response = await fetch(`${API_URL}/maps/${mapId}/import/${format}${query}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      ...authHeaders()
+    },
+    body: file
+  });
+
+  // 422 means none of the records could be imported, the summary tells why
+  if (!response.ok && response.status !== 422) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to import file');
+  }
+
+  return response.json();
+};
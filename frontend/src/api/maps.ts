@@ -1,17 +1,18 @@
 // Path: api\maps.ts
 import { QueryClient } from '@tanstack/react-query';
 import { Map, MapFormData } from '../types';
+import { authHeaders } from './auth';
 
 const API_URL = import.meta.env.VITE_API_URL;
 
 export const fetchMaps = async (): Promise<Map[]> => {
-  const response = await fetch(`${API_URL}/maps`);
+  const response = await fetch(`${API_URL}/maps`, { headers: authHeaders() });
   if (!response.ok) throw new Error('Failed to fetch maps');
   return response.json();
 };
 
 export const fetchMap = async (id: number): Promise<Map> => {
-  const response = await fetch(`${API_URL}/maps/${id}`);
+  const response = await fetch(`${API_URL}/maps/${id}`, { headers: authHeaders() });
   if (!response.ok) throw new Error('Failed to fetch map');
   return response.json();
 };
@@ -19,7 +20,7 @@ export const fetchMap = async (id: number): Promise<Map> => {
 export const createMap = async (data: MapFormData): Promise<Map> => {
   const response = await fetch(`${API_URL}/maps`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify(data)
   });
   
@@ -30,7 +31,7 @@ export const createMap = async (data: MapFormData): Promise<Map> => {
 export const updateMap = async (id: number, data: MapFormData): Promise<Map> => {
   const response = await fetch(`${API_URL}/maps/${id}`, {
     method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify(data)
   });
   
@@ -40,7 +41,8 @@ export const updateMap = async (id: number, data: MapFormData): Promise<Map> =>
 
 export const deleteMap = async (id: number): Promise<void> => {
   const response = await fetch(`${API_URL}/maps/${id}`, {
-    method: 'DELETE'
+    method: 'DELETE',
+    headers: authHeaders()
   });
   
   if (!response.ok) throw new Error('Failed to delete map');
@@ -2,6 +2,7 @@
 import React, { useState, useMemo } from 'react';
 import { useUserStore } from '../store/useUserStore';
 import { useCommentStore } from '../store/useCommentStore';
+import { useFeatureStore } from '../store/useFeatureStore';
 import { useMutation } from '@tanstack/react-query';
 import { createComment } from '../api/comments';
 import { commentFormSchema } from '../schemas/comment.schema';
@@ -46,6 +47,9 @@ const AddCommentLayer: React.FC<AddCommentLayerProps> = ({
   
   const { addComment } = useCommentStore();
   
+  // A comment added with a feature selected is anchored to it and moves with it
+  const selectedFeatureId = useFeatureStore(state => state.selectedFeatureId);
+  
   const createCommentMutation = useMutation({
     mutationFn: (data: { content: string }) => {
       if (!currentUser || !position) {
@@ -56,7 +60,8 @@ const AddCommentLayer: React.FC<AddCommentLayerProps> = ({
         currentUserId,
         currentUserName,
         position,
-        data
+        data,
+        selectedFeatureId
       );
     },
     onSuccess: (newComment) => {
@@ -107,6 +112,11 @@ const AddCommentLayer: React.FC<AddCommentLayerProps> = ({
           <Typography variant="caption" display="block" mb={1}>
             At coordinates: {position.lng.toFixed(6)}, {position.lat.toFixed(6)}
           </Typography>
+          {selectedFeatureId && (
+            <Typography variant="caption" display="block" color="text.secondary" mb={1}>
+              Anchored to the selected feature
+            </Typography>
+          )}
           
           <TextField
             fullWidth
@@ -0,0 +1,69 @@
+// Path: components\AddTextFeatureDialog.tsx
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Position } from '../types';
+
+// Same limit enforced by the backend
+const MAX_TEXT_LENGTH = 500;
+
+interface AddTextFeatureDialogProps {
+  position: Position;
+  onSubmit: (text: string) => void;
+  onClose: () => void;
+}
+
+const AddTextFeatureDialog: React.FC<AddTextFeatureDialogProps> = ({
+  position,
+  onSubmit,
+  onClose
+}) => {
+  const [text, setText] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onSubmit(text.trim());
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Add Text</DialogTitle>
+
+      <form onSubmit={handleSubmit}>
+        <DialogContent>
+          <Typography variant="caption" display="block" mb={1}>
+            At coordinates: {position.lng.toFixed(6)}, {position.lat.toFixed(6)}
+          </Typography>
+
+          <TextField
+            fullWidth
+            label="Text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            variant="outlined"
+            required
+            autoFocus
+            inputProps={{ maxLength: MAX_TEXT_LENGTH }}
+          />
+        </DialogContent>
+
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={!text.trim()}>
+            Add
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default AddTextFeatureDialog;
@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useUserStore } from '../store/useUserStore';
 import { useCommentStore } from '../store/useCommentStore';
-import { Comment } from '../types';
+import { Comment, CommentStatus } from '../types';
 import { formatDistanceToNow } from 'date-fns';
 import { commentFormSchema, replyFormSchema } from '../schemas/comment.schema';
 import { ZodError } from 'zod';
@@ -21,7 +21,8 @@ import {
   Typography,
   IconButton,
   Box,
-  Stack
+  Stack,
+  Chip
 } from '@mui/material';
 import {
   Edit as EditIcon,
@@ -42,9 +43,16 @@ import {
 interface CommentDialogProps {
   comment: Comment | null;
   onClose: () => void;
+  onChangeStatus?: (status: CommentStatus) => void; // Not set when the user can't close/reopen threads
 }
 
-const CommentDialog: React.FC<CommentDialogProps> = ({ comment, onClose }) => {
+const STATUS_LABELS: Record<CommentStatus, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  'wont-fix': "Won't fix"
+};
+
+const CommentDialog: React.FC<CommentDialogProps> = ({ comment, onClose, onChangeStatus }) => {
   // Fix: Get currentUser directly instead of creating a new object
   const currentUser = useUserStore(state => state.currentUser);
   
@@ -286,6 +294,40 @@ const CommentDialog: React.FC<CommentDialogProps> = ({ comment, onClose }) => {
           <Typography variant="caption" color="text.secondary" display="block" mt={1}>
             Location: {comment.lng.toFixed(6)}, {comment.lat.toFixed(6)}
           </Typography>
+          
+          <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={1} mt={1}>
+            <Box display="flex" alignItems="center" gap={1}>
+              <Chip 
+                size="small" 
+                label={STATUS_LABELS[comment.status]} 
+                color={comment.status === 'open' ? 'primary' : 'default'}
+              />
+              {comment.status !== 'open' && comment.resolved_by_name && comment.resolved_at && (
+                <Typography variant="caption" color="text.secondary">
+                  by {comment.resolved_by_name} {formatDistanceToNow(new Date(comment.resolved_at), { addSuffix: true })}
+                </Typography>
+              )}
+            </Box>
+            
+            {onChangeStatus && (
+              <Box>
+                {comment.status === 'open' ? (
+                  <>
+                    <Button size="small" onClick={() => onChangeStatus('wont-fix')}>
+                      Won't fix
+                    </Button>
+                    <Button size="small" variant="outlined" onClick={() => onChangeStatus('resolved')}>
+                      Resolve
+                    </Button>
+                  </>
+                ) : (
+                  <Button size="small" onClick={() => onChangeStatus('open')}>
+                    Reopen
+                  </Button>
+                )}
+              </Box>
+            )}
+          </Stack>
         </Box>
         
         <Divider sx={{ my: 2 }} />
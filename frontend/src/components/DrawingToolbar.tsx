@@ -0,0 +1,143 @@
+// Path: components\DrawingToolbar.tsx
+import React from 'react';
+import {
+  Paper,
+  ToggleButtonGroup,
+  ToggleButton,
+  Tooltip,
+  IconButton,
+  Divider
+} from '@mui/material';
+import {
+  NearMe as SelectIcon,
+  Place as PointIcon,
+  Polyline as LineIcon,
+  PentagonOutlined as PolygonIcon,
+  TextFields as TextIcon,
+  Image as ImageIcon,
+  Check as CheckIcon,
+  Close as CloseIcon,
+  Delete as DeleteIcon,
+  Undo as UndoIcon,
+  Redo as RedoIcon
+} from '@mui/icons-material';
+import { useFeatureStore } from '../store/useFeatureStore';
+import { DrawingTool } from '../types';
+import { minVertices } from '../utils/featureGeometry';
+
+interface DrawingToolbarProps {
+  onFinishDrawing: () => void;
+  onDeleteSelected: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const TOOLS: { tool: DrawingTool, label: string, icon: React.ReactNode }[] = [
+  { tool: 'select', label: 'Select and move', icon: <SelectIcon /> },
+  { tool: 'point', label: 'Draw point', icon: <PointIcon /> },
+  { tool: 'line', label: 'Draw line (double-click to finish)', icon: <LineIcon /> },
+  { tool: 'polygon', label: 'Draw polygon (double-click to finish)', icon: <PolygonIcon /> },
+  { tool: 'text', label: 'Add text', icon: <TextIcon /> },
+  { tool: 'image', label: 'Add image', icon: <ImageIcon /> }
+];
+
+const DrawingToolbar: React.FC<DrawingToolbarProps> = ({ 
+  onFinishDrawing, 
+  onDeleteSelected, 
+  onUndo, 
+  onRedo 
+}) => {
+  const {
+    activeTool,
+    drawingVertices,
+    selectedFeatureId,
+    setActiveTool,
+    clearDrawingVertices
+  } = useFeatureStore();
+
+  const isDrawingShape = activeTool === 'line' || activeTool === 'polygon';
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        position: 'absolute',
+        top: 16,
+        right: 16,
+        zIndex: 1,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center'
+      }}
+    >
+      <ToggleButtonGroup
+        orientation="vertical"
+        exclusive
+        size="small"
+        value={activeTool}
+        onChange={(_, tool: DrawingTool | null) => {
+          if (tool) setActiveTool(tool);
+        }}
+      >
+        {TOOLS.map(({ tool, label, icon }) => (
+          <Tooltip key={tool} title={label} placement="left">
+            <ToggleButton value={tool} aria-label={label}>
+              {icon}
+            </ToggleButton>
+          </Tooltip>
+        ))}
+      </ToggleButtonGroup>
+
+      {/* Actions for the shape being drawn */}
+      {isDrawingShape && drawingVertices.length > 0 && (
+        <>
+          <Divider flexItem />
+          <Tooltip title="Finish drawing" placement="left">
+            <span>
+              <IconButton
+                size="small"
+                color="primary"
+                onClick={onFinishDrawing}
+                disabled={drawingVertices.length < minVertices(activeTool)}
+              >
+                <CheckIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="Cancel drawing" placement="left">
+            <IconButton size="small" onClick={clearDrawingVertices}>
+              <CloseIcon />
+            </IconButton>
+          </Tooltip>
+        </>
+      )}
+
+      {/* Undo/redo of the user's own operations */}
+      <Divider flexItem />
+      <Tooltip title="Undo (Ctrl+Z)" placement="left">
+        <IconButton size="small" onClick={onUndo}>
+          <UndoIcon />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Redo (Ctrl+Shift+Z)" placement="left">
+        <IconButton size="small" onClick={onRedo}>
+          <RedoIcon />
+        </IconButton>
+      </Tooltip>
+
+      {/* Actions for the selected feature */}
+      {activeTool === 'select' && selectedFeatureId && (
+        <>
+          <Divider flexItem />
+          <Tooltip title="Delete selected feature" placement="left">
+            <IconButton size="small" color="error" onClick={onDeleteSelected}>
+              <DeleteIcon />
+            </IconButton>
+          </Tooltip>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default DrawingToolbar;
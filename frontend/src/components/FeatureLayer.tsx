@@ -0,0 +1,288 @@
+// Path: components\FeatureLayer.tsx
+import React, { useMemo, memo } from 'react';
+import { Source, Layer, Marker, MarkerDragEvent } from 'react-map-gl/maplibre';
+import type { FeatureCollection } from 'geojson';
+import { useFeatureStore } from '../store/useFeatureStore';
+import { getFeatureImageUrl } from '../api/features';
+import { withAccessToken } from '../api/auth';
+import { Feature, Position } from '../types';
+import { toGeoJSONFeature, verticesToCoordinates } from '../utils/featureGeometry';
+
+// Layer ids that can be clicked or dragged in the select tool
+export const FEATURE_LAYER_IDS = [
+  'features-polygon-fill',
+  'features-line',
+  'features-point',
+  'features-text'
+];
+
+const SELECTED_COLOR = '#ff9800';
+const LOCKED_COLOR = '#f44336';
+
+// Base size in pixels of an image feature with size = 1
+const IMAGE_BASE_SIZE = 64;
+
+interface FeatureLayerProps {
+  mapId: number;
+  isDraggable: boolean;
+  selfId?: string; // Locks held by this user don't block editing
+  onImageDrag: (feature: Feature, offset: Position) => void;
+  onImageDragEnd: (feature: Feature, offset: Position) => void;
+}
+
+const FeatureLayer: React.FC<FeatureLayerProps> = ({
+  mapId,
+  isDraggable,
+  selfId,
+  onImageDrag,
+  onImageDragEnd
+}) => {
+  const {
+    features,
+    selectedFeatureId,
+    activeTool,
+    drawingVertices,
+    dragPreviews,
+    imageChecksums,
+    locks
+  } = useFeatureStore();
+
+  // GeoJSON for everything rendered through style layers, with live drag offsets applied
+  const featureCollection = useMemo<FeatureCollection>(() => ({
+    type: 'FeatureCollection',
+    features: Object.values(features)
+      .filter(feature => feature.feature_type !== 'image')
+      .map(feature => toGeoJSONFeature(feature, dragPreviews[feature.id]?.offset))
+  }), [features, dragPreviews]);
+
+  const imageFeatures = useMemo(
+    () => Object.values(features).filter(feature => feature.feature_type === 'image'),
+    [features]
+  );
+
+  // Preview of the line or polygon currently being drawn
+  const drawingCollection = useMemo<FeatureCollection>(() => {
+    if ((activeTool !== 'line' && activeTool !== 'polygon') || drawingVertices.length === 0) {
+      return { type: 'FeatureCollection', features: [] };
+    }
+
+    const vertices = drawingVertices.map(v => ({
+      type: 'Feature' as const,
+      geometry: { type: 'Point' as const, coordinates: [v.lng, v.lat] },
+      properties: {}
+    }));
+
+    if (drawingVertices.length < 2) {
+      return { type: 'FeatureCollection', features: vertices };
+    }
+
+    const coordinates = verticesToCoordinates(activeTool, drawingVertices);
+
+    return {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: activeTool === 'polygon' ?
+            { type: 'LineString', coordinates: coordinates[0] } :
+            { type: 'LineString', coordinates },
+          properties: {}
+        },
+        ...vertices
+      ]
+    };
+  }, [activeTool, drawingVertices]);
+
+  const selectedFilter = ['==', ['get', 'id'], selectedFeatureId || ''] as any;
+
+  // Features being edited by other users
+  const lockedIds = useMemo(
+    () => Object.values(locks).filter(lock => lock.holder.id !== selfId).map(lock => lock.featureId),
+    [locks, selfId]
+  );
+  const lockedFilter = ['in', ['get', 'id'], ['literal', lockedIds]] as any;
+
+  const renderImageMarkers = () => {
+    return imageFeatures.map(feature => {
+      const preview = dragPreviews[feature.id];
+      const [lng, lat] = feature.geometry.coordinates;
+      const size = IMAGE_BASE_SIZE * (feature.properties.size || 1);
+      const checksum = imageChecksums[feature.id];
+      const locked = lockedIds.includes(feature.id);
+
+      return (
+        <Marker
+          key={`image-${feature.id}`}
+          longitude={lng + (preview?.offset.lng || 0)}
+          latitude={lat + (preview?.offset.lat || 0)}
+          anchor="center"
+          rotation={feature.properties.rotation || 0}
+          draggable={isDraggable && !locked}
+          onDrag={(e: MarkerDragEvent) => onImageDrag(feature, { lng: e.lngLat.lng - lng, lat: e.lngLat.lat - lat })}
+          onDragEnd={(e: MarkerDragEvent) => onImageDragEnd(feature, { lng: e.lngLat.lng - lng, lat: e.lngLat.lat - lat })}
+          onClick={(e) => {
+            e.originalEvent.stopPropagation();
+            useFeatureStore.getState().selectFeature(feature.id);
+          }}
+        >
+          <img
+            src={withAccessToken(`${getFeatureImageUrl(mapId, feature.id, true)}${checksum ? `?v=${checksum}` : ''}`)}
+            alt=""
+            draggable={false}
+            style={{
+              maxWidth: size,
+              maxHeight: size,
+              opacity: feature.properties.opacity ?? 1,
+              outline: locked ? `2px dashed ${LOCKED_COLOR}` :
+                feature.id === selectedFeatureId ? `2px solid ${SELECTED_COLOR}` : 'none',
+              cursor: isDraggable && !locked ? 'move' : 'pointer',
+              display: 'block'
+            }}
+          />
+        </Marker>
+      );
+    });
+  };
+
+  return (
+    <>
+      <Source id="features" type="geojson" data={featureCollection}>
+        <Layer
+          id="features-polygon-fill"
+          type="fill"
+          filter={['==', ['get', 'feature_type'], 'polygon']}
+          paint={{
+            'fill-color': ['get', 'fillColor'],
+            'fill-opacity': ['get', 'fillOpacity']
+          }}
+        />
+        <Layer
+          id="features-polygon-border"
+          type="line"
+          filter={['==', ['get', 'feature_type'], 'polygon']}
+          paint={{
+            'line-color': ['get', 'borderColor'],
+            'line-width': ['get', 'borderSize'],
+            'line-opacity': ['get', 'borderOpacity']
+          }}
+        />
+        <Layer
+          id="features-line"
+          type="line"
+          filter={['==', ['get', 'feature_type'], 'line']}
+          layout={{ 'line-cap': 'round', 'line-join': 'round' }}
+          paint={{
+            'line-color': ['get', 'color'],
+            'line-width': ['get', 'size'],
+            'line-opacity': ['get', 'opacity']
+          }}
+        />
+        <Layer
+          id="features-point"
+          type="circle"
+          filter={['==', ['get', 'feature_type'], 'point']}
+          paint={{
+            'circle-color': ['get', 'color'],
+            'circle-radius': ['get', 'size'],
+            'circle-opacity': ['get', 'opacity'],
+            'circle-stroke-color': '#ffffff',
+            'circle-stroke-width': 1
+          }}
+        />
+        <Layer
+          id="features-text"
+          type="symbol"
+          filter={['==', ['get', 'feature_type'], 'text']}
+          layout={{
+            'text-field': ['get', 'text'],
+            'text-font': ['Open Sans Semibold'],
+            'text-size': ['get', 'size'],
+            'text-rotate': ['get', 'rotation'],
+            'text-justify': ['get', 'justification'],
+            'text-allow-overlap': true,
+            'text-ignore-placement': true
+          }}
+          paint={{
+            'text-color': ['get', 'color'],
+            'text-halo-color': ['get', 'bufferColor'],
+            'text-halo-width': 1.5
+          }}
+        />
+
+        {/* Highlight for the selected feature */}
+        <Layer
+          id="features-selected-line"
+          type="line"
+          filter={['all', selectedFilter, ['!=', ['get', 'feature_type'], 'point'], ['!=', ['get', 'feature_type'], 'text']]}
+          paint={{
+            'line-color': SELECTED_COLOR,
+            'line-width': 3,
+            'line-dasharray': [2, 1]
+          }}
+        />
+        <Layer
+          id="features-selected-point"
+          type="circle"
+          filter={['all', selectedFilter, ['any', ['==', ['get', 'feature_type'], 'point'], ['==', ['get', 'feature_type'], 'text']]]}
+          paint={{
+            'circle-color': 'transparent',
+            'circle-radius': 12,
+            'circle-stroke-color': SELECTED_COLOR,
+            'circle-stroke-width': 2
+          }}
+        />
+
+        {/* Highlight for features locked by other users */}
+        <Layer
+          id="features-locked-line"
+          type="line"
+          filter={['all', lockedFilter, ['!=', ['get', 'feature_type'], 'point'], ['!=', ['get', 'feature_type'], 'text']]}
+          paint={{
+            'line-color': LOCKED_COLOR,
+            'line-width': 3,
+            'line-dasharray': [1, 1]
+          }}
+        />
+        <Layer
+          id="features-locked-point"
+          type="circle"
+          filter={['all', lockedFilter, ['any', ['==', ['get', 'feature_type'], 'point'], ['==', ['get', 'feature_type'], 'text']]]}
+          paint={{
+            'circle-color': 'transparent',
+            'circle-radius': 14,
+            'circle-stroke-color': LOCKED_COLOR,
+            'circle-stroke-width': 2
+          }}
+        />
+      </Source>
+
+      <Source id="drawing" type="geojson" data={drawingCollection}>
+        <Layer
+          id="drawing-line"
+          type="line"
+          filter={['==', ['geometry-type'], 'LineString']}
+          paint={{
+            'line-color': SELECTED_COLOR,
+            'line-width': 2,
+            'line-dasharray': [2, 2]
+          }}
+        />
+        <Layer
+          id="drawing-vertices"
+          type="circle"
+          filter={['==', ['geometry-type'], 'Point']}
+          paint={{
+            'circle-color': '#ffffff',
+            'circle-radius': 4,
+            'circle-stroke-color': SELECTED_COLOR,
+            'circle-stroke-width': 2
+          }}
+        />
+      </Source>
+
+      {renderImageMarkers()}
+    </>
+  );
+};
+
+export default memo(FeatureLayer);
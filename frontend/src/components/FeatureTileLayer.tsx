@@ -0,0 +1,208 @@
+// Path: components\FeatureTileLayer.tsx
+import React, { useCallback, useEffect, useMemo, useRef, memo } from 'react';
+import { Source, Layer, useMap } from 'react-map-gl/maplibre';
+import type { ExpressionSpecification, FilterSpecification } from 'maplibre-gl';
+import { useFeatureStore } from '../store/useFeatureStore';
+import { getMapTilesUrl } from '../api/features';
+import { withAccessToken } from '../api/auth';
+import { featureBounds } from '../utils/featureGeometry';
+
+// Wait for changes to settle before reloading the tiles
+const TILE_REFRESH_DELAY = 2000;
+
+const TILE_SOURCE_ID = 'feature-tiles';
+
+// Deepest zoom level the server serves tiles for
+const MAX_TILE_ZOOM = 22;
+
+// Bottom layer of FeatureLayer, tiles are drawn under it
+const FEATURE_LAYER_BOTTOM_ID = 'features-polygon-fill';
+
+// [minLng, minLat, maxLng, maxLat]
+type Bounds = [number, number, number, number];
+
+interface TileId {
+  x: number;
+  y: number;
+  z: number;
+}
+
+const intersectBounds = (a: Bounds, b: Bounds): Bounds | null => {
+  const bounds: Bounds = [Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.min(a[2], b[2]), Math.min(a[3], b[3])];
+  return bounds[0] <= bounds[2] && bounds[1] <= bounds[3] ? bounds : null;
+};
+
+/**
+ * Web Mercator tiles of a zoom level covering the given bounds
+ */
+const tilesCovering = ([minLng, minLat, maxLng, maxLat]: Bounds, z: number): TileId[] => {
+  const count = 2 ** z;
+  const clampTile = (tile: number) => Math.min(count - 1, Math.max(0, Math.floor(tile)));
+  const tileX = (lng: number) => clampTile((lng + 180) / 360 * count);
+  const tileY = (lat: number) => {
+    const radians = Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI / 180;
+    return clampTile((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2 * count);
+  };
+
+  const tiles: TileId[] = [];
+  for (let x = tileX(minLng); x <= tileX(maxLng); x++) {
+    for (let y = tileY(maxLat); y <= tileY(minLat); y++) {
+      tiles.push({ x, y, z });
+    }
+  }
+  return tiles;
+};
+
+interface FeatureTileLayerProps {
+  mapId: number;
+}
+
+/**
+ * Vector tiles with all features of a map too large to load at once
+ * Features already loaded in the store are drawn (and edited) by FeatureLayer, so they are left out here
+ */
+const FeatureTileLayer: React.FC<FeatureTileLayerProps> = ({ mapId }) => {
+  const { features } = useFeatureStore();
+  const { current: map } = useMap();
+  const previousFeatures = useRef(features);
+  // Areas with changes the tiles may not show yet
+  const staleBounds = useRef<Bounds[]>([]);
+
+  // When FeatureLayer is mounted first, its layers would otherwise end up under the tiles
+  const beforeId = map?.getLayer(FEATURE_LAYER_BOTTOM_ID) ? FEATURE_LAYER_BOTTOM_ID : undefined;
+
+  // Reload the tiles in view under the stale areas, the other areas wait until they are in view
+  const refreshStaleTiles = useCallback(() => {
+    if (!map?.getSource(TILE_SOURCE_ID)) return;
+
+    const view = map.getBounds();
+    const viewBounds: Bounds = [view.getWest(), view.getSouth(), view.getEast(), view.getNorth()];
+    const maxZoom = Math.min(Math.ceil(map.getZoom()), MAX_TILE_ZOOM);
+    const tiles: TileId[] = [];
+
+    staleBounds.current = staleBounds.current.filter(bounds => {
+      const visible = intersectBounds(bounds, viewBounds);
+      if (!visible) return true;
+
+      // Tiles of lower zoom levels are kept on screen while the deeper ones load
+      for (let z = 0; z <= maxZoom; z++) {
+        tiles.push(...tilesCovering(visible, z));
+      }
+      return false;
+    });
+
+    // Only these tiles are requested again, revalidated with their ETag
+    if (tiles.length) map.getMap().refreshTiles(TILE_SOURCE_ID, tiles);
+  }, [map]);
+
+  // Features leaving the store or changed in it (deleted, unloaded, remote edits) may be stale in the tiles
+  useEffect(() => {
+    const previous = previousFeatures.current;
+    previousFeatures.current = features;
+
+    Object.entries(previous).forEach(([id, feature]) => {
+      if (features[id] === feature) return;
+      staleBounds.current.push(featureBounds(feature));
+      if (features[id]) staleBounds.current.push(featureBounds(features[id]));
+    });
+
+    const timeout = setTimeout(refreshStaleTiles, TILE_REFRESH_DELAY);
+    return () => clearTimeout(timeout);
+  }, [features, refreshStaleTiles]);
+
+  useEffect(() => {
+    if (!map) return;
+
+    map.on('moveend', refreshStaleTiles);
+    return () => {
+      map.off('moveend', refreshStaleTiles);
+    };
+  }, [map, refreshStaleTiles]);
+
+  const tiles = useMemo(() => [withAccessToken(getMapTilesUrl(mapId))], [mapId]);
+
+  const notLoaded = useMemo<ExpressionSpecification>(
+    () => ['!', ['in', ['get', 'id'], ['literal', Object.keys(features)]]],
+    [features]
+  );
+  const ofType = (featureType: string): FilterSpecification =>
+    ['all', notLoaded, ['==', ['get', 'feature_type'], featureType]];
+
+  return (
+    <Source id={TILE_SOURCE_ID} type="vector" tiles={tiles}>
+      <Layer
+        id="feature-tiles-polygon-fill"
+        type="fill"
+        source-layer="features"
+        beforeId={beforeId}
+        filter={ofType('polygon')}
+        paint={{
+          'fill-color': ['get', 'fillColor'],
+          'fill-opacity': ['get', 'fillOpacity']
+        }}
+      />
+      <Layer
+        id="feature-tiles-polygon-border"
+        type="line"
+        source-layer="features"
+        beforeId={beforeId}
+        filter={ofType('polygon')}
+        paint={{
+          'line-color': ['get', 'borderColor'],
+          'line-width': ['get', 'borderSize'],
+          'line-opacity': ['get', 'borderOpacity']
+        }}
+      />
+      <Layer
+        id="feature-tiles-line"
+        type="line"
+        source-layer="features"
+        beforeId={beforeId}
+        filter={ofType('line')}
+        layout={{ 'line-cap': 'round', 'line-join': 'round' }}
+        paint={{
+          'line-color': ['get', 'color'],
+          'line-width': ['get', 'size'],
+          'line-opacity': ['get', 'opacity']
+        }}
+      />
+      <Layer
+        id="feature-tiles-point"
+        type="circle"
+        source-layer="features"
+        beforeId={beforeId}
+        filter={ofType('point')}
+        paint={{
+          'circle-color': ['get', 'color'],
+          'circle-radius': ['get', 'size'],
+          'circle-opacity': ['get', 'opacity'],
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 1
+        }}
+      />
+      <Layer
+        id="feature-tiles-text"
+        type="symbol"
+        source-layer="features"
+        beforeId={beforeId}
+        filter={ofType('text')}
+        layout={{
+          'text-field': ['get', 'text'],
+          'text-font': ['Open Sans Semibold'],
+          'text-size': ['get', 'size'],
+          'text-rotate': ['get', 'rotation'],
+          'text-justify': ['get', 'justification'],
+          'text-allow-overlap': true,
+          'text-ignore-placement': true
+        }}
+        paint={{
+          'text-color': ['get', 'color'],
+          'text-halo-color': ['get', 'bufferColor'],
+          'text-halo-width': 1.5
+        }}
+      />
+    </Source>
+  );
+};
+
+export default memo(FeatureTileLayer);
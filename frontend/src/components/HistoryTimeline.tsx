@@ -0,0 +1,216 @@
+// Path: components\HistoryTimeline.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Paper,
+  Box,
+  Slider,
+  IconButton,
+  Tooltip,
+  Typography,
+  CircularProgress
+} from '@mui/material';
+import {
+  PlayArrow as PlayIcon,
+  Pause as PauseIcon,
+  SkipPrevious as PreviousIcon,
+  SkipNext as NextIcon,
+  Close as CloseIcon
+} from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { fetchMapHistory, fetchMapSnapshot } from '../api/history';
+import {
+  TimelineFrame,
+  getEntryTime,
+  replayHistory,
+  sortHistoryEntries
+} from '../utils/historyPlayback';
+
+// Most recent history entries loaded in the timeline; older ones come from the snapshot
+const HISTORY_LIMIT = 5000;
+
+// Playback covers the whole timeline in this time
+const PLAYBACK_DURATION_MS = 20000;
+const PLAYBACK_TICK_MS = 50;
+
+// Share of the timeline during which a change stays highlighted
+const HIGHLIGHT_SHARE = 0.03;
+
+interface HistoryTimelineProps {
+  mapId: number;
+  onFrameChange: (frame: TimelineFrame | null) => void;
+  onClose: () => void;
+}
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({
+  mapId,
+  onFrameChange,
+  onClose
+}) => {
+  // The timeline ends when it was opened - later live changes are not replayed
+  const [openedAt] = useState(() => Date.now());
+  const [position, setPosition] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const { data: history, isLoading: isLoadingHistory, isError: isHistoryError } = useQuery({
+    queryKey: ['map-history', mapId, openedAt],
+    queryFn: () => fetchMapHistory(mapId, HISTORY_LIMIT),
+    gcTime: 0
+  });
+
+  const entries = useMemo(() => sortHistoryEntries(history || []), [history]);
+  const start = entries.length > 0 ? getEntryTime(entries[0]) - 1 : openedAt;
+  const end = Math.max(openedAt, entries.length > 0 ? getEntryTime(entries[entries.length - 1]) : 0);
+  const span = Math.max(end - start, 1);
+
+  // Features as they were before the first loaded entry
+  const { data: snapshot, isLoading: isLoadingSnapshot, isError: isSnapshotError } = useQuery({
+    queryKey: ['map-snapshot', mapId, start],
+    queryFn: () => fetchMapSnapshot(mapId, start),
+    enabled: !!history,
+    gcTime: 0
+  });
+
+  const currentPosition = position ?? end;
+
+  const frame = useMemo<TimelineFrame | null>(() => {
+    if (!snapshot) return null;
+    return replayHistory(snapshot.features, entries, currentPosition, span * HIGHLIGHT_SHARE);
+  }, [snapshot, entries, currentPosition, span]);
+
+  useEffect(() => {
+    onFrameChange(frame);
+  }, [frame, onFrameChange]);
+
+  // Leave the timeline view when closed
+  useEffect(() => {
+    return () => onFrameChange(null);
+  }, [onFrameChange]);
+
+  // Advance the position while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const step = span * PLAYBACK_TICK_MS / PLAYBACK_DURATION_MS;
+    const interval = setInterval(() => {
+      setPosition(prev => Math.min((prev ?? end) + step, end));
+    }, PLAYBACK_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, span, end]);
+
+  // Stop once the end of the timeline is reached
+  useEffect(() => {
+    if (isPlaying && currentPosition >= end) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, currentPosition, end]);
+
+  const togglePlay = () => {
+    // Playing from the end starts over
+    if (!isPlaying && currentPosition >= end) {
+      setPosition(start);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  // Jump to the previous or next change in the history
+  const stepTo = (direction: -1 | 1) => {
+    setIsPlaying(false);
+    const times = entries.map(getEntryTime);
+    const target = direction === 1 ?
+      times.find(time => time > currentPosition) :
+      [...times].reverse().find(time => time < currentPosition);
+
+    setPosition(target ?? (direction === 1 ? end : start));
+  };
+
+  const marks = useMemo(
+    () => entries.length <= 200 ? entries.map(entry => ({ value: getEntryTime(entry) })) : [],
+    [entries]
+  );
+
+  const appliedCount = useMemo(
+    () => entries.filter(entry => getEntryTime(entry) <= currentPosition).length,
+    [entries, currentPosition]
+  );
+
+  const isLoading = isLoadingHistory || isLoadingSnapshot;
+  const isError = isHistoryError || isSnapshotError;
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        position: 'absolute',
+        bottom: 16,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: 'min(640px, calc(100% - 32px))',
+        p: 1.5,
+        zIndex: 2
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+          History: {new Date(currentPosition).toLocaleString()}
+        </Typography>
+        {frame && (
+          <Typography variant="caption" color="text.secondary">
+            {frame.features.length} features, {appliedCount}/{entries.length} changes
+          </Typography>
+        )}
+        <Tooltip title="Back to the live map">
+          <IconButton size="small" onClick={onClose}>
+            <CloseIcon />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : isError ? (
+        <Typography variant="body2" color="error" sx={{ py: 1 }}>
+          Failed to load the map history
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Tooltip title="Previous change">
+            <IconButton size="small" onClick={() => stepTo(-1)}>
+              <PreviousIcon />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={isPlaying ? 'Pause' : 'Play'}>
+            <IconButton size="small" color="primary" onClick={togglePlay} disabled={entries.length === 0}>
+              {isPlaying ? <PauseIcon /> : <PlayIcon />}
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Next change">
+            <IconButton size="small" onClick={() => stepTo(1)}>
+              <NextIcon />
+            </IconButton>
+          </Tooltip>
+          <Slider
+            size="small"
+            min={start}
+            max={end}
+            step={1}
+            marks={marks}
+            value={currentPosition}
+            onChange={(_, value) => {
+              setIsPlaying(false);
+              setPosition(value as number);
+            }}
+            valueLabelDisplay="auto"
+            valueLabelFormat={value => new Date(value).toLocaleTimeString()}
+            disabled={entries.length === 0}
+            sx={{ mx: 1 }}
+          />
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
+export default HistoryTimeline;
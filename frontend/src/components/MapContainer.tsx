@@ -18,7 +18,12 @@ import {
   Drawer,
   ListItemButton,
   ListItemIcon,
-  Collapse
+  Collapse,
+  Menu,
+  MenuItem,
+  Checkbox,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
 import { 
   ArrowBack as ArrowBackIcon, 
@@ -32,18 +37,33 @@ import {
   Comment as CommentIcon,
   ExpandMore,
   ExpandLess,
-  Explore as ExploreIcon
+  Explore as ExploreIcon,
+  History as HistoryIcon,
+  FileUpload as FileUploadIcon,
+  FileDownload as FileDownloadIcon
 } from '@mui/icons-material';
 import { throttle } from 'lodash';
 import { useUserStore } from '../store/useUserStore';
 import { useCommentStore } from '../store/useCommentStore';
+import { useFeatureStore } from '../store/useFeatureStore';
 import { useMutation } from '@tanstack/react-query';
 import { updateCommentPosition } from '../api/comments';
-import { Position, Map as MapType } from '../types';
+import { uploadFeatureImage } from '../api/features';
+import { importFile, getImportFormat, IMPORT_EXTENSIONS } from '../api/import';
+import { downloadMapExport, EXPORT_FORMATS } from '../api/export';
+import { Position, Map as MapType, Feature, CommentStatus } from '../types';
+import { verticesToCoordinates, minVertices } from '../utils/featureGeometry';
+import { TimelineFrame } from '../utils/historyPlayback';
 import UserMarker from './UserMarker';
 import CommentMarker from './CommentMarker';
 import CommentDialog from './CommentDialog';
 import AddCommentLayer from './AddCommentLayer';
+import FeatureLayer, { FEATURE_LAYER_IDS } from './FeatureLayer';
+import FeatureTileLayer from './FeatureTileLayer';
+import DrawingToolbar from './DrawingToolbar';
+import AddTextFeatureDialog from './AddTextFeatureDialog';
+import HistoryTimeline from './HistoryTimeline';
+import TimelineLayer from './TimelineLayer';
 
 // Import Socket type
 import { Socket } from 'socket.io-client';
@@ -61,6 +81,19 @@ const INITIAL_VIEW_STATE = {
   zoom: 12
 };
 
+// Image types accepted by the backend for image features
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'];
+
+// How often the lock on the selected feature is renewed (well within the server's lock TTL)
+const LOCK_HEARTBEAT_INTERVAL = 10000;
+
+// Feature being dragged by the local user
+interface FeatureDragState {
+  feature: Feature;
+  start: Position;
+  offset: Position;
+}
+
 const MapContainer: React.FC<MapContainerProps> = ({ 
   mapId, 
   mapData, 
@@ -75,16 +108,27 @@ const MapContainer: React.FC<MapContainerProps> = ({
   const [mousePosition, setMousePosition] = useState<Position | null>(null);
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [commentsExpanded, setCommentsExpanded] = useState(true);
+  // Hide closed (resolved or won't fix) threads, in the drawer and on the map
+  const [hideResolved, setHideResolved] = useState(false);
   const [usersExpanded, setUsersExpanded] = useState(true);
+  const [addTextPosition, setAddTextPosition] = useState<Position | null>(null);
+  // History timeline - while open, the map shows the replayed frame instead of the live features
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [timelineFrame, setTimelineFrame] = useState<TimelineFrame | null>(null);
   
   const { 
     users, 
     currentUser,
     disableCursorTracking,
     toggleCursorTracking,
-    removeUser
+    removeUser,
+    adaptiveSettings
   } = useUserStore();
   
+  // On a poor connection the server asks for fewer sends (and none at all for previews when critical)
+  const sendInterval = adaptiveSettings?.batchInterval || 0;
+  const realtimeDisabled = adaptiveSettings?.disableRealtime === true;
+  
   const { 
     comments, 
     selectedComment, 
@@ -95,11 +139,91 @@ const MapContainer: React.FC<MapContainerProps> = ({
     setIsDraggingComment
   } = useCommentStore();
   
+  const visibleComments = useMemo(
+    () => hideResolved ? comments.filter(comment => comment.status === 'open') : comments,
+    [comments, hideResolved]
+  );
+  
+  const {
+    activeTool,
+    drawingVertices,
+    selectedFeatureId,
+    viewportLoading,
+    selectFeature,
+    setActiveTool,
+    addDrawingVertex,
+    clearDrawingVertices,
+    setDragPreview,
+    clearDragPreview
+  } = useFeatureStore();
+  
+  // Feature drag in progress (kept in a ref to avoid re-rendering on every mouse move)
+  const featureDragRef = useRef<FeatureDragState | null>(null);
+  
+  // Image feature creation: chosen position and files waiting for their feature to be created
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const imagePositionRef = useRef<Position | null>(null);
+  const pendingImagesRef = useRef<File[]>([]);
+  
+  // Data file import (GeoJSON, ...)
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [importing, setImporting] = useState(false);
+  
+  // Map export menu
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<HTMLElement | null>(null);
+  const [exportComments, setExportComments] = useState(false);
+  
   // Store previous users for cleanup check
   const prevUsersRef = useRef<string[]>([]);
   
-  // Memoize socket ID for stable comparisons
-  const socketId = useMemo(() => socketRef.current?.id, [socketRef.current?.id]);
+  // Own user id as authenticated by the server (not the socket id)
+  const selfId = currentUser?.id;
+  
+  // What the user's role in the map allows (the backend enforces it anyway)
+  const role = currentUser?.role;
+  const canEdit = !role || role === 'owner' || role === 'editor';
+  const canComment = canEdit || role === 'commenter';
+  
+  // Drawing tools are only available to editors
+  useEffect(() => {
+    if (!canEdit && activeTool !== 'select') {
+      clearDrawingVertices();
+      setActiveTool('select');
+    }
+  }, [canEdit, activeTool, clearDrawingVertices, setActiveTool]);
+  
+  // Features shown with a simplified geometry are loaded in full when selected, before any edit
+  const selectedSimplified = useFeatureStore(state =>
+    selectedFeatureId ? !!state.features[selectedFeatureId]?.simplified : false
+  );
+  useEffect(() => {
+    if (socketRef.current && selectedFeatureId && selectedSimplified) {
+      socketRef.current.emit('get-feature', selectedFeatureId);
+    }
+  }, [socketRef, selectedFeatureId, selectedSimplified]);
+  
+  // Lock the selected feature while editing it, and keep the lock alive
+  // Features already locked by someone else are only selected
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket || !selectedFeatureId || !canEdit || timelineOpen) return;
+    
+    const lock = useFeatureStore.getState().locks[selectedFeatureId];
+    const lockedByOther = lock && lock.holder.id !== selfId;
+    socket.emit('select-features', {
+      featureIds: [selectedFeatureId],
+      lock: lockedByOther ? undefined : 'soft'
+    });
+    
+    const heartbeat = lockedByOther ? null : setInterval(() => {
+      socket.emit('lock-heartbeat', [selectedFeatureId]);
+    }, LOCK_HEARTBEAT_INTERVAL);
+    
+    return () => {
+      if (heartbeat) clearInterval(heartbeat);
+      socket.emit('deselect-features');
+    };
+  }, [socketRef, selectedFeatureId, canEdit, timelineOpen, selfId]);
   
   // Comment position mutation
   const updateCommentPositionMutation = useMutation({
@@ -174,26 +298,369 @@ const MapContainer: React.FC<MapContainerProps> = ({
       return;
     }
     
+    // The history timeline is read-only
+    if (timelineOpen) return;
+    
     // Add comment at clicked position
     if (isAddingComment) {
       setAddCommentPosition({
         lng: e.lngLat.lng,
         lat: e.lngLat.lat
       });
-    } else {
-      // If a comment is selected, deselect it
-      if (selectedComment) {
-        selectComment(null);
+      return;
+    }
+    
+    // If a comment is selected, deselect it
+    if (selectedComment) {
+      selectComment(null);
+    }
+    
+    const position = { lng: e.lngLat.lng, lat: e.lngLat.lat };
+    
+    switch (activeTool) {
+      case 'select':
+        selectFeature(e.features?.[0]?.properties?.id || null);
+        break;
+        
+      case 'point':
+        socketRef.current?.emit('create-point', {
+          coordinates: [position.lng, position.lat],
+          properties: {}
+        });
+        break;
+        
+      case 'line':
+      case 'polygon':
+        addDrawingVertex(position);
+        break;
+        
+      case 'text':
+        setAddTextPosition(position);
+        break;
+        
+      case 'image':
+        imagePositionRef.current = position;
+        fileInputRef.current?.click();
+        break;
+    }
+  };
+  
+  // Finish the line or polygon being drawn
+  const finishDrawing = () => {
+    if (activeTool !== 'line' && activeTool !== 'polygon') return;
+    
+    // A double-click also adds the same vertex twice through the click handler
+    const vertices = drawingVertices.filter((v, i) => 
+      i === 0 || v.lng !== drawingVertices[i - 1].lng || v.lat !== drawingVertices[i - 1].lat
+    );
+    
+    if (vertices.length < minVertices(activeTool)) return;
+    
+    socketRef.current?.emit(`create-${activeTool}`, {
+      coordinates: verticesToCoordinates(activeTool, vertices),
+      properties: {}
+    });
+    clearDrawingVertices();
+  };
+  
+  // Double-click finishes the shape being drawn
+  const handleMapDblClick = (e: MapLayerMouseEvent) => {
+    if (activeTool === 'line' || activeTool === 'polygon') {
+      e.preventDefault();
+      finishDrawing();
+    }
+  };
+  
+  // Delete the selected feature
+  const deleteSelectedFeature = () => {
+    if (!selectedFeatureId || !socketRef.current) return;
+    
+    if (window.confirm('Are you sure you want to delete this feature?')) {
+      socketRef.current.emit('delete-features', [selectedFeatureId]);
+      selectFeature(null);
+    }
+  };
+  
+  // Import the features of a data file into the map
+  const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    const format = getImportFormat(file.name);
+    if (!format) {
+      window.alert(`Unsupported file. Use one of: ${IMPORT_EXTENSIONS.join(', ')}`);
+      return;
+    }
+    
+    setImporting(true);
+    try {
+      const summary = await importFile(mapId, format, file);
+      const failures = summary.failures.slice(0, 5).map(failure => `- ${failure.source}: ${failure.message}`);
+      window.alert([
+        `Imported ${summary.imported} feature(s)${summary.failed > 0 ? `, ${summary.failed} failed` : ''}.`,
+        ...failures,
+        ...(summary.failed > failures.length ? ['...'] : [])
+      ].join('\n'));
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : 'Failed to import file');
+    } finally {
+      setImporting(false);
+    }
+  };
+  
+  // Download the map in the chosen format
+  const exportMap = (format: string) => {
+    setExportMenuAnchor(null);
+    downloadMapExport(mapId, format, exportComments, currentUser?.id || '', currentUser?.name || '')
+      .catch(error => window.alert(error instanceof Error ? error.message : 'Failed to export map'));
+  };
+  
+  // Undo/redo the user's own operations on this map
+  const undo = useCallback(() => socketRef.current?.emit('undo'), [socketRef]);
+  const redo = useCallback(() => socketRef.current?.emit('redo'), [socketRef]);
+  
+  // Keyboard shortcuts for undo/redo (ignored while typing in inputs)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (!(e.ctrlKey || e.metaKey) || timelineOpen || !canEdit) return;
+      
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
       }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, timelineOpen, canEdit]);
+  
+  // Create the text feature once the user typed its content
+  const handleAddText = (text: string) => {
+    if (addTextPosition && socketRef.current) {
+      socketRef.current.emit('create-text', {
+        coordinates: [addTextPosition.lng, addTextPosition.lat],
+        properties: { text }
+      });
     }
+    setAddTextPosition(null);
   };
   
+  // Create the image feature - the file is uploaded once the server has created the feature
+  const handleImageFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const position = imagePositionRef.current;
+    
+    // Reset so the same file can be chosen again
+    e.target.value = '';
+    imagePositionRef.current = null;
+    
+    if (!file || !position || !socketRef.current) return;
+    
+    if (!IMAGE_TYPES.includes(file.type)) {
+      window.alert(`Unsupported image type. Use one of: ${IMAGE_TYPES.join(', ')}`);
+      return;
+    }
+    
+    pendingImagesRef.current.push(file);
+    socketRef.current.emit('create-image', {
+      coordinates: [position.lng, position.lat],
+      properties: { imageType: file.type }
+    });
+  };
+  
+  // Upload pending image files when our image features come back from the server
+  useEffect(() => {
+    return useFeatureStore.subscribe((state, prevState) => {
+      if (pendingImagesRef.current.length === 0 || !currentUser) return;
+      
+      Object.values(state.features).forEach(feature => {
+        if (prevState.features[feature.id] || feature.feature_type !== 'image' || 
+            feature.user_id !== currentUser.id) {
+          return;
+        }
+        
+        const index = pendingImagesRef.current.findIndex(f => f.type === feature.properties.imageType);
+        if (index === -1) return;
+        
+        const [file] = pendingImagesRef.current.splice(index, 1);
+        uploadFeatureImage(mapId, feature.id, currentUser.id, currentUser.name, file)
+          .catch(error => console.error("Failed to upload image:", error));
+      });
+    });
+  }, [mapId, currentUser]);
+  
+  // Share the drag offset with other users while dragging
+  const emitFeatureDrag = useMemo(() => throttle((feature: Feature, offset: Position) => {
+    if (realtimeDisabled) return;
+    socketRef.current?.emit(`drag-${feature.feature_type}`, {
+      featureId: feature.id,
+      offset
+    });
+  }, Math.max(50, sendInterval)), [socketRef, sendInterval, realtimeDisabled]);
+  
+  // Show the drag locally and to others
+  const dragFeature = (feature: Feature, offset: Position) => {
+    setDragPreview({
+      featureId: feature.id,
+      offset,
+      dragger: { id: currentUser?.id || '', name: currentUser?.name || '' }
+    });
+    emitFeatureDrag(feature, offset);
+  };
+  
+  // Persist the final position of a dragged feature
+  const endFeatureDrag = (feature: Feature, offset: Position) => {
+    emitFeatureDrag.cancel();
+    
+    if (offset.lng === 0 && offset.lat === 0) {
+      clearDragPreview(feature.id);
+      return;
+    }
+    
+    // Only the translation is sent; the preview stays until the server confirms it (or reports a conflict)
+    socketRef.current?.emit('update-geometry-delta', {
+      featureId: feature.id,
+      delta: { translate: offset },
+      version: feature.version,
+      merge: true // Property changes made by others meanwhile don't block the move
+    });
+  };
+  
+  // Start dragging a feature in the select tool
+  const handleMouseDown = (e: MapLayerMouseEvent) => {
+    if (activeTool !== 'select' || isAddingComment || timelineOpen || !canEdit || !mapRef) return;
+    
+    const featureId = e.features?.[0]?.properties?.id;
+    const feature = featureId ? useFeatureStore.getState().features[featureId] : undefined;
+    if (!feature) return;
+    
+    // Features someone else is editing can be selected but not moved
+    const lock = useFeatureStore.getState().locks[feature.id];
+    if (lock && lock.holder.id !== selfId) {
+      selectFeature(feature.id);
+      return;
+    }
+    
+    // Nor can features until their full geometry has arrived
+    if (feature.simplified) {
+      selectFeature(feature.id);
+      return;
+    }
+    
+    e.preventDefault();
+    mapRef.getMap().dragPan.disable();
+    selectFeature(feature.id);
+    featureDragRef.current = {
+      feature,
+      start: { lng: e.lngLat.lng, lat: e.lngLat.lat },
+      offset: { lng: 0, lat: 0 }
+    };
+  };
+  
+  // Finish dragging a feature
+  const handleMouseUp = () => {
+    const drag = featureDragRef.current;
+    if (!drag) return;
+    
+    featureDragRef.current = null;
+    mapRef?.getMap().dragPan.enable();
+    endFeatureDrag(drag.feature, drag.offset);
+  };
+  
+  // Update the dragged feature position
+  const handleFeatureDragMove = (e: MapLayerMouseEvent) => {
+    const drag = featureDragRef.current;
+    if (!drag) return;
+    
+    drag.offset = {
+      lng: e.lngLat.lng - drag.start.lng,
+      lat: e.lngLat.lat - drag.start.lat
+    };
+    dragFeature(drag.feature, drag.offset);
+  };
+  
+  // Bounds and zoom of what is on screen, as the server expects them
+  const getViewport = useCallback(() => {
+    if (!mapRef) return null;
+    
+    const bounds = mapRef.getBounds();
+    return {
+      minLng: Math.max(bounds.getWest(), -180),
+      minLat: Math.max(bounds.getSouth(), -90),
+      maxLng: Math.min(bounds.getEast(), 180),
+      maxLat: Math.min(bounds.getNorth(), 90),
+      zoom: mapRef.getZoom() // Geometries are simplified to what can be seen at this zoom
+    };
+  }, [mapRef]);
+  
+  // Load the features in view when the map is too large to load at once
+  const loadFeaturesInView = useCallback(() => {
+    const viewport = getViewport();
+    if (!viewport || !socketRef.current) return;
+    
+    socketRef.current.emit('get-features-in-bounds', viewport);
+  }, [getViewport, socketRef]);
+  
+  useEffect(() => {
+    if (viewportLoading) {
+      loadFeaturesInView();
+    }
+  }, [viewportLoading, loadFeaturesInView]);
+  
+  // Tell the server what is in view, so it only sends the feature updates and cursors there
+  // (and what changed out of view once the map moves there)
+  const updateViewport = useCallback(() => {
+    const viewport = getViewport();
+    if (!viewport || !socketRef.current) return;
+    
+    socketRef.current.emit('update-viewport', viewport);
+  }, [getViewport, socketRef]);
+  
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!mapInitialized || !socket) return;
+    
+    updateViewport();
+    
+    // A new connection starts without a viewport
+    socket.on('connect', updateViewport);
+    return () => {
+      socket.off('connect', updateViewport);
+    };
+  }, [mapInitialized, socketRef, updateViewport]);
+  
+  const handleMoveEnd = useCallback(() => {
+    updateViewport();
+    if (viewportLoading) {
+      loadFeaturesInView();
+    }
+  }, [updateViewport, viewportLoading, loadFeaturesInView]);
+  
   // Handle view state change - track it but don't directly feed it back to the map
   const handleViewStateChange = useCallback((e: ViewStateChangeEvent) => {
     // Store the current view state for UI display without feeding it back to the map
     setCurrentViewState(e.viewState);
   }, []);
   
+  // Close or reopen a comment thread - everyone gets the updated comment from the server
+  const handleCommentStatusChange = (commentId: number, status: CommentStatus) => {
+    const socket = socketRef.current;
+    if (!socket) return;
+    
+    if (status === 'open') {
+      socket.emit('reopen-comment', { id: commentId });
+    } else {
+      socket.emit('resolve-comment', { id: commentId, status });
+    }
+  };
+  
   // Fly to comment location
   const flyToComment = (comment: { lng: number, lat: number }) => {
     if (!mapRef) return;
@@ -222,7 +689,7 @@ const MapContainer: React.FC<MapContainerProps> = ({
   // Throttle mouse movement with increased delay and only emit when necessary
   const handleMouseMove = useCallback(throttle((e: MapLayerMouseEvent) => {
     // Skip sending position updates when dragging, in special modes, or tracking disabled
-    if (isDraggingComment !== false || isAddingComment || disableCursorTracking) return;
+    if (isDraggingComment !== false || isAddingComment || disableCursorTracking || featureDragRef.current) return;
     
     if (!mapRef || !socketRef.current) return;
     
@@ -236,8 +703,10 @@ const MapContainer: React.FC<MapContainerProps> = ({
     setMousePosition(lngLat);
     
     // Send raw coordinates to server with increased throttle time
-    socketRef.current.emit('mousemove', lngLat);
-  }, 150), [mapRef, socketRef, isDraggingComment, isAddingComment, disableCursorTracking]);
+    if (!realtimeDisabled) {
+      socketRef.current.emit('mousemove', lngLat);
+    }
+  }, Math.max(150, sendInterval)), [mapRef, socketRef, isDraggingComment, isAddingComment, disableCursorTracking, sendInterval, realtimeDisabled]);
   
   const userCount = Object.keys(users).length;
   
@@ -246,7 +715,7 @@ const MapContainer: React.FC<MapContainerProps> = ({
     return Object.values(users)
       .filter(user => {
         // Skip rendering yourself
-        if (user.id === socketId) {
+        if (user.id === selfId) {
           return false;
         }
         
@@ -263,17 +732,17 @@ const MapContainer: React.FC<MapContainerProps> = ({
           key={`user-${user.id}`}
           user={user}
           isSelf={false} // Always false since we filter out self
-          socketId={socketId}
+          socketId={selfId}
         />
       ));
   };
   
   const renderCommentMarkers = () => {
-    if (!comments || comments.length === 0) {
+    if (!visibleComments || visibleComments.length === 0) {
       return null;
     }
     
-    return comments
+    return visibleComments
       .filter(comment => {
         // Skip rendering if comment has invalid coordinates
         if (typeof comment.lng === 'undefined' || typeof comment.lat === 'undefined') {
@@ -368,20 +837,77 @@ const MapContainer: React.FC<MapContainerProps> = ({
           )}
           
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-            <Button 
-              variant="contained" 
-              color="secondary" 
-              startIcon={isAddingComment ? <CloseIcon /> : <AddIcon />}
-              onClick={() => setIsAddingComment(!isAddingComment)}
+            <Button
+              variant={timelineOpen ? 'contained' : 'outlined'}
+              color="inherit"
+              startIcon={<HistoryIcon />}
+              onClick={() => {
+                if (!timelineOpen) {
+                  clearDrawingVertices();
+                  selectFeature(null);
+                }
+                setTimelineOpen(!timelineOpen);
+              }}
+              size="small"
+            >
+              History
+            </Button>
+            
+            <Button
+              variant="outlined"
+              color="inherit"
+              startIcon={<FileDownloadIcon />}
+              onClick={(e) => setExportMenuAnchor(e.currentTarget)}
               size="small"
             >
-              {isAddingComment ? 'Cancel' : 'Add Comment'}
+              Export
             </Button>
+            <Menu
+              anchorEl={exportMenuAnchor}
+              open={Boolean(exportMenuAnchor)}
+              onClose={() => setExportMenuAnchor(null)}
+            >
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <MenuItem key={format} onClick={() => exportMap(format)}>
+                  {label}
+                </MenuItem>
+              ))}
+              <Divider />
+              <MenuItem dense onClick={() => setExportComments(!exportComments)}>
+                <Checkbox size="small" checked={exportComments} sx={{ p: 0, mr: 1 }} />
+                Include comments
+              </MenuItem>
+            </Menu>
+            
+            {canEdit && (
+              <Button
+                variant="outlined"
+                color="inherit"
+                startIcon={<FileUploadIcon />}
+                onClick={() => importInputRef.current?.click()}
+                disabled={importing || timelineOpen}
+                size="small"
+              >
+                {importing ? 'Importing...' : 'Import'}
+              </Button>
+            )}
+            
+            {canComment && (
+              <Button 
+                variant="contained" 
+                color="secondary" 
+                startIcon={isAddingComment ? <CloseIcon /> : <AddIcon />}
+                onClick={() => setIsAddingComment(!isAddingComment)}
+                size="small"
+              >
+                {isAddingComment ? 'Cancel' : 'Add Comment'}
+              </Button>
+            )}
             
             <Box sx={{ display: 'flex', alignItems: 'center' }}>
               <PersonPinIcon sx={{ mr: 1 }} />
               <Typography variant="body2">
-                {userCount - (socketId && users[socketId] ? 1 : 0)} user{userCount !== 2 ? 's' : ''} online
+                {userCount - (selfId && users[selfId] ? 1 : 0)} user{userCount !== 2 ? 's' : ''} online
               </Typography>
             </Box>
             
@@ -446,18 +972,30 @@ const MapContainer: React.FC<MapContainerProps> = ({
             <ListItemIcon>
               <CommentIcon />
             </ListItemIcon>
-            <ListItemText primary={`Comments (${comments.length})`} />
+            <ListItemText primary={`Comments (${visibleComments.length})`} />
             {commentsExpanded ? <ExpandLess /> : <ExpandMore />}
           </ListItemButton>
           
           <Collapse in={commentsExpanded} timeout="auto">
             <List component="div" disablePadding>
-              {comments.length === 0 ? (
+              <ListItem sx={{ pl: 4 }}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      size="small"
+                      checked={hideResolved}
+                      onChange={(e) => setHideResolved(e.target.checked)}
+                    />
+                  }
+                  label={<Typography variant="body2">Hide resolved</Typography>}
+                />
+              </ListItem>
+              {visibleComments.length === 0 ? (
                 <ListItem sx={{ pl: 4 }}>
-                  <ListItemText secondary="No comments yet" />
+                  <ListItemText secondary={comments.length === 0 ? "No comments yet" : "No open comments"} />
                 </ListItem>
               ) : (
-                comments.map(comment => (
+                visibleComments.map(comment => (
                   <ListItemButton 
                     key={comment.id} 
                     sx={{ pl: 4 }}
@@ -479,6 +1017,8 @@ const MapContainer: React.FC<MapContainerProps> = ({
                           }
                           <Typography variant="caption" display="block" sx={{ mt: 0.5 }}>
                             Replies: {comment.replies.length}
+                            {comment.status === 'resolved' && ' · Resolved'}
+                            {comment.status === 'wont-fix' && " · Won't fix"}
                           </Typography>
                         </>
                       }
@@ -517,7 +1057,7 @@ const MapContainer: React.FC<MapContainerProps> = ({
               
               {/* Then show other users */}
               {Object.values(users)
-                .filter(user => user.id !== socketId)
+                .filter(user => user.id !== selfId)
                 .map(user => (
                   <ListItem key={user.id} sx={{ pl: 4 }}>
                     <ListItemText 
@@ -533,7 +1073,7 @@ const MapContainer: React.FC<MapContainerProps> = ({
               }
               
               {/* If no other users, show message */}
-              {Object.values(users).filter(user => user.id !== socketId).length === 0 && (
+              {Object.values(users).filter(user => user.id !== selfId).length === 0 && (
                 <ListItem sx={{ pl: 4 }}>
                   <ListItemText secondary="No other users online" />
                 </ListItem>
@@ -561,16 +1101,72 @@ const MapContainer: React.FC<MapContainerProps> = ({
           onMove={handleViewStateChange}
           style={{ width: '100%', height: '100%' }}
           mapStyle="https://demotiles.maplibre.org/style.json"
-          onMouseMove={handleMouseMove}
+          onMouseMove={(e) => {
+            handleFeatureDragMove(e);
+            handleMouseMove(e);
+          }}
+          onMouseDown={handleMouseDown}
+          onMouseUp={handleMouseUp}
+          onMoveEnd={handleMoveEnd}
           onClick={handleMapClick}
-          cursor={isAddingComment ? 'crosshair' : 'grab'}
+          onDblClick={handleMapDblClick}
+          doubleClickZoom={activeTool !== 'line' && activeTool !== 'polygon'}
+          interactiveLayerIds={activeTool === 'select' && !timelineOpen ? FEATURE_LAYER_IDS : []}
+          cursor={!timelineOpen && (isAddingComment || activeTool !== 'select') ? 'crosshair' : 'grab'}
         >
+          {timelineOpen ? (
+            timelineFrame && <TimelineLayer frame={timelineFrame} />
+          ) : (
+            <>
+              {/* Large maps are drawn from vector tiles, under the features loaded for editing */}
+              {viewportLoading && <FeatureTileLayer mapId={mapId} />}
+              <FeatureLayer
+                mapId={mapId}
+                isDraggable={activeTool === 'select' && !isAddingComment && canEdit}
+                selfId={selfId}
+                onImageDrag={dragFeature}
+                onImageDragEnd={endFeatureDrag}
+              />
+            </>
+          )}
+          
           {/* Render markers with defensive checks */}
           {renderUserMarkers()}
           {renderCommentMarkers()}
           {renderDraggingComment()}
         </Map>
         
+        {timelineOpen ? (
+          <HistoryTimeline
+            mapId={mapId}
+            onFrameChange={setTimelineFrame}
+            onClose={() => setTimelineOpen(false)}
+          />
+        ) : canEdit && (
+          <DrawingToolbar
+            onFinishDrawing={finishDrawing}
+            onDeleteSelected={deleteSelectedFeature}
+            onUndo={undo}
+            onRedo={redo}
+          />
+        )}
+        
+        {/* Hidden file input used by the image tool */}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMAGE_TYPES.join(',')}
+          style={{ display: 'none' }}
+          onChange={handleImageFileChange}
+        />
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={IMPORT_EXTENSIONS.join(',')}
+          style={{ display: 'none' }}
+          onChange={handleImportFileChange}
+        />
+        
         {/* Coordinates display */}
         <Paper
           elevation={3}
@@ -631,6 +1227,16 @@ const MapContainer: React.FC<MapContainerProps> = ({
           <CommentDialog 
             comment={selectedComment} 
             onClose={() => selectComment(null)} 
+            onChangeStatus={canComment ? 
+              (status) => handleCommentStatusChange(selectedComment.id, status) : undefined}
+          />
+        )}
+        
+        {addTextPosition && (
+          <AddTextFeatureDialog
+            position={addTextPosition}
+            onSubmit={handleAddText}
+            onClose={() => setAddTextPosition(null)}
           />
         )}
         
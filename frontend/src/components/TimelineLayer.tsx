@@ -0,0 +1,164 @@
+// Path: components\TimelineLayer.tsx
+import React, { useMemo, memo } from 'react';
+import { Source, Layer } from 'react-map-gl/maplibre';
+import type { FeatureCollection } from 'geojson';
+import { TimelineFrame } from '../utils/historyPlayback';
+import { toGeoJSONFeature } from '../utils/featureGeometry';
+
+// Highlight colors of each kind of change
+const CHANGE_COLORS = {
+  created: '#4caf50',
+  updated: '#ff9800',
+  deleted: '#f44336'
+};
+
+const changeColor = [
+  'match', ['get', 'change'],
+  'created', CHANGE_COLORS.created,
+  'updated', CHANGE_COLORS.updated,
+  'deleted', CHANGE_COLORS.deleted,
+  'transparent'
+] as any;
+
+// Highlights fade out as the change gets older
+const changeOpacity = ['-', 1, ['get', 'changeAge']] as any;
+
+const hasChange = ['has', 'change'] as any;
+const isPointLike = ['==', ['geometry-type'], 'Point'] as any;
+
+interface TimelineLayerProps {
+  frame: TimelineFrame;
+}
+
+/**
+ * Read-only rendering of the map at a point of its history
+ * Uses its own sources so the live features are left untouched
+ */
+const TimelineLayer: React.FC<TimelineLayerProps> = ({ frame }) => {
+  const featureCollection = useMemo<FeatureCollection>(() => ({
+    type: 'FeatureCollection',
+    features: [...frame.features, ...frame.ghosts].map(feature => {
+      const geoJSONFeature = toGeoJSONFeature(feature);
+      const change = frame.changes[feature.id];
+
+      if (change) {
+        geoJSONFeature.properties = {
+          ...geoJSONFeature.properties,
+          change: change.change,
+          changeAge: Math.min(Math.max(change.age, 0), 1)
+        };
+      }
+
+      return geoJSONFeature;
+    })
+  }), [frame]);
+
+  // Deleted features are only drawn through their highlight
+  const notDeleted = ['!=', ['get', 'change'], 'deleted'] as any;
+
+  return (
+    <Source id="timeline" type="geojson" data={featureCollection}>
+      <Layer
+        id="timeline-polygon-fill"
+        type="fill"
+        filter={['all', notDeleted, ['==', ['get', 'feature_type'], 'polygon']]}
+        paint={{
+          'fill-color': ['get', 'fillColor'],
+          'fill-opacity': ['get', 'fillOpacity']
+        }}
+      />
+      <Layer
+        id="timeline-polygon-border"
+        type="line"
+        filter={['all', notDeleted, ['==', ['get', 'feature_type'], 'polygon']]}
+        paint={{
+          'line-color': ['get', 'borderColor'],
+          'line-width': ['get', 'borderSize'],
+          'line-opacity': ['get', 'borderOpacity']
+        }}
+      />
+      <Layer
+        id="timeline-line"
+        type="line"
+        filter={['all', notDeleted, ['==', ['get', 'feature_type'], 'line']]}
+        layout={{ 'line-cap': 'round', 'line-join': 'round' }}
+        paint={{
+          'line-color': ['get', 'color'],
+          'line-width': ['get', 'size'],
+          'line-opacity': ['get', 'opacity']
+        }}
+      />
+      <Layer
+        id="timeline-point"
+        type="circle"
+        filter={['all', notDeleted, ['==', ['get', 'feature_type'], 'point']]}
+        paint={{
+          'circle-color': ['get', 'color'],
+          'circle-radius': ['get', 'size'],
+          'circle-opacity': ['get', 'opacity'],
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 1
+        }}
+      />
+      {/* Image content is not versioned, so images are shown as placeholders */}
+      <Layer
+        id="timeline-image"
+        type="circle"
+        filter={['all', notDeleted, ['==', ['get', 'feature_type'], 'image']]}
+        paint={{
+          'circle-color': '#9e9e9e',
+          'circle-radius': 8,
+          'circle-opacity': ['coalesce', ['get', 'opacity'], 1],
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 2
+        }}
+      />
+      <Layer
+        id="timeline-text"
+        type="symbol"
+        filter={['all', notDeleted, ['==', ['get', 'feature_type'], 'text']]}
+        layout={{
+          'text-field': ['get', 'text'],
+          'text-font': ['Open Sans Semibold'],
+          'text-size': ['get', 'size'],
+          'text-rotate': ['get', 'rotation'],
+          'text-justify': ['get', 'justification'],
+          'text-allow-overlap': true,
+          'text-ignore-placement': true
+        }}
+        paint={{
+          'text-color': ['get', 'color'],
+          'text-halo-color': ['get', 'bufferColor'],
+          'text-halo-width': 1.5
+        }}
+      />
+
+      {/* Change highlights - a pulse that grows and fades as playback moves on */}
+      <Layer
+        id="timeline-change-line"
+        type="line"
+        filter={['all', hasChange, ['!', isPointLike]]}
+        paint={{
+          'line-color': changeColor,
+          'line-width': ['+', 3, ['*', 6, ['get', 'changeAge']]],
+          'line-opacity': changeOpacity,
+          'line-dasharray': [2, 1]
+        }}
+      />
+      <Layer
+        id="timeline-change-point"
+        type="circle"
+        filter={['all', hasChange, isPointLike]}
+        paint={{
+          'circle-color': 'transparent',
+          'circle-radius': ['+', 10, ['*', 20, ['get', 'changeAge']]],
+          'circle-stroke-color': changeColor,
+          'circle-stroke-width': 3,
+          'circle-stroke-opacity': changeOpacity
+        }}
+      />
+    </Source>
+  );
+};
+
+export default memo(TimelineLayer);
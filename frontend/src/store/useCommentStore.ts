@@ -12,6 +12,7 @@ interface CommentState {
   updateComment: (comment: Comment) => void;
   moveComment: (comment: Comment) => void;
   deleteComment: (commentId: number) => void;
+  detachComments: (featureIds: string[]) => void;
   addReply: (reply: Reply, commentId: number) => void;
   updateReply: (reply: Reply, commentId: number) => void;
   deleteReply: (replyId: number, commentId: number) => void;
@@ -136,6 +137,17 @@ export const useCommentStore = create<CommentState>((set) => ({
     selectedComment: state.selectedComment?.id === commentId ? null : state.selectedComment
   })),
   
+  // Comments of deleted features stay where they are, no longer anchored
+  detachComments: (featureIds) => set((state) => {
+    const detach = (comment: Comment) => comment.feature_id && featureIds.includes(comment.feature_id) ?
+      { ...comment, feature_id: null } : comment;
+    
+    return {
+      comments: state.comments.map(detach),
+      selectedComment: state.selectedComment ? detach(state.selectedComment) : null
+    };
+  }),
+  
   addReply: (reply, commentId) => set((state) => {
     if (!reply || !reply.id || !commentId) {
       console.warn("Invalid reply in addReply:", reply, commentId);
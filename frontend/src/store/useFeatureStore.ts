@@ -0,0 +1,210 @@
+// Path: store\useFeatureStore.ts
+import { create } from 'zustand';
+import { Feature, DrawingTool, FeatureDragPreview, FeatureLock, GeometryDelta, Position } from '../types';
+import { applyGeometryDelta } from '../utils/featureGeometry';
+
+interface FeatureState {
+  features: Record<string, Feature>;
+  selectedFeatureId: string | null;
+  activeTool: DrawingTool;
+  drawingVertices: Position[]; // Vertices of the line/polygon being drawn
+  dragPreviews: Record<string, FeatureDragPreview>; // Keyed by feature id
+  viewportLoading: boolean; // Map too large to load at once, features are fetched per viewport
+  imageChecksums: Record<string, string>; // Used to refresh image features when their content changes
+  locks: Record<string, FeatureLock>; // Keyed by feature id, including the user's own locks
+  setFeatures: (features: Feature[]) => void;
+  mergeFeatures: (features: Feature[]) => void;
+  upsertFeature: (feature: Feature) => void;
+  applyGeometryDelta: (featureId: string, delta: GeometryDelta, baseVersion: number, version: number, updatedAt: string) => boolean;
+  deleteFeature: (featureId: string) => void;
+  deleteFeatures: (featureIds: string[]) => void;
+  clearFeatures: () => void;
+  selectFeature: (featureId: string | null) => void;
+  setActiveTool: (tool: DrawingTool) => void;
+  addDrawingVertex: (vertex: Position) => void;
+  clearDrawingVertices: () => void;
+  setDragPreview: (preview: FeatureDragPreview) => void;
+  clearDragPreview: (featureId: string) => void;
+  setViewportLoading: (enabled: boolean) => void;
+  setImageChecksum: (featureId: string, checksum: string) => void;
+  setLocks: (locks: FeatureLock[]) => void;
+  addLocks: (locks: FeatureLock[]) => void;
+  removeLocks: (featureIds: string[], holderId?: string) => void;
+}
+
+// Validate feature data received from the server
+const isValidFeature = (feature: any): feature is Feature => {
+  return feature &&
+    typeof feature === 'object' &&
+    typeof feature.id === 'string' &&
+    typeof feature.feature_type === 'string' &&
+    feature.geometry &&
+    Array.isArray(feature.geometry.coordinates);
+};
+
+// Build a features map, skipping invalid entries
+const toFeatureMap = (features: Feature[]): Record<string, Feature> => {
+  const featureMap: Record<string, Feature> = {};
+
+  features.forEach(feature => {
+    if (isValidFeature(feature)) {
+      featureMap[feature.id] = feature;
+    } else {
+      console.warn("Invalid feature data:", feature);
+    }
+  });
+
+  return featureMap;
+};
+
+// Remove entries by id from a record without mutating it
+const omitIds = <T,>(record: Record<string, T>, ids: string[]): Record<string, T> => {
+  const result = { ...record };
+  ids.forEach(id => {
+    delete result[id];
+  });
+  return result;
+};
+
+export const useFeatureStore = create<FeatureState>((set, get) => ({
+  features: {},
+  selectedFeatureId: null,
+  activeTool: 'select',
+  drawingVertices: [],
+  dragPreviews: {},
+  viewportLoading: false,
+  imageChecksums: {},
+  locks: {},
+
+  setFeatures: (features) => {
+    console.log("Setting features in store:", features.length);
+    set({ features: toFeatureMap(features), dragPreviews: {} });
+  },
+
+  // Add features loaded in chunks (e.g. by viewport) to the ones already known
+  mergeFeatures: (features) => set((state) => ({
+    features: { ...state.features, ...toFeatureMap(features) }
+  })),
+
+  upsertFeature: (feature) => set((state) => {
+    if (!isValidFeature(feature)) {
+      console.warn("Invalid feature in upsertFeature:", feature);
+      return state;
+    }
+
+    // Ignore stale updates that arrive out of order
+    const existing = state.features[feature.id];
+    if (existing && existing.version > feature.version) {
+      return state;
+    }
+
+    return {
+      features: {
+        ...state.features,
+        [feature.id]: feature
+      },
+      // The stored geometry now reflects the drag, so drop any preview
+      dragPreviews: omitIds(state.dragPreviews, [feature.id])
+    };
+  }),
+
+  // Returns false when the local copy isn't the version the delta was made against (it must be reloaded)
+  applyGeometryDelta: (featureId, delta, baseVersion, version, updatedAt) => {
+    const feature = get().features[featureId];
+    if (feature && feature.version >= version) return true; // Already up to date
+    if (!feature || feature.version !== baseVersion || feature.simplified) return false;
+
+    const coordinates = applyGeometryDelta(feature, delta);
+    if (!coordinates) return false;
+
+    set((state) => ({
+      features: {
+        ...state.features,
+        [featureId]: {
+          ...feature,
+          geometry: { ...feature.geometry, coordinates },
+          version,
+          updated_at: updatedAt
+        }
+      },
+      dragPreviews: omitIds(state.dragPreviews, [featureId])
+    }));
+    return true;
+  },
+
+  deleteFeature: (featureId) => set((state) => ({
+    features: omitIds(state.features, [featureId]),
+    dragPreviews: omitIds(state.dragPreviews, [featureId]),
+    locks: omitIds(state.locks, [featureId]),
+    selectedFeatureId: state.selectedFeatureId === featureId ? null : state.selectedFeatureId
+  })),
+
+  deleteFeatures: (featureIds) => set((state) => ({
+    features: omitIds(state.features, featureIds),
+    dragPreviews: omitIds(state.dragPreviews, featureIds),
+    locks: omitIds(state.locks, featureIds),
+    selectedFeatureId: state.selectedFeatureId && featureIds.includes(state.selectedFeatureId) ?
+      null : state.selectedFeatureId
+  })),
+
+  clearFeatures: () => set({
+    features: {},
+    selectedFeatureId: null,
+    drawingVertices: [],
+    dragPreviews: {},
+    viewportLoading: false,
+    imageChecksums: {},
+    locks: {}
+  }),
+
+  selectFeature: (featureId) => set({ selectedFeatureId: featureId }),
+
+  // Switching tools discards any unfinished drawing
+  setActiveTool: (tool) => set({ activeTool: tool, drawingVertices: [], selectedFeatureId: null }),
+
+  addDrawingVertex: (vertex) => set((state) => ({
+    drawingVertices: [...state.drawingVertices, vertex]
+  })),
+
+  clearDrawingVertices: () => set({ drawingVertices: [] }),
+
+  setDragPreview: (preview) => set((state) => ({
+    dragPreviews: {
+      ...state.dragPreviews,
+      [preview.featureId]: preview
+    }
+  })),
+
+  clearDragPreview: (featureId) => set((state) => ({
+    dragPreviews: omitIds(state.dragPreviews, [featureId])
+  })),
+
+  setViewportLoading: (enabled) => set({ viewportLoading: enabled }),
+
+  setImageChecksum: (featureId, checksum) => set((state) => ({
+    imageChecksums: {
+      ...state.imageChecksums,
+      [featureId]: checksum
+    }
+  })),
+
+  // Replace all locks (e.g. when the current locks of a map are received)
+  setLocks: (locks) => set({
+    locks: Object.fromEntries(locks.map(lock => [lock.featureId, lock]))
+  }),
+
+  addLocks: (locks) => set((state) => ({
+    locks: {
+      ...state.locks,
+      ...Object.fromEntries(locks.map(lock => [lock.featureId, lock]))
+    }
+  })),
+
+  // With a holder, locks meanwhile taken by someone else are kept
+  removeLocks: (featureIds, holderId) => set((state) => ({
+    locks: omitIds(
+      state.locks,
+      holderId ? featureIds.filter(id => state.locks[id]?.holder.id === holderId) : featureIds
+    )
+  }))
+}));
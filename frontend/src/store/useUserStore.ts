@@ -1,12 +1,13 @@
 // Path: store\useUserStore.ts
 import { create } from 'zustand';
-import { User, Users, Position } from '../types';
+import { User, Users, Position, AdaptiveSettings } from '../types';
 
 interface UserState {
   users: Users;
   currentUser: User | null;
   currentMap: number | null;
   disableCursorTracking: boolean;
+  adaptiveSettings: AdaptiveSettings | null; // Null until the server has assessed the connection
   setUsers: (users: User[]) => void;
   updateUser: (user: User) => void;
   removeUser: (userId: string) => void;
@@ -14,6 +15,7 @@ interface UserState {
   clearUsers: () => void;
   setCurrentUser: (user: User | null) => void;
   toggleCursorTracking: (disabled: boolean) => void;
+  setAdaptiveSettings: (settings: AdaptiveSettings | null) => void;
 }
 
 // Validate position to ensure it has lng and lat
@@ -42,6 +44,7 @@ export const useUserStore = create<UserState>((set) => ({
   currentUser: null,
   currentMap: null,
   disableCursorTracking: false,
+  adaptiveSettings: null,
   
   setUsers: (users: User[]) => {
     const usersMap: Users = {};
@@ -160,5 +163,9 @@ export const useUserStore = create<UserState>((set) => ({
   
   toggleCursorTracking: (disabled: boolean) => {
     set({ disableCursorTracking: disabled });
+  },
+  
+  setAdaptiveSettings: (settings: AdaptiveSettings | null) => {
+    set({ adaptiveSettings: settings });
   }
 }));
\ No newline at end of file
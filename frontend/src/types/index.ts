@@ -4,16 +4,29 @@ export interface Position {
   lat: number;
 }
 
+// Role of a user in a map, as enforced by the backend
+export type MapRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
 export interface User {
   id: string;
   name: string;
   position: Position;
+  role?: MapRole | null; // Only known for the current user
 }
 
 export interface Users {
   [userId: string]: User;
 }
 
+// How the server adapts what it sends to the quality of our connection
+export interface AdaptiveSettings {
+  batchInterval: number; // Milliseconds between batched sends (0 = real time)
+  compressionLevel: number;
+  reducedPrecision: boolean;
+  loadFullMap: boolean; // False: load features by viewport
+  disableRealtime?: boolean; // Don't share the cursor or drag previews
+}
+
 export interface Map {
   id: number;
   name: string;
@@ -26,6 +39,9 @@ export interface MapFormData {
   description: string;
 }
 
+// Status of a comment thread - resolved and wont-fix threads are closed
+export type CommentStatus = 'open' | 'resolved' | 'wont-fix';
+
 export interface Comment {
   id: number;
   map_id: number;
@@ -34,6 +50,11 @@ export interface Comment {
   content: string;
   lng: number;
   lat: number;
+  feature_id?: string | null; // Feature the comment is anchored to, moving with it
+  status: CommentStatus;
+  resolved_by?: string | null; // Who closed the thread and when, while it is closed
+  resolved_by_name?: string | null;
+  resolved_at?: string | null;
   created_at: string;
   updated_at: string;
   replies: Reply[];
@@ -55,4 +76,92 @@ export interface CommentFormData {
 
 export interface ReplyFormData {
   content: string;
-}
\ No newline at end of file
+}
+
+export type FeatureType = 'point' | 'line' | 'polygon' | 'text' | 'image';
+
+export interface Feature {
+  id: string;
+  map_id: number;
+  feature_type: FeatureType;
+  geometry: {
+    type: 'Point' | 'LineString' | 'Polygon';
+    coordinates: any;
+  };
+  properties: Record<string, any>;
+  user_id: string;
+  user_name: string;
+  created_at: string;
+  updated_at: string;
+  version: number;
+  simplified?: boolean; // Geometry simplified for the zoom it was loaded at, the full one is loaded on select
+}
+
+// Active drawing tool in the map toolbar
+export type DrawingTool = 'select' | FeatureType;
+
+// Change of one vertex, by ring (polygons) and index within it (ignoring the closing position of rings)
+export interface VertexOperation {
+  op: 'insert' | 'move' | 'delete';
+  ring?: number;
+  index: number;
+  position?: [number, number];
+}
+
+// Compact geometry change sent instead of the whole coordinates: a translation, then vertex operations
+export interface GeometryDelta {
+  translate?: Position;
+  vertices?: VertexOperation[];
+}
+
+// Live drag of a feature by another user, applied as an offset to its stored geometry
+export interface FeatureDragPreview {
+  featureId: string;
+  offset: Position;
+  dragger: {
+    id: string;
+    name: string;
+  };
+}
+
+// Lock held by a user while editing a feature
+export interface FeatureLock {
+  featureId: string;
+  mode: 'soft' | 'hard'; // Soft locks can be taken over, hard locks can't
+  holder: {
+    id: string;
+    name: string;
+  };
+  expiresAt: number;
+}
+
+// Entry of a map's feature history as returned by the API
+export interface FeatureHistoryEntry {
+  id: number;
+  feature_id: string | null;
+  map_id: number;
+  operation: 'create' | 'update' | 'delete';
+  previous_state: Feature | null;
+  new_state: Feature | null;
+  user_id: string;
+  user_name: string;
+  timestamp: string;
+}
+
+// Features of a map reconstructed at a point in time
+export interface MapSnapshot {
+  at: number;
+  features: Feature[];
+}
+
+// Kind of change a feature went through in the history timeline
+export type TimelineChange = 'created' | 'updated' | 'deleted';
+
+// Outcome of importing a file into a map
+export interface ImportSummary {
+  format: string;
+  imported: number;
+  featureIds: string[];
+  failed: number;
+  failures: Array<{ source: string; message: string }>; // Records that could not be imported
+}
@@ -0,0 +1,124 @@
+// Path: utils\featureGeometry.ts
+import type { Feature as GeoJSONFeature, Geometry } from 'geojson';
+import { Feature, FeatureType, GeometryDelta, Position, VertexOperation } from '../types';
+
+/**
+ * Shift every position of a (possibly nested) coordinates array by an offset
+ */
+export const offsetCoordinates = (coordinates: any, offset: Position): any => {
+  if (Array.isArray(coordinates) && coordinates.length === 2 &&
+      typeof coordinates[0] === 'number' && typeof coordinates[1] === 'number') {
+    return [coordinates[0] + offset.lng, coordinates[1] + offset.lat];
+  }
+
+  if (Array.isArray(coordinates)) {
+    return coordinates.map(coord => offsetCoordinates(coord, offset));
+  }
+
+  return coordinates;
+};
+
+/**
+ * Bounding box of a feature's geometry as [minLng, minLat, maxLng, maxLat]
+ */
+export const featureBounds = (feature: Feature): [number, number, number, number] => {
+  const { type, coordinates } = feature.geometry;
+  const positions: number[][] =
+    type === 'Point' ? [coordinates] :
+    type === 'LineString' ? coordinates :
+    coordinates.flat();
+  const lngs = positions.map(position => position[0]);
+  const lats = positions.map(position => position[1]);
+
+  return [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)];
+};
+
+/**
+ * Apply a vertex operation to a list of positions, false if the index is out of range
+ */
+const applyVertexOperation = (positions: number[][], { op, index, position }: VertexOperation): boolean => {
+  if (index > (op === 'insert' ? positions.length : positions.length - 1)) return false;
+
+  if (op === 'insert') {
+    positions.splice(index, 0, [...position!]);
+  } else if (op === 'move') {
+    positions[index] = [...position!];
+  } else {
+    positions.splice(index, 1);
+  }
+  return true;
+};
+
+/**
+ * Apply a geometry delta (as broadcast by the server) to a feature's coordinates
+ * Returns null when it doesn't fit them, in which case the feature has to be reloaded
+ */
+export const applyGeometryDelta = (feature: Feature, delta: GeometryDelta): any | null => {
+  let coordinates = delta.translate ?
+    offsetCoordinates(feature.geometry.coordinates, delta.translate) :
+    feature.geometry.coordinates;
+  const operations = delta.vertices || [];
+
+  if (operations.length === 0) return coordinates;
+
+  if (feature.geometry.type === 'Point') {
+    const last = operations[operations.length - 1];
+    return last.op === 'move' && last.index === 0 ? [...last.position!] : null;
+  }
+
+  if (feature.geometry.type === 'LineString') {
+    const positions = coordinates.map((position: number[]) => [...position]);
+    return operations.every(operation => applyVertexOperation(positions, operation)) ? positions : null;
+  }
+
+  // Polygon rings are edited without their closing position
+  const rings: number[][][] = coordinates.map((ring: number[][]) => ring.slice(0, -1).map(position => [...position]));
+  const applied = operations.every(operation => {
+    const ring = rings[operation.ring || 0];
+    return ring !== undefined && applyVertexOperation(ring, operation);
+  });
+  coordinates = rings.map(ring => ring.length > 0 ? [...ring, [...ring[0]]] : ring);
+
+  return applied ? coordinates : null;
+};
+
+/**
+ * Convert a stored feature to a GeoJSON feature for rendering
+ * Style properties are flattened so layer expressions can read them with ['get', ...]
+ */
+export const toGeoJSONFeature = (feature: Feature, offset?: Position): GeoJSONFeature => ({
+  type: 'Feature',
+  id: feature.id,
+  geometry: {
+    type: feature.geometry.type,
+    coordinates: offset ? offsetCoordinates(feature.geometry.coordinates, offset) : feature.geometry.coordinates
+  } as Geometry,
+  properties: {
+    ...feature.properties,
+    id: feature.id,
+    feature_type: feature.feature_type
+  }
+});
+
+/**
+ * Build the coordinates for a line or polygon from the vertices being drawn
+ * Polygons get a single closed ring as the backend requires
+ */
+export const verticesToCoordinates = (featureType: FeatureType, vertices: Position[]): any => {
+  const positions = vertices.map(v => [v.lng, v.lat]);
+
+  if (featureType === 'polygon') {
+    return [[...positions, positions[0]]];
+  }
+
+  return positions;
+};
+
+/**
+ * Minimum number of vertices needed to finish drawing a feature
+ */
+export const minVertices = (featureType: FeatureType): number => {
+  if (featureType === 'line') return 2;
+  if (featureType === 'polygon') return 3;
+  return 1;
+};
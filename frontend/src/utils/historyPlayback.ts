@@ -0,0 +1,82 @@
+// Path: utils\historyPlayback.ts
+import { Feature, FeatureHistoryEntry, TimelineChange } from '../types';
+
+// Recent change of a feature at the current timeline position
+export interface TimelineChangeInfo {
+  change: TimelineChange;
+  age: number; // 0 when it just happened, 1 when its highlight is over
+}
+
+// Features of the map at a timeline position
+export interface TimelineFrame {
+  features: Feature[];
+  ghosts: Feature[]; // Features deleted recently, shown while their highlight fades
+  changes: Record<string, TimelineChangeInfo>;
+}
+
+export const getEntryTime = (entry: FeatureHistoryEntry): number => Date.parse(entry.timestamp);
+
+const getEntryFeatureId = (entry: FeatureHistoryEntry): string | null =>
+  entry.feature_id || entry.new_state?.id || entry.previous_state?.id || null;
+
+/**
+ * Sort history entries oldest first, in the order they were applied
+ */
+export const sortHistoryEntries = (entries: FeatureHistoryEntry[]): FeatureHistoryEntry[] =>
+  [...entries].sort((a, b) => getEntryTime(a) - getEntryTime(b) || a.id - b.id);
+
+/**
+ * Replay the history on top of the features at its start, up to a point in time
+ * Changes within the highlight window before 'at' are reported so they can be animated
+ */
+export const replayHistory = (
+  baseFeatures: Feature[],
+  entries: FeatureHistoryEntry[],
+  at: number,
+  highlightWindow: number
+): TimelineFrame => {
+  const states: Record<string, Feature> = {};
+  baseFeatures.forEach(feature => { states[feature.id] = feature; });
+
+  const ghosts: Record<string, Feature> = {};
+  const changes: Record<string, TimelineChangeInfo> = {};
+
+  for (const entry of entries) {
+    const time = getEntryTime(entry);
+    if (time > at) break;
+
+    const featureId = getEntryFeatureId(entry);
+    if (!featureId) continue;
+
+    const isRecent = at - time < highlightWindow;
+
+    if (entry.operation === 'delete' || !entry.new_state) {
+      const previous = states[featureId] || entry.previous_state;
+      delete states[featureId];
+
+      if (isRecent && previous) {
+        ghosts[featureId] = previous;
+      } else {
+        delete ghosts[featureId];
+      }
+    } else {
+      states[featureId] = entry.new_state;
+      delete ghosts[featureId];
+    }
+
+    if (isRecent) {
+      changes[featureId] = {
+        change: entry.operation === 'create' ? 'created' : entry.operation === 'delete' ? 'deleted' : 'updated',
+        age: highlightWindow > 0 ? (at - time) / highlightWindow : 0
+      };
+    } else {
+      delete changes[featureId];
+    }
+  }
+
+  return {
+    features: Object.values(states),
+    ghosts: Object.values(ghosts),
+    changes
+  };
+};
@@ -0,0 +1,185 @@
+// Path: utils\msgpackParser.ts
+import { Emitter } from '@socket.io/component-emitter';
+import { encode, decode, ExtensionCodec } from '@msgpack/msgpack';
+
+// Query the client connects with so the server sends MessagePack packets too
+export const MSGPACK_QUERY = { parser: 'msgpack' };
+
+// MessagePack extension type of coordinate arrays packed as Float64Array bytes (same as the server)
+const COORDINATES_EXT_TYPE = 1;
+
+// Socket.IO packet types
+const CONNECT = 0;
+const DISCONNECT = 1;
+const EVENT = 2;
+const ACK = 3;
+const CONNECT_ERROR = 4;
+
+interface Packet {
+  type: number;
+  nsp: string;
+  data?: any;
+  id?: number;
+}
+
+/**
+ * Nested coordinate array flattened into a typed array
+ * `counts` is null for a single position, the number of positions for an array of positions,
+ * or the counts of each child for deeper arrays
+ */
+class PackedCoordinates {
+  constructor(
+    readonly dimension: number,
+    readonly counts: any,
+    readonly values: Float64Array
+  ) {}
+}
+
+/**
+ * Flatten a GeoJSON coordinate array, or null if it can't be (empty arrays, mixed dimensions...)
+ */
+const packCoordinates = (coordinates: any): PackedCoordinates | null => {
+  const values: number[] = [];
+  let dimension = 0;
+  let valid = true;
+
+  const walk = (node: any): any => {
+    if (!valid || !Array.isArray(node) || node.length === 0) {
+      valid = false;
+      return null;
+    }
+
+    if (typeof node[0] === 'number') {
+      if (dimension === 0) dimension = node.length;
+      if (node.length !== dimension || node.some(value => typeof value !== 'number')) {
+        valid = false;
+        return null;
+      }
+      values.push(...node);
+      return null;
+    }
+
+    const children = node.map(walk);
+    if (!valid) return null;
+
+    if (children.every(child => child === null)) return node.length;
+    if (children.some(child => child === null)) {
+      valid = false;
+      return null;
+    }
+    return children;
+  };
+
+  const counts = walk(coordinates);
+  return valid ? new PackedCoordinates(dimension, counts, Float64Array.from(values)) : null;
+};
+
+/**
+ * Rebuild the nested coordinate array from its flattened values
+ */
+const unpackCoordinates = (dimension: number, counts: any, values: Float64Array): any => {
+  let offset = 0;
+
+  const position = (): number[] => {
+    const result = Array.from(values.subarray(offset, offset + dimension));
+    offset += dimension;
+    return result;
+  };
+
+  const build = (node: any): any => {
+    if (node === null) return position();
+    if (typeof node === 'number') return Array.from({ length: node }, position);
+    return node.map(build);
+  };
+
+  return build(counts);
+};
+
+const extensionCodec = new ExtensionCodec();
+extensionCodec.register({
+  type: COORDINATES_EXT_TYPE,
+  encode: (input) => {
+    if (!(input instanceof PackedCoordinates)) return null;
+    return encode([
+      input.dimension,
+      input.counts,
+      new Uint8Array(input.values.buffer, input.values.byteOffset, input.values.byteLength)
+    ]);
+  },
+  decode: (data) => {
+    const [dimension, counts, bytes] = decode(data) as [number, any, Uint8Array];
+    // Copied so the Float64Array starts on an aligned offset
+    return unpackCoordinates(dimension, counts, new Float64Array(new Uint8Array(bytes).buffer));
+  }
+});
+
+/**
+ * Copy of a value with every `coordinates` array packed, and dates as JSON would send them
+ */
+const packGeometries = (value: any): any => {
+  if (Array.isArray(value)) return value.map(packGeometries);
+
+  if (value === null || typeof value !== 'object' || ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    return value;
+  }
+
+  if (value instanceof Date) return value.toISOString();
+
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(value)) {
+    const packed = key === 'coordinates' ? packCoordinates(value[key]) : null;
+    result[key] = packed || packGeometries(value[key]);
+  }
+  return result;
+};
+
+const isPacketValid = (packet: any): packet is Packet => {
+  if (!packet || typeof packet !== 'object' || typeof packet.nsp !== 'string') return false;
+  if (packet.id !== undefined && !Number.isInteger(packet.id)) return false;
+
+  switch (packet.type) {
+    case CONNECT:
+      return packet.data === undefined || (typeof packet.data === 'object' && packet.data !== null);
+    case DISCONNECT:
+      return packet.data === undefined;
+    case EVENT:
+      return Array.isArray(packet.data) && packet.data.length > 0;
+    case ACK:
+      return Array.isArray(packet.data);
+    case CONNECT_ERROR:
+      return typeof packet.data === 'string' || (typeof packet.data === 'object' && packet.data !== null);
+    default:
+      return false;
+  }
+};
+
+class Encoder {
+  encode(packet: Packet): Uint8Array[] {
+    return [encode(
+      { type: packet.type, nsp: packet.nsp, data: packGeometries(packet.data), id: packet.id },
+      { extensionCodec, ignoreUndefined: true }
+    )];
+  }
+}
+
+class Decoder extends Emitter<{}, {}, { decoded: (packet: Packet) => void }> {
+  add(chunk: ArrayBuffer | Uint8Array | string) {
+    if (typeof chunk === 'string') {
+      throw new Error('Unexpected text packet on a MessagePack connection');
+    }
+
+    const packet = decode(chunk, { extensionCodec });
+    if (!isPacketValid(packet)) {
+      throw new Error('Invalid MessagePack packet');
+    }
+    this.emitReserved('decoded', packet);
+  }
+
+  destroy() {}
+}
+
+/**
+ * Socket.IO parser sending packets as MessagePack, with coordinates as typed arrays
+ * Must be used together with MSGPACK_QUERY, which makes the server answer in MessagePack
+ */
+export const msgpackParser = { Encoder, Decoder };
@@ -4,6 +4,7 @@
 interface ImportMetaEnv {
     readonly VITE_API_URL: string;
     readonly VITE_SOCKET_SERVER: string;
+    readonly VITE_AUTH_TOKEN?: string;
   }
   
   interface ImportMeta {
@@ -1,4 +1,5 @@
--- Enable PostGIS extension
+-- Enable UUID and PostGIS extensions
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS postgis;
 
 -- Create maps table first since it's referenced by comments
@@ -9,9 +10,23 @@ CREATE TABLE IF NOT EXISTS maps (
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Role of each member of a map (maps without members are open to every user)
+CREATE TABLE IF NOT EXISTS map_members (
+  map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+  user_id VARCHAR(255) NOT NULL,
+  user_name VARCHAR(255),
+  role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'editor', 'commenter', 'viewer')),
+  added_by VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (map_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS map_members_user_id_idx ON map_members(user_id);
+
 -- Create comments table
 CREATE TABLE IF NOT EXISTS comments (
-  id SERIAL PRIMARY KEY,
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
   user_id VARCHAR(255) NOT NULL,
   user_name VARCHAR(255) NOT NULL,
@@ -19,27 +34,38 @@ CREATE TABLE IF NOT EXISTS comments (
   lng DOUBLE PRECISION NOT NULL,
   lat DOUBLE PRECISION NOT NULL,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  client_id VARCHAR(255),
+  offline_created BOOLEAN DEFAULT FALSE,
+  status VARCHAR(10) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'wont-fix')),
+  resolved_by VARCHAR(255) NULL,
+  resolved_by_name VARCHAR(255) NULL,
+  resolved_at TIMESTAMP NULL
 );
 
 -- Create replies table
 CREATE TABLE IF NOT EXISTS replies (
-  id SERIAL PRIMARY KEY,
-  comment_id INTEGER NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
   user_id VARCHAR(255) NOT NULL,
   user_name VARCHAR(255) NOT NULL,
   content TEXT NOT NULL,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  client_id VARCHAR(255),
+  offline_created BOOLEAN DEFAULT FALSE
 );
 
 -- Create indexes for faster queries
 CREATE INDEX IF NOT EXISTS comments_map_id_idx ON comments(map_id);
+CREATE INDEX IF NOT EXISTS comments_map_status_idx ON comments(map_id, status);
 CREATE INDEX IF NOT EXISTS replies_comment_id_idx ON replies(comment_id);
+CREATE INDEX IF NOT EXISTS comments_client_id_idx ON comments(client_id) WHERE client_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS replies_client_id_idx ON replies(client_id) WHERE client_id IS NOT NULL;
 
 -- Create features table (partition-ready but not partitioned)
-CREATE TABLE features (
-  id SERIAL PRIMARY KEY,
+CREATE TABLE IF NOT EXISTS features (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
   feature_type VARCHAR(10) NOT NULL CHECK (feature_type IN ('point', 'line', 'polygon', 'text', 'image')),
   geometry GEOMETRY NOT NULL,
@@ -48,26 +74,125 @@ CREATE TABLE features (
   user_name VARCHAR(255) NOT NULL,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  version INTEGER DEFAULT 1
+  version INTEGER DEFAULT 1,
+  client_id VARCHAR(255),
+  offline_created BOOLEAN DEFAULT FALSE
 );
 
 -- Add map_id to indexes for partition-readiness
-CREATE INDEX features_map_id_idx ON features(map_id);
-CREATE INDEX features_feature_type_idx ON features(feature_type);
-CREATE INDEX features_geom_idx ON features USING GIST (geometry);
+CREATE INDEX IF NOT EXISTS features_map_id_idx ON features(map_id);
+CREATE INDEX IF NOT EXISTS features_feature_type_idx ON features(feature_type);
+CREATE INDEX IF NOT EXISTS features_geom_idx ON features USING GIST (geometry);
+CREATE INDEX IF NOT EXISTS features_client_id_idx ON features(client_id) WHERE client_id IS NOT NULL;
 
 -- Feature history table (partition-ready but not partitioned)
-CREATE TABLE feature_history (
+CREATE TABLE IF NOT EXISTS feature_history (
   id SERIAL PRIMARY KEY,
-  feature_id INTEGER REFERENCES features(id) ON DELETE SET NULL,
+  feature_id UUID REFERENCES features(id) ON DELETE SET NULL,
   map_id INTEGER NOT NULL,
   operation VARCHAR(10) NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
   previous_state JSONB NULL,
   new_state JSONB NULL,
   user_id VARCHAR(255) NOT NULL,
   user_name VARCHAR(255) NOT NULL,
-  timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  client_operation_id VARCHAR(255),
+  undone BOOLEAN NOT NULL DEFAULT FALSE,
+  undo_action VARCHAR(4) NULL CHECK (undo_action IN ('undo', 'redo')),
+  source_history_id INTEGER NULL
+);
+
+CREATE INDEX IF NOT EXISTS feature_history_map_id_idx ON feature_history(map_id);
+CREATE INDEX IF NOT EXISTS feature_history_feature_id_idx ON feature_history(feature_id);
+CREATE INDEX IF NOT EXISTS feature_history_state_id_idx ON feature_history((new_state->>'id'));
+CREATE INDEX IF NOT EXISTS feature_history_client_operation_id_idx ON feature_history(client_operation_id)
+  WHERE client_operation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS feature_history_map_user_idx ON feature_history(map_id, user_id);
+CREATE INDEX IF NOT EXISTS feature_history_map_entry_idx ON feature_history(map_id, id);
+
+-- Binary content of image features
+-- Rows outlive their feature, so undoing its deletion or restoring the map brings the image back
+CREATE TABLE IF NOT EXISTS feature_images (
+  feature_id UUID PRIMARY KEY,
+  map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+  mime_type VARCHAR(50) NOT NULL,
+  data BYTEA NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  thumbnail BYTEA,
+  checksum VARCHAR(64) NOT NULL,
+  user_id VARCHAR(255) NOT NULL,
+  user_name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS feature_images_map_id_idx ON feature_images(map_id);
+
+-- Feature a comment is anchored to (comments are created before features, so it is added here)
+-- Deleting the feature keeps the thread where it was, as a plain comment, until the feature comes back
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS feature_id UUID NULL
+  REFERENCES features(id) ON DELETE SET NULL;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS detached_feature_id UUID NULL;
+CREATE INDEX IF NOT EXISTS comments_feature_id_idx ON comments(feature_id) WHERE feature_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS comments_detached_feature_id_idx ON comments(detached_feature_id)
+  WHERE detached_feature_id IS NOT NULL;
+
+-- Tables shared by the Socket.IO servers: live nodes, presence, selections and
+-- feature locks in each map, and broadcasts too large for a NOTIFY payload
+CREATE TABLE IF NOT EXISTS socket_nodes (
+  node_id UUID PRIMARY KEY,
+  started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_heartbeat TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS map_presence (
+  map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+  user_id VARCHAR(255) NOT NULL,
+  user_name VARCHAR(255) NOT NULL,
+  node_id UUID NOT NULL,
+  socket_id VARCHAR(64) NOT NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'away')),
+  lng DOUBLE PRECISION NOT NULL DEFAULT 0,
+  lat DOUBLE PRECISION NOT NULL DEFAULT 0,
+  joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (map_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS feature_selections (
+  map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+  feature_id VARCHAR(255) NOT NULL,
+  user_id VARCHAR(255) NOT NULL,
+  user_name VARCHAR(255) NOT NULL,
+  node_id UUID NOT NULL,
+  socket_id VARCHAR(64),
+  selected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (map_id, feature_id)
+);
+
+CREATE TABLE IF NOT EXISTS feature_locks (
+  feature_id VARCHAR(255) PRIMARY KEY,
+  map_id INTEGER NOT NULL REFERENCES maps(id) ON DELETE CASCADE,
+  user_id VARCHAR(255) NOT NULL,
+  user_name VARCHAR(255) NOT NULL,
+  socket_id VARCHAR(64) NOT NULL,
+  mode VARCHAR(4) NOT NULL CHECK (mode IN ('soft', 'hard')),
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS socket_payloads (
+  id BIGSERIAL PRIMARY KEY,
+  payload TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
-CREATE INDEX feature_history_map_id_idx ON feature_history(map_id);
-CREATE INDEX feature_history_feature_id_idx ON feature_history(feature_id);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS map_presence_node_id_idx ON map_presence(node_id);
+CREATE INDEX IF NOT EXISTS feature_selections_user_id_idx ON feature_selections(user_id);
+CREATE INDEX IF NOT EXISTS feature_selections_node_id_idx ON feature_selections(node_id);
+CREATE INDEX IF NOT EXISTS feature_locks_map_id_idx ON feature_locks(map_id);
+CREATE INDEX IF NOT EXISTS feature_locks_user_id_idx ON feature_locks(user_id);
+CREATE INDEX IF NOT EXISTS feature_locks_socket_id_idx ON feature_locks(socket_id);
+CREATE INDEX IF NOT EXISTS feature_locks_expires_at_idx ON feature_locks(expires_at);